@@ -0,0 +1,8 @@
+'use client'
+
+import AdminGuard from '@/components/admin/AdminGuard'
+import AuditLogView from '@/components/admin/AuditLogView'
+
+export default function AuditLogPage() {
+  return <AdminGuard><AuditLogView /></AdminGuard>
+}
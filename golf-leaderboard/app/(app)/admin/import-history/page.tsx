@@ -0,0 +1,8 @@
+'use client'
+
+import AdminGuard from '@/components/admin/AdminGuard'
+import HistoryImportView from '@/components/admin/HistoryImportView'
+
+export default function ImportHistoryPage() {
+  return <AdminGuard><HistoryImportView /></AdminGuard>
+}
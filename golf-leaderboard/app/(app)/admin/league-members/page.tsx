@@ -0,0 +1,8 @@
+'use client'
+
+import AdminGuard from '@/components/admin/AdminGuard'
+import LeagueMembersView from '@/components/admin/LeagueMembersView'
+
+export default function LeagueMembersPage() {
+  return <AdminGuard><LeagueMembersView /></AdminGuard>
+}
@@ -4,5 +4,5 @@ import AdminGuard from '@/components/admin/AdminGuard'
 import RecalculateHandicaps from '@/components/admin/RecalculateHandicaps'
 
 export default function RecalculateHandicapsPage() {
-  return <AdminGuard><RecalculateHandicaps /></AdminGuard>
+  return <AdminGuard siteAdminOnly><RecalculateHandicaps /></AdminGuard>
 }
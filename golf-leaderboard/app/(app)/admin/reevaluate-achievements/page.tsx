@@ -0,0 +1,8 @@
+'use client'
+
+import AdminGuard from '@/components/admin/AdminGuard'
+import ReevaluateAchievements from '@/components/admin/ReevaluateAchievements'
+
+export default function ReevaluateAchievementsPage() {
+  return <AdminGuard><ReevaluateAchievements /></AdminGuard>
+}
@@ -1,9 +1,11 @@
 'use client'
 
 import { useAuth } from '@/context/AuthContext'
+import { useLeague } from '@/context/LeagueContext'
 import DashboardView from '@/components/dashboard/DashboardView'
 
 export default function DashboardPage() {
   const { isAdmin } = useAuth()
-  return <DashboardView isAdmin={isAdmin} />
+  const { isLeagueAdmin } = useLeague()
+  return <DashboardView isAdmin={isLeagueAdmin} isSiteAdmin={isAdmin} />
 }
@@ -0,0 +1,7 @@
+'use client'
+
+import ScheduleView from '@/components/player/ScheduleView'
+
+export default function SchedulePage() {
+  return <ScheduleView />
+}
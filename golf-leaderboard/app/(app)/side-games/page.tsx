@@ -0,0 +1,13 @@
+'use client'
+
+import { Suspense } from 'react'
+import SideGamesLedger from '@/components/season/SideGamesLedger'
+
+export default function SideGamesPage() {
+  // The ledger reads its season and highlights from the query string
+  return (
+    <Suspense>
+      <SideGamesLedger />
+    </Suspense>
+  )
+}
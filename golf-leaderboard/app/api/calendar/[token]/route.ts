@@ -0,0 +1,33 @@
+// app/api/calendar/[token]/route.ts
+import { getCalendarFeed } from '@/lib/supabase/client';
+import { buildRoundCalendar } from '@/lib/utils/icalendar';
+import { logger } from '@/lib/logger';
+
+// Always read the latest schedule; calendar apps poll on their own interval
+export const dynamic = 'force-dynamic';
+
+/**
+ * A private iCalendar feed of rounds. Calendar apps subscribe to
+ * /api/calendar/<token>.ics without a session; the token is the credential
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  let feed: Awaited<ReturnType<typeof getCalendarFeed>>;
+  try {
+    feed = await getCalendarFeed(token.replace(/\.ics$/i, ''));
+  } catch (error) {
+    logger.error('Error loading calendar feed:', error);
+    return new Response('Calendar not found', { status: 404 });
+  }
+
+  const calendar = buildRoundCalendar(feed.name ?? 'Golf Leaderboard', feed.rounds, new Date());
+
+  return new Response(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="rounds.ics"',
+      'Cache-Control': 'private, max-age=900',
+    },
+  });
+}
@@ -8,6 +8,11 @@ const inter = Inter({ subsets: ['latin'] });
 export const metadata = {
   title: 'Golf Leaderboard App',
   description: 'Track golf scores and leaderboards',
+  appleWebApp: { capable: true, title: 'Leaderboard', statusBarStyle: 'default' },
+};
+
+export const viewport = {
+  themeColor: '#16a34a',
 };
 
 export default function RootLayout({
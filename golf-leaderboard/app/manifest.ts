@@ -0,0 +1,28 @@
+// app/manifest.ts
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Golf Leaderboard',
+    short_name: 'Leaderboard',
+    description: 'Track golf scores and leaderboards',
+    start_url: '/dashboard',
+    display: 'standalone',
+    background_color: '#f0fdf4',
+    theme_color: '#16a34a',
+    icons: [
+      {
+        src: '/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'any',
+      },
+      {
+        src: '/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'maskable',
+      },
+    ],
+  };
+}
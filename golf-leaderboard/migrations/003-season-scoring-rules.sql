@@ -0,0 +1,87 @@
+-- Migration: Per-season scoring rules
+-- Moves the points table out of calculatePoints() and into versioned rule sets
+-- that each season points at, so older seasons keep the rules they were played under
+-- Run this SQL in your Supabase SQL Editor
+
+-- Versioned rule set definitions (see src/lib/utils/scoringRules.ts for the shape)
+CREATE TABLE IF NOT EXISTS scoring_rule_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL, -- Rule family, e.g. 'gross_brackets'
+  version INTEGER NOT NULL DEFAULT 1, -- Bump instead of editing a rule set in place
+  name TEXT NOT NULL, -- Display name
+  definition JSONB NOT NULL, -- { basis, brackets: [{ min, points }], bonus: { lowRound, shareTies } }
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(key, version)
+);
+
+-- Each season resolves its points through one rule set
+ALTER TABLE seasons
+  ADD COLUMN IF NOT EXISTS scoring_rule_set_id UUID REFERENCES scoring_rule_sets(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_seasons_scoring_rule_set_id ON seasons(scoring_rule_set_id);
+
+-- Seed the built-in rule sets
+INSERT INTO scoring_rule_sets (key, version, name, definition) VALUES
+  ('gross_brackets', 1, 'Gross brackets (2026)', '{
+    "key": "gross_brackets",
+    "version": 1,
+    "name": "Gross brackets (2026)",
+    "basis": "gross",
+    "brackets": [
+      { "min": 100, "points": 0 },
+      { "min": 95, "points": 1 },
+      { "min": 90, "points": 2 },
+      { "min": 85, "points": 3 },
+      { "min": 80, "points": 4 },
+      { "min": 75, "points": 5 },
+      { "min": null, "points": 6 }
+    ],
+    "bonus": { "lowRound": 1, "shareTies": true }
+  }'::jsonb)
+ON CONFLICT (key, version) DO NOTHING;
+
+-- Seasons before 2026 were played under the league's earlier points table,
+-- which is not seeded here. If a 'legacy' v1 rule set exists when this runs,
+-- those seasons are pinned to it; otherwise they fall back to gross_brackets v1
+-- with a warning, and can be moved later by adding the old table as a rule set
+-- and pointing the seasons at it.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM seasons WHERE scoring_rule_set_id IS NULL AND start_date < '2026-01-01')
+    AND NOT EXISTS (SELECT 1 FROM scoring_rule_sets WHERE key = 'legacy' AND version = 1) THEN
+    RAISE WARNING 'No legacy v1 points table: seasons before 2026 are pinned to gross_brackets v1';
+  END IF;
+END $$;
+
+-- Pin existing seasons to the table they were played under
+UPDATE seasons
+SET scoring_rule_set_id = (SELECT id FROM scoring_rule_sets WHERE key = 'gross_brackets' AND version = 1)
+WHERE scoring_rule_set_id IS NULL
+  AND start_date >= '2026-01-01';
+
+UPDATE seasons
+SET scoring_rule_set_id = COALESCE(
+  (SELECT id FROM scoring_rule_sets WHERE key = 'legacy' AND version = 1),
+  (SELECT id FROM scoring_rule_sets WHERE key = 'gross_brackets' AND version = 1)
+)
+WHERE scoring_rule_set_id IS NULL
+  AND start_date < '2026-01-01';
+
+-- Grant necessary permissions
+GRANT SELECT ON scoring_rule_sets TO anon, authenticated;
+GRANT INSERT ON scoring_rule_sets TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE scoring_rule_sets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for scoring_rule_sets (read for all, insert for admins, never updated)
+CREATE POLICY "Scoring rule sets are viewable by everyone"
+  ON scoring_rule_sets FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can add scoring rule sets"
+  ON scoring_rule_sets FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+COMMENT ON TABLE scoring_rule_sets IS 'Versioned scoring rules (points brackets and bonus rules). Rows are never updated; add a new version instead';
+COMMENT ON COLUMN seasons.scoring_rule_set_id IS 'Scoring rules for this season. NULL falls back to the default rules in the app';
@@ -0,0 +1,27 @@
+-- Migration: World Handicap System course ratings
+-- Adds course rating and slope to courses, and the playing conditions
+-- calculation (PCC) to games, so score differentials can follow WHS
+-- Run this SQL in your Supabase SQL Editor
+
+-- Course rating and slope for the tees the league plays
+ALTER TABLE courses
+  ADD COLUMN IF NOT EXISTS course_rating NUMERIC(4,1),
+  ADD COLUMN IF NOT EXISTS slope_rating INTEGER;
+
+ALTER TABLE courses
+  DROP CONSTRAINT IF EXISTS courses_slope_rating_check;
+ALTER TABLE courses
+  ADD CONSTRAINT courses_slope_rating_check CHECK (slope_rating IS NULL OR slope_rating BETWEEN 55 AND 155);
+
+-- Playing conditions calculation for the round (-1.0 to +3.0)
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS pcc NUMERIC(2,1) NOT NULL DEFAULT 0;
+
+ALTER TABLE games
+  DROP CONSTRAINT IF EXISTS games_pcc_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_pcc_check CHECK (pcc BETWEEN -1 AND 3);
+
+COMMENT ON COLUMN courses.course_rating IS 'WHS course rating. NULL falls back to par when calculating differentials';
+COMMENT ON COLUMN courses.slope_rating IS 'WHS slope rating (55-155). NULL falls back to the standard slope of 113';
+COMMENT ON COLUMN games.pcc IS 'WHS playing conditions calculation applied to every differential in the round';
@@ -0,0 +1,59 @@
+-- Migration: Hole-by-hole scorecards
+-- Stores optional per-hole strokes, putts, fairway and GIR for a score.
+-- scores.raw_score is derived from the hole totals when a scorecard is entered
+-- Run this SQL in your Supabase SQL Editor
+
+-- How many holes the score was entered for: 18, or 9 for a 9-hole scorecard
+-- (raw_score is then the 9-hole total)
+ALTER TABLE scores
+  ADD COLUMN IF NOT EXISTS holes_played SMALLINT NOT NULL DEFAULT 18;
+
+ALTER TABLE scores
+  DROP CONSTRAINT IF EXISTS scores_holes_played_check;
+ALTER TABLE scores
+  ADD CONSTRAINT scores_holes_played_check CHECK (holes_played IN (9, 18));
+
+-- One row per hole played
+CREATE TABLE IF NOT EXISTS score_holes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  score_id UUID NOT NULL REFERENCES scores(id) ON DELETE CASCADE,
+  hole_number SMALLINT NOT NULL CHECK (hole_number BETWEEN 1 AND 18),
+  strokes SMALLINT NOT NULL CHECK (strokes BETWEEN 1 AND 20),
+  putts SMALLINT CHECK (putts >= 0 AND putts <= strokes),
+  fairway_hit BOOLEAN, -- NULL when not applicable (par 3) or not recorded
+  green_in_regulation BOOLEAN,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(score_id, hole_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_holes_score_id ON score_holes(score_id);
+
+-- Grant necessary permissions
+GRANT SELECT ON score_holes TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON score_holes TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE score_holes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for score_holes
+CREATE POLICY "Score holes are viewable by everyone"
+  ON score_holes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Players can add holes to their own scores"
+  ON score_holes FOR INSERT
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM scores WHERE scores.id = score_id AND scores.player_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true)
+  );
+
+CREATE POLICY "Admins can update score holes"
+  ON score_holes FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+CREATE POLICY "Admins can delete score holes"
+  ON score_holes FOR DELETE
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+COMMENT ON TABLE score_holes IS 'Optional hole-by-hole scorecard for a score';
+COMMENT ON COLUMN scores.holes_played IS '18, or 9 for a 9-hole scorecard whose raw_score is the 9-hole total';
@@ -0,0 +1,89 @@
+-- Migration: Course tee sets and hole layouts
+-- Each course can have several tee sets with their own rating/slope, and a
+-- per-hole layout (par, stroke index) with a yardage per tee.
+-- Games can record which tee set the round was played from.
+-- Run this SQL in your Supabase SQL Editor
+
+-- Tee sets (e.g. Blue, White, Red)
+CREATE TABLE IF NOT EXISTS course_tees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT, -- Display colour (hex), e.g. '#2563eb'
+  yardage INTEGER CHECK (yardage IS NULL OR yardage > 0), -- Total yardage
+  course_rating NUMERIC(4,1),
+  slope_rating INTEGER CHECK (slope_rating IS NULL OR slope_rating BETWEEN 55 AND 155),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(course_id, name)
+);
+
+-- Per-hole layout shared by every tee set
+CREATE TABLE IF NOT EXISTS course_holes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  hole_number SMALLINT NOT NULL CHECK (hole_number BETWEEN 1 AND 18),
+  par SMALLINT NOT NULL CHECK (par BETWEEN 3 AND 6),
+  stroke_index SMALLINT NOT NULL CHECK (stroke_index BETWEEN 1 AND 18),
+  UNIQUE(course_id, hole_number)
+);
+
+-- Yardage of each hole from each tee set
+CREATE TABLE IF NOT EXISTS course_hole_yardages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tee_id UUID NOT NULL REFERENCES course_tees(id) ON DELETE CASCADE,
+  hole_number SMALLINT NOT NULL CHECK (hole_number BETWEEN 1 AND 18),
+  yardage INTEGER NOT NULL CHECK (yardage > 0),
+  UNIQUE(tee_id, hole_number)
+);
+
+-- Tee set the round is played from (NULL = course rating/slope)
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS tee_id UUID REFERENCES course_tees(id) ON DELETE SET NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_course_tees_course_id ON course_tees(course_id);
+CREATE INDEX IF NOT EXISTS idx_course_holes_course_id ON course_holes(course_id);
+CREATE INDEX IF NOT EXISTS idx_course_hole_yardages_tee_id ON course_hole_yardages(tee_id);
+CREATE INDEX IF NOT EXISTS idx_games_tee_id ON games(tee_id);
+
+-- Grant necessary permissions
+GRANT SELECT ON course_tees, course_holes, course_hole_yardages TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON course_tees, course_holes, course_hole_yardages TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE course_tees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_holes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_hole_yardages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (read for all, write for admins)
+CREATE POLICY "Course tees are viewable by everyone"
+  ON course_tees FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage course tees"
+  ON course_tees FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+CREATE POLICY "Course holes are viewable by everyone"
+  ON course_holes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage course holes"
+  ON course_holes FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+CREATE POLICY "Hole yardages are viewable by everyone"
+  ON course_hole_yardages FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage hole yardages"
+  ON course_hole_yardages FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+COMMENT ON TABLE course_tees IS 'Tee sets for a course, each with its own course rating and slope';
+COMMENT ON TABLE course_holes IS 'Per-hole par and stroke index for a course';
+COMMENT ON TABLE course_hole_yardages IS 'Per-hole yardage from each tee set';
+COMMENT ON COLUMN games.tee_id IS 'Tee set the round is played from. NULL uses the course rating and slope';
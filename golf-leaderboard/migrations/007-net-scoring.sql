@@ -0,0 +1,53 @@
+-- Migration: Net (handicap-adjusted) scoring
+-- Adds a per-season net scoring option, stores each score's net result
+-- alongside the gross one, and exposes net totals on season_leaderboard
+-- Run this SQL in your Supabase SQL Editor
+
+-- Season option: also score rounds net of handicap
+ALTER TABLE seasons
+  ADD COLUMN IF NOT EXISTS net_scoring BOOLEAN NOT NULL DEFAULT false;
+
+-- Net result for each score, computed from the handicap as of the round date
+ALTER TABLE scores
+  ADD COLUMN IF NOT EXISTS course_handicap INTEGER,
+  ADD COLUMN IF NOT EXISTS net_score INTEGER,
+  ADD COLUMN IF NOT EXISTS net_points INTEGER,
+  ADD COLUMN IF NOT EXISTS net_bonus_points INTEGER NOT NULL DEFAULT 0;
+
+-- Recreate the leaderboard with net totals (SECURITY INVOKER, see migration 002)
+DROP VIEW IF EXISTS season_leaderboard;
+
+CREATE VIEW season_leaderboard
+WITH (security_invoker = true)
+AS
+SELECT
+    s.id AS season_id,
+    s.name AS season_name,
+    p.id AS player_id,
+    p.username,
+    p.profile_image_url,
+    COALESCE(COUNT(sc.id), 0) AS games_played,
+    COALESCE(SUM(sc.points + sc.bonus_points), 0) AS total_points,
+    COALESCE(AVG(sc.raw_score), 0) AS avg_score,
+    s.net_scoring,
+    COALESCE(SUM(sc.net_points + sc.net_bonus_points), 0) AS net_total_points,
+    COALESCE(AVG(sc.net_score), 0) AS avg_net_score
+FROM
+    seasons s
+    INNER JOIN season_participants sp ON sp.season_id = s.id
+    INNER JOIN profiles p ON p.id = sp.player_id
+    LEFT JOIN games g ON g.season_id = s.id
+    LEFT JOIN scores sc ON sc.game_id = g.id AND sc.player_id = p.id
+GROUP BY
+    s.id, s.name, s.net_scoring, p.id, p.username, p.profile_image_url
+ORDER BY
+    total_points DESC NULLS LAST;
+
+GRANT SELECT ON season_leaderboard TO anon, authenticated;
+
+COMMENT ON COLUMN seasons.net_scoring IS 'When true, every score also gets net points and a net low-round bonus, and the leaderboard offers a net ranking';
+COMMENT ON COLUMN scores.course_handicap IS 'Course handicap used for the net score, from the handicap index as of the round date. NULL when the player had no index yet (net = gross)';
+COMMENT ON COLUMN scores.net_score IS 'raw_score minus course_handicap. NULL when the season does not use net scoring';
+COMMENT ON COLUMN scores.net_points IS 'Points for net_score under the season''s scoring rules';
+COMMENT ON COLUMN scores.net_bonus_points IS 'Low-round bonus awarded on net scores';
+COMMENT ON VIEW season_leaderboard IS 'Season leaderboard with gross and net player statistics. Uses SECURITY INVOKER for proper RLS enforcement. All users can view.';
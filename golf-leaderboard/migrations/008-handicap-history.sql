@@ -0,0 +1,40 @@
+-- Migration: Handicap history
+-- Appends a row every time a player's handicap index is recalculated, so the
+-- index in effect on any past date can be looked up (net scoring, disputes)
+-- instead of only the current profiles.handicap
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS handicap_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  handicap_index NUMERIC(3,1), -- NULL until the player has 3 rounds
+  effective_date DATE NOT NULL, -- Date of the latest round counted; the index applies to rounds after it
+  rounds_used INTEGER NOT NULL DEFAULT 0, -- Rounds in the scoring record (max 20)
+  differentials_used INTEGER NOT NULL DEFAULT 0, -- Differentials averaged for the index
+  method TEXT NOT NULL DEFAULT 'whs', -- 'whs', or 'whs_backfill' for rows replayed from older scores
+  calculated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_handicap_history_player_date
+  ON handicap_history(player_id, effective_date DESC, calculated_at DESC);
+
+-- Grant necessary permissions (append-only: no UPDATE or DELETE)
+GRANT SELECT ON handicap_history TO anon, authenticated;
+GRANT INSERT ON handicap_history TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE handicap_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for handicap_history
+CREATE POLICY "Handicap history is viewable by everyone"
+  ON handicap_history FOR SELECT
+  USING (true);
+
+CREATE POLICY "Players and admins can record handicap history"
+  ON handicap_history FOR INSERT
+  WITH CHECK (
+    player_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true)
+  );
+
+COMMENT ON TABLE handicap_history IS 'Append-only log of handicap index recalculations. Existing players are backfilled on their first recalculation (Admin > Recalculate Handicaps)';
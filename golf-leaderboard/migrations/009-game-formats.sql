@@ -0,0 +1,18 @@
+-- Migration: Game formats
+-- Lets a game be played as stroke play, Stableford, skins, match play or
+-- two-person best ball. Season points are still awarded from gross scores;
+-- the format decides how the round itself is won
+-- Run this SQL in your Supabase SQL Editor
+
+-- Format of the round
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS format TEXT NOT NULL DEFAULT 'stroke'
+    CHECK (format IN ('stroke', 'stableford', 'skins', 'match_play', 'best_ball'));
+
+-- Format options: { "useHandicaps": boolean, "pairings": [[player_id, player_id], ...] }
+-- Pairings are opponents for match play and partners for best ball
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS format_config JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN games.format IS 'How the round is won: stroke, stableford, skins, match_play or best_ball';
+COMMENT ON COLUMN games.format_config IS 'Format options: whether handicaps are used, and match play or best ball pairings';
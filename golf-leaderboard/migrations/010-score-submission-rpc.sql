@@ -0,0 +1,300 @@
+-- Migration: Atomic score submission
+-- Moves score submission, admin edits and deletes into Postgres functions that
+-- validate the round, write the score, recompute the low-round bonus for the
+-- whole game and return the new standings in one transaction. Each function
+-- locks the game row first, so two players submitting at the same time can no
+-- longer leave the bonus on the wrong score
+-- Run this SQL in your Supabase SQL Editor
+
+-- Bracket points for a round under a rule set (mirrors pointsForRound in src/lib/utils/scoringRules.ts)
+CREATE OR REPLACE FUNCTION round_points(p_rules JSONB, p_raw_score INTEGER, p_par INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_value INTEGER;
+  v_bracket JSONB;
+BEGIN
+  v_value := CASE WHEN p_rules->>'basis' = 'to_par' THEN p_raw_score - p_par ELSE p_raw_score END;
+
+  FOR v_bracket IN SELECT value FROM jsonb_array_elements(p_rules->'brackets') LOOP
+    IF v_bracket->'min' = 'null'::jsonb OR v_value >= (v_bracket->>'min')::INTEGER THEN
+      RETURN (v_bracket->>'points')::INTEGER;
+    END IF;
+  END LOOP;
+
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Rule set definition for a game's season, falling back to the 2026 gross brackets
+CREATE OR REPLACE FUNCTION game_scoring_rules(p_game_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    (SELECT rs.definition
+     FROM games g
+     JOIN seasons s ON s.id = g.season_id
+     JOIN scoring_rule_sets rs ON rs.id = s.scoring_rule_set_id
+     WHERE g.id = p_game_id),
+    (SELECT definition FROM scoring_rule_sets WHERE key = 'gross_brackets' AND version = 1)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Give the low-round bonus to the lowest score(s) of a game and take it from everyone else
+-- (mirrors updateBonusPoints in src/lib/utils/scoring.ts)
+CREATE OR REPLACE FUNCTION refresh_game_bonus_points(p_game_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_rules JSONB;
+  v_low_round INTEGER;
+  v_share_ties BOOLEAN;
+  v_lowest INTEGER;
+  v_lowest_count INTEGER;
+BEGIN
+  v_rules := game_scoring_rules(p_game_id);
+  v_low_round := COALESCE((v_rules->'bonus'->>'lowRound')::INTEGER, 0);
+  v_share_ties := COALESCE((v_rules->'bonus'->>'shareTies')::BOOLEAN, true);
+
+  SELECT MIN(raw_score) INTO v_lowest FROM scores WHERE game_id = p_game_id;
+  SELECT COUNT(*) INTO v_lowest_count FROM scores WHERE game_id = p_game_id AND raw_score = v_lowest;
+
+  IF v_low_round <= 0 OR (NOT v_share_ties AND v_lowest_count > 1) THEN
+    v_lowest := NULL; -- Nobody holds the bonus
+  END IF;
+
+  UPDATE scores
+  SET bonus_points = CASE WHEN raw_score = v_lowest THEN v_low_round ELSE 0 END
+  WHERE game_id = p_game_id
+    AND bonus_points IS DISTINCT FROM CASE WHEN raw_score = v_lowest THEN v_low_round ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scores for a game, best total first
+CREATE OR REPLACE FUNCTION game_standings(p_game_id UUID)
+RETURNS TABLE (
+  score_id UUID,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  total_points INTEGER
+) AS $$
+  SELECT
+    sc.id,
+    sc.player_id,
+    p.username,
+    sc.raw_score,
+    sc.points,
+    sc.bonus_points,
+    sc.points + sc.bonus_points
+  FROM scores sc
+  JOIN profiles p ON p.id = sc.player_id
+  WHERE sc.game_id = p_game_id
+  ORDER BY sc.points + sc.bonus_points DESC, sc.raw_score ASC;
+$$ LANGUAGE sql STABLE;
+
+-- Submit the signed-in player's score for a round
+-- p_holes is an optional scorecard: [{ hole_number, strokes, putts, fairway_hit, green_in_regulation }].
+-- It must cover holes 1 to p_holes_played once each, and p_raw_score must be its stroke total
+CREATE OR REPLACE FUNCTION submit_score(
+  p_game_id UUID,
+  p_raw_score INTEGER,
+  p_notes TEXT DEFAULT NULL,
+  p_holes_played INTEGER DEFAULT 18,
+  p_holes JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  score_id UUID,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  total_points INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_player_id UUID := auth.uid();
+  v_game RECORD;
+  v_score_id UUID;
+BEGIN
+  IF v_player_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to submit a score';
+  END IF;
+
+  -- Lock the game so concurrent submissions for it run one at a time
+  SELECT g.id, g.season_id, g.status, c.par INTO v_game
+  FROM games g
+  JOIN courses c ON c.id = g.course_id
+  WHERE g.id = p_game_id
+  FOR UPDATE OF g;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF v_game.status = 'completed' THEN
+    RAISE EXCEPTION 'This round is completed. No new scores can be submitted.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM season_participants sp
+    WHERE sp.season_id = v_game.season_id AND sp.player_id = v_player_id
+  ) THEN
+    RAISE EXCEPTION 'You need to join this season before submitting scores';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM scores sc WHERE sc.game_id = p_game_id AND sc.player_id = v_player_id) THEN
+    RAISE EXCEPTION 'You have already submitted a score for this round';
+  END IF;
+
+  IF p_holes IS NOT NULL THEN
+    IF jsonb_array_length(p_holes) <> p_holes_played
+      OR (SELECT COUNT(DISTINCT (h->>'hole_number')::INTEGER) FROM jsonb_array_elements(p_holes) AS h
+          WHERE (h->>'hole_number')::INTEGER BETWEEN 1 AND p_holes_played AND h->>'strokes' IS NOT NULL) <> p_holes_played
+    THEN
+      RAISE EXCEPTION 'The scorecard needs strokes for each of the % holes', p_holes_played;
+    END IF;
+
+    IF p_raw_score IS DISTINCT FROM (SELECT SUM((h->>'strokes')::INTEGER) FROM jsonb_array_elements(p_holes) AS h) THEN
+      RAISE EXCEPTION 'The score does not match the scorecard total';
+    END IF;
+  ELSIF p_holes_played <> 18 THEN
+    RAISE EXCEPTION 'A 9-hole score needs its scorecard';
+  END IF;
+
+  INSERT INTO scores (game_id, player_id, raw_score, points, bonus_points, notes, holes_played)
+  VALUES (
+    p_game_id,
+    v_player_id,
+    p_raw_score,
+    round_points(game_scoring_rules(p_game_id), p_raw_score, v_game.par),
+    0,
+    p_notes,
+    p_holes_played
+  )
+  RETURNING id INTO v_score_id;
+
+  IF p_holes IS NOT NULL THEN
+    INSERT INTO score_holes (score_id, hole_number, strokes, putts, fairway_hit, green_in_regulation)
+    SELECT
+      v_score_id,
+      (h->>'hole_number')::SMALLINT,
+      (h->>'strokes')::SMALLINT,
+      (h->>'putts')::SMALLINT,
+      (h->>'fairway_hit')::BOOLEAN,
+      (h->>'green_in_regulation')::BOOLEAN
+    FROM jsonb_array_elements(p_holes) AS h;
+  END IF;
+
+  PERFORM refresh_game_bonus_points(p_game_id);
+
+  RETURN QUERY SELECT * FROM game_standings(p_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Correct a score (admin only); points are recalculated from the new raw score,
+-- and a scorecard that no longer matches it is removed
+CREATE OR REPLACE FUNCTION update_score(
+  p_score_id UUID,
+  p_raw_score INTEGER,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  score_id UUID,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  total_points INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_game_id UUID;
+  v_par INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can edit scores';
+  END IF;
+
+  SELECT sc.game_id INTO v_game_id FROM scores sc WHERE sc.id = p_score_id;
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  SELECT c.par INTO v_par
+  FROM games g
+  JOIN courses c ON c.id = g.course_id
+  WHERE g.id = v_game_id
+  FOR UPDATE OF g;
+
+  UPDATE scores
+  SET raw_score = p_raw_score,
+      points = round_points(game_scoring_rules(v_game_id), p_raw_score, v_par),
+      notes = p_notes,
+      edited_by = auth.uid(),
+      edited_at = now()
+  WHERE id = p_score_id;
+
+  -- A scorecard that no longer adds up to the score is dropped
+  DELETE FROM score_holes sh
+  WHERE sh.score_id = p_score_id
+    AND (SELECT SUM(h.strokes) FROM score_holes h WHERE h.score_id = p_score_id) <> p_raw_score;
+
+  PERFORM refresh_game_bonus_points(v_game_id);
+
+  RETURN QUERY SELECT * FROM game_standings(v_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delete a score (admin only); the bonus moves to whoever now holds the low round
+CREATE OR REPLACE FUNCTION delete_score(p_score_id UUID)
+RETURNS TABLE (
+  score_id UUID,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  total_points INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_game_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can delete scores';
+  END IF;
+
+  SELECT sc.game_id INTO v_game_id FROM scores sc WHERE sc.id = p_score_id;
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  PERFORM 1 FROM games g WHERE g.id = v_game_id FOR UPDATE;
+
+  DELETE FROM scores WHERE id = p_score_id;
+
+  PERFORM refresh_game_bonus_points(v_game_id);
+
+  RETURN QUERY SELECT * FROM game_standings(v_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Scorecards are only written through submit_score, which checks them against
+-- the score; players can no longer add hole rows to their scores directly
+DROP POLICY IF EXISTS "Players can add holes to their own scores" ON score_holes;
+REVOKE INSERT ON score_holes FROM authenticated;
+
+-- Grant necessary permissions
+-- The helpers are only called from inside the functions above
+REVOKE EXECUTE ON FUNCTION refresh_game_bonus_points FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION round_points TO authenticated;
+GRANT EXECUTE ON FUNCTION game_standings TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_score TO authenticated;
+GRANT EXECUTE ON FUNCTION update_score TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_score TO authenticated;
+
+COMMENT ON FUNCTION submit_score IS 'Submit the signed-in player''s score, recompute the game''s low-round bonus and return its standings';
+COMMENT ON FUNCTION update_score IS 'Admin score correction; recomputes points and the game''s low-round bonus, drops a scorecard that no longer matches, and returns its standings';
+COMMENT ON FUNCTION delete_score IS 'Admin score deletion; recomputes the game''s low-round bonus and returns its standings';
@@ -0,0 +1,92 @@
+-- Migration: Season playoffs
+-- Adds an admin-configured playoff phase after the regular season: the top N
+-- of season_leaderboard are seeded into a single-elimination bracket or a
+-- points-reset final series. Playoff games are ordinary games tagged with the
+-- playoff round they belong to, and no longer count toward the regular season
+-- Run this SQL in your Supabase SQL Editor
+
+-- Playoff settings for the season
+ALTER TABLE seasons
+  ADD COLUMN IF NOT EXISTS playoff_format TEXT NOT NULL DEFAULT 'none'
+    CHECK (playoff_format IN ('none', 'bracket', 'points_reset')),
+  ADD COLUMN IF NOT EXISTS playoff_size INTEGER CHECK (playoff_size >= 2), -- Players seeded from the regular season
+  ADD COLUMN IF NOT EXISTS playoff_rounds INTEGER CHECK (playoff_rounds >= 1), -- Rounds in a points-reset series; a bracket derives its own
+  ADD COLUMN IF NOT EXISTS playoff_status TEXT NOT NULL DEFAULT 'not_started'
+    CHECK (playoff_status IN ('not_started', 'in_progress', 'completed')),
+  ADD COLUMN IF NOT EXISTS playoff_champion_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Playoff stage of a game; NULL for regular-season games
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS playoff_round INTEGER CHECK (playoff_round >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_games_season_playoff_round
+  ON games(season_id, playoff_round)
+  WHERE playoff_round IS NOT NULL;
+
+-- Seeds, frozen from the regular-season standings when the playoffs start
+CREATE TABLE IF NOT EXISTS season_playoff_seeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  seed INTEGER NOT NULL CHECK (seed >= 1),
+  regular_season_points INTEGER NOT NULL DEFAULT 0,
+  starting_points INTEGER NOT NULL DEFAULT 0, -- Points carried into a points-reset series
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (season_id, seed),
+  UNIQUE (season_id, player_id)
+);
+
+-- Grant necessary permissions
+GRANT SELECT ON season_playoff_seeds TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON season_playoff_seeds TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE season_playoff_seeds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (read for all, write for admins)
+CREATE POLICY "Playoff seeds are viewable by everyone"
+  ON season_playoff_seeds FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage playoff seeds"
+  ON season_playoff_seeds FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+-- Recreate the leaderboard without playoff games (SECURITY INVOKER, see migration 002)
+DROP VIEW IF EXISTS season_leaderboard;
+
+CREATE VIEW season_leaderboard
+WITH (security_invoker = true)
+AS
+SELECT
+    s.id AS season_id,
+    s.name AS season_name,
+    p.id AS player_id,
+    p.username,
+    p.profile_image_url,
+    COALESCE(COUNT(sc.id), 0) AS games_played,
+    COALESCE(SUM(sc.points + sc.bonus_points), 0) AS total_points,
+    COALESCE(AVG(sc.raw_score), 0) AS avg_score,
+    s.net_scoring,
+    COALESCE(SUM(sc.net_points + sc.net_bonus_points), 0) AS net_total_points,
+    COALESCE(AVG(sc.net_score), 0) AS avg_net_score
+FROM
+    seasons s
+    INNER JOIN season_participants sp ON sp.season_id = s.id
+    INNER JOIN profiles p ON p.id = sp.player_id
+    LEFT JOIN games g ON g.season_id = s.id AND g.playoff_round IS NULL
+    LEFT JOIN scores sc ON sc.game_id = g.id AND sc.player_id = p.id
+GROUP BY
+    s.id, s.name, s.net_scoring, p.id, p.username, p.profile_image_url
+ORDER BY
+    total_points DESC NULLS LAST;
+
+GRANT SELECT ON season_leaderboard TO anon, authenticated;
+
+COMMENT ON COLUMN seasons.playoff_format IS 'Playoff phase after the regular season: none, bracket (single elimination) or points_reset (FedEx-style final series)';
+COMMENT ON COLUMN seasons.playoff_status IS 'not_started until the admin seeds the playoffs, completed once a champion is crowned';
+COMMENT ON COLUMN seasons.playoff_champion_id IS 'Playoff champion, crowned separately from the regular-season points leader';
+COMMENT ON COLUMN games.playoff_round IS 'Playoff round the game belongs to (1 = first round). NULL for regular-season games';
+COMMENT ON TABLE season_playoff_seeds IS 'Playoff seeds taken from the regular-season leaderboard when the playoffs start';
+COMMENT ON VIEW season_leaderboard IS 'Regular-season leaderboard (playoff games excluded) with gross and net player statistics. Uses SECURITY INVOKER for proper RLS enforcement. All users can view.';
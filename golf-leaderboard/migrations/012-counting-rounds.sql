@@ -0,0 +1,116 @@
+-- Migration: Counting rounds
+-- Lets a season count only a player's best N rounds, or drop their worst N,
+-- so standings reward scoring rather than attendance. Players also need a
+-- minimum number of rounds to qualify for a ranked place
+-- Run this SQL in your Supabase SQL Editor
+
+-- Which rounds count toward the season standings
+ALTER TABLE seasons
+  ADD COLUMN IF NOT EXISTS counting_rule TEXT NOT NULL DEFAULT 'all'
+    CHECK (counting_rule IN ('all', 'best_n', 'drop_worst')),
+  ADD COLUMN IF NOT EXISTS counting_rounds INTEGER CHECK (counting_rounds >= 1), -- N in "best N" or "drop worst N"
+  ADD COLUMN IF NOT EXISTS min_rounds INTEGER NOT NULL DEFAULT 0 CHECK (min_rounds >= 0);
+
+ALTER TABLE seasons
+  ADD CONSTRAINT seasons_counting_rounds_required
+    CHECK (counting_rule = 'all' OR counting_rounds IS NOT NULL);
+
+-- The leaderboard is rebuilt on top of the per-round view below
+DROP VIEW IF EXISTS season_leaderboard;
+DROP VIEW IF EXISTS season_score_counting;
+
+-- Every regular-season score, and whether it counts toward the standings.
+-- A player's rounds are ranked by points (earlier rounds first on equal
+-- points); gross and net are ranked separately
+CREATE VIEW season_score_counting
+WITH (security_invoker = true)
+AS
+WITH ranked AS (
+  SELECT
+    sc.id AS score_id,
+    g.season_id,
+    sc.player_id,
+    g.id AS game_id,
+    g.name AS game_name,
+    g.game_date,
+    sc.raw_score,
+    sc.net_score,
+    sc.points + sc.bonus_points AS round_points,
+    sc.net_points + sc.net_bonus_points AS net_round_points,
+    s.counting_rule,
+    s.counting_rounds,
+    COUNT(*) OVER (PARTITION BY g.season_id, sc.player_id) AS rounds_played,
+    ROW_NUMBER() OVER (
+      PARTITION BY g.season_id, sc.player_id
+      ORDER BY sc.points + sc.bonus_points DESC, g.game_date, sc.submitted_at
+    ) AS points_rank,
+    ROW_NUMBER() OVER (
+      PARTITION BY g.season_id, sc.player_id
+      ORDER BY COALESCE(sc.net_points + sc.net_bonus_points, 0) DESC, g.game_date, sc.submitted_at
+    ) AS net_points_rank
+  FROM
+    scores sc
+    INNER JOIN games g ON g.id = sc.game_id AND g.playoff_round IS NULL
+    INNER JOIN seasons s ON s.id = g.season_id
+)
+SELECT
+  score_id,
+  season_id,
+  player_id,
+  game_id,
+  game_name,
+  game_date,
+  raw_score,
+  net_score,
+  round_points,
+  net_round_points,
+  rounds_played,
+  points_rank <= CASE counting_rule
+    WHEN 'best_n' THEN LEAST(counting_rounds, rounds_played)
+    WHEN 'drop_worst' THEN GREATEST(rounds_played - counting_rounds, 0)
+    ELSE rounds_played
+  END AS counts,
+  net_points_rank <= CASE counting_rule
+    WHEN 'best_n' THEN LEAST(counting_rounds, rounds_played)
+    WHEN 'drop_worst' THEN GREATEST(rounds_played - counting_rounds, 0)
+    ELSE rounds_played
+  END AS net_counts
+FROM ranked;
+
+GRANT SELECT ON season_score_counting TO anon, authenticated;
+
+-- Recreate the leaderboard from counting rounds only (SECURITY INVOKER, see migration 002)
+CREATE VIEW season_leaderboard
+WITH (security_invoker = true)
+AS
+SELECT
+    s.id AS season_id,
+    s.name AS season_name,
+    p.id AS player_id,
+    p.username,
+    p.profile_image_url,
+    COALESCE(COUNT(sc.score_id), 0) AS games_played,
+    COALESCE(SUM(sc.round_points) FILTER (WHERE sc.counts), 0) AS total_points,
+    COALESCE(AVG(sc.raw_score), 0) AS avg_score,
+    s.net_scoring,
+    COALESCE(SUM(sc.net_round_points) FILTER (WHERE sc.net_counts), 0) AS net_total_points,
+    COALESCE(AVG(sc.net_score), 0) AS avg_net_score,
+    COALESCE(COUNT(sc.score_id) FILTER (WHERE sc.counts), 0) AS rounds_counted,
+    COALESCE(SUM(sc.round_points), 0) AS all_points,
+    COUNT(sc.score_id) >= s.min_rounds AS qualified
+FROM
+    seasons s
+    INNER JOIN season_participants sp ON sp.season_id = s.id
+    INNER JOIN profiles p ON p.id = sp.player_id
+    LEFT JOIN season_score_counting sc ON sc.season_id = s.id AND sc.player_id = p.id
+GROUP BY
+    s.id, s.name, s.net_scoring, s.min_rounds, p.id, p.username, p.profile_image_url
+ORDER BY
+    qualified DESC, total_points DESC NULLS LAST;
+
+GRANT SELECT ON season_leaderboard TO anon, authenticated;
+
+COMMENT ON COLUMN seasons.counting_rule IS 'Rounds that count toward the standings: all, best_n (best counting_rounds) or drop_worst (all but the worst counting_rounds)';
+COMMENT ON COLUMN seasons.min_rounds IS 'Rounds a player needs to qualify for a ranked place; unqualified players are listed below qualified ones';
+COMMENT ON VIEW season_score_counting IS 'Regular-season scores with whether each counts toward the gross and net standings under the season''s counting rule';
+COMMENT ON VIEW season_leaderboard IS 'Regular-season leaderboard (counting rounds only, playoff games excluded) with gross and net player statistics. Uses SECURITY INVOKER for proper RLS enforcement. All users can view.';
@@ -0,0 +1,190 @@
+-- Migration: Season flights
+-- Lets a season split its players into flights (divisions), by handicap band
+-- or assigned by hand. Each flight has its own standings on the leaderboard,
+-- and the low-round bonus is won within each flight
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS season_flights (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  min_handicap NUMERIC(3,1), -- NULL for no lower limit
+  max_handicap NUMERIC(3,1), -- NULL for no upper limit; both NULL for a flight assigned by hand
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (season_id, name)
+);
+
+-- The player's flight for the season; kept when their handicap changes
+ALTER TABLE season_participants
+  ADD COLUMN IF NOT EXISTS flight_id UUID REFERENCES season_flights(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_season_participants_flight
+  ON season_participants(flight_id)
+  WHERE flight_id IS NOT NULL;
+
+-- Grant necessary permissions
+GRANT SELECT ON season_flights TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON season_flights TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE season_flights ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (read for all, write for admins)
+CREATE POLICY "Season flights are viewable by everyone"
+  ON season_flights FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage season flights"
+  ON season_flights FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+-- Give the low-round bonus to the lowest score(s) of each flight in a game and take
+-- it from everyone else. Players without a flight compete with each other, so a
+-- season without flights works as before (mirrors updateBonusPoints in src/lib/utils/scoring.ts)
+CREATE OR REPLACE FUNCTION refresh_game_bonus_points(p_game_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_rules JSONB;
+  v_low_round INTEGER;
+  v_share_ties BOOLEAN;
+BEGIN
+  v_rules := game_scoring_rules(p_game_id);
+  v_low_round := COALESCE((v_rules->'bonus'->>'lowRound')::INTEGER, 0);
+  v_share_ties := COALESCE((v_rules->'bonus'->>'shareTies')::BOOLEAN, true);
+
+  WITH flight_scores AS (
+    SELECT
+      sc.id,
+      sc.raw_score,
+      sp.flight_id,
+      MIN(sc.raw_score) OVER (PARTITION BY sp.flight_id) AS flight_low
+    FROM scores sc
+    JOIN games g ON g.id = sc.game_id
+    LEFT JOIN season_participants sp ON sp.season_id = g.season_id AND sp.player_id = sc.player_id
+    WHERE sc.game_id = p_game_id
+  ),
+  flight_lows AS (
+    SELECT
+      id,
+      raw_score,
+      flight_low,
+      COUNT(*) FILTER (WHERE raw_score = flight_low) OVER (PARTITION BY flight_id) AS low_count
+    FROM flight_scores
+  ),
+  bonus AS (
+    SELECT
+      id,
+      CASE
+        WHEN v_low_round > 0 AND raw_score = flight_low AND (v_share_ties OR low_count = 1)
+          THEN v_low_round
+        ELSE 0
+      END AS bonus_points
+    FROM flight_lows
+  )
+  UPDATE scores
+  SET bonus_points = bonus.bonus_points
+  FROM bonus
+  WHERE scores.id = bonus.id
+    AND scores.bonus_points IS DISTINCT FROM bonus.bonus_points;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION refresh_game_bonus_points(UUID) FROM PUBLIC;
+
+-- Recompute the low-round bonus for every game in a season (admin only)
+-- Needed whenever flight assignments change
+CREATE OR REPLACE FUNCTION refresh_season_bonus_points(p_season_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_game_id UUID;
+  v_games INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can recalculate bonus points';
+  END IF;
+
+  FOR v_game_id IN SELECT id FROM games WHERE season_id = p_season_id FOR UPDATE LOOP
+    PERFORM refresh_game_bonus_points(v_game_id);
+    v_games := v_games + 1;
+  END LOOP;
+
+  RETURN v_games;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Put players into flights and move the bonus to match, in one transaction (admin only)
+-- p_assignments: [{ "player_id": uuid, "flight_id": uuid | null }, ...]
+CREATE OR REPLACE FUNCTION assign_season_flights(p_season_id UUID, p_assignments JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_assignment JSONB;
+  v_flight_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can assign flights';
+  END IF;
+
+  FOR v_assignment IN SELECT value FROM jsonb_array_elements(p_assignments) LOOP
+    v_flight_id := NULLIF(v_assignment->>'flight_id', '')::UUID;
+
+    IF v_flight_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM season_flights WHERE id = v_flight_id AND season_id = p_season_id
+    ) THEN
+      RAISE EXCEPTION 'Flight does not belong to this season';
+    END IF;
+
+    UPDATE season_participants
+    SET flight_id = v_flight_id
+    WHERE season_id = p_season_id
+      AND player_id = (v_assignment->>'player_id')::UUID;
+  END LOOP;
+
+  RETURN refresh_season_bonus_points(p_season_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION refresh_season_bonus_points(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION assign_season_flights(UUID, JSONB) TO authenticated;
+
+-- Recreate the leaderboard with each player's flight (SECURITY INVOKER, see migration 002)
+DROP VIEW IF EXISTS season_leaderboard;
+
+CREATE VIEW season_leaderboard
+WITH (security_invoker = true)
+AS
+SELECT
+    s.id AS season_id,
+    s.name AS season_name,
+    p.id AS player_id,
+    p.username,
+    p.profile_image_url,
+    COALESCE(COUNT(sc.score_id), 0) AS games_played,
+    COALESCE(SUM(sc.round_points) FILTER (WHERE sc.counts), 0) AS total_points,
+    COALESCE(AVG(sc.raw_score), 0) AS avg_score,
+    s.net_scoring,
+    COALESCE(SUM(sc.net_round_points) FILTER (WHERE sc.net_counts), 0) AS net_total_points,
+    COALESCE(AVG(sc.net_score), 0) AS avg_net_score,
+    COALESCE(COUNT(sc.score_id) FILTER (WHERE sc.counts), 0) AS rounds_counted,
+    COALESCE(SUM(sc.round_points), 0) AS all_points,
+    COUNT(sc.score_id) >= s.min_rounds AS qualified,
+    sp.flight_id,
+    f.name AS flight_name
+FROM
+    seasons s
+    INNER JOIN season_participants sp ON sp.season_id = s.id
+    INNER JOIN profiles p ON p.id = sp.player_id
+    LEFT JOIN season_flights f ON f.id = sp.flight_id
+    LEFT JOIN season_score_counting sc ON sc.season_id = s.id AND sc.player_id = p.id
+GROUP BY
+    s.id, s.name, s.net_scoring, s.min_rounds, p.id, p.username, p.profile_image_url, sp.flight_id, f.name
+ORDER BY
+    qualified DESC, total_points DESC NULLS LAST;
+
+GRANT SELECT ON season_leaderboard TO anon, authenticated;
+
+COMMENT ON TABLE season_flights IS 'Flights (divisions) within a season, with an optional handicap band used to assign players';
+COMMENT ON COLUMN season_participants.flight_id IS 'Player''s flight for the season. NULL when the season has no flights or the player is unassigned';
+COMMENT ON FUNCTION assign_season_flights(UUID, JSONB) IS 'Admin: set players'' flights and recompute the season''s low-round bonuses in one transaction';
+COMMENT ON VIEW season_leaderboard IS 'Regular-season leaderboard (counting rounds only, playoff games excluded) with each player''s flight and gross and net statistics. Uses SECURITY INVOKER for proper RLS enforcement. All users can view.';
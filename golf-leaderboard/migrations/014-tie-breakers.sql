@@ -0,0 +1,14 @@
+-- Migration: Tie-breakers
+-- Lets a season choose how players level on points are separated on the
+-- leaderboard: lower scoring average, more wins, head-to-head, or a countback
+-- over the season's last rounds. Players still level share a rank ("T3").
+-- Ranks are computed by rankStandings in src/lib/utils/standings.ts
+-- Run this SQL in your Supabase SQL Editor
+
+ALTER TABLE seasons
+  ADD COLUMN IF NOT EXISTS tie_breakers TEXT[] NOT NULL DEFAULT ARRAY['avg_score']
+    CHECK (tie_breakers <@ ARRAY['avg_score', 'wins', 'head_to_head', 'countback']),
+  ADD COLUMN IF NOT EXISTS countback_rounds INTEGER NOT NULL DEFAULT 3 CHECK (countback_rounds >= 1);
+
+COMMENT ON COLUMN seasons.tie_breakers IS 'Tie-breakers applied in order to players level on points: avg_score, wins, head_to_head, countback. Empty means ties share a rank';
+COMMENT ON COLUMN seasons.countback_rounds IS 'Number of the season''s most recent rounds compared by the countback tie-breaker';
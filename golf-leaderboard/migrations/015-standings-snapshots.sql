@@ -0,0 +1,83 @@
+-- Migration: Standings snapshots
+-- Stores the season standings each time a regular-season game is marked
+-- completed, so the leaderboard can show rank movement and the standings
+-- can be replayed round by round. Ranks are written as rankStandings
+-- (src/lib/utils/standings.ts) gave them when the game was completed, in the
+-- same transaction as the status change
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS season_standings_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL CHECK (rank >= 1),
+  tied BOOLEAN NOT NULL DEFAULT false,
+  total_points INTEGER NOT NULL DEFAULT 0,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  qualified BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (game_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_standings_snapshots_season
+  ON season_standings_snapshots(season_id);
+
+-- Set a round's status (admin only). Completing a regular-season round
+-- replaces its snapshot with p_standings: [{ player_id, rank, tied,
+-- total_points, games_played, qualified }]
+CREATE OR REPLACE FUNCTION set_game_status(p_game_id UUID, p_status TEXT, p_standings JSONB DEFAULT '[]')
+RETURNS VOID AS $$
+DECLARE
+  v_game RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can change a round''s status';
+  END IF;
+
+  IF p_status NOT IN ('active', 'completed') THEN
+    RAISE EXCEPTION 'Unknown round status %', p_status;
+  END IF;
+
+  SELECT g.season_id, g.playoff_round INTO v_game FROM games g WHERE g.id = p_game_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  UPDATE games SET status = p_status WHERE id = p_game_id;
+
+  IF p_status = 'completed' AND v_game.season_id IS NOT NULL AND v_game.playoff_round IS NULL THEN
+    DELETE FROM season_standings_snapshots WHERE game_id = p_game_id;
+
+    INSERT INTO season_standings_snapshots (season_id, game_id, player_id, rank, tied, total_points, games_played, qualified)
+    SELECT
+      v_game.season_id,
+      p_game_id,
+      (s->>'player_id')::UUID,
+      (s->>'rank')::INTEGER,
+      (s->>'tied')::BOOLEAN,
+      (s->>'total_points')::INTEGER,
+      (s->>'games_played')::INTEGER,
+      (s->>'qualified')::BOOLEAN
+    FROM jsonb_array_elements(COALESCE(p_standings, '[]')) AS s;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+-- Snapshots are only written through set_game_status
+GRANT SELECT ON season_standings_snapshots TO anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON season_standings_snapshots FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_game_status TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE season_standings_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (read for all)
+CREATE POLICY "Standings snapshots are viewable by everyone"
+  ON season_standings_snapshots FOR SELECT
+  USING (true);
+
+COMMENT ON TABLE season_standings_snapshots IS 'Season standings after each completed regular-season game; completing a game again replaces its snapshot';
+COMMENT ON FUNCTION set_game_status IS 'Admin: sets a round''s status; completing a regular-season round stores its standings snapshot in the same transaction';
+COMMENT ON COLUMN season_standings_snapshots.tied IS 'Rank was shared ("T3") after the tie-breakers';
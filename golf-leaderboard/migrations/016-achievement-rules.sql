@@ -0,0 +1,318 @@
+-- Migration: Declarative achievement rules
+-- Each achievement now carries its own rule (metric, comparison, threshold,
+-- scope and window) and one Postgres function evaluates every rule for a
+-- player, awarding what has been earned and returning progress toward the
+-- rest. Awards can no longer be written from the browser: the
+-- award_achievement RPC and the insert/update policies on user_achievements
+-- are removed, and players can only ask for their own rules to be checked
+-- Run this SQL in your Supabase SQL Editor
+
+-- Rule columns
+-- metric:        what is measured (see achievement_metric below)
+-- comparison:    at_least, at_most or exactly the threshold
+-- scope:         all_time, or season (awarded once per season)
+-- window_rounds: only the player's most recent N rounds count;
+--                for rank_climb, the number of completed rounds to look back over
+ALTER TABLE achievements
+  ADD COLUMN IF NOT EXISTS metric TEXT,
+  ADD COLUMN IF NOT EXISTS comparison TEXT NOT NULL DEFAULT 'at_least'
+    CHECK (comparison IN ('at_least', 'at_most', 'exactly')),
+  ADD COLUMN IF NOT EXISTS threshold INTEGER,
+  ADD COLUMN IF NOT EXISTS scope TEXT NOT NULL DEFAULT 'all_time'
+    CHECK (scope IN ('all_time', 'season')),
+  ADD COLUMN IF NOT EXISTS window_rounds INTEGER CHECK (window_rounds IS NULL OR window_rounds >= 1),
+  ADD COLUMN IF NOT EXISTS show_progress BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE achievements
+  ADD CONSTRAINT achievements_metric_check CHECK (metric IS NULL OR metric IN (
+    'rounds_played', 'wins', 'points', 'win_streak', 'under_par_rounds',
+    'early_submissions', 'score_range', 'attendance', 'season_rank', 'rank_climb'
+  ));
+
+-- The rules the TypeScript checks used to hard-code
+UPDATE achievements a
+SET metric = r.metric,
+    comparison = r.comparison,
+    threshold = r.threshold,
+    scope = r.scope,
+    window_rounds = r.window_rounds,
+    show_progress = r.show_progress
+FROM (VALUES
+  ('first_score',        'rounds_played',     'at_least', 1,   'all_time', NULL::INTEGER, true),
+  ('first_win',          'wins',              'at_least', 1,   'all_time', NULL, true),
+  ('games_5',            'rounds_played',     'at_least', 5,   'all_time', NULL, true),
+  ('games_10',           'rounds_played',     'at_least', 10,  'all_time', NULL, true),
+  ('games_25',           'rounds_played',     'at_least', 25,  'all_time', NULL, true),
+  ('games_50',           'rounds_played',     'at_least', 50,  'all_time', NULL, true),
+  ('points_50',          'points',            'at_least', 50,  'season',   NULL, true),
+  ('points_100',         'points',            'at_least', 100, 'season',   NULL, true),
+  ('points_200',         'points',            'at_least', 200, 'season',   NULL, true),
+  ('hot_streak_3',       'win_streak',        'at_least', 3,   'all_time', NULL, true),
+  ('hot_streak_5',       'win_streak',        'at_least', 5,   'all_time', NULL, true),
+  ('perfect_score',      'under_par_rounds',  'at_least', 1,   'all_time', NULL, false),
+  ('domination',         'wins',              'at_least', 5,   'season',   NULL, true),
+  ('perfect_attendance', 'attendance',        'at_least', 100, 'season',   NULL, true),
+  ('consistent_scorer',  'score_range',       'at_most',  4,   'all_time', 5,    false),
+  ('season_champion',    'season_rank',       'exactly',  1,   'season',   NULL, true),
+  ('runner_up',          'season_rank',       'exactly',  2,   'season',   NULL, true),
+  ('top_three',          'season_rank',       'at_most',  3,   'season',   NULL, true),
+  ('comeback_king',      'rank_climb',        'at_least', 5,   'season',   3,    true),
+  ('early_bird',         'early_submissions', 'at_least', 1,   'all_time', NULL, false)
+) AS r(key, metric, comparison, threshold, scope, window_rounds, show_progress)
+WHERE a.key = r.key;
+
+-- A player's rounds in scope, most recent first, cut to the window
+CREATE OR REPLACE FUNCTION achievement_rounds(p_user_id UUID, p_season_id UUID, p_window INTEGER)
+RETURNS TABLE (
+  game_id UUID,
+  game_date DATE,
+  raw_score INTEGER,
+  par INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  submitted_at TIMESTAMPTZ
+) AS $$
+  SELECT sc.game_id, g.game_date::DATE, sc.raw_score, c.par, sc.points, sc.bonus_points, sc.submitted_at
+  FROM scores sc
+  JOIN games g ON g.id = sc.game_id
+  JOIN courses c ON c.id = g.course_id
+  WHERE sc.player_id = p_user_id
+    AND (p_season_id IS NULL OR g.season_id = p_season_id)
+  ORDER BY g.game_date DESC, sc.submitted_at DESC
+  LIMIT p_window;
+$$ LANGUAGE sql STABLE;
+
+-- The value of one metric for a player; NULL when it cannot be measured yet
+-- (season metrics without a season, too few rounds for the window, no standings snapshot)
+CREATE OR REPLACE FUNCTION achievement_metric(
+  p_metric TEXT,
+  p_user_id UUID,
+  p_season_id UUID,
+  p_window INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_value INTEGER;
+BEGIN
+  IF p_metric IN ('attendance', 'season_rank', 'rank_climb') AND p_season_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  CASE p_metric
+    WHEN 'rounds_played' THEN
+      SELECT COUNT(*) INTO v_value FROM achievement_rounds(p_user_id, p_season_id, p_window);
+
+    WHEN 'wins' THEN
+      SELECT COUNT(*) INTO v_value
+      FROM achievement_rounds(p_user_id, p_season_id, p_window)
+      WHERE bonus_points > 0;
+
+    WHEN 'points' THEN
+      SELECT COALESCE(SUM(points + bonus_points), 0) INTO v_value
+      FROM achievement_rounds(p_user_id, p_season_id, p_window);
+
+    WHEN 'win_streak' THEN
+      -- Longest run of consecutive rounds with the low-round bonus
+      SELECT COALESCE(MAX(streak), 0) INTO v_value
+      FROM (
+        SELECT COUNT(*) AS streak
+        FROM (
+          SELECT
+            bonus_points > 0 AS won,
+            ROW_NUMBER() OVER (ORDER BY game_date, submitted_at)
+              - ROW_NUMBER() OVER (PARTITION BY bonus_points > 0 ORDER BY game_date, submitted_at) AS run
+          FROM achievement_rounds(p_user_id, p_season_id, p_window)
+        ) r
+        WHERE won
+        GROUP BY run
+      ) runs;
+
+    WHEN 'under_par_rounds' THEN
+      SELECT COUNT(*) INTO v_value
+      FROM achievement_rounds(p_user_id, p_season_id, p_window)
+      WHERE raw_score < par;
+
+    WHEN 'early_submissions' THEN
+      -- Scores submitted within 24 hours of the game date
+      SELECT COUNT(*) INTO v_value
+      FROM achievement_rounds(p_user_id, p_season_id, p_window)
+      WHERE submitted_at >= game_date
+        AND submitted_at <= game_date + INTERVAL '24 hours';
+
+    WHEN 'score_range' THEN
+      -- Strokes between the best and worst round; needs a full window
+      SELECT CASE WHEN COUNT(*) >= COALESCE(p_window, 1) THEN MAX(raw_score) - MIN(raw_score) END
+      INTO v_value
+      FROM achievement_rounds(p_user_id, p_season_id, p_window);
+
+    WHEN 'attendance' THEN
+      -- Percentage of the season's rounds (games anyone has scored in) the player played
+      SELECT CASE WHEN held.rounds > 0 THEN (100 * played.rounds) / held.rounds END
+      INTO v_value
+      FROM
+        (SELECT COUNT(DISTINCT sc.game_id) AS rounds
+         FROM scores sc
+         JOIN games g ON g.id = sc.game_id
+         WHERE g.season_id = p_season_id) held,
+        (SELECT COUNT(*) AS rounds FROM achievement_rounds(p_user_id, p_season_id, NULL)) played;
+
+    WHEN 'season_rank', 'rank_climb' THEN
+      -- Ranks come from the standings snapshots (migration 015), which hold the
+      -- tie-broken standings as they stood after each completed round
+      WITH snapshot_rounds AS (
+        SELECT
+          ss.game_id,
+          ROW_NUMBER() OVER (ORDER BY g.game_date DESC, MAX(ss.created_at) DESC) - 1 AS rounds_ago
+        FROM season_standings_snapshots ss
+        JOIN games g ON g.id = ss.game_id
+        WHERE ss.season_id = p_season_id
+        GROUP BY ss.game_id, g.game_date
+      ),
+      player_ranks AS (
+        SELECT sr.rounds_ago, ss.rank
+        FROM snapshot_rounds sr
+        JOIN season_standings_snapshots ss ON ss.game_id = sr.game_id AND ss.player_id = p_user_id
+      )
+      SELECT CASE
+        WHEN p_metric = 'season_rank' THEN latest.rank
+        ELSE earlier.rank - latest.rank
+      END
+      INTO v_value
+      FROM (SELECT rank FROM player_ranks WHERE rounds_ago = 0) latest
+      LEFT JOIN (SELECT rank FROM player_ranks WHERE rounds_ago = COALESCE(p_window, 1)) earlier ON true;
+
+    ELSE
+      v_value := NULL;
+  END CASE;
+
+  RETURN v_value;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Evaluate every achievement rule for a player, award those newly met
+-- (unless p_award is false) and return where the player stands on each.
+-- Season-scoped rules are only evaluated when a season is given
+CREATE OR REPLACE FUNCTION evaluate_achievements(
+  p_user_id UUID,
+  p_season_id UUID DEFAULT NULL,
+  p_award BOOLEAN DEFAULT true
+)
+RETURNS TABLE (
+  achievement_id UUID,
+  achievement_key TEXT,
+  achievement_name TEXT,
+  metric TEXT,
+  comparison TEXT,
+  threshold INTEGER,
+  scope TEXT,
+  show_progress BOOLEAN,
+  current_value INTEGER,
+  met BOOLEAN,
+  earned BOOLEAN,
+  newly_earned BOOLEAN
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_rule RECORD;
+  v_season_id UUID;
+  v_value INTEGER;
+  v_met BOOLEAN;
+  v_earned BOOLEAN;
+BEGIN
+  FOR v_rule IN
+    SELECT a.id, a.key, a.name, a.metric, a.comparison, a.threshold, a.scope, a.window_rounds, a.show_progress
+    FROM achievements a
+    WHERE a.metric IS NOT NULL
+      AND a.threshold IS NOT NULL
+      AND (a.scope = 'all_time' OR p_season_id IS NOT NULL)
+    ORDER BY a.category, a.threshold
+  LOOP
+    v_season_id := CASE WHEN v_rule.scope = 'season' THEN p_season_id END;
+    v_value := achievement_metric(v_rule.metric, p_user_id, v_season_id, v_rule.window_rounds);
+    v_met := COALESCE(CASE v_rule.comparison
+      WHEN 'at_least' THEN v_value >= v_rule.threshold
+      WHEN 'at_most' THEN v_value <= v_rule.threshold
+      ELSE v_value = v_rule.threshold
+    END, false);
+
+    SELECT EXISTS (
+      SELECT 1 FROM user_achievements ua
+      WHERE ua.user_id = p_user_id
+        AND ua.achievement_id = v_rule.id
+        AND ua.season_id IS NOT DISTINCT FROM v_season_id
+    ) INTO v_earned;
+
+    newly_earned := false;
+    IF v_met AND NOT v_earned AND p_award THEN
+      INSERT INTO user_achievements (user_id, achievement_id, season_id, metadata)
+      VALUES (
+        p_user_id,
+        v_rule.id,
+        v_season_id,
+        jsonb_build_object('metric', v_rule.metric, 'value', v_value)
+      );
+      v_earned := true;
+      newly_earned := true;
+    END IF;
+
+    achievement_id := v_rule.id;
+    achievement_key := v_rule.key;
+    achievement_name := v_rule.name;
+    metric := v_rule.metric;
+    comparison := v_rule.comparison;
+    threshold := v_rule.threshold;
+    scope := v_rule.scope;
+    show_progress := v_rule.show_progress;
+    current_value := v_value;
+    met := v_met;
+    earned := v_earned;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check the signed-in player's achievements (after a score is submitted or on the profile page)
+CREATE OR REPLACE FUNCTION check_my_achievements(p_season_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  achievement_id UUID,
+  achievement_key TEXT,
+  achievement_name TEXT,
+  metric TEXT,
+  comparison TEXT,
+  threshold INTEGER,
+  scope TEXT,
+  show_progress BOOLEAN,
+  current_value INTEGER,
+  met BOOLEAN,
+  earned BOOLEAN,
+  newly_earned BOOLEAN
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to check achievements';
+  END IF;
+
+  RETURN QUERY SELECT * FROM evaluate_achievements(auth.uid(), p_season_id, true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Awards are only written by evaluate_achievements
+DROP FUNCTION IF EXISTS award_achievement(UUID, TEXT, UUID, JSONB);
+DROP POLICY IF EXISTS "Users can insert their own achievements" ON user_achievements;
+DROP POLICY IF EXISTS "Users can update their own achievements" ON user_achievements;
+
+-- Grant necessary permissions
+-- The engine itself is only called from inside check_my_achievements
+REVOKE INSERT, UPDATE, DELETE ON user_achievements FROM authenticated;
+REVOKE EXECUTE ON FUNCTION achievement_rounds FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION achievement_metric FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION evaluate_achievements FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_my_achievements TO authenticated;
+
+COMMENT ON COLUMN achievements.metric IS 'What the rule measures: rounds_played, wins, points, win_streak, under_par_rounds, early_submissions, score_range, attendance, season_rank or rank_climb';
+COMMENT ON COLUMN achievements.comparison IS 'How the metric is compared with the threshold: at_least, at_most or exactly';
+COMMENT ON COLUMN achievements.scope IS 'all_time, or season to evaluate within (and award once per) season';
+COMMENT ON COLUMN achievements.window_rounds IS 'Only the most recent N rounds count; for rank_climb, the completed rounds to look back over';
+COMMENT ON COLUMN achievements.show_progress IS 'Show a progress bar while the achievement is locked';
+COMMENT ON FUNCTION evaluate_achievements IS 'Evaluates every achievement rule for a player, awards newly met ones unless p_award is false, and returns progress';
+COMMENT ON FUNCTION check_my_achievements IS 'Evaluates and awards the signed-in player''s achievements and returns progress toward each';
@@ -0,0 +1,236 @@
+-- Migration: Achievement re-evaluation
+-- Adds an admin job that re-runs the achievement rules (migration 016) for a
+-- season and/or player, lists the badges it would grant and revoke, and can
+-- apply them. Score edits, deletions and season bonus recalculations now run
+-- it for the whole season in the same transaction, so badges no longer go
+-- stale when a round changes after it was submitted
+-- Run this SQL in your Supabase SQL Editor
+
+-- What re-evaluating one player would change: rules now met that were never
+-- awarded (grant), and awards whose rule is no longer met (revoke).
+-- Rules with a window of recent rounds describe something that happened at
+-- one point (a run of consistent rounds, a late-season climb), so they are
+-- granted here but never revoked
+CREATE OR REPLACE FUNCTION achievement_changes(p_user_id UUID, p_season_id UUID)
+RETURNS TABLE (
+  achievement_id UUID,
+  season_id UUID,
+  action TEXT,
+  current_value INTEGER
+) AS $$
+  SELECT
+    e.achievement_id,
+    CASE WHEN e.scope = 'season' THEN p_season_id END,
+    CASE WHEN e.met THEN 'grant' ELSE 'revoke' END,
+    e.current_value
+  FROM evaluate_achievements(p_user_id, p_season_id, false) e
+  JOIN achievements a ON a.id = e.achievement_id
+  WHERE (e.met AND NOT e.earned)
+     OR (e.earned AND NOT e.met AND a.window_rounds IS NULL);
+$$ LANGUAGE sql;
+
+-- Re-evaluate achievements for every participant of a season, one player
+-- across their seasons, or one player in one season (admin only).
+-- With p_dry_run the changes are only returned; otherwise they are applied
+CREATE OR REPLACE FUNCTION reevaluate_achievements(
+  p_season_id UUID DEFAULT NULL,
+  p_player_id UUID DEFAULT NULL,
+  p_dry_run BOOLEAN DEFAULT true
+)
+RETURNS TABLE (
+  player_id UUID,
+  username TEXT,
+  achievement_id UUID,
+  achievement_key TEXT,
+  achievement_name TEXT,
+  season_id UUID,
+  season_name TEXT,
+  action TEXT,
+  current_value INTEGER
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can re-evaluate achievements';
+  END IF;
+
+  RETURN QUERY
+  WITH targets AS (
+    SELECT sp.player_id, sp.season_id
+    FROM season_participants sp
+    WHERE (p_season_id IS NULL OR sp.season_id = p_season_id)
+      AND (p_player_id IS NULL OR sp.player_id = p_player_id)
+    UNION
+    -- All-time rules for a player, even one who has not joined a season
+    SELECT p_player_id, NULL::UUID
+    WHERE p_player_id IS NOT NULL AND p_season_id IS NULL
+  ),
+  changes AS (
+    -- All-time rules come back once per season a player is in; keep one
+    SELECT DISTINCT ON (t.player_id, c.achievement_id, c.season_id)
+      t.player_id, c.achievement_id, c.season_id, c.action, c.current_value
+    FROM targets t
+    CROSS JOIN LATERAL achievement_changes(t.player_id, t.season_id) c
+  ),
+  granted AS (
+    INSERT INTO user_achievements (user_id, achievement_id, season_id, metadata)
+    SELECT
+      ch.player_id,
+      ch.achievement_id,
+      ch.season_id,
+      jsonb_build_object('metric', a.metric, 'value', ch.current_value, 'reevaluated', true)
+    FROM changes ch
+    JOIN achievements a ON a.id = ch.achievement_id
+    WHERE NOT p_dry_run AND ch.action = 'grant'
+    RETURNING 1
+  ),
+  revoked AS (
+    DELETE FROM user_achievements ua
+    USING changes ch
+    WHERE NOT p_dry_run
+      AND ch.action = 'revoke'
+      AND ua.user_id = ch.player_id
+      AND ua.achievement_id = ch.achievement_id
+      AND ua.season_id IS NOT DISTINCT FROM ch.season_id
+    RETURNING 1
+  )
+  SELECT
+    ch.player_id,
+    p.username,
+    ch.achievement_id,
+    a.key,
+    a.name,
+    ch.season_id,
+    s.name,
+    ch.action,
+    ch.current_value
+  FROM changes ch
+  JOIN profiles p ON p.id = ch.player_id
+  JOIN achievements a ON a.id = ch.achievement_id
+  LEFT JOIN seasons s ON s.id = ch.season_id
+  ORDER BY p.username, ch.action, a.category, a.threshold;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Correct a score (admin only); as in migration 010, then re-evaluates the season's achievements
+CREATE OR REPLACE FUNCTION update_score(
+  p_score_id UUID,
+  p_raw_score INTEGER,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  score_id UUID,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  total_points INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_game_id UUID;
+  v_season_id UUID;
+  v_par INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can edit scores';
+  END IF;
+
+  SELECT sc.game_id INTO v_game_id FROM scores sc WHERE sc.id = p_score_id;
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  SELECT c.par, g.season_id INTO v_par, v_season_id
+  FROM games g
+  JOIN courses c ON c.id = g.course_id
+  WHERE g.id = v_game_id
+  FOR UPDATE OF g;
+
+  UPDATE scores
+  SET raw_score = p_raw_score,
+      points = round_points(game_scoring_rules(v_game_id), p_raw_score, v_par),
+      notes = p_notes,
+      edited_by = auth.uid(),
+      edited_at = now()
+  WHERE id = p_score_id;
+
+  -- A scorecard that no longer adds up to the score is dropped
+  DELETE FROM score_holes sh
+  WHERE sh.score_id = p_score_id
+    AND (SELECT SUM(h.strokes) FROM score_holes h WHERE h.score_id = p_score_id) <> p_raw_score;
+
+  PERFORM refresh_game_bonus_points(v_game_id);
+  PERFORM reevaluate_achievements(v_season_id, NULL, false);
+
+  RETURN QUERY SELECT * FROM game_standings(v_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delete a score (admin only); as in migration 010, then re-evaluates the season's achievements
+CREATE OR REPLACE FUNCTION delete_score(p_score_id UUID)
+RETURNS TABLE (
+  score_id UUID,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  total_points INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_game_id UUID;
+  v_season_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can delete scores';
+  END IF;
+
+  SELECT sc.game_id INTO v_game_id FROM scores sc WHERE sc.id = p_score_id;
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  SELECT g.season_id INTO v_season_id FROM games g WHERE g.id = v_game_id FOR UPDATE;
+
+  DELETE FROM scores WHERE id = p_score_id;
+
+  PERFORM refresh_game_bonus_points(v_game_id);
+  PERFORM reevaluate_achievements(v_season_id, NULL, false);
+
+  RETURN QUERY SELECT * FROM game_standings(v_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recompute the low-round bonus for every game in a season (admin only); as in
+-- migration 013, then re-evaluates the season's achievements
+CREATE OR REPLACE FUNCTION refresh_season_bonus_points(p_season_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_game_id UUID;
+  v_games INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can recalculate bonus points';
+  END IF;
+
+  FOR v_game_id IN SELECT id FROM games WHERE season_id = p_season_id FOR UPDATE LOOP
+    PERFORM refresh_game_bonus_points(v_game_id);
+    v_games := v_games + 1;
+  END LOOP;
+
+  PERFORM reevaluate_achievements(p_season_id, NULL, false);
+
+  RETURN v_games;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+REVOKE EXECUTE ON FUNCTION achievement_changes FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reevaluate_achievements TO authenticated;
+
+COMMENT ON FUNCTION reevaluate_achievements IS 'Admin job: lists (p_dry_run) or applies the badges to grant and revoke for a season and/or player';
+COMMENT ON FUNCTION update_score IS 'Admin score correction; recomputes points, the game''s low-round bonus and the season''s achievements, drops a scorecard that no longer matches, and returns its standings';
+COMMENT ON FUNCTION delete_score IS 'Admin score deletion; recomputes the game''s low-round bonus and the season''s achievements, and returns its standings';
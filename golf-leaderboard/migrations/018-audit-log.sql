@@ -0,0 +1,250 @@
+-- Migration: Audit log
+-- An append-only record of every score submission, edit and deletion, every
+-- game status change, every season activation toggle and every bonus
+-- recalculation, with the values before and after and who made the change.
+-- Rows are written by triggers and by the bonus recalculation functions; no
+-- one can edit or delete them, including admins
+-- Run this SQL in your Supabase SQL Editor
+
+-- No foreign keys: entries must outlive the scores, games and players they describe
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  actor_id UUID, -- auth.uid() of whoever made the change; NULL for maintenance run outside the app
+  action TEXT NOT NULL CHECK (action IN (
+    'score_submitted', 'score_edited', 'score_deleted',
+    'game_status_changed', 'season_toggled', 'bonus_recalculated'
+  )),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('score', 'game', 'season')),
+  entity_id UUID NOT NULL,
+  game_id UUID,
+  player_id UUID,
+  season_id UUID,
+  before JSONB,
+  after JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_game ON audit_log(game_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_player ON audit_log(player_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+
+-- Append-only, even for the table owner and SECURITY DEFINER functions
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Scores: one entry per inserted, changed or deleted row (no-op updates are skipped)
+CREATE OR REPLACE FUNCTION audit_score_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row scores;
+  v_season_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND to_jsonb(OLD) = to_jsonb(NEW) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  SELECT season_id INTO v_season_id FROM games WHERE id = v_row.game_id;
+
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, game_id, player_id, season_id, before, after)
+  VALUES (
+    auth.uid(),
+    CASE TG_OP WHEN 'INSERT' THEN 'score_submitted' WHEN 'UPDATE' THEN 'score_edited' ELSE 'score_deleted' END,
+    'score',
+    v_row.id,
+    v_row.game_id,
+    v_row.player_id,
+    v_season_id,
+    CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END,
+    CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_scores ON scores;
+CREATE TRIGGER audit_scores
+  AFTER INSERT OR UPDATE OR DELETE ON scores
+  FOR EACH ROW EXECUTE FUNCTION audit_score_change();
+
+-- Games: status changes (active / completed)
+CREATE OR REPLACE FUNCTION audit_game_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, game_id, season_id, before, after)
+  VALUES (
+    auth.uid(),
+    'game_status_changed',
+    'game',
+    NEW.id,
+    NEW.id,
+    NEW.season_id,
+    jsonb_build_object('status', OLD.status),
+    jsonb_build_object('status', NEW.status)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_game_status ON games;
+CREATE TRIGGER audit_game_status
+  AFTER UPDATE OF status ON games
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION audit_game_status_change();
+
+-- Seasons: activation toggles
+CREATE OR REPLACE FUNCTION audit_season_toggle()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, season_id, before, after)
+  VALUES (
+    auth.uid(),
+    'season_toggled',
+    'season',
+    NEW.id,
+    NEW.id,
+    jsonb_build_object('is_active', OLD.is_active),
+    jsonb_build_object('is_active', NEW.is_active)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_season_toggle ON seasons;
+CREATE TRIGGER audit_season_toggle
+  AFTER UPDATE OF is_active ON seasons
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active)
+  EXECUTE FUNCTION audit_season_toggle();
+
+-- Each score's bonus, keyed by score ID, for the bonus recalculation entries
+CREATE OR REPLACE FUNCTION bonus_points_by_score(p_game_id UUID, p_season_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(sc.id, sc.bonus_points), '{}'::jsonb)
+  FROM scores sc
+  JOIN games g ON g.id = sc.game_id
+  WHERE (p_game_id IS NULL OR g.id = p_game_id)
+    AND (p_season_id IS NULL OR g.season_id = p_season_id);
+$$ LANGUAGE sql STABLE;
+
+-- Recompute one game's low-round bonus (admin only), logging it and returning the scores that changed
+-- Replaces the score-by-score updates the Fix Bonus page used to make from the browser
+CREATE OR REPLACE FUNCTION recalculate_game_bonus_points(p_game_id UUID)
+RETURNS TABLE (
+  score_id UUID,
+  raw_score INTEGER,
+  old_bonus INTEGER,
+  new_bonus INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_season_id UUID;
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can recalculate bonus points';
+  END IF;
+
+  SELECT g.season_id INTO v_season_id FROM games g WHERE g.id = p_game_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  v_before := bonus_points_by_score(p_game_id, NULL);
+  PERFORM refresh_game_bonus_points(p_game_id);
+  v_after := bonus_points_by_score(p_game_id, NULL);
+
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, game_id, season_id, before, after)
+  VALUES (auth.uid(), 'bonus_recalculated', 'game', p_game_id, p_game_id, v_season_id, v_before, v_after);
+
+  RETURN QUERY
+  SELECT sc.id, sc.raw_score, (v_before->>sc.id::TEXT)::INTEGER, sc.bonus_points
+  FROM scores sc
+  WHERE sc.game_id = p_game_id
+    AND (v_before->>sc.id::TEXT)::INTEGER IS DISTINCT FROM sc.bonus_points
+  ORDER BY sc.raw_score;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recompute the low-round bonus for every game in a season (admin only); as in
+-- migration 017, now logged as one bonus recalculation for the season
+CREATE OR REPLACE FUNCTION refresh_season_bonus_points(p_season_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_game_id UUID;
+  v_games INTEGER := 0;
+  v_before JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can recalculate bonus points';
+  END IF;
+
+  v_before := bonus_points_by_score(NULL, p_season_id);
+
+  FOR v_game_id IN SELECT id FROM games WHERE season_id = p_season_id FOR UPDATE LOOP
+    PERFORM refresh_game_bonus_points(v_game_id);
+    v_games := v_games + 1;
+  END LOOP;
+
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, season_id, before, after)
+  VALUES (
+    auth.uid(),
+    'bonus_recalculated',
+    'season',
+    p_season_id,
+    p_season_id,
+    v_before,
+    bonus_points_by_score(NULL, p_season_id)
+  );
+
+  PERFORM reevaluate_achievements(p_season_id, NULL, false);
+
+  RETURN v_games;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+-- Admins can read the log; nobody can write to it except the functions above
+GRANT SELECT ON audit_log TO authenticated;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION bonus_points_by_score FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION recalculate_game_bonus_points TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (read for admins only; there are deliberately no write policies)
+CREATE POLICY "Admins can view the audit log"
+  ON audit_log FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+COMMENT ON TABLE audit_log IS 'Append-only history of score, game status, season and bonus changes with before/after values';
+COMMENT ON COLUMN audit_log.before IS 'The row (or, for bonus recalculations, each score''s bonus by score ID) before the change; NULL for submissions';
+COMMENT ON COLUMN audit_log.after IS 'The row (or each score''s bonus by score ID) after the change; NULL for deletions';
+COMMENT ON FUNCTION recalculate_game_bonus_points IS 'Admin: recomputes a game''s low-round bonus, logs it and returns the scores whose bonus changed';
@@ -0,0 +1,184 @@
+-- Migration: Score disputes
+-- Players can't change a score once it's submitted. This lets them ask for a
+-- change instead: a correction request on their own score, or a dispute on a
+-- playing partner's score from the same round, each with a reason and the
+-- score they think is right. Admins approve or reject requests from the
+-- Manage Scores queue; an approval goes through update_score, so points, the
+-- low-round bonus, achievements and the audit log all follow as for any edit
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS score_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  score_id UUID NOT NULL REFERENCES scores(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE, -- whose score it is
+  raised_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('correction', 'dispute')),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  current_score INTEGER NOT NULL, -- the score when the request was opened
+  proposed_score INTEGER NOT NULL CHECK (proposed_score BETWEEN 50 AND 150),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'approved', 'rejected', 'withdrawn')),
+  resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  resolution_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_disputes_score ON score_disputes(score_id);
+CREATE INDEX IF NOT EXISTS idx_score_disputes_game ON score_disputes(game_id);
+CREATE INDEX IF NOT EXISTS idx_score_disputes_raised_by ON score_disputes(raised_by);
+CREATE INDEX IF NOT EXISTS idx_score_disputes_status ON score_disputes(status);
+
+-- One open request per player per score
+CREATE UNIQUE INDEX IF NOT EXISTS idx_score_disputes_one_open
+  ON score_disputes(score_id, raised_by)
+  WHERE status = 'open';
+
+-- Open a correction request (own score) or a dispute (a score from a round you played)
+CREATE OR REPLACE FUNCTION open_score_dispute(
+  p_score_id UUID,
+  p_proposed_score INTEGER,
+  p_reason TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_score scores;
+  v_kind TEXT;
+  v_dispute_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to request a score change';
+  END IF;
+
+  SELECT * INTO v_score FROM scores WHERE id = p_score_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  IF v_score.player_id = auth.uid() THEN
+    v_kind := 'correction';
+  ELSIF EXISTS (SELECT 1 FROM scores WHERE game_id = v_score.game_id AND player_id = auth.uid()) THEN
+    v_kind := 'dispute';
+  ELSE
+    RAISE EXCEPTION 'You can only dispute scores from rounds you played';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Give a reason for the change';
+  END IF;
+
+  IF p_proposed_score = v_score.raw_score THEN
+    RAISE EXCEPTION 'The proposed score is the same as the current score';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM score_disputes
+    WHERE score_id = p_score_id AND raised_by = auth.uid() AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You already have an open request for this score';
+  END IF;
+
+  INSERT INTO score_disputes (
+    score_id, game_id, player_id, raised_by, kind, reason, current_score, proposed_score
+  )
+  VALUES (
+    p_score_id, v_score.game_id, v_score.player_id, auth.uid(), v_kind, trim(p_reason),
+    v_score.raw_score, p_proposed_score
+  )
+  RETURNING id INTO v_dispute_id;
+
+  RETURN v_dispute_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Withdraw one of your own open requests
+CREATE OR REPLACE FUNCTION withdraw_score_dispute(p_dispute_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE score_disputes
+  SET status = 'withdrawn',
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_dispute_id
+    AND raised_by = auth.uid()
+    AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or already closed';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approve or reject an open request (admin only); returns the round's ID
+-- Approving applies the proposed score through update_score and closes any
+-- other open requests on the same score as superseded
+CREATE OR REPLACE FUNCTION resolve_score_dispute(
+  p_dispute_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_dispute score_disputes;
+  v_notes TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Only admins can resolve score disputes';
+  END IF;
+
+  SELECT * INTO v_dispute FROM score_disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This request has already been %', v_dispute.status;
+  END IF;
+
+  UPDATE score_disputes
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      resolution_note = NULLIF(trim(p_note), '')
+  WHERE id = p_dispute_id;
+
+  IF p_approve THEN
+    SELECT notes INTO v_notes FROM scores WHERE id = v_dispute.score_id;
+    PERFORM update_score(v_dispute.score_id, v_dispute.proposed_score, v_notes);
+
+    UPDATE score_disputes
+    SET status = 'rejected',
+        resolved_by = auth.uid(),
+        resolved_at = now(),
+        resolution_note = 'Superseded by an approved change to this score'
+    WHERE score_id = v_dispute.score_id
+      AND status = 'open';
+  END IF;
+
+  RETURN v_dispute.game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+-- Requests are only written through the functions above
+GRANT SELECT ON score_disputes TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON score_disputes FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION open_score_dispute TO authenticated;
+GRANT EXECUTE ON FUNCTION withdraw_score_dispute TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_score_dispute TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE score_disputes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Players can view requests they raised or that concern their scores"
+  ON score_disputes FOR SELECT
+  USING (
+    raised_by = auth.uid()
+    OR player_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true)
+  );
+
+COMMENT ON TABLE score_disputes IS 'Player requests to change a submitted score, resolved by admins';
+COMMENT ON COLUMN score_disputes.kind IS 'correction: raised by the score''s owner; dispute: raised by another player in the round';
+COMMENT ON FUNCTION resolve_score_dispute IS 'Admin: approves (applying the score via update_score) or rejects a score change request';
@@ -0,0 +1,274 @@
+-- Migration: Score attestation
+-- Lets a season require each submitted score to be attested by another
+-- player from the same round before it counts toward the standings. Until
+-- then the score is provisional: it shows on the round and the leaderboard
+-- but is left out of season_score_counting, and so out of points, averages,
+-- rounds played and ranks, and it can't take the low-round bonus. Admins can
+-- attest any score
+-- Run this SQL in your Supabase SQL Editor
+
+ALTER TABLE seasons
+  ADD COLUMN IF NOT EXISTS require_attestation BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS score_attestations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  score_id UUID NOT NULL UNIQUE REFERENCES scores(id) ON DELETE CASCADE,
+  attested_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  attested_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_attestations_attested_by ON score_attestations(attested_by);
+
+-- Whether a score counts yet: always, unless its season requires attestation and it has none
+CREATE OR REPLACE FUNCTION score_is_attested(p_score_id UUID, p_require_attestation BOOLEAN)
+RETURNS BOOLEAN AS $$
+  SELECT NOT p_require_attestation
+    OR EXISTS (SELECT 1 FROM score_attestations WHERE score_id = p_score_id);
+$$ LANGUAGE sql STABLE;
+
+-- As in migration 013, counting only scores that count yet: a provisional score
+-- can't take the low-round bonus from players whose scores are attested
+CREATE OR REPLACE FUNCTION refresh_game_bonus_points(p_game_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_rules JSONB;
+  v_low_round INTEGER;
+  v_share_ties BOOLEAN;
+BEGIN
+  v_rules := game_scoring_rules(p_game_id);
+  v_low_round := COALESCE((v_rules->'bonus'->>'lowRound')::INTEGER, 0);
+  v_share_ties := COALESCE((v_rules->'bonus'->>'shareTies')::BOOLEAN, true);
+
+  WITH game_scores AS (
+    SELECT
+      sc.id,
+      sc.raw_score,
+      sp.flight_id,
+      score_is_attested(sc.id, COALESCE(s.require_attestation, false)) AS attested
+    FROM scores sc
+    JOIN games g ON g.id = sc.game_id
+    LEFT JOIN seasons s ON s.id = g.season_id
+    LEFT JOIN season_participants sp ON sp.season_id = g.season_id AND sp.player_id = sc.player_id
+    WHERE sc.game_id = p_game_id
+  ),
+  flight_scores AS (
+    SELECT
+      game_scores.*,
+      MIN(raw_score) FILTER (WHERE attested) OVER (PARTITION BY flight_id) AS flight_low
+    FROM game_scores
+  ),
+  flight_lows AS (
+    SELECT
+      id,
+      raw_score,
+      attested,
+      flight_low,
+      COUNT(*) FILTER (WHERE attested AND raw_score = flight_low) OVER (PARTITION BY flight_id) AS low_count
+    FROM flight_scores
+  ),
+  bonus AS (
+    SELECT
+      id,
+      CASE
+        WHEN v_low_round > 0 AND attested AND raw_score = flight_low AND (v_share_ties OR low_count = 1)
+          THEN v_low_round
+        ELSE 0
+      END AS bonus_points
+    FROM flight_lows
+  )
+  UPDATE scores
+  SET bonus_points = bonus.bonus_points
+  FROM bonus
+  WHERE scores.id = bonus.id
+    AND scores.bonus_points IS DISTINCT FROM bonus.bonus_points;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION refresh_game_bonus_points(UUID) FROM PUBLIC;
+
+-- Attest a playing partner's score (or any score, for admins)
+CREATE OR REPLACE FUNCTION attest_score(p_score_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_score scores;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to attest a score';
+  END IF;
+
+  SELECT * INTO v_score FROM scores WHERE id = p_score_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    IF v_score.player_id = auth.uid() THEN
+      RAISE EXCEPTION 'You can''t attest your own score';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM scores WHERE game_id = v_score.game_id AND player_id = auth.uid()) THEN
+      RAISE EXCEPTION 'You can only attest scores from rounds you played';
+    END IF;
+  END IF;
+
+  INSERT INTO score_attestations (score_id, attested_by)
+  VALUES (p_score_id, auth.uid())
+  ON CONFLICT (score_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This score has already been attested';
+  END IF;
+
+  -- The score now counts, so it can take the low-round bonus
+  PERFORM 1 FROM games WHERE id = v_score.game_id FOR UPDATE;
+  PERFORM refresh_game_bonus_points(v_score.game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Partners' scores waiting on the calling player's attestation, oldest round first
+CREATE OR REPLACE FUNCTION my_attestation_requests()
+RETURNS TABLE (
+  score_id UUID,
+  game_id UUID,
+  game_name TEXT,
+  game_date DATE,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER
+) AS $$
+  SELECT sc.id, g.id, g.name, g.game_date, sc.player_id, p.username, sc.raw_score
+  FROM scores sc
+  JOIN games g ON g.id = sc.game_id
+  JOIN seasons s ON s.id = g.season_id AND s.require_attestation
+  JOIN profiles p ON p.id = sc.player_id
+  WHERE sc.player_id <> auth.uid()
+    AND EXISTS (SELECT 1 FROM scores mine WHERE mine.game_id = sc.game_id AND mine.player_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM score_attestations a WHERE a.score_id = sc.id)
+  ORDER BY g.game_date, p.username;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- The leaderboard is rebuilt on top of the per-round view below
+DROP VIEW IF EXISTS season_leaderboard;
+DROP VIEW IF EXISTS season_score_counting;
+
+-- As in migration 012, leaving out scores still awaiting attestation
+CREATE VIEW season_score_counting
+WITH (security_invoker = true)
+AS
+WITH ranked AS (
+  SELECT
+    sc.id AS score_id,
+    g.season_id,
+    sc.player_id,
+    g.id AS game_id,
+    g.name AS game_name,
+    g.game_date,
+    sc.raw_score,
+    sc.net_score,
+    sc.points + sc.bonus_points AS round_points,
+    sc.net_points + sc.net_bonus_points AS net_round_points,
+    s.counting_rule,
+    s.counting_rounds,
+    COUNT(*) OVER (PARTITION BY g.season_id, sc.player_id) AS rounds_played,
+    ROW_NUMBER() OVER (
+      PARTITION BY g.season_id, sc.player_id
+      ORDER BY sc.points + sc.bonus_points DESC, g.game_date, sc.submitted_at
+    ) AS points_rank,
+    ROW_NUMBER() OVER (
+      PARTITION BY g.season_id, sc.player_id
+      ORDER BY COALESCE(sc.net_points + sc.net_bonus_points, 0) DESC, g.game_date, sc.submitted_at
+    ) AS net_points_rank
+  FROM
+    scores sc
+    INNER JOIN games g ON g.id = sc.game_id AND g.playoff_round IS NULL
+    INNER JOIN seasons s ON s.id = g.season_id
+  WHERE
+    score_is_attested(sc.id, s.require_attestation)
+)
+SELECT
+  score_id,
+  season_id,
+  player_id,
+  game_id,
+  game_name,
+  game_date,
+  raw_score,
+  net_score,
+  round_points,
+  net_round_points,
+  rounds_played,
+  points_rank <= CASE counting_rule
+    WHEN 'best_n' THEN LEAST(counting_rounds, rounds_played)
+    WHEN 'drop_worst' THEN GREATEST(rounds_played - counting_rounds, 0)
+    ELSE rounds_played
+  END AS counts,
+  net_points_rank <= CASE counting_rule
+    WHEN 'best_n' THEN LEAST(counting_rounds, rounds_played)
+    WHEN 'drop_worst' THEN GREATEST(rounds_played - counting_rounds, 0)
+    ELSE rounds_played
+  END AS net_counts
+FROM ranked;
+
+-- As in migration 013, plus each player's provisional (unattested) rounds (SECURITY INVOKER, see migration 002)
+CREATE VIEW season_leaderboard
+WITH (security_invoker = true)
+AS
+SELECT
+    s.id AS season_id,
+    s.name AS season_name,
+    p.id AS player_id,
+    p.username,
+    p.profile_image_url,
+    COALESCE(COUNT(sc.score_id), 0) AS games_played,
+    COALESCE(SUM(sc.round_points) FILTER (WHERE sc.counts), 0) AS total_points,
+    COALESCE(AVG(sc.raw_score), 0) AS avg_score,
+    s.net_scoring,
+    COALESCE(SUM(sc.net_round_points) FILTER (WHERE sc.net_counts), 0) AS net_total_points,
+    COALESCE(AVG(sc.net_score), 0) AS avg_net_score,
+    COALESCE(COUNT(sc.score_id) FILTER (WHERE sc.counts), 0) AS rounds_counted,
+    COALESCE(SUM(sc.round_points), 0) AS all_points,
+    COUNT(sc.score_id) >= s.min_rounds AS qualified,
+    sp.flight_id,
+    f.name AS flight_name,
+    (
+      SELECT COUNT(*)
+      FROM scores ps
+      JOIN games pg ON pg.id = ps.game_id AND pg.playoff_round IS NULL
+      WHERE pg.season_id = s.id
+        AND ps.player_id = p.id
+        AND NOT score_is_attested(ps.id, s.require_attestation)
+    ) AS provisional_rounds
+FROM
+    seasons s
+    INNER JOIN season_participants sp ON sp.season_id = s.id
+    INNER JOIN profiles p ON p.id = sp.player_id
+    LEFT JOIN season_flights f ON f.id = sp.flight_id
+    LEFT JOIN season_score_counting sc ON sc.season_id = s.id AND sc.player_id = p.id
+GROUP BY
+    s.id, s.name, s.net_scoring, s.min_rounds, s.require_attestation, p.id, p.username, p.profile_image_url, sp.flight_id, f.name
+ORDER BY
+    qualified DESC, total_points DESC NULLS LAST;
+
+-- Grant necessary permissions
+-- Attestations are only written through attest_score
+GRANT SELECT ON season_score_counting TO anon, authenticated;
+GRANT SELECT ON season_leaderboard TO anon, authenticated;
+GRANT SELECT ON score_attestations TO anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON score_attestations FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION score_is_attested TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION attest_score TO authenticated;
+GRANT EXECUTE ON FUNCTION my_attestation_requests TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE score_attestations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (read for all, like the scores they vouch for)
+CREATE POLICY "Score attestations are viewable by everyone"
+  ON score_attestations FOR SELECT
+  USING (true);
+
+COMMENT ON COLUMN seasons.require_attestation IS 'When true, a score counts toward the standings only once another player from the round (or an admin) attests it';
+COMMENT ON TABLE score_attestations IS 'A player''s confirmation that a partner''s submitted score is right; one per score';
+COMMENT ON FUNCTION my_attestation_requests IS 'Scores from the caller''s rounds in attestation seasons that still need attesting';
+COMMENT ON VIEW season_score_counting IS 'Regular-season scores with whether each counts toward the gross and net standings under the season''s counting rule. Scores awaiting attestation are left out';
+COMMENT ON VIEW season_leaderboard IS 'Regular-season leaderboard (counting, attested rounds only, playoff games excluded) with each player''s flight, gross and net statistics and provisional rounds. Uses SECURITY INVOKER for proper RLS enforcement. All users can view.';
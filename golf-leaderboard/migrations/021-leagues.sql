@@ -0,0 +1,770 @@
+-- Migration: Leagues
+-- Lets one deployment host several leagues (a golf society, a work league...).
+-- Every season belongs to a league, and games, scores and everything hanging
+-- off them are scoped to their season's league. Players belong to any number
+-- of leagues with a role in each: owner, admin or member. League owners and
+-- admins run their own league: the admin screens and admin functions that
+-- used to need profiles.is_admin now accept them for their league's seasons,
+-- games and scores. profiles.is_admin stays as the site administrator, who
+-- can see and manage every league. Courses are places, not league data, and
+-- stay shared.
+-- Existing seasons are moved into one league, with every player as a member
+-- and existing admins as its admins
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS leagues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  code TEXT NOT NULL UNIQUE, -- invite code players use to join the league
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS league_members (
+  league_id UUID NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (league_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_members_user ON league_members(user_id);
+
+ALTER TABLE seasons
+  ADD COLUMN IF NOT EXISTS league_id UUID REFERENCES leagues(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_seasons_league ON seasons(league_id);
+
+-- Move existing seasons into one league; the first site admin owns it
+DO $$
+DECLARE
+  v_league_id UUID;
+  v_owner_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM seasons WHERE league_id IS NULL) THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_owner_id FROM profiles WHERE is_admin = true ORDER BY created_at LIMIT 1;
+
+  INSERT INTO leagues (name, code, created_by)
+  VALUES ('My League', upper(substr(md5(random()::TEXT), 1, 6)), v_owner_id)
+  RETURNING id INTO v_league_id;
+
+  UPDATE seasons SET league_id = v_league_id WHERE league_id IS NULL;
+
+  INSERT INTO league_members (league_id, user_id, role)
+  SELECT
+    v_league_id,
+    p.id,
+    CASE WHEN p.id = v_owner_id THEN 'owner' WHEN p.is_admin THEN 'admin' ELSE 'member' END
+  FROM profiles p
+  ON CONFLICT (league_id, user_id) DO NOTHING;
+END $$;
+
+ALTER TABLE seasons ALTER COLUMN league_id SET NOT NULL;
+
+-- Access checks used by the policies and admin functions below. SECURITY
+-- DEFINER so policies on league_members don't recurse into themselves
+
+-- The site administrator (profiles.is_admin) can see and manage every league
+CREATE OR REPLACE FUNCTION is_site_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_league_member(p_league_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_site_admin()
+    OR EXISTS (SELECT 1 FROM league_members WHERE league_id = p_league_id AND user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_league_admin(p_league_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_site_admin()
+    OR EXISTS (
+      SELECT 1 FROM league_members
+      WHERE league_id = p_league_id AND user_id = auth.uid() AND role IN ('owner', 'admin')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_season_member(p_season_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_league_member((SELECT league_id FROM seasons WHERE id = p_season_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_season_admin(p_season_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_league_admin((SELECT league_id FROM seasons WHERE id = p_season_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_game_member(p_game_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_season_member((SELECT season_id FROM games WHERE id = p_game_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_game_admin(p_game_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_season_admin((SELECT season_id FROM games WHERE id = p_game_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A short random invite code that no league uses yet
+CREATE OR REPLACE FUNCTION new_league_code()
+RETURNS TEXT AS $$
+DECLARE
+  v_code TEXT;
+BEGIN
+  LOOP
+    v_code := upper(substr(md5(random()::TEXT), 1, 6));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM leagues WHERE code = v_code);
+  END LOOP;
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public;
+
+-- Start a league; the caller becomes its owner
+CREATE OR REPLACE FUNCTION create_league(p_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_league_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to create a league';
+  END IF;
+
+  IF p_name IS NULL OR length(trim(p_name)) = 0 THEN
+    RAISE EXCEPTION 'Give the league a name';
+  END IF;
+
+  INSERT INTO leagues (name, code, created_by)
+  VALUES (trim(p_name), new_league_code(), auth.uid())
+  RETURNING id INTO v_league_id;
+
+  INSERT INTO league_members (league_id, user_id, role)
+  VALUES (v_league_id, auth.uid(), 'owner');
+
+  RETURN v_league_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Join a league with its invite code
+CREATE OR REPLACE FUNCTION join_league(p_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_league_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to join a league';
+  END IF;
+
+  SELECT id INTO v_league_id FROM leagues WHERE code = upper(trim(p_code));
+  IF v_league_id IS NULL THEN
+    RAISE EXCEPTION 'League not found';
+  END IF;
+
+  INSERT INTO league_members (league_id, user_id)
+  VALUES (v_league_id, auth.uid())
+  ON CONFLICT (league_id, user_id) DO NOTHING;
+
+  RETURN v_league_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Join a season with its code, joining its league too. Seasons in leagues the
+-- player isn't in yet are hidden from them, so the lookup can't go through RLS
+CREATE OR REPLACE FUNCTION join_season(p_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_season seasons;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to join a season';
+  END IF;
+
+  SELECT * INTO v_season FROM seasons WHERE code = p_code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Season not found';
+  END IF;
+
+  INSERT INTO league_members (league_id, user_id)
+  VALUES (v_season.league_id, auth.uid())
+  ON CONFLICT (league_id, user_id) DO NOTHING;
+
+  -- A second join fails on the participants' unique key, as it always has
+  INSERT INTO season_participants (season_id, player_id)
+  VALUES (v_season.id, auth.uid());
+
+  RETURN v_season.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Change a member's role (league owners only). A league always keeps an owner
+CREATE OR REPLACE FUNCTION set_league_member_role(p_league_id UUID, p_user_id UUID, p_role TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_site_admin() AND NOT EXISTS (
+    SELECT 1 FROM league_members
+    WHERE league_id = p_league_id AND user_id = auth.uid() AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'Only league owners can change roles';
+  END IF;
+
+  IF p_role NOT IN ('owner', 'admin', 'member') THEN
+    RAISE EXCEPTION 'Unknown role %', p_role;
+  END IF;
+
+  PERFORM 1 FROM league_members WHERE league_id = p_league_id FOR UPDATE;
+
+  UPDATE league_members
+  SET role = p_role
+  WHERE league_id = p_league_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Player is not a member of this league';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM league_members WHERE league_id = p_league_id AND role = 'owner') THEN
+    RAISE EXCEPTION 'A league needs at least one owner';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admin functions, now checking the caller runs the league concerned.
+-- Each is as in the migration noted, with only the permission check changed
+
+-- As in migration 017
+CREATE OR REPLACE FUNCTION reevaluate_achievements(
+  p_season_id UUID DEFAULT NULL,
+  p_player_id UUID DEFAULT NULL,
+  p_dry_run BOOLEAN DEFAULT true
+)
+RETURNS TABLE (
+  player_id UUID,
+  username TEXT,
+  achievement_id UUID,
+  achievement_key TEXT,
+  achievement_name TEXT,
+  season_id UUID,
+  season_name TEXT,
+  action TEXT,
+  current_value INTEGER
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_season_id IS NOT NULL AND NOT is_season_admin(p_season_id) THEN
+    RAISE EXCEPTION 'Only league admins can re-evaluate achievements';
+  END IF;
+
+  IF p_season_id IS NULL AND NOT is_site_admin() AND NOT EXISTS (
+    SELECT 1 FROM league_members WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only league admins can re-evaluate achievements';
+  END IF;
+
+  RETURN QUERY
+  WITH targets AS (
+    -- Without a season, every season of a league the caller runs
+    SELECT sp.player_id, sp.season_id
+    FROM season_participants sp
+    WHERE (p_season_id IS NULL OR sp.season_id = p_season_id)
+      AND (p_player_id IS NULL OR sp.player_id = p_player_id)
+      AND is_season_admin(sp.season_id)
+    UNION
+    -- All-time rules for a player, even one who has not joined a season
+    SELECT p_player_id, NULL::UUID
+    WHERE p_player_id IS NOT NULL AND p_season_id IS NULL AND is_site_admin()
+  ),
+  changes AS (
+    -- All-time rules come back once per season a player is in; keep one
+    SELECT DISTINCT ON (t.player_id, c.achievement_id, c.season_id)
+      t.player_id, c.achievement_id, c.season_id, c.action, c.current_value
+    FROM targets t
+    CROSS JOIN LATERAL achievement_changes(t.player_id, t.season_id) c
+  ),
+  granted AS (
+    INSERT INTO user_achievements (user_id, achievement_id, season_id, metadata)
+    SELECT
+      ch.player_id,
+      ch.achievement_id,
+      ch.season_id,
+      jsonb_build_object('metric', a.metric, 'value', ch.current_value, 'reevaluated', true)
+    FROM changes ch
+    JOIN achievements a ON a.id = ch.achievement_id
+    WHERE NOT p_dry_run AND ch.action = 'grant'
+    RETURNING 1
+  ),
+  revoked AS (
+    DELETE FROM user_achievements ua
+    USING changes ch
+    WHERE NOT p_dry_run
+      AND ch.action = 'revoke'
+      AND ua.user_id = ch.player_id
+      AND ua.achievement_id = ch.achievement_id
+      AND ua.season_id IS NOT DISTINCT FROM ch.season_id
+    RETURNING 1
+  )
+  SELECT
+    ch.player_id,
+    p.username,
+    ch.achievement_id,
+    a.key,
+    a.name,
+    ch.season_id,
+    s.name,
+    ch.action,
+    ch.current_value
+  FROM changes ch
+  JOIN profiles p ON p.id = ch.player_id
+  JOIN achievements a ON a.id = ch.achievement_id
+  LEFT JOIN seasons s ON s.id = ch.season_id
+  ORDER BY p.username, ch.action, a.category, a.threshold;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 017
+CREATE OR REPLACE FUNCTION update_score(
+  p_score_id UUID,
+  p_raw_score INTEGER,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  score_id UUID,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  total_points INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_game_id UUID;
+  v_season_id UUID;
+  v_par INTEGER;
+BEGIN
+  SELECT sc.game_id INTO v_game_id FROM scores sc WHERE sc.id = p_score_id;
+
+  IF NOT is_game_admin(v_game_id) THEN
+    RAISE EXCEPTION 'Only admins can edit scores';
+  END IF;
+
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  SELECT c.par, g.season_id INTO v_par, v_season_id
+  FROM games g
+  JOIN courses c ON c.id = g.course_id
+  WHERE g.id = v_game_id
+  FOR UPDATE OF g;
+
+  UPDATE scores
+  SET raw_score = p_raw_score,
+      points = round_points(game_scoring_rules(v_game_id), p_raw_score, v_par),
+      notes = p_notes,
+      edited_by = auth.uid(),
+      edited_at = now()
+  WHERE id = p_score_id;
+
+  -- A scorecard that no longer adds up to the score is dropped
+  DELETE FROM score_holes sh
+  WHERE sh.score_id = p_score_id
+    AND (SELECT SUM(h.strokes) FROM score_holes h WHERE h.score_id = p_score_id) <> p_raw_score;
+
+  PERFORM refresh_game_bonus_points(v_game_id);
+  PERFORM reevaluate_achievements(v_season_id, NULL, false);
+
+  RETURN QUERY SELECT * FROM game_standings(v_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 017
+CREATE OR REPLACE FUNCTION delete_score(p_score_id UUID)
+RETURNS TABLE (
+  score_id UUID,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER,
+  points INTEGER,
+  bonus_points INTEGER,
+  total_points INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_game_id UUID;
+  v_season_id UUID;
+BEGIN
+  SELECT sc.game_id INTO v_game_id FROM scores sc WHERE sc.id = p_score_id;
+
+  IF NOT is_game_admin(v_game_id) THEN
+    RAISE EXCEPTION 'Only admins can delete scores';
+  END IF;
+
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  SELECT g.season_id INTO v_season_id FROM games g WHERE g.id = v_game_id FOR UPDATE;
+
+  DELETE FROM scores WHERE id = p_score_id;
+
+  PERFORM refresh_game_bonus_points(v_game_id);
+  PERFORM reevaluate_achievements(v_season_id, NULL, false);
+
+  RETURN QUERY SELECT * FROM game_standings(v_game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 018
+CREATE OR REPLACE FUNCTION refresh_season_bonus_points(p_season_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_game_id UUID;
+  v_games INTEGER := 0;
+  v_before JSONB;
+BEGIN
+  IF NOT is_season_admin(p_season_id) THEN
+    RAISE EXCEPTION 'Only admins can recalculate bonus points';
+  END IF;
+
+  v_before := bonus_points_by_score(NULL, p_season_id);
+
+  FOR v_game_id IN SELECT id FROM games WHERE season_id = p_season_id FOR UPDATE LOOP
+    PERFORM refresh_game_bonus_points(v_game_id);
+    v_games := v_games + 1;
+  END LOOP;
+
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, season_id, before, after)
+  VALUES (
+    auth.uid(),
+    'bonus_recalculated',
+    'season',
+    p_season_id,
+    p_season_id,
+    v_before,
+    bonus_points_by_score(NULL, p_season_id)
+  );
+
+  PERFORM reevaluate_achievements(p_season_id, NULL, false);
+
+  RETURN v_games;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 018
+CREATE OR REPLACE FUNCTION recalculate_game_bonus_points(p_game_id UUID)
+RETURNS TABLE (
+  score_id UUID,
+  raw_score INTEGER,
+  old_bonus INTEGER,
+  new_bonus INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_season_id UUID;
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  IF NOT is_game_admin(p_game_id) THEN
+    RAISE EXCEPTION 'Only admins can recalculate bonus points';
+  END IF;
+
+  SELECT g.season_id INTO v_season_id FROM games g WHERE g.id = p_game_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  v_before := bonus_points_by_score(p_game_id, NULL);
+  PERFORM refresh_game_bonus_points(p_game_id);
+  v_after := bonus_points_by_score(p_game_id, NULL);
+
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, game_id, season_id, before, after)
+  VALUES (auth.uid(), 'bonus_recalculated', 'game', p_game_id, p_game_id, v_season_id, v_before, v_after);
+
+  RETURN QUERY
+  SELECT sc.id, sc.raw_score, (v_before->>sc.id::TEXT)::INTEGER, sc.bonus_points
+  FROM scores sc
+  WHERE sc.game_id = p_game_id
+    AND (v_before->>sc.id::TEXT)::INTEGER IS DISTINCT FROM sc.bonus_points
+  ORDER BY sc.raw_score;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 015
+CREATE OR REPLACE FUNCTION set_game_status(p_game_id UUID, p_status TEXT, p_standings JSONB DEFAULT '[]')
+RETURNS VOID AS $$
+DECLARE
+  v_game RECORD;
+BEGIN
+  IF p_status NOT IN ('active', 'completed') THEN
+    RAISE EXCEPTION 'Unknown round status %', p_status;
+  END IF;
+
+  SELECT g.season_id, g.playoff_round INTO v_game FROM games g WHERE g.id = p_game_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT is_game_admin(p_game_id) THEN
+    RAISE EXCEPTION 'Only admins can change a round''s status';
+  END IF;
+
+  UPDATE games SET status = p_status WHERE id = p_game_id;
+
+  IF p_status = 'completed' AND v_game.season_id IS NOT NULL AND v_game.playoff_round IS NULL THEN
+    DELETE FROM season_standings_snapshots WHERE game_id = p_game_id;
+
+    INSERT INTO season_standings_snapshots (season_id, game_id, player_id, rank, tied, total_points, games_played, qualified)
+    SELECT
+      v_game.season_id,
+      p_game_id,
+      (s->>'player_id')::UUID,
+      (s->>'rank')::INTEGER,
+      (s->>'tied')::BOOLEAN,
+      (s->>'total_points')::INTEGER,
+      (s->>'games_played')::INTEGER,
+      (s->>'qualified')::BOOLEAN
+    FROM jsonb_array_elements(COALESCE(p_standings, '[]')) AS s;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 013
+CREATE OR REPLACE FUNCTION assign_season_flights(p_season_id UUID, p_assignments JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_assignment JSONB;
+  v_flight_id UUID;
+BEGIN
+  IF NOT is_season_admin(p_season_id) THEN
+    RAISE EXCEPTION 'Only admins can assign flights';
+  END IF;
+
+  FOR v_assignment IN SELECT value FROM jsonb_array_elements(p_assignments) LOOP
+    v_flight_id := NULLIF(v_assignment->>'flight_id', '')::UUID;
+
+    IF v_flight_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM season_flights WHERE id = v_flight_id AND season_id = p_season_id
+    ) THEN
+      RAISE EXCEPTION 'Flight does not belong to this season';
+    END IF;
+
+    UPDATE season_participants
+    SET flight_id = v_flight_id
+    WHERE season_id = p_season_id
+      AND player_id = (v_assignment->>'player_id')::UUID;
+  END LOOP;
+
+  RETURN refresh_season_bonus_points(p_season_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 019
+CREATE OR REPLACE FUNCTION resolve_score_dispute(
+  p_dispute_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_dispute score_disputes;
+  v_notes TEXT;
+BEGIN
+  SELECT * INTO v_dispute FROM score_disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF NOT is_game_admin(v_dispute.game_id) THEN
+    RAISE EXCEPTION 'Only admins can resolve score disputes';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This request has already been %', v_dispute.status;
+  END IF;
+
+  UPDATE score_disputes
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      resolution_note = NULLIF(trim(p_note), '')
+  WHERE id = p_dispute_id;
+
+  IF p_approve THEN
+    SELECT notes INTO v_notes FROM scores WHERE id = v_dispute.score_id;
+    PERFORM update_score(v_dispute.score_id, v_dispute.proposed_score, v_notes);
+
+    UPDATE score_disputes
+    SET status = 'rejected',
+        resolved_by = auth.uid(),
+        resolved_at = now(),
+        resolution_note = 'Superseded by an approved change to this score'
+    WHERE score_id = v_dispute.score_id
+      AND status = 'open';
+  END IF;
+
+  RETURN v_dispute.game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 020
+CREATE OR REPLACE FUNCTION attest_score(p_score_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_score scores;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to attest a score';
+  END IF;
+
+  SELECT * INTO v_score FROM scores WHERE id = p_score_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  IF NOT is_game_admin(v_score.game_id) THEN
+    IF v_score.player_id = auth.uid() THEN
+      RAISE EXCEPTION 'You can''t attest your own score';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM scores WHERE game_id = v_score.game_id AND player_id = auth.uid()) THEN
+      RAISE EXCEPTION 'You can only attest scores from rounds you played';
+    END IF;
+  END IF;
+
+  INSERT INTO score_attestations (score_id, attested_by)
+  VALUES (p_score_id, auth.uid())
+  ON CONFLICT (score_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This score has already been attested';
+  END IF;
+
+  -- The score now counts, so it can take the low-round bonus
+  PERFORM 1 FROM games WHERE id = v_score.game_id FOR UPDATE;
+  PERFORM refresh_game_bonus_points(v_score.game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+-- Leagues and memberships are only written through the functions above
+GRANT SELECT ON leagues TO authenticated;
+GRANT SELECT ON league_members TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON leagues FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON league_members FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION new_league_code FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_site_admin TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_league_member TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_league_admin TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_season_member TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_season_admin TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_game_member TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_game_admin TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_league TO authenticated;
+GRANT EXECUTE ON FUNCTION join_league TO authenticated;
+GRANT EXECUTE ON FUNCTION join_season TO authenticated;
+GRANT EXECUTE ON FUNCTION set_league_member_role TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE leagues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE league_members ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Leagues and their member lists are visible to the league's members
+CREATE POLICY "Leagues are viewable by their members"
+  ON leagues FOR SELECT
+  USING (is_league_member(id));
+
+CREATE POLICY "League members are viewable by fellow members"
+  ON league_members FOR SELECT
+  USING (is_league_member(league_id));
+
+-- League data was readable by everyone (migrations 002, 005, 011, 013, 015, 020);
+-- it is now readable by the league's members only
+DROP POLICY IF EXISTS "Seasons are viewable by everyone" ON seasons;
+CREATE POLICY "Seasons are viewable by league members"
+  ON seasons FOR SELECT
+  USING (is_league_member(league_id));
+
+DROP POLICY IF EXISTS "Games are viewable by everyone" ON games;
+CREATE POLICY "Games are viewable by league members"
+  ON games FOR SELECT
+  USING (is_season_member(season_id));
+
+DROP POLICY IF EXISTS "Scores are viewable by everyone" ON scores;
+CREATE POLICY "Scores are viewable by league members"
+  ON scores FOR SELECT
+  USING (is_game_member(game_id));
+
+DROP POLICY IF EXISTS "Season participants are viewable by everyone" ON season_participants;
+CREATE POLICY "Season participants are viewable by league members"
+  ON season_participants FOR SELECT
+  USING (is_season_member(season_id));
+
+DROP POLICY IF EXISTS "Score holes are viewable by everyone" ON score_holes;
+CREATE POLICY "Score holes are viewable by league members"
+  ON score_holes FOR SELECT
+  USING (EXISTS (SELECT 1 FROM scores WHERE scores.id = score_id));
+
+DROP POLICY IF EXISTS "Playoff seeds are viewable by everyone" ON season_playoff_seeds;
+CREATE POLICY "Playoff seeds are viewable by league members"
+  ON season_playoff_seeds FOR SELECT
+  USING (is_season_member(season_id));
+
+DROP POLICY IF EXISTS "Season flights are viewable by everyone" ON season_flights;
+CREATE POLICY "Season flights are viewable by league members"
+  ON season_flights FOR SELECT
+  USING (is_season_member(season_id));
+
+DROP POLICY IF EXISTS "Standings snapshots are viewable by everyone" ON season_standings_snapshots;
+CREATE POLICY "Standings snapshots are viewable by league members"
+  ON season_standings_snapshots FOR SELECT
+  USING (is_season_member(season_id));
+
+DROP POLICY IF EXISTS "Score attestations are viewable by everyone" ON score_attestations;
+CREATE POLICY "Score attestations are viewable by league members"
+  ON score_attestations FOR SELECT
+  USING (EXISTS (SELECT 1 FROM scores WHERE scores.id = score_id));
+
+-- League owners and admins manage their own league's data, alongside the
+-- site administrator's existing policies
+CREATE POLICY "League admins can manage their seasons"
+  ON seasons FOR ALL
+  USING (is_league_admin(league_id))
+  WITH CHECK (is_league_admin(league_id));
+
+CREATE POLICY "League admins can manage their games"
+  ON games FOR ALL
+  USING (is_season_admin(season_id))
+  WITH CHECK (is_season_admin(season_id));
+
+CREATE POLICY "League admins can manage their season participants"
+  ON season_participants FOR ALL
+  USING (is_season_admin(season_id))
+  WITH CHECK (is_season_admin(season_id));
+
+CREATE POLICY "League admins can manage their playoff seeds"
+  ON season_playoff_seeds FOR ALL
+  USING (is_season_admin(season_id))
+  WITH CHECK (is_season_admin(season_id));
+
+CREATE POLICY "League admins can manage their season flights"
+  ON season_flights FOR ALL
+  USING (is_season_admin(season_id))
+  WITH CHECK (is_season_admin(season_id));
+
+CREATE POLICY "League admins can view their audit log"
+  ON audit_log FOR SELECT
+  USING (season_id IS NOT NULL AND is_season_admin(season_id));
+
+CREATE POLICY "League admins can view their score disputes"
+  ON score_disputes FOR SELECT
+  USING (is_game_admin(game_id));
+
+COMMENT ON TABLE leagues IS 'A league (society, work league...) owning its own seasons, games and scores';
+COMMENT ON TABLE league_members IS 'Players in each league and their role: owner, admin or member';
+COMMENT ON COLUMN seasons.league_id IS 'League the season belongs to; its games and scores are visible to that league''s members only';
+COMMENT ON COLUMN profiles.is_admin IS 'Site administrator: can see and manage every league. League owners and admins manage their own leagues';
+COMMENT ON FUNCTION join_season IS 'Joins the season with this code, adding the player to its league';
+COMMENT ON FUNCTION set_league_member_role IS 'League owner: sets a member''s role (owner, admin or member); a league always keeps an owner';
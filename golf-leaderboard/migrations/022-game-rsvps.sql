@@ -0,0 +1,69 @@
+-- Migration: Game RSVPs
+-- Players in a season answer in, out or maybe for each scheduled round, so
+-- the season's schedule shows who's coming and admins get a roster per round.
+-- A player's reply can change until the day of the round. Only players who
+-- said they're in are chased for an unsubmitted score afterwards
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS game_rsvps (
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('in', 'out', 'maybe')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (game_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_rsvps_player ON game_rsvps(player_id);
+
+-- Answer for the calling player. Open to the season's players until the round's date has passed
+CREATE OR REPLACE FUNCTION set_game_rsvp(p_game_id UUID, p_status TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_game games;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to RSVP';
+  END IF;
+
+  IF p_status NOT IN ('in', 'out', 'maybe') THEN
+    RAISE EXCEPTION 'Unknown RSVP %', p_status;
+  END IF;
+
+  SELECT * INTO v_game FROM games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM season_participants WHERE season_id = v_game.season_id AND player_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Join the season to RSVP for its rounds';
+  END IF;
+
+  IF v_game.status <> 'active' OR v_game.game_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'RSVPs for this round have closed';
+  END IF;
+
+  INSERT INTO game_rsvps (game_id, player_id, status)
+  VALUES (p_game_id, auth.uid(), p_status)
+  ON CONFLICT (game_id, player_id)
+  DO UPDATE SET status = EXCLUDED.status, updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+-- RSVPs are only written through set_game_rsvp
+GRANT SELECT ON game_rsvps TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON game_rsvps FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_game_rsvp TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE game_rsvps ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (the league can see who's coming, like the rounds themselves)
+CREATE POLICY "Game RSVPs are viewable by league members"
+  ON game_rsvps FOR SELECT
+  USING (is_game_member(game_id));
+
+COMMENT ON TABLE game_rsvps IS 'Each player''s answer (in, out or maybe) for a scheduled round';
+COMMENT ON FUNCTION set_game_rsvp IS 'Sets the calling player''s RSVP for a round in one of their seasons, until the round''s date';
@@ -0,0 +1,131 @@
+-- Migration: Calendar feeds
+-- Private iCalendar subscription links for the round schedule. Each player
+-- gets a secret token per season, plus one for all their rounds; calendar
+-- apps fetch /api/calendar/<token>.ics without signing in, and the token is
+-- the only credential, so a player can reset it to revoke an old link
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  token TEXT PRIMARY KEY,
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  season_id UUID REFERENCES seasons(id) ON DELETE CASCADE, -- NULL: all the player's rounds
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One feed per player per season, and one for all their rounds
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_player_season
+  ON calendar_feeds(player_id, COALESCE(season_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+-- The calling player's feed token for a season (or all their rounds),
+-- created on first use. p_reset replaces it, so the old link stops working
+CREATE OR REPLACE FUNCTION calendar_feed_token(p_season_id UUID DEFAULT NULL, p_reset BOOLEAN DEFAULT false)
+RETURNS TEXT AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to subscribe to the schedule';
+  END IF;
+
+  IF p_season_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM season_participants WHERE season_id = p_season_id AND player_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Join the season to subscribe to its schedule';
+  END IF;
+
+  IF p_reset THEN
+    DELETE FROM calendar_feeds
+    WHERE player_id = auth.uid() AND season_id IS NOT DISTINCT FROM p_season_id;
+  END IF;
+
+  SELECT token INTO v_token
+  FROM calendar_feeds
+  WHERE player_id = auth.uid() AND season_id IS NOT DISTINCT FROM p_season_id;
+
+  IF v_token IS NULL THEN
+    -- Two random UUIDs: 244 random bits, without needing pgcrypto
+    v_token := replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+
+    INSERT INTO calendar_feeds (token, player_id, season_id)
+    VALUES (v_token, auth.uid(), p_season_id);
+  END IF;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The rounds in a feed, for the calendar route. Callable without a session:
+-- the token stands in for it. A season feed lists every round of the season;
+-- the all-rounds feed lists the player's seasons' rounds, leaving out the
+-- ones they said they can't make
+CREATE OR REPLACE FUNCTION calendar_feed(p_token TEXT)
+RETURNS TABLE (
+  feed_name TEXT,
+  game_id UUID,
+  game_name TEXT,
+  game_date DATE,
+  status TEXT,
+  round_code TEXT,
+  season_name TEXT,
+  course_name TEXT,
+  course_location TEXT,
+  rsvp_status TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_feed calendar_feeds;
+  v_feed_name TEXT;
+BEGIN
+  SELECT * INTO v_feed FROM calendar_feeds WHERE token = p_token;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar feed not found';
+  END IF;
+
+  IF v_feed.season_id IS NOT NULL THEN
+    SELECT s.name INTO v_feed_name FROM seasons s WHERE s.id = v_feed.season_id;
+  ELSE
+    SELECT p.username || '''s rounds' INTO v_feed_name FROM profiles p WHERE p.id = v_feed.player_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_feed_name,
+    g.id,
+    g.name,
+    g.game_date,
+    g.status,
+    g.round_code,
+    s.name,
+    c.name,
+    c.location,
+    r.status
+  FROM games g
+  JOIN seasons s ON s.id = g.season_id
+  JOIN courses c ON c.id = g.course_id
+  -- Players who leave a season stop getting its rounds
+  JOIN season_participants sp ON sp.season_id = g.season_id AND sp.player_id = v_feed.player_id
+  LEFT JOIN game_rsvps r ON r.game_id = g.id AND r.player_id = v_feed.player_id
+  WHERE (v_feed.season_id IS NULL OR g.season_id = v_feed.season_id)
+    AND (v_feed.season_id IS NOT NULL OR r.status IS DISTINCT FROM 'out')
+  ORDER BY g.game_date;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+-- Feeds are only written through calendar_feed_token
+GRANT SELECT ON calendar_feeds TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON calendar_feeds FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION calendar_feed_token TO authenticated;
+GRANT EXECUTE ON FUNCTION calendar_feed TO anon, authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (players can see their own feed links)
+CREATE POLICY "Players can view their own calendar feeds"
+  ON calendar_feeds FOR SELECT
+  USING (player_id = auth.uid());
+
+COMMENT ON TABLE calendar_feeds IS 'Secret tokens for players'' iCalendar subscription links, per season or for all their rounds';
+COMMENT ON FUNCTION calendar_feed_token IS 'The calling player''s calendar feed token for a season (NULL: all their rounds), created on first use; p_reset issues a new one';
+COMMENT ON FUNCTION calendar_feed IS 'Rounds for a calendar feed token, with round codes and the player''s RSVP. Callable without a session';
@@ -0,0 +1,185 @@
+-- Migration: Tee-time groups
+-- Lets admins split a round's players into tee-time groups (usually
+-- foursomes), by hand or with the pairings generator, which balances groups
+-- by handicap and avoids partners who have already played together in the
+-- season. Groups show on the round page. Once a round has groups, players
+-- attest the scores of their own group, not just anyone in the round
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tee_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  group_number INTEGER NOT NULL CHECK (group_number > 0),
+  tee_time TIME, -- NULL when the group has no set time
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (game_id, group_number)
+);
+
+CREATE TABLE IF NOT EXISTS tee_group_players (
+  group_id UUID NOT NULL REFERENCES tee_groups(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  PRIMARY KEY (group_id, player_id),
+  UNIQUE (game_id, player_id) -- One group per player per round
+);
+
+CREATE INDEX IF NOT EXISTS idx_tee_group_players_player ON tee_group_players(player_id);
+
+-- Whether two players are partners for a round's attestation: in the same
+-- group, or either of them isn't in a group (rounds without groups work as before)
+CREATE OR REPLACE FUNCTION are_playing_partners(p_game_id UUID, p_player_a UUID, p_player_b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM tee_group_players WHERE game_id = p_game_id AND player_id = p_player_a)
+    OR NOT EXISTS (SELECT 1 FROM tee_group_players WHERE game_id = p_game_id AND player_id = p_player_b)
+    OR EXISTS (
+      SELECT 1
+      FROM tee_group_players a
+      JOIN tee_group_players b ON b.group_id = a.group_id
+      WHERE a.game_id = p_game_id AND a.player_id = p_player_a AND b.player_id = p_player_b
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replace a round's groups in one transaction (league admins)
+-- p_groups: [{ "tee_time": "08:10" | null, "player_ids": [uuid, ...] }, ...], numbered in order
+CREATE OR REPLACE FUNCTION set_game_tee_groups(p_game_id UUID, p_groups JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_game games;
+  v_group JSONB;
+  v_group_id UUID;
+  v_player_id UUID;
+  v_number INTEGER := 0;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT is_game_admin(p_game_id) THEN
+    RAISE EXCEPTION 'Only league admins can set tee times';
+  END IF;
+
+  DELETE FROM tee_groups WHERE game_id = p_game_id;
+
+  FOR v_group IN SELECT value FROM jsonb_array_elements(p_groups) LOOP
+    -- Skip groups left empty in the editor
+    CONTINUE WHEN jsonb_array_length(COALESCE(v_group->'player_ids', '[]'::JSONB)) = 0;
+
+    v_number := v_number + 1;
+    INSERT INTO tee_groups (game_id, group_number, tee_time)
+    VALUES (p_game_id, v_number, NULLIF(v_group->>'tee_time', '')::TIME)
+    RETURNING id INTO v_group_id;
+
+    FOR v_player_id IN SELECT value::UUID FROM jsonb_array_elements_text(v_group->'player_ids') LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM season_participants WHERE season_id = v_game.season_id AND player_id = v_player_id
+      ) THEN
+        RAISE EXCEPTION 'Every player in a group must be in the round''s season';
+      END IF;
+
+      IF EXISTS (SELECT 1 FROM tee_group_players WHERE game_id = p_game_id AND player_id = v_player_id) THEN
+        RAISE EXCEPTION 'Each player can only be in one group';
+      END IF;
+
+      INSERT INTO tee_group_players (group_id, game_id, player_id)
+      VALUES (v_group_id, p_game_id, v_player_id);
+    END LOOP;
+  END LOOP;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 021, limiting players to their own group once the round has groups
+CREATE OR REPLACE FUNCTION attest_score(p_score_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_score scores;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to attest a score';
+  END IF;
+
+  SELECT * INTO v_score FROM scores WHERE id = p_score_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Score not found';
+  END IF;
+
+  IF NOT is_game_admin(v_score.game_id) THEN
+    IF v_score.player_id = auth.uid() THEN
+      RAISE EXCEPTION 'You can''t attest your own score';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM scores WHERE game_id = v_score.game_id AND player_id = auth.uid()) THEN
+      RAISE EXCEPTION 'You can only attest scores from rounds you played';
+    END IF;
+
+    IF NOT are_playing_partners(v_score.game_id, v_score.player_id, auth.uid()) THEN
+      RAISE EXCEPTION 'You can only attest scores from your own group';
+    END IF;
+  END IF;
+
+  INSERT INTO score_attestations (score_id, attested_by)
+  VALUES (p_score_id, auth.uid())
+  ON CONFLICT (score_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This score has already been attested';
+  END IF;
+
+  -- The score now counts, so it can take the low-round bonus
+  PERFORM 1 FROM games WHERE id = v_score.game_id FOR UPDATE;
+  PERFORM refresh_game_bonus_points(v_score.game_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in migration 020, leaving out scores from other groups
+CREATE OR REPLACE FUNCTION my_attestation_requests()
+RETURNS TABLE (
+  score_id UUID,
+  game_id UUID,
+  game_name TEXT,
+  game_date DATE,
+  player_id UUID,
+  username TEXT,
+  raw_score INTEGER
+) AS $$
+  SELECT sc.id, g.id, g.name, g.game_date, sc.player_id, p.username, sc.raw_score
+  FROM scores sc
+  JOIN games g ON g.id = sc.game_id
+  JOIN seasons s ON s.id = g.season_id AND s.require_attestation
+  JOIN profiles p ON p.id = sc.player_id
+  WHERE sc.player_id <> auth.uid()
+    AND EXISTS (SELECT 1 FROM scores mine WHERE mine.game_id = sc.game_id AND mine.player_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM score_attestations a WHERE a.score_id = sc.id)
+    AND are_playing_partners(sc.game_id, sc.player_id, auth.uid())
+  ORDER BY g.game_date, p.username;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Grant necessary permissions
+-- Groups are only written through set_game_tee_groups
+GRANT SELECT ON tee_groups TO authenticated;
+GRANT SELECT ON tee_group_players TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON tee_groups FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON tee_group_players FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION are_playing_partners TO authenticated;
+GRANT EXECUTE ON FUNCTION set_game_tee_groups TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE tee_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tee_group_players ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (the league can see the groups, like the rounds themselves)
+CREATE POLICY "Tee groups are viewable by league members"
+  ON tee_groups FOR SELECT
+  USING (is_game_member(game_id));
+
+CREATE POLICY "Tee group players are viewable by league members"
+  ON tee_group_players FOR SELECT
+  USING (is_game_member(game_id));
+
+COMMENT ON TABLE tee_groups IS 'Tee-time groups for a round, numbered in tee order';
+COMMENT ON TABLE tee_group_players IS 'The players in each tee-time group; a player is in at most one group per round';
+COMMENT ON FUNCTION are_playing_partners IS 'True when two players share a tee group in a round, or either has no group';
+COMMENT ON FUNCTION set_game_tee_groups IS 'League admin: replace a round''s tee-time groups in one transaction';
+COMMENT ON FUNCTION my_attestation_requests IS 'Scores from the caller''s rounds (and tee groups, where set) in attestation seasons that still need attesting';
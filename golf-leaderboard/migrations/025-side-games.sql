@@ -0,0 +1,85 @@
+-- Migration: Side games
+-- Money contests alongside a round: a skins pot, closest-to-pin and long
+-- drive, each with its own entry fee and entrants. Skins are worked out from
+-- hole-by-hole scorecards when there are any; closest-to-pin and long drive
+-- winners (and skins, for rounds without scorecards) are entered by a league
+-- admin. Winnings and the season's who-owes-whom ledger are computed in the
+-- app (src/lib/utils/sideGames.ts); nothing here moves money
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS side_games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('skins', 'closest_to_pin', 'long_drive')),
+  entry_fee NUMERIC(8,2) NOT NULL DEFAULT 0 CHECK (entry_fee >= 0),
+  hole_number INTEGER CHECK (hole_number BETWEEN 1 AND 18), -- The contest hole for closest-to-pin and long drive
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_side_games_game ON side_games(game_id);
+
+-- One skins pot per round, and one of each contest per hole
+CREATE UNIQUE INDEX IF NOT EXISTS idx_side_games_game_kind_hole
+  ON side_games(game_id, kind, COALESCE(hole_number, 0));
+
+CREATE TABLE IF NOT EXISTS side_game_entries (
+  side_game_id UUID NOT NULL REFERENCES side_games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  PRIMARY KEY (side_game_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_side_game_entries_player ON side_game_entries(player_id);
+
+-- Winners entered by hand. Ties share the pot; shares > 1 is skins won
+CREATE TABLE IF NOT EXISTS side_game_winners (
+  side_game_id UUID NOT NULL REFERENCES side_games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  shares INTEGER NOT NULL DEFAULT 1 CHECK (shares > 0),
+  PRIMARY KEY (side_game_id, player_id),
+  -- Only entrants can win
+  FOREIGN KEY (side_game_id, player_id)
+    REFERENCES side_game_entries(side_game_id, player_id) ON DELETE CASCADE
+);
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON side_games TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON side_game_entries TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON side_game_winners TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE side_games ENABLE ROW LEVEL SECURITY;
+ALTER TABLE side_game_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE side_game_winners ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (the league can see the side games, league admins run them)
+CREATE POLICY "Side games are viewable by league members"
+  ON side_games FOR SELECT
+  USING (is_game_member(game_id));
+
+CREATE POLICY "League admins can manage side games"
+  ON side_games FOR ALL
+  USING (is_game_admin(game_id))
+  WITH CHECK (is_game_admin(game_id));
+
+CREATE POLICY "Side game entries are viewable by league members"
+  ON side_game_entries FOR SELECT
+  USING (is_game_member((SELECT game_id FROM side_games WHERE id = side_game_id)));
+
+CREATE POLICY "League admins can manage side game entries"
+  ON side_game_entries FOR ALL
+  USING (is_game_admin((SELECT game_id FROM side_games WHERE id = side_game_id)))
+  WITH CHECK (is_game_admin((SELECT game_id FROM side_games WHERE id = side_game_id)));
+
+CREATE POLICY "Side game winners are viewable by league members"
+  ON side_game_winners FOR SELECT
+  USING (is_game_member((SELECT game_id FROM side_games WHERE id = side_game_id)));
+
+CREATE POLICY "League admins can manage side game winners"
+  ON side_game_winners FOR ALL
+  USING (is_game_admin((SELECT game_id FROM side_games WHERE id = side_game_id)))
+  WITH CHECK (is_game_admin((SELECT game_id FROM side_games WHERE id = side_game_id)));
+
+COMMENT ON TABLE side_games IS 'Money contests in a round (skins, closest-to-pin, long drive) with an entry fee per player';
+COMMENT ON TABLE side_game_entries IS 'Players who paid into a side game';
+COMMENT ON TABLE side_game_winners IS 'Side game winners entered by an admin; the pot is split by shares. Skins without one are worked out from scorecards';
@@ -0,0 +1,207 @@
+-- Migration: History import
+-- Lets a league admin bring past seasons in from spreadsheets. The import
+-- wizard matches the CSV rows to existing courses, seasons, rounds and players
+-- and previews the points (src/lib/utils/historyImport.ts); this writes the
+-- result in one transaction, so a bad row leaves nothing half imported.
+-- Players with no account become placeholder profiles, which have no login
+-- Run this SQL in your Supabase SQL Editor
+
+-- Placeholder players have a profile but no auth user behind it, so the link
+-- to auth.users moves from profiles.id to auth_user_id, which placeholders
+-- leave empty. Every real account still has its auth user, and deleting the
+-- auth user still deletes the profile
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS is_placeholder BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS auth_user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE;
+
+UPDATE profiles SET auth_user_id = id WHERE auth_user_id IS NULL AND NOT is_placeholder;
+
+-- Accounts are created with only an id, so fill auth_user_id in for them
+CREATE OR REPLACE FUNCTION set_profile_auth_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.is_placeholder THEN
+    NEW.auth_user_id := NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_profile_auth_user ON profiles;
+CREATE TRIGGER set_profile_auth_user
+  BEFORE INSERT ON profiles
+  FOR EACH ROW EXECUTE FUNCTION set_profile_auth_user();
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_auth_user_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_auth_user_check CHECK (
+  (is_placeholder AND auth_user_id IS NULL) OR (NOT is_placeholder AND auth_user_id = id)
+);
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_id_fkey;
+
+-- A short random code that no season or round uses yet
+CREATE OR REPLACE FUNCTION new_import_code(p_table TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_code TEXT;
+  v_taken BOOLEAN;
+BEGIN
+  LOOP
+    v_code := upper(substr(md5(random()::TEXT), 1, 6));
+    IF p_table = 'seasons' THEN
+      v_taken := EXISTS (SELECT 1 FROM seasons WHERE code = v_code);
+    ELSE
+      v_taken := EXISTS (SELECT 1 FROM games WHERE round_code = v_code);
+    END IF;
+    EXIT WHEN NOT v_taken;
+  END LOOP;
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public;
+
+-- Write an import plan for a league (league admins; new courses need the site
+-- administrator). New rows are referred to by their plan key, existing ones by
+-- id. New seasons use the rule set the admin picked for them, placeholder
+-- players join the league, and existing players must already be members.
+-- Imported rounds are completed, scores are worked out under their season's
+-- rules, each round's low-round bonus is refreshed, and achievements are
+-- re-evaluated once for each season that got scores. Returns the ids of every
+-- round that got scores
+CREATE OR REPLACE FUNCTION import_league_history(p_league_id UUID, p_plan JSONB)
+RETURNS UUID[] AS $$
+DECLARE
+  v_ids JSONB := '{}'::JSONB;
+  v_item JSONB;
+  v_id UUID;
+  v_game_id UUID;
+  v_player_id UUID;
+  v_games UUID[] := '{}';
+BEGIN
+  IF NOT is_league_admin(p_league_id) THEN
+    RAISE EXCEPTION 'Only league admins can import history';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_plan->'courses', '[]')) > 0 AND NOT is_site_admin() THEN
+    RAISE EXCEPTION 'Only the site administrator can add courses';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'courses', '[]')) LOOP
+    INSERT INTO courses (name, location, par, course_rating, slope_rating)
+    VALUES (
+      v_item->>'name',
+      v_item->>'location',
+      (v_item->>'par')::INTEGER,
+      (v_item->>'courseRating')::NUMERIC,
+      (v_item->>'slopeRating')::INTEGER
+    )
+    RETURNING id INTO v_id;
+    v_ids := v_ids || jsonb_build_object(v_item->>'key', v_id);
+  END LOOP;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'seasons', '[]')) LOOP
+    IF NOT EXISTS (SELECT 1 FROM scoring_rule_sets WHERE id = (v_item->>'scoringRuleSetId')::UUID) THEN
+      RAISE EXCEPTION 'Choose a scoring rule set for %', v_item->>'name';
+    END IF;
+
+    INSERT INTO seasons (name, code, start_date, end_date, created_by, is_active, league_id, scoring_rule_set_id)
+    VALUES (
+      v_item->>'name',
+      new_import_code('seasons'),
+      (v_item->>'startDate')::DATE,
+      (v_item->>'endDate')::DATE,
+      auth.uid(),
+      false,
+      p_league_id,
+      (v_item->>'scoringRuleSetId')::UUID
+    )
+    RETURNING id INTO v_id;
+    v_ids := v_ids || jsonb_build_object(v_item->>'key', v_id);
+  END LOOP;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'games', '[]')) LOOP
+    v_id := COALESCE(v_ids->>(v_item->>'seasonRef'), v_item->>'seasonRef')::UUID;
+    IF NOT EXISTS (SELECT 1 FROM seasons WHERE id = v_id AND league_id = p_league_id) THEN
+      RAISE EXCEPTION 'Season not found in this league';
+    END IF;
+
+    INSERT INTO games (name, course_id, season_id, round_code, game_date, created_by, status)
+    VALUES (
+      v_item->>'name',
+      COALESCE(v_ids->>(v_item->>'courseRef'), v_item->>'courseRef')::UUID,
+      v_id,
+      new_import_code('games'),
+      (v_item->>'gameDate')::DATE,
+      auth.uid(),
+      'completed'
+    )
+    RETURNING id INTO v_id;
+    v_ids := v_ids || jsonb_build_object(v_item->>'key', v_id);
+  END LOOP;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'players', '[]')) LOOP
+    v_id := gen_random_uuid();
+    INSERT INTO profiles (id, username, email, is_placeholder)
+    VALUES (v_id, v_item->>'username', 'placeholder-' || v_id || '@players.invalid', true);
+
+    INSERT INTO league_members (league_id, user_id, role)
+    VALUES (p_league_id, v_id, 'member');
+    v_ids := v_ids || jsonb_build_object(v_item->>'key', v_id);
+  END LOOP;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'scores', '[]')) LOOP
+    v_game_id := COALESCE(v_ids->>(v_item->>'gameRef'), v_item->>'gameRef')::UUID;
+    v_player_id := COALESCE(v_ids->>(v_item->>'playerRef'), v_item->>'playerRef')::UUID;
+
+    IF NOT EXISTS (SELECT 1 FROM league_members WHERE league_id = p_league_id AND user_id = v_player_id) THEN
+      RAISE EXCEPTION 'Player is not a member of this league';
+    END IF;
+
+    IF NOT v_game_id = ANY(v_games) THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM games g JOIN seasons s ON s.id = g.season_id
+        WHERE g.id = v_game_id AND s.league_id = p_league_id
+      ) THEN
+        RAISE EXCEPTION 'Round not found in this league';
+      END IF;
+      v_games := v_games || v_game_id;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM scores WHERE game_id = v_game_id AND player_id = v_player_id) THEN
+      RAISE EXCEPTION 'A player already has a score for a round in this import';
+    END IF;
+
+    INSERT INTO scores (game_id, player_id, raw_score, points, bonus_points, notes)
+    SELECT
+      v_game_id,
+      v_player_id,
+      (v_item->>'rawScore')::INTEGER,
+      round_points(game_scoring_rules(v_game_id), (v_item->>'rawScore')::INTEGER, c.par),
+      0,
+      v_item->>'notes'
+    FROM games g
+    JOIN courses c ON c.id = g.course_id
+    WHERE g.id = v_game_id;
+
+    INSERT INTO season_participants (season_id, player_id)
+    SELECT season_id, v_player_id FROM games WHERE id = v_game_id
+    ON CONFLICT (season_id, player_id) DO NOTHING;
+  END LOOP;
+
+  FOREACH v_game_id IN ARRAY v_games LOOP
+    PERFORM refresh_game_bonus_points(v_game_id);
+  END LOOP;
+
+  FOR v_id IN SELECT DISTINCT season_id FROM games WHERE id = ANY(v_games) LOOP
+    PERFORM reevaluate_achievements(v_id, NULL, false);
+  END LOOP;
+
+  RETURN v_games;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION import_league_history TO authenticated;
+
+COMMENT ON COLUMN profiles.is_placeholder IS 'Imported player with no account; has no login';
+COMMENT ON COLUMN profiles.auth_user_id IS 'Auth user behind the profile (same as id); empty for placeholder players';
+COMMENT ON FUNCTION import_league_history(UUID, JSONB) IS 'Write a history import plan (courses, seasons, rounds, placeholder players, scores) in one transaction';
@@ -0,0 +1,184 @@
+-- Migration: Net results in the score transaction
+-- Net score, net points and the net low-round bonus were filled in from the
+-- browser after each submission, edit or deletion, so one player's page wrote
+-- other players' net bonus. refresh_game_bonus_points now recomputes them too,
+-- inside the same transaction as every score function that calls it
+-- Run this SQL in your Supabase SQL Editor
+
+-- Handicap index in effect on a date: the latest history row before it
+-- (mirrors getHandicapIndexesAsOf in src/lib/supabase/client.ts). Players with no
+-- history yet get NULL, and have no net result for the round until Admin >
+-- Recalculate Handicaps backfills them
+CREATE OR REPLACE FUNCTION handicap_index_as_of(p_player_id UUID, p_date DATE)
+RETURNS NUMERIC AS $$
+  SELECT handicap_index
+  FROM handicap_history
+  WHERE player_id = p_player_id AND effective_date < p_date
+  ORDER BY effective_date DESC, calculated_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Course handicap, net score, net points and the net low-round bonus (won within
+-- each flight, among scores that count yet; see migration 020) for every score in a game of a net scoring season. Scores whose
+-- player has no handicap index yet are left out of the net results. This is the
+-- only place net results are worked out (the course handicap mirrors
+-- calculateCourseHandicap in src/lib/utils/handicap.ts)
+CREATE OR REPLACE FUNCTION refresh_game_net_scores(p_game_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_game RECORD;
+  v_rules JSONB;
+  v_low_round INTEGER;
+  v_share_ties BOOLEAN;
+BEGIN
+  SELECT
+    g.game_date,
+    g.season_id,
+    s.net_scoring,
+    COALESCE(s.require_attestation, false) AS require_attestation,
+    c.par,
+    COALESCE(t.course_rating, c.course_rating, c.par) AS course_rating,
+    COALESCE(NULLIF(COALESCE(t.slope_rating, c.slope_rating), 0), 113) AS slope_rating
+  INTO v_game
+  FROM games g
+  JOIN courses c ON c.id = g.course_id
+  LEFT JOIN seasons s ON s.id = g.season_id
+  LEFT JOIN course_tees t ON t.id = g.tee_id
+  WHERE g.id = p_game_id;
+
+  IF NOT FOUND OR NOT COALESCE(v_game.net_scoring, false) THEN
+    RETURN;
+  END IF;
+
+  v_rules := game_scoring_rules(p_game_id);
+  v_low_round := COALESCE((v_rules->'bonus'->>'lowRound')::INTEGER, 0);
+  v_share_ties := COALESCE((v_rules->'bonus'->>'shareTies')::BOOLEAN, true);
+
+  WITH handicaps AS (
+    SELECT
+      sc.id,
+      sc.raw_score,
+      sp.flight_id,
+      score_is_attested(sc.id, v_game.require_attestation) AS attested,
+      -- Rounded half up, like Math.round
+      FLOOR(
+        handicap_index_as_of(sc.player_id, v_game.game_date) * v_game.slope_rating / 113.0
+        + (v_game.course_rating - v_game.par)
+        + 0.5
+      )::INTEGER AS course_handicap
+    FROM scores sc
+    LEFT JOIN season_participants sp ON sp.season_id = v_game.season_id AND sp.player_id = sc.player_id
+    WHERE sc.game_id = p_game_id
+  ),
+  nets AS (
+    SELECT
+      id,
+      flight_id,
+      attested,
+      course_handicap,
+      raw_score - course_handicap AS net_score
+    FROM handicaps
+  ),
+  flight_lows AS (
+    SELECT
+      nets.*,
+      MIN(net_score) FILTER (WHERE attested) OVER (PARTITION BY flight_id) AS flight_low
+    FROM nets
+  ),
+  results AS (
+    SELECT
+      id,
+      course_handicap,
+      net_score,
+      CASE WHEN net_score IS NOT NULL THEN round_points(v_rules, net_score, v_game.par) END AS net_points,
+      CASE
+        WHEN v_low_round > 0 AND attested AND net_score = flight_low
+          AND (v_share_ties OR COUNT(*) FILTER (WHERE attested AND net_score = flight_low) OVER (PARTITION BY flight_id) = 1)
+          THEN v_low_round
+        ELSE 0
+      END AS net_bonus_points
+    FROM flight_lows
+  )
+  UPDATE scores
+  SET course_handicap = results.course_handicap,
+      net_score = results.net_score,
+      net_points = results.net_points,
+      net_bonus_points = results.net_bonus_points
+  FROM results
+  WHERE scores.id = results.id
+    AND (
+      scores.course_handicap IS DISTINCT FROM results.course_handicap
+      OR scores.net_score IS DISTINCT FROM results.net_score
+      OR scores.net_points IS DISTINCT FROM results.net_points
+      OR scores.net_bonus_points IS DISTINCT FROM results.net_bonus_points
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- As in migration 020, then the net results
+CREATE OR REPLACE FUNCTION refresh_game_bonus_points(p_game_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_rules JSONB;
+  v_low_round INTEGER;
+  v_share_ties BOOLEAN;
+BEGIN
+  v_rules := game_scoring_rules(p_game_id);
+  v_low_round := COALESCE((v_rules->'bonus'->>'lowRound')::INTEGER, 0);
+  v_share_ties := COALESCE((v_rules->'bonus'->>'shareTies')::BOOLEAN, true);
+
+  WITH game_scores AS (
+    SELECT
+      sc.id,
+      sc.raw_score,
+      sp.flight_id,
+      score_is_attested(sc.id, COALESCE(s.require_attestation, false)) AS attested
+    FROM scores sc
+    JOIN games g ON g.id = sc.game_id
+    LEFT JOIN seasons s ON s.id = g.season_id
+    LEFT JOIN season_participants sp ON sp.season_id = g.season_id AND sp.player_id = sc.player_id
+    WHERE sc.game_id = p_game_id
+  ),
+  flight_scores AS (
+    SELECT
+      game_scores.*,
+      MIN(raw_score) FILTER (WHERE attested) OVER (PARTITION BY flight_id) AS flight_low
+    FROM game_scores
+  ),
+  flight_lows AS (
+    SELECT
+      id,
+      raw_score,
+      attested,
+      flight_low,
+      COUNT(*) FILTER (WHERE attested AND raw_score = flight_low) OVER (PARTITION BY flight_id) AS low_count
+    FROM flight_scores
+  ),
+  bonus AS (
+    SELECT
+      id,
+      CASE
+        WHEN v_low_round > 0 AND attested AND raw_score = flight_low AND (v_share_ties OR low_count = 1)
+          THEN v_low_round
+        ELSE 0
+      END AS bonus_points
+    FROM flight_lows
+  )
+  UPDATE scores
+  SET bonus_points = bonus.bonus_points
+  FROM bonus
+  WHERE scores.id = bonus.id
+    AND scores.bonus_points IS DISTINCT FROM bonus.bonus_points;
+
+  PERFORM refresh_game_net_scores(p_game_id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant necessary permissions
+-- The helpers are only called from inside the score functions
+REVOKE EXECUTE ON FUNCTION handicap_index_as_of(UUID, DATE) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_game_net_scores(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_game_bonus_points(UUID) FROM PUBLIC;
+
+COMMENT ON FUNCTION refresh_game_net_scores(UUID) IS 'Recompute course handicap, net score, net points and the net low-round bonus for a game in a net scoring season';
+COMMENT ON FUNCTION refresh_game_bonus_points(UUID) IS 'Recompute the gross low-round bonus per flight, then the net results, for a game';
@@ -0,0 +1,64 @@
+// public/sw.js
+// Service worker: caches the app shell and static assets so score entry opens
+// without signal. Queued scores are sent by the page once it is back online
+// (see src/lib/offlineQueue.ts). API routes and Supabase requests are never cached.
+
+const CACHE = 'golf-leaderboard-v2';
+const APP_SHELL = ['/', '/dashboard', '/scores/enter', '/icon.svg', '/manifest.webmanifest'];
+const STATIC_ASSET = /\.(?:js|css|svg|png|jpe?g|ico|woff2?|webmanifest)$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE).then((cache) =>
+      // One missing page should not stop the rest of the shell from caching
+      Promise.allSettled(APP_SHELL.map((url) => cache.add(url)))
+    ).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // API routes can be private (calendar feeds carry a token) and must stay live
+  if (url.pathname.startsWith('/api/')) return;
+
+  // Build assets are content-hashed and public files change with CACHE, so the
+  // cached copy is always right
+  if (url.pathname.startsWith('/_next/static/') || STATIC_ASSET.test(url.pathname)) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetchAndCache(request))
+    );
+    return;
+  }
+
+  if (request.mode !== 'navigate') return;
+
+  // Pages: network first, refreshing the shell pages; cached shell when offline
+  const inShell = APP_SHELL.includes(url.pathname);
+  event.respondWith(
+    (inShell ? fetchAndCache(request) : fetch(request)).catch(async () => {
+      const cached = inShell && await caches.match(request, { ignoreSearch: true });
+      return cached || (await caches.match('/scores/enter')) || Response.error();
+    })
+  );
+});
+
+async function fetchAndCache(request) {
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
@@ -0,0 +1,6 @@
+// Shared fixtures for unit tests. Re-exported from test-utils; utility tests
+// import this file directly so they don't load the providers and Supabase client
+
+// Fixture factory: shared defaults that each test overrides field by field
+export const createFixture = <T>(defaults: T) =>
+  (overrides: Partial<T> = {}): T => ({ ...defaults, ...overrides })
@@ -1,6 +1,7 @@
 import React, { ReactElement } from 'react'
 import { render, RenderOptions } from '@testing-library/react'
 import { AuthContext, AuthContextType } from '@/context/AuthContext'
+import { LeagueContext, LeagueContextType } from '@/context/LeagueContext'
 
 // Mock user for testing
 export const mockUser = {
@@ -50,41 +51,61 @@ const defaultAuthContext: AuthContextType = {
   resetPassword: jest.fn(),
 }
 
+// Default mock league context: no league picked, so queries aren't league-filtered
+const defaultLeagueContext: LeagueContextType = {
+  leagues: [],
+  currentLeague: null,
+  isLeagueAdmin: false,
+  isLoading: false,
+  switchLeague: jest.fn(),
+  refreshLeagues: jest.fn(),
+}
+
 interface AllTheProvidersProps {
   children: React.ReactNode
   authContext?: Partial<AuthContextType>
+  leagueContext?: Partial<LeagueContextType>
 }
 
-const AllTheProviders = ({ children, authContext }: AllTheProvidersProps) => {
+const AllTheProviders = ({ children, authContext, leagueContext }: AllTheProvidersProps) => {
   const mockAuthContext = {
     ...defaultAuthContext,
     ...authContext,
   }
 
+  const mockLeagueContext = {
+    ...defaultLeagueContext,
+    ...leagueContext,
+  }
+
   return (
     <AuthContext.Provider value={mockAuthContext}>
-      {children}
+      <LeagueContext.Provider value={mockLeagueContext}>
+        {children}
+      </LeagueContext.Provider>
     </AuthContext.Provider>
   )
 }
 
 interface CustomRenderOptions extends Omit<RenderOptions, 'wrapper'> {
   authContext?: Partial<AuthContextType>
+  leagueContext?: Partial<LeagueContextType>
 }
 
 const customRender = (
   ui: ReactElement,
   options?: CustomRenderOptions
 ) => {
-  const { authContext, ...renderOptions } = options || {}
+  const { authContext, leagueContext, ...renderOptions } = options || {}
 
   return render(ui, {
     wrapper: ({ children }) => (
-      <AllTheProviders authContext={authContext}>{children}</AllTheProviders>
+      <AllTheProviders authContext={authContext} leagueContext={leagueContext}>{children}</AllTheProviders>
     ),
     ...renderOptions,
   })
 }
 
 export * from '@testing-library/react'
+export * from './fixtures'
 export { customRender as render }
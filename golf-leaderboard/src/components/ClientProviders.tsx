@@ -3,12 +3,17 @@
 
 import { Toaster } from 'sonner';
 import { AuthProvider } from '@/context/AuthContext';
+import { LeagueProvider } from '@/context/LeagueContext';
+import { ServiceWorkerRegistration } from '@/components/ServiceWorkerRegistration';
 
 export function ClientProviders({ children }: { children: React.ReactNode }) {
   return (
     <AuthProvider>
-      {children}
-      <Toaster richColors position="top-right" />
+      <LeagueProvider>
+        {children}
+        <Toaster richColors position="top-right" />
+        <ServiceWorkerRegistration />
+      </LeagueProvider>
     </AuthProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+// src/components/ServiceWorkerRegistration.tsx
+'use client'
+
+import { useEffect } from 'react';
+import { logger } from '@/lib/logger';
+
+/**
+ * Registers public/sw.js for the installable, offline-capable app.
+ * Skipped in development so cached pages don't hide code changes.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      logger.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
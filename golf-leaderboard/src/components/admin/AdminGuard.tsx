@@ -3,18 +3,25 @@
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/context/AuthContext'
+import { useLeague } from '@/context/LeagueContext'
 
-export default function AdminGuard({ children }: { children: React.ReactNode }) {
+// League owners and admins get the admin pages for their current league;
+// siteAdminOnly pages (shared data like courses) need the site administrator
+export default function AdminGuard({ children, siteAdminOnly = false }: { children: React.ReactNode; siteAdminOnly?: boolean }) {
   const { isAdmin, isLoading } = useAuth()
+  const { isLeagueAdmin, isLoading: isLoadingLeagues } = useLeague()
   const router = useRouter()
 
+  const allowed = siteAdminOnly ? isAdmin : isLeagueAdmin
+  const loading = isLoading || isLoadingLeagues
+
   useEffect(() => {
-    if (!isLoading && !isAdmin) {
+    if (!loading && !allowed) {
       router.replace('/dashboard')
     }
-  }, [isAdmin, isLoading, router])
+  }, [allowed, loading, router])
 
-  if (isLoading || !isAdmin) return null
+  if (loading || !allowed) return null
 
   return <>{children}</>
 }
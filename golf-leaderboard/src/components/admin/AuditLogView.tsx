@@ -0,0 +1,224 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, History, Loader2 } from 'lucide-react';
+import { supabase, getAuditLog } from '@/lib/supabase/client';
+import { formatDate, formatDateTime } from '@/lib/utils';
+import {
+  AUDIT_ACTIONS,
+  AuditAction,
+  AuditEntry,
+  AuditLogFilters,
+  describeAuditEntry,
+} from '@/lib/utils/auditLog';
+import { useNavigation } from '@/hooks/useNavigation';
+import { useLeague } from '@/context/LeagueContext';
+import { toast } from 'sonner';
+
+const ALL = 'all';
+const PAGE_SIZE = 50;
+
+export default function AuditLogView() {
+  const nav = useNavigation();
+  const { currentLeague } = useLeague();
+  const [games, setGames] = useState<Array<{ id: string; name: string; game_date: string }>>([]);
+  const [profiles, setProfiles] = useState<Array<{ id: string; username: string }>>([]);
+  const [gameId, setGameId] = useState<string>(ALL);
+  const [playerId, setPlayerId] = useState<string>(ALL);
+  const [actorId, setActorId] = useState<string>(ALL);
+  const [action, setAction] = useState<string>(ALL);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!currentLeague) return;
+
+    const loadOptions = async () => {
+      try {
+        const [{ data: gameRows, error: gameError }, { data: profileRows, error: profileError }] = await Promise.all([
+          supabase.from('games').select('id, name, game_date, seasons!inner(league_id)').eq('seasons.league_id', currentLeague.id).order('game_date', { ascending: false }),
+          supabase.from('profiles').select('id, username').order('username', { ascending: true }),
+        ]);
+
+        if (gameError) throw gameError;
+        if (profileError) throw profileError;
+
+        setGames(gameRows);
+        setProfiles(profileRows);
+      } catch (error) {
+        console.error('Error loading audit log filters:', error);
+        toast.error('Failed to load rounds and players');
+      }
+    };
+
+    loadOptions();
+  }, [currentLeague]);
+
+  const loadEntries = useCallback(async (before?: string) => {
+    const filters: AuditLogFilters = {
+      gameId: gameId === ALL ? undefined : gameId,
+      playerId: playerId === ALL ? undefined : playerId,
+      actorId: actorId === ALL ? undefined : actorId,
+      action: action === ALL ? undefined : action as AuditAction,
+    };
+
+    setIsLoading(true);
+    try {
+      const page = await getAuditLog(filters, { before, limit: PAGE_SIZE });
+      setEntries(current => (before ? [...current, ...page] : page));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast.error('Failed to load the audit log', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameId, playerId, actorId, action]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const filterSelect = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    allLabel: string,
+    options: Array<{ value: string; label: string }>
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-gray-700 font-medium">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="w-full border-gray-300 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{allLabel}</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const profileOptions = profiles.map((profile) => ({ value: profile.id, label: profile.username }));
+
+  return (
+    <div className="container max-w-5xl mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-green-700 flex items-center gap-2">
+          <History className="h-8 w-8" />
+          Audit Log
+        </h1>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={nav.goToDashboard}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+      </div>
+
+      <Card className="shadow-md border-0">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold text-green-800">History of Changes</CardTitle>
+          <CardDescription>
+            Every score submission, edit and deletion, round status change, season toggle and bonus
+            recalculation. Entries are recorded by the database and can&apos;t be edited or removed.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {filterSelect('audit-game', 'Round', gameId, setGameId, 'All rounds',
+              games.map((game) => ({ value: game.id, label: `${game.name} (${formatDate(game.game_date)})` })))}
+            {filterSelect('audit-player', 'Player', playerId, setPlayerId, 'All players', profileOptions)}
+            {filterSelect('audit-actor', 'Changed by', actorId, setActorId, 'Anyone', profileOptions)}
+            {filterSelect('audit-action', 'Change', action, setAction, 'All changes',
+              (Object.keys(AUDIT_ACTIONS) as AuditAction[]).map((key) => ({ value: key, label: AUDIT_ACTIONS[key] })))}
+          </div>
+
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Round / Player</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.length === 0 && !isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                      No changes match these filters.
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => (
+                    <tr key={entry.id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-gray-500">{formatDateTime(entry.occurredAt)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <Badge
+                          variant="outline"
+                          className={entry.action === 'score_deleted'
+                            ? 'bg-red-50 text-red-700 border-red-200'
+                            : 'bg-gray-50 text-gray-700 border-gray-200'}
+                        >
+                          {AUDIT_ACTIONS[entry.action]}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">
+                        {entry.gameId ? entry.gameName ?? 'Deleted round' : entry.entityType === 'season' ? 'Season' : '—'}
+                        {entry.playerId && (
+                          <span className="block text-xs text-gray-500">{entry.playerName ?? 'Unknown player'}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">{describeAuditEntry(entry)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                        {entry.actorName ?? (entry.actorId ? 'Unknown user' : 'System')}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {(isLoading || hasMore) && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => loadEntries(entries[entries.length - 1]?.occurredAt)}
+                disabled={isLoading}
+              >
+                {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isLoading ? 'Loading...' : 'Load older entries'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
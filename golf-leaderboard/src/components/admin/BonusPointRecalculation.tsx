@@ -5,14 +5,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { Loader2, RefreshCw, AlertCircle, CheckCircle, ArrowLeft } from 'lucide-react';
-import { recalculateBonusPoints, validateRoundCode, getGameScores } from '@/lib/supabase/client';
+import { Loader2, RefreshCw, CheckCircle, ArrowLeft } from 'lucide-react';
+import { recalculateBonusPoints, reevaluateAchievements, validateRoundCode, getGameScores } from '@/lib/supabase/client';
 import { useNavigation } from '@/hooks/useNavigation';
 
 // Define types to match exact API response structure
 type GameDetails = {
   id: string;
   name: string;
+  season_id: string | null;
   courses: {
     id: string;
     name: string;
@@ -43,16 +44,9 @@ type UpdatedScore = {
   newBonus: number;
 };
 
-type FailedUpdate = {
-  id: string;
-  error: string;
-};
-
 type RecalculationResult = {
-  success: boolean;
   updatedScores: UpdatedScore[];
-  failedUpdates: FailedUpdate[];
-  message: string;
+  achievementChanges: number;
 };
 
 export default function BonusPointRecalculation() {
@@ -102,22 +96,21 @@ export default function BonusPointRecalculation() {
 
     setIsLoading(true);
     try {
-      const result = await recalculateBonusPoints(gameDetails.id);
-      setResults(result);
+      const { updatedScores } = await recalculateBonusPoints(gameDetails.id);
+
+      // Badges that depend on the bonus (wins, streaks, season points) follow it
+      const achievementChanges = gameDetails.season_id
+        ? await reevaluateAchievements({ seasonId: gameDetails.season_id, dryRun: false })
+        : [];
+      setResults({ updatedScores, achievementChanges: achievementChanges.length });
       
       // Reload scores after recalculation
-      const updatedScores = await getGameScores(gameDetails.id);
-      setScores(updatedScores as ApiScore[]);
+      const scores = await getGameScores(gameDetails.id);
+      setScores(scores as ApiScore[]);
       
-      if (result.success) {
-        toast.success('Bonus points recalculated successfully', {
-          description: `Updated ${result.updatedScores.length} scores`
-        });
-      } else {
-        toast.error('Some updates failed', {
-          description: `${result.updatedScores.length} succeeded, ${result.failedUpdates.length} failed`
-        });
-      }
+      toast.success('Bonus points recalculated successfully', {
+        description: `Updated ${updatedScores.length} scores`
+      });
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (error: any) {
       toast.error('Error recalculating bonus points', {
@@ -147,7 +140,8 @@ export default function BonusPointRecalculation() {
         <CardHeader>
           <CardTitle className="text-xl font-bold text-green-800">Recalculate Bonus Points</CardTitle>
           <CardDescription>
-            Fix bonus point assignments for a round - ensure only the lowest score gets the bonus point
+            Fix bonus point assignments for a round - ensure only the lowest score gets the bonus point.
+            Scores are now submitted, edited and deleted with the bonus settled on the server, so this is only needed for older rounds.
           </CardDescription>
         </CardHeader>
         
@@ -235,10 +229,10 @@ export default function BonusPointRecalculation() {
                   <CheckCircle className="h-5 w-5 text-green-500" />
                   <p className="text-sm text-gray-700">Updated {results.updatedScores.length} scores</p>
                 </div>
-                {results.failedUpdates.length > 0 && (
+                {results.achievementChanges > 0 && (
                   <div className="flex items-center gap-2">
-                    <AlertCircle className="h-5 w-5 text-red-500" />
-                    <p className="text-sm text-red-700">{results.failedUpdates.length} updates failed</p>
+                    <CheckCircle className="h-5 w-5 text-green-500" />
+                    <p className="text-sm text-gray-700">Granted or revoked {results.achievementChanges} achievements</p>
                   </div>
                 )}
               </div>
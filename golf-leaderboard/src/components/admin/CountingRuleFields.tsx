@@ -0,0 +1,94 @@
+'use client'
+// src/components/admin/CountingRuleFields.tsx
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  COUNTING_RULES,
+  CountingRule,
+  describeCountingRule,
+  SeasonCountingRule,
+} from '@/lib/utils/countingRules';
+
+interface CountingRuleFieldsProps {
+  value: SeasonCountingRule;
+  onChange: (value: SeasonCountingRule) => void;
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+/**
+ * Which rounds count toward a season's standings, and the rounds needed to qualify
+ * Used when creating a season and from Manage Seasons
+ */
+export default function CountingRuleFields({ value, onChange, disabled, idPrefix = 'counting' }: CountingRuleFieldsProps) {
+  const toNumber = (input: string) => (input === '' ? null : Math.max(0, Math.floor(Number(input))));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-2 sm:col-span-1">
+          <Label htmlFor={`${idPrefix}-rule`} className="text-gray-700 font-medium">Counting rounds</Label>
+          <Select
+            value={value.rule}
+            onValueChange={(rule) => onChange({
+              ...value,
+              rule: rule as CountingRule,
+              rounds: rule === 'all' ? null : value.rounds ?? (rule === 'best_n' ? 10 : 2),
+            })}
+            disabled={disabled}
+          >
+            <SelectTrigger id={`${idPrefix}-rule`} className="w-full border-gray-300 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COUNTING_RULES) as CountingRule[]).map((rule) => (
+                <SelectItem key={rule} value={rule}>
+                  {COUNTING_RULES[rule].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.rule !== 'all' && (
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-rounds`} className="text-gray-700 font-medium">
+              {value.rule === 'best_n' ? 'Rounds that count' : 'Rounds dropped'}
+            </Label>
+            <Input
+              id={`${idPrefix}-rounds`}
+              type="number"
+              min={1}
+              value={value.rounds ?? ''}
+              onChange={(e) => onChange({ ...value, rounds: toNumber(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-min`} className="text-gray-700 font-medium">Rounds to qualify</Label>
+          <Input
+            id={`${idPrefix}-min`}
+            type="number"
+            min={0}
+            value={value.minRounds}
+            onChange={(e) => onChange({ ...value, minRounds: toNumber(e.target.value) ?? 0 })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        {describeCountingRule(value)}. Players below the minimum are listed after qualified players.
+      </p>
+    </div>
+  );
+}
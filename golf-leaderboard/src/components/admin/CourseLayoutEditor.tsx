@@ -0,0 +1,570 @@
+'use client'
+
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Plus, Edit2, Save, X, Loader2, Trash2, Flag } from 'lucide-react';
+import {
+  getCourseTees,
+  createCourseTee,
+  updateCourseTee,
+  deleteCourseTee,
+  getCourseLayout,
+  saveCourseLayout,
+} from '@/lib/supabase/client';
+import {
+  createDefaultLayout,
+  getLayoutPar,
+  getTeeYardage,
+  HoleLayout,
+  validateHoleLayout,
+} from '@/lib/utils/courseLayout';
+
+interface CourseLayoutEditorProps {
+  course: {
+    id: string;
+    name: string;
+    par: number;
+  };
+  onClose: () => void;
+}
+
+interface CourseTee {
+  id: string;
+  name: string;
+  color: string | null;
+  yardage: number | null;
+  course_rating: number | null;
+  slope_rating: number | null;
+}
+
+interface TeeFormData {
+  name: string;
+  color: string;
+  yardage: string;
+  courseRating: string;
+  slopeRating: string;
+}
+
+const EMPTY_TEE_FORM: TeeFormData = {
+  name: '',
+  color: '',
+  yardage: '',
+  courseRating: '',
+  slopeRating: ''
+};
+
+const parseNumber = (value: string): number | null => {
+  const parsed = parseInt(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+export default function CourseLayoutEditor({ course, onClose }: CourseLayoutEditorProps) {
+  const [tees, setTees] = useState<CourseTee[]>([]);
+  const [holes, setHoles] = useState<HoleLayout[]>(createDefaultLayout([]));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSavingLayout, setIsSavingLayout] = useState(false);
+
+  // 'new' while adding a tee, a tee id while editing one
+  const [editingTeeId, setEditingTeeId] = useState<string | null>(null);
+  const [teeForm, setTeeForm] = useState<TeeFormData>(EMPTY_TEE_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<CourseTee | null>(null);
+
+  useEffect(() => {
+    fetchLayout();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [course.id]);
+
+  const fetchLayout = async () => {
+    try {
+      setIsLoading(true);
+      const teeData = await getCourseTees(course.id);
+      const teeIds = teeData.map(tee => tee.id);
+      const layout = await getCourseLayout(course.id, teeIds);
+
+      // Start from the default layout so unsaved holes and new tees still get a row/column
+      const merged = createDefaultLayout(teeIds).map(blank => {
+        const saved = layout.holes.find(hole => hole.hole_number === blank.holeNumber);
+        const yardages = { ...blank.yardages };
+        layout.yardages
+          .filter(yardage => yardage.hole_number === blank.holeNumber)
+          .forEach(yardage => {
+            yardages[yardage.tee_id] = yardage.yardage;
+          });
+
+        return {
+          ...blank,
+          par: saved?.par ?? blank.par,
+          strokeIndex: saved?.stroke_index ?? blank.strokeIndex,
+          yardages
+        };
+      });
+
+      setTees(teeData);
+      setHoles(merged);
+    } catch (error) {
+      console.error('Error fetching course layout:', error);
+      toast.error('Failed to load tees and holes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Rating and slope are optional; blank falls back to the course's own rating and slope
+  const parseTeeForm = (formData: TeeFormData) => {
+    const name = formData.name.trim();
+    if (!name) {
+      toast.error('Tee name is required');
+      return null;
+    }
+
+    if (tees.some(tee => tee.name.toLowerCase() === name.toLowerCase() && tee.id !== editingTeeId)) {
+      toast.error('This course already has a tee with that name');
+      return null;
+    }
+
+    const yardage = formData.yardage.trim() ? parseInt(formData.yardage) : null;
+    if (yardage !== null && (isNaN(yardage) || yardage < 1000 || yardage > 9000)) {
+      toast.error('Yardage must be between 1,000 and 9,000');
+      return null;
+    }
+
+    const courseRating = formData.courseRating.trim() ? parseFloat(formData.courseRating) : null;
+    if (courseRating !== null && (isNaN(courseRating) || courseRating < 50 || courseRating > 90)) {
+      toast.error('Course rating must be between 50 and 90');
+      return null;
+    }
+
+    const slopeRating = formData.slopeRating.trim() ? parseInt(formData.slopeRating) : null;
+    if (slopeRating !== null && (isNaN(slopeRating) || slopeRating < 55 || slopeRating > 155)) {
+      toast.error('Slope rating must be between 55 and 155');
+      return null;
+    }
+
+    return {
+      name,
+      color: formData.color.trim() || null,
+      yardage,
+      course_rating: courseRating,
+      slope_rating: slopeRating
+    };
+  };
+
+  const handleSaveTee = async () => {
+    const teeData = parseTeeForm(teeForm);
+    if (!teeData) return;
+
+    try {
+      setIsSubmitting(true);
+      if (editingTeeId === 'new') {
+        await createCourseTee({ course_id: course.id, ...teeData });
+        toast.success('Tee added');
+      } else if (editingTeeId) {
+        await updateCourseTee(editingTeeId, teeData);
+        toast.success('Tee updated');
+      }
+
+      cancelTeeEdit();
+      await fetchLayout();
+    } catch (error) {
+      console.error('Error saving tee:', error);
+      toast.error('Failed to save tee');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteTee = async (tee: CourseTee) => {
+    try {
+      setIsSubmitting(true);
+      await deleteCourseTee(tee.id);
+      toast.success('Tee deleted');
+      await fetchLayout();
+    } catch (error) {
+      console.error('Error deleting tee:', error);
+      toast.error('Failed to delete tee');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startTeeEdit = (tee: CourseTee) => {
+    setEditingTeeId(tee.id);
+    setTeeForm({
+      name: tee.name,
+      color: tee.color ?? '',
+      yardage: tee.yardage?.toString() ?? '',
+      courseRating: tee.course_rating?.toString() ?? '',
+      slopeRating: tee.slope_rating?.toString() ?? ''
+    });
+  };
+
+  const cancelTeeEdit = () => {
+    setEditingTeeId(null);
+    setTeeForm(EMPTY_TEE_FORM);
+  };
+
+  const updateHole = (holeNumber: number, changes: Partial<HoleLayout>) => {
+    setHoles(holes.map(hole => (hole.holeNumber === holeNumber ? { ...hole, ...changes } : hole)));
+  };
+
+  const updateYardage = (holeNumber: number, teeId: string, value: string) => {
+    setHoles(holes.map(hole =>
+      hole.holeNumber === holeNumber
+        ? { ...hole, yardages: { ...hole.yardages, [teeId]: parseNumber(value) } }
+        : hole
+    ));
+  };
+
+  const handleSaveLayout = async () => {
+    const validationError = validateHoleLayout(holes, course.par);
+    if (validationError) {
+      toast.error('Invalid hole layout', { description: validationError });
+      return;
+    }
+
+    try {
+      setIsSavingLayout(true);
+      await saveCourseLayout(
+        course.id,
+        holes.map(hole => ({
+          hole_number: hole.holeNumber,
+          par: hole.par,
+          stroke_index: hole.strokeIndex
+        })),
+        holes.flatMap(hole =>
+          tees
+            .filter(tee => hole.yardages[tee.id])
+            .map(tee => ({
+              tee_id: tee.id,
+              hole_number: hole.holeNumber,
+              yardage: hole.yardages[tee.id] as number
+            }))
+        )
+      );
+
+      // Keep each tee's total yardage in step with its hole yardages
+      await Promise.all(
+        tees.map(tee => {
+          const total = getTeeYardage(holes, tee.id);
+          return total !== null && total !== tee.yardage
+            ? updateCourseTee(tee.id, { yardage: total })
+            : Promise.resolve(null);
+        })
+      );
+
+      toast.success('Hole layout saved');
+      await fetchLayout();
+    } catch (error) {
+      console.error('Error saving hole layout:', error);
+      toast.error('Failed to save hole layout');
+    } finally {
+      setIsSavingLayout(false);
+    }
+  };
+
+  const layoutPar = getLayoutPar(holes);
+
+  const renderTeeForm = () => (
+    <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end border rounded-lg p-3 bg-muted/30">
+      <div className="space-y-1">
+        <Label htmlFor="tee-name">Name</Label>
+        <Input
+          id="tee-name"
+          value={teeForm.name}
+          onChange={(e) => setTeeForm({ ...teeForm, name: e.target.value })}
+          placeholder="e.g., Blue"
+          disabled={isSubmitting}
+          className="h-8"
+          autoFocus
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="tee-color">Colour</Label>
+        <Input
+          id="tee-color"
+          value={teeForm.color}
+          onChange={(e) => setTeeForm({ ...teeForm, color: e.target.value })}
+          placeholder="e.g., blue"
+          disabled={isSubmitting}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="tee-yardage">Yardage</Label>
+        <Input
+          id="tee-yardage"
+          type="number"
+          value={teeForm.yardage}
+          onChange={(e) => setTeeForm({ ...teeForm, yardage: e.target.value })}
+          placeholder="6500"
+          disabled={isSubmitting}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="tee-rating">Rating</Label>
+        <Input
+          id="tee-rating"
+          type="number"
+          step="0.1"
+          value={teeForm.courseRating}
+          onChange={(e) => setTeeForm({ ...teeForm, courseRating: e.target.value })}
+          placeholder="71.8"
+          disabled={isSubmitting}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="tee-slope">Slope</Label>
+        <Input
+          id="tee-slope"
+          type="number"
+          value={teeForm.slopeRating}
+          onChange={(e) => setTeeForm({ ...teeForm, slopeRating: e.target.value })}
+          placeholder="113"
+          disabled={isSubmitting}
+          className="h-8"
+        />
+      </div>
+      <div className="flex gap-1 justify-end">
+        <Button size="sm" onClick={handleSaveTee} disabled={isSubmitting}>
+          {isSubmitting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={cancelTeeEdit} disabled={isSubmitting}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="border-2 border-primary/20">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Flag className="h-5 w-5" />
+              {course.name}: Tees & Holes
+            </CardTitle>
+            <CardDescription>
+              Tee sets carry their own rating and slope for handicaps. Par and stroke index are shared by every tee.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            <X className="h-4 w-4 mr-2" />
+            Close
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Tee Sets</h3>
+                {editingTeeId === null && (
+                  <Button size="sm" variant="outline" onClick={() => setEditingTeeId('new')}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Tee
+                  </Button>
+                )}
+              </div>
+
+              {editingTeeId === 'new' && renderTeeForm()}
+
+              {tees.length === 0 && editingTeeId === null ? (
+                <p className="text-sm text-muted-foreground italic">
+                  No tee sets yet. Games on this course use the course rating and slope.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {tees.map(tee => (
+                    editingTeeId === tee.id ? (
+                      <div key={tee.id}>{renderTeeForm()}</div>
+                    ) : (
+                      <div key={tee.id} className="flex items-center justify-between border rounded-lg px-3 py-2">
+                        <div className="flex items-center gap-3">
+                          <span
+                            className="h-3 w-3 rounded-full border"
+                            style={{ backgroundColor: tee.color ?? 'transparent' }}
+                          />
+                          <span className="font-medium">{tee.name}</span>
+                          <span className="text-sm text-muted-foreground">
+                            {tee.yardage ? `${tee.yardage.toLocaleString()} yds` : 'No yardage'}
+                          </span>
+                          <span className="font-mono text-sm">
+                            {tee.course_rating?.toFixed(1) ?? '—'} / {tee.slope_rating ?? '—'}
+                          </span>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => startTeeEdit(tee)}
+                            disabled={editingTeeId !== null || isSubmitting}
+                          >
+                            <Edit2 className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setDeleteTarget(tee)}
+                            disabled={editingTeeId !== null || isSubmitting}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    )
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">Hole Layout</h3>
+              <div className="border rounded-lg overflow-x-auto max-h-[480px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12 text-center">Hole</TableHead>
+                      <TableHead className="text-center">Par</TableHead>
+                      <TableHead className="text-center">SI</TableHead>
+                      {tees.map(tee => (
+                        <TableHead key={tee.id} className="text-center">{tee.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {holes.map(hole => (
+                      <TableRow key={hole.holeNumber}>
+                        <TableCell className="text-center font-medium">{hole.holeNumber}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="3"
+                            max="6"
+                            value={hole.par}
+                            onChange={(e) => updateHole(hole.holeNumber, { par: parseNumber(e.target.value) ?? 0 })}
+                            disabled={isSavingLayout}
+                            aria-label={`Hole ${hole.holeNumber} par`}
+                            className="h-8 w-16 mx-auto text-center"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            max="18"
+                            value={hole.strokeIndex}
+                            onChange={(e) => updateHole(hole.holeNumber, { strokeIndex: parseNumber(e.target.value) ?? 0 })}
+                            disabled={isSavingLayout}
+                            aria-label={`Hole ${hole.holeNumber} stroke index`}
+                            className="h-8 w-16 mx-auto text-center"
+                          />
+                        </TableCell>
+                        {tees.map(tee => (
+                          <TableCell key={tee.id}>
+                            <Input
+                              type="number"
+                              min="50"
+                              max="700"
+                              value={hole.yardages[tee.id] ?? ''}
+                              onChange={(e) => updateYardage(hole.holeNumber, tee.id, e.target.value)}
+                              disabled={isSavingLayout}
+                              aria-label={`Hole ${hole.holeNumber} ${tee.name} yardage`}
+                              className="h-8 w-20 mx-auto text-center"
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell className="text-center font-semibold">Total</TableCell>
+                      <TableCell
+                        className={`text-center font-semibold ${layoutPar !== course.par ? 'text-destructive' : ''}`}
+                      >
+                        {layoutPar}/{course.par}
+                      </TableCell>
+                      <TableCell />
+                      {tees.map(tee => (
+                        <TableCell key={tee.id} className="text-center font-semibold">
+                          {getTeeYardage(holes, tee.id)?.toLocaleString() ?? '—'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleSaveLayout} disabled={isSavingLayout}>
+                  {isSavingLayout ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save Layout
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => { if (!open) setDeleteTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete the {deleteTarget?.name} tees?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their hole yardages are deleted too. Games played from these tees fall back to the course rating and slope.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => {
+              if (deleteTarget) {
+                handleDeleteTee(deleteTarget);
+                setDeleteTarget(null);
+              }
+            }}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { toast } from 'sonner';
 import { useUser } from '@/hooks/useUser';
+import { useLeague } from '@/context/LeagueContext';
 import {
   Card,
   CardContent,
@@ -34,22 +35,31 @@ import {
   Loader2,
   Copy,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  Plus,
+  X
 } from 'lucide-react';
-import { supabase, createGame } from '@/lib/supabase/client';
+import { supabase, createGame, getCourseTees, getSeasonPlayers } from '@/lib/supabase/client';
+import { GAME_FORMATS, GameFormat, validateFormatConfig } from '@/lib/utils/gameFormats';
+import { PlayoffFormat, playoffRoundCount, playoffRoundName } from '@/lib/utils/playoffs';
 import { useNavigation } from '@/hooks/useNavigation';
 import QRCodeDisplay from '@/components/ui/QRCodeDisplay';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 
 // Form validation schema
 const createGameSchema = z.object({
   name: z.string().min(3, 'Game name must be at least 3 characters').max(50, 'Game name is too long'),
   courseId: z.string().min(1, 'Please select a course'),
+  teeId: z.string().optional(),
   seasonId: z.string().min(1, 'Please select a season'),
   gameDate: z.string().min(1, 'Please select a date'),
   roundCode: z.string().min(4, 'Round code must be at least 4 characters').max(10, 'Round code is too long'),
+  format: z.enum(['stroke', 'stableford', 'skins', 'match_play', 'best_ball']),
+  useHandicaps: z.boolean(),
+  playoffRound: z.string(),
 });
 
 type CreateGameFormValues = z.infer<typeof createGameSchema>;
@@ -61,20 +71,36 @@ interface Course {
   par: number;
 }
 
+interface CourseTee {
+  id: string;
+  name: string;
+  yardage: number | null;
+  course_rating: number | null;
+  slope_rating: number | null;
+}
+
 interface Season {
   id: string;
   name: string;
   code: string;
   is_active: boolean;
+  playoff_format: string;
+  playoff_size: number | null;
+  playoff_rounds: number | null;
+  playoff_status: string;
 }
 
 export default function CreateGameForm() {
   const { user } = useUser();
+  const { currentLeague } = useLeague();
   const nav = useNavigation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [courses, setCourses] = useState<Course[]>([]);
   const [seasons, setSeasons] = useState<Season[]>([]);
+  const [tees, setTees] = useState<CourseTee[]>([]);
+  const [seasonPlayers, setSeasonPlayers] = useState<{ id: string; username: string }[]>([]);
+  const [pairings, setPairings] = useState<string[][]>([]);
   const [isLoadingOptions, setIsLoadingOptions] = useState(true);
   const [submittedCode, setSubmittedCode] = useState<string>('');
   const [codeCopied, setCodeCopied] = useState(false);
@@ -85,9 +111,13 @@ export default function CreateGameForm() {
     defaultValues: {
       name: '',
       courseId: '',
+      teeId: '',
       seasonId: '',
       gameDate: new Date().toISOString().split('T')[0], // Default to today
       roundCode: '',
+      format: 'stroke',
+      useHandicaps: false,
+      playoffRound: 'regular',
     },
   });
 
@@ -123,11 +153,17 @@ export default function CreateGameForm() {
         if (coursesError) throw coursesError;
         setCourses(coursesData || []);
         
-        // Load active seasons
+        // Load the current league's active seasons
+        if (!currentLeague) {
+          setSeasons([]);
+          return;
+        }
+
         const { data: seasonsData, error: seasonsError } = await supabase
           .from('seasons')
-          .select('id, name, code, is_active')
+          .select('id, name, code, is_active, playoff_format, playoff_size, playoff_rounds, playoff_status')
           .eq('is_active', true)
+          .eq('league_id', currentLeague.id)
           .order('name');
         
         if (seasonsError) throw seasonsError;
@@ -144,7 +180,60 @@ export default function CreateGameForm() {
     };
 
     loadOptions();
-  }, []);
+  }, [currentLeague]);
+
+  // Load tee sets whenever the course changes; the tee is optional
+  const selectedCourseId = form.watch('courseId');
+  useEffect(() => {
+    form.setValue('teeId', '');
+    setTees([]);
+    if (!selectedCourseId) return;
+
+    getCourseTees(selectedCourseId)
+      .then(setTees)
+      .catch(error => {
+        console.error('Error loading tees:', error);
+        toast.error("Failed to load tees", {
+          description: "The game can still be created without a tee set."
+        });
+      });
+  }, [selectedCourseId, form]);
+
+  // Match play and best ball pair up players from the selected season
+  const selectedSeasonId = form.watch('seasonId');
+  const selectedFormat = form.watch('format');
+
+  // Games can only be tagged to a playoff round while the season's playoffs are running
+  const playoffSeason = seasons.find(
+    season => season.id === selectedSeasonId && season.playoff_status === 'in_progress'
+  );
+  const playoffRounds = playoffSeason
+    ? playoffRoundCount(playoffSeason.playoff_format as PlayoffFormat, playoffSeason.playoff_size, playoffSeason.playoff_rounds)
+    : 0;
+  const needsPairings = GAME_FORMATS[selectedFormat].needsPairings;
+  useEffect(() => {
+    setPairings([]);
+    setSeasonPlayers([]);
+    if (!selectedSeasonId || !needsPairings) return;
+
+    getSeasonPlayers(selectedSeasonId)
+      .then(setSeasonPlayers)
+      .catch(error => {
+        console.error('Error loading season players:', error);
+        toast.error("Failed to load players", {
+          description: "Could not load the season's players for pairings."
+        });
+      });
+  }, [selectedSeasonId, needsPairings]);
+
+  const updatePairing = (index: number, slot: number, playerId: string) => {
+    setPairings(prev => prev.map((pair, i) => {
+      if (i !== index) return pair;
+      const updated = [...pair];
+      updated[slot] = playerId;
+      return updated;
+    }));
+  };
 
   // Generate a random round code
   const generateRoundCode = () => {
@@ -170,6 +259,16 @@ export default function CreateGameForm() {
       return;
     }
     
+    const formatConfig = {
+      useHandicaps: values.format !== 'stroke' && values.useHandicaps,
+      pairings: GAME_FORMATS[values.format].needsPairings ? pairings : []
+    };
+    const formatError = validateFormatConfig(values.format, formatConfig);
+    if (formatError) {
+      toast.error("Invalid pairings", { description: formatError });
+      return;
+    }
+
     setIsSubmitting(true);
     
     try {
@@ -180,11 +279,15 @@ export default function CreateGameForm() {
       const gameData = await createGame({
         name: values.name,
         course_id: values.courseId,
+        tee_id: values.teeId || null,
         season_id: values.seasonId,
         round_code: roundCode,
         game_date: values.gameDate,
         created_by: user.id,
-        status: 'active' 
+        status: 'active',
+        format: values.format,
+        format_config: formatConfig,
+        playoff_round: values.playoffRound === 'regular' ? null : Number(values.playoffRound)
       });
 
       setSubmittedCode(gameData.round_code);
@@ -199,10 +302,15 @@ export default function CreateGameForm() {
       form.reset({
         name: '',
         courseId: '',
+        teeId: '',
         seasonId: '',
         gameDate: new Date().toISOString().split('T')[0],
         roundCode: '',
+        format: 'stroke',
+        useHandicaps: false,
+        playoffRound: 'regular',
       });
+      setPairings([]);
       
       // Generate new round code
       generateRoundCode();
@@ -453,7 +561,10 @@ export default function CreateGameForm() {
                 <div className="space-y-2">
                   <Label htmlFor="seasonId" className="text-gray-700">Select Season</Label>
                   <Select
-                    onValueChange={(value) => form.setValue('seasonId', value)}
+                    onValueChange={(value) => {
+                      form.setValue('seasonId', value);
+                      form.setValue('playoffRound', 'regular');
+                    }}
                     defaultValue={form.watch('seasonId')}
                     disabled={isLoadingOptions || isSubmitting}
                   >
@@ -489,7 +600,176 @@ export default function CreateGameForm() {
                   )}
                 </div>
               </div>
-              
+
+              {/* Tee Selection */}
+              {tees.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="teeId" className="text-gray-700">Tees (optional)</Label>
+                  <Select
+                    onValueChange={(value) => form.setValue('teeId', value)}
+                    value={form.watch('teeId') || undefined}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="teeId" className="w-full border-gray-300 bg-white">
+                      <SelectValue placeholder="Course default rating and slope" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tees.map((tee) => (
+                        <SelectItem key={tee.id} value={tee.id} className="py-3">
+                          <div>
+                            <div className="font-medium">{tee.name}</div>
+                            <div className="text-sm text-gray-500 mt-0.5">
+                              {tee.yardage ? `${tee.yardage.toLocaleString()} yds • ` : ''}
+                              Rating {tee.course_rating?.toFixed(1) ?? '—'} / Slope {tee.slope_rating ?? '—'}
+                            </div>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">
+                    Handicaps for this round use the tee&apos;s rating and slope.
+                  </p>
+                </div>
+              )}
+
+              {/* Playoff stage, once the season's playoffs are seeded */}
+              {playoffSeason && (
+                <div className="space-y-2">
+                  <Label htmlFor="playoffRound" className="text-gray-700">Stage</Label>
+                  <Select
+                    onValueChange={(value) => form.setValue('playoffRound', value)}
+                    value={form.watch('playoffRound')}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="playoffRound" className="w-full border-gray-300 bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="regular">Regular season</SelectItem>
+                      {Array.from({ length: playoffRounds }, (_, index) => index + 1).map((round) => (
+                        <SelectItem key={round} value={String(round)}>
+                          {playoffRoundName(playoffSeason.playoff_format as PlayoffFormat, round, playoffRounds)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">
+                    Playoff games decide the playoff bracket or series and don&apos;t count toward the regular-season leaderboard.
+                  </p>
+                </div>
+              )}
+
+              <Separator className="my-2" />
+
+              {/* Game Format */}
+              <div className="space-y-2">
+                <Label htmlFor="format" className="text-gray-700">Format</Label>
+                <Select
+                  onValueChange={(value) => form.setValue('format', value as GameFormat)}
+                  value={selectedFormat}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="format" className="w-full border-gray-300 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(GAME_FORMATS) as GameFormat[]).map((format) => (
+                      <SelectItem key={format} value={format}>
+                        {GAME_FORMATS[format].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  {GAME_FORMATS[selectedFormat].description}.
+                  {selectedFormat !== 'stroke' && " Players enter hole-by-hole scorecards, and season points still come from gross scores."}
+                </p>
+              </div>
+
+              {selectedFormat !== 'stroke' && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="useHandicaps" className="text-gray-700">Use handicaps</Label>
+                    <Switch
+                      id="useHandicaps"
+                      checked={form.watch('useHandicaps')}
+                      onCheckedChange={(checked) => form.setValue('useHandicaps', checked)}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Give strokes by stroke index from each player&apos;s course handicap.
+                    {selectedFormat === 'match_play' && " In match play the lower handicap plays off scratch."}
+                  </p>
+                </div>
+              )}
+
+              {/* Pairings */}
+              {needsPairings && (
+                <div className="space-y-3">
+                  <Label className="text-gray-700">
+                    {selectedFormat === 'match_play' ? 'Matches' : 'Teams'}
+                  </Label>
+                  {!selectedSeasonId ? (
+                    <p className="text-sm text-gray-500">Select a season to pair up its players.</p>
+                  ) : (
+                    <>
+                      {pairings.map((pair, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          {[0, 1].map((slot) => (
+                            <React.Fragment key={slot}>
+                              {slot === 1 && (
+                                <span className="text-sm text-gray-500">
+                                  {selectedFormat === 'match_play' ? 'vs' : '&'}
+                                </span>
+                              )}
+                              <Select
+                                onValueChange={(value) => updatePairing(index, slot, value)}
+                                value={pair[slot] || undefined}
+                                disabled={isSubmitting}
+                              >
+                                <SelectTrigger className="flex-1 border-gray-300 bg-white">
+                                  <SelectValue placeholder="Select player" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {seasonPlayers.map((player) => (
+                                    <SelectItem key={player.id} value={player.id}>
+                                      {player.username}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </React.Fragment>
+                          ))}
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPairings(prev => prev.filter((_, i) => i !== index))}
+                            disabled={isSubmitting}
+                            aria-label="Remove pairing"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPairings(prev => [...prev, ['', '']])}
+                        disabled={isSubmitting || seasonPlayers.length < 2}
+                        className="flex items-center gap-1"
+                      >
+                        <Plus className="h-4 w-4" />
+                        {selectedFormat === 'match_play' ? 'Add match' : 'Add team'}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+
               <Separator className="my-2" />
               
               {/* Round Code */}
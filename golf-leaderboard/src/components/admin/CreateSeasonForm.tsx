@@ -6,6 +6,7 @@ import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { toast } from 'sonner';
 import { useAuth } from '@/context/AuthContext';
+import { useLeague } from '@/context/LeagueContext';
 import {
   Card,
   CardContent,
@@ -16,8 +17,19 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { ArrowLeft, Calendar, CheckCircle2, Code, Loader2, Sparkles } from 'lucide-react';
-import { supabase } from '@/lib/supabase/client';
+import { supabase, getScoringRuleSets } from '@/lib/supabase/client';
+import { DEFAULT_SCORING_RULES, describeBrackets, parseScoringRules, ScoringRules } from '@/lib/utils/scoringRules';
+import { DEFAULT_COUNTING_RULE, SeasonCountingRule, validateCountingRule } from '@/lib/utils/countingRules';
+import CountingRuleFields from '@/components/admin/CountingRuleFields';
 import { useNavigation } from '@/hooks/useNavigation';
 import QRCodeDisplay from '@/components/ui/QRCodeDisplay';
 import { Badge } from '@/components/ui/badge';
@@ -28,6 +40,8 @@ const seasonFormSchema = z.object({
   code: z.string().min(4, 'Season code must be at least 4 characters').max(20, 'Season code is too long').regex(/^[A-Z0-9]+$/, 'Code must be uppercase letters and numbers only'),
   start_date: z.string().min(1, 'Start date is required'),
   end_date: z.string().optional(),
+  scoring_rule_set_id: z.string().optional(),
+  net_scoring: z.boolean(),
 });
 
 type SeasonFormValues = z.infer<typeof seasonFormSchema>;
@@ -39,14 +53,22 @@ interface ExistingSeason {
   is_active: boolean;
 }
 
+interface ScoringRuleSetOption {
+  id: string;
+  rules: ScoringRules;
+}
+
 export default function CreateSeasonForm() {
   const { user } = useAuth();
+  const { currentLeague } = useLeague();
   const nav = useNavigation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [createdSeasonCode, setCreatedSeasonCode] = useState<string>('');
   const [existingSeasons, setExistingSeasons] = useState<ExistingSeason[]>([]);
   const [isLoadingSeasons, setIsLoadingSeasons] = useState(true);
+  const [ruleSets, setRuleSets] = useState<ScoringRuleSetOption[]>([]);
+  const [counting, setCounting] = useState<SeasonCountingRule>(DEFAULT_COUNTING_RULE);
 
   const form = useForm<SeasonFormValues>({
     resolver: zodResolver(seasonFormSchema),
@@ -55,16 +77,21 @@ export default function CreateSeasonForm() {
       code: '',
       start_date: '',
       end_date: '',
+      scoring_rule_set_id: '',
+      net_scoring: false,
     },
   });
 
-  // Fetch existing seasons
+  // Fetch the current league's existing seasons
   useEffect(() => {
+    if (!currentLeague) return;
+
     const fetchSeasons = async () => {
       try {
         const { data, error } = await supabase
           .from('seasons')
           .select('id, name, code, is_active')
+          .eq('league_id', currentLeague.id)
           .order('created_at', { ascending: false })
           .limit(5);
 
@@ -78,7 +105,36 @@ export default function CreateSeasonForm() {
     };
 
     fetchSeasons();
-  }, []);
+  }, [currentLeague]);
+
+  // Fetch scoring rule sets, defaulting new seasons to the current rules
+  useEffect(() => {
+    const fetchRuleSets = async () => {
+      try {
+        const data = await getScoringRuleSets();
+        const options = data.map(ruleSet => ({
+          id: ruleSet.id,
+          rules: parseScoringRules(ruleSet.definition),
+        }));
+        setRuleSets(options);
+
+        const defaultSet = options.find(
+          option => option.rules.key === DEFAULT_SCORING_RULES.key
+        );
+        if (defaultSet && !form.getValues('scoring_rule_set_id')) {
+          form.setValue('scoring_rule_set_id', defaultSet.id);
+        }
+      } catch (error) {
+        console.error('Error fetching scoring rule sets:', error);
+      }
+    };
+
+    fetchRuleSets();
+  }, [form]);
+
+  const selectedRuleSet = ruleSets.find(
+    option => option.id === form.watch('scoring_rule_set_id')
+  );
 
   // Auto-generate season code from name
   const generateCodeFromName = (name: string) => {
@@ -97,6 +153,19 @@ export default function CreateSeasonForm() {
       return;
     }
 
+    if (!currentLeague) {
+      toast.error("No league selected", {
+        description: "Create or join a league from the header first."
+      });
+      return;
+    }
+
+    const countingError = validateCountingRule(counting);
+    if (countingError) {
+      toast.error("Invalid counting rounds", { description: countingError });
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -110,6 +179,12 @@ export default function CreateSeasonForm() {
           end_date: values.end_date || null,
           created_by: user.id,
           is_active: true,
+          scoring_rule_set_id: values.scoring_rule_set_id || null,
+          net_scoring: values.net_scoring,
+          counting_rule: counting.rule,
+          counting_rounds: counting.rounds,
+          min_rounds: counting.minRounds,
+          league_id: currentLeague.id,
         })
         .select()
         .single();
@@ -132,6 +207,7 @@ export default function CreateSeasonForm() {
 
       // Reset form
       form.reset();
+      setCounting(DEFAULT_COUNTING_RULE);
 
       // Redirect to dashboard after delay
       setTimeout(() => {
@@ -227,7 +303,7 @@ export default function CreateSeasonForm() {
             Create a New Golf Season
           </CardTitle>
           <CardDescription className="text-green-100 mt-1">
-            Set up a new season for your golf league
+            Set up a new season for {currentLeague?.name ?? 'your golf league'}
           </CardDescription>
         </CardHeader>
 
@@ -368,6 +444,58 @@ export default function CreateSeasonForm() {
               </p>
             </div>
 
+            {/* Scoring Rules */}
+            <div className="space-y-2">
+              <Label htmlFor="scoring_rule_set_id" className="text-gray-700 font-medium">
+                Scoring Rules
+              </Label>
+              <Select
+                onValueChange={(value) => form.setValue('scoring_rule_set_id', value)}
+                value={form.watch('scoring_rule_set_id')}
+                disabled={isSubmitting || ruleSets.length === 0}
+              >
+                <SelectTrigger id="scoring_rule_set_id" className="w-full border-gray-300 bg-white">
+                  <SelectValue placeholder={`Default (${DEFAULT_SCORING_RULES.name})`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {ruleSets.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.rules.name} · v{option.rules.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                {describeBrackets(selectedRuleSet?.rules ?? DEFAULT_SCORING_RULES).join(' • ')}
+              </p>
+            </div>
+
+            {/* Net Scoring */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="net_scoring" className="text-gray-700 font-medium">
+                  Net scoring
+                </Label>
+                <Switch
+                  id="net_scoring"
+                  checked={form.watch('net_scoring')}
+                  onCheckedChange={(checked) => form.setValue('net_scoring', checked)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Also score every round net of each player&apos;s handicap as of the round date, with its own low-round bonus. The leaderboard can then switch between gross and net.
+              </p>
+            </div>
+
+            {/* Counting Rounds */}
+            <CountingRuleFields
+              value={counting}
+              onChange={setCounting}
+              disabled={isSubmitting}
+              idPrefix="create-season-counting"
+            />
+
             {/* Info Box */}
             <div className="bg-blue-50 p-4 rounded-lg border border-blue-100">
               <p className="text-sm text-blue-800">
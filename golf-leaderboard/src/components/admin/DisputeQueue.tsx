@@ -0,0 +1,140 @@
+'use client'
+// src/components/admin/DisputeQueue.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Check, Loader2, MessageSquareWarning, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { getOpenScoreDisputes, resolveScoreDispute } from '@/lib/supabase/client';
+import { formatRelativeTime } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import {
+  describeProposedChange,
+  DISPUTE_KINDS,
+  ScoreDispute,
+} from '@/lib/utils/disputes';
+
+interface DisputeQueueProps {
+  /** Called with the round's ID after a request is approved and its score changed */
+  onScoreChanged: (gameId: string) => void;
+}
+
+/**
+ * Open correction requests and disputes, oldest first, for Manage Scores
+ * Approving applies the proposed score through update_score like any admin edit
+ */
+export default function DisputeQueue({ onScoreChanged }: DisputeQueueProps) {
+  const [disputes, setDisputes] = useState<ScoreDispute[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadDisputes = useCallback(async () => {
+    try {
+      setDisputes(await getOpenScoreDisputes());
+    } catch (error) {
+      logger.error('Error loading score disputes:', error);
+      toast.error('Failed to load score change requests');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const handleResolve = async (dispute: ScoreDispute, approve: boolean) => {
+    setResolvingId(dispute.id);
+    try {
+      await resolveScoreDispute(dispute.id, approve, notes[dispute.id]);
+
+      toast.success(approve ? 'Request approved' : 'Request rejected', {
+        description: approve
+          ? `${dispute.playerName ?? 'The player'}'s score is now ${dispute.proposedScore}.`
+          : 'The score has not been changed.',
+      });
+
+      if (approve) onScoreChanged(dispute.gameId);
+      await loadDisputes();
+    } catch (error) {
+      logger.error('Error resolving score dispute:', error);
+      toast.error('Failed to resolve the request', {
+        description: (error as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (disputes.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50/50 p-3 sm:p-4 space-y-3">
+      <h3 className="font-semibold text-amber-800 flex items-center gap-2">
+        <MessageSquareWarning className="h-4 w-4" />
+        Score Change Requests
+        <Badge className="bg-amber-100 text-amber-800 border-amber-200">{disputes.length}</Badge>
+      </h3>
+
+      <ul className="space-y-3">
+        {disputes.map((dispute) => {
+          const isResolving = resolvingId === dispute.id;
+          return (
+            <li key={dispute.id} className="rounded-md border bg-white p-3 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <span className="font-medium">{dispute.playerName ?? 'Unknown player'}</span>
+                  <span className="text-sm text-gray-500"> · {dispute.gameName ?? 'Unknown round'}</span>
+                </div>
+                <Badge variant="outline" className="text-gray-700">
+                  {DISPUTE_KINDS[dispute.kind]}
+                </Badge>
+              </div>
+
+              <p className="text-sm">
+                <span className="text-gray-500">Score:</span>{' '}
+                <span className="font-semibold">{describeProposedChange(dispute)}</span>
+              </p>
+              <p className="text-sm text-gray-700">&ldquo;{dispute.reason}&rdquo;</p>
+              <p className="text-xs text-gray-500">
+                {dispute.kind === 'dispute' ? `Raised by ${dispute.raisedByName ?? 'unknown player'} · ` : ''}
+                {formatRelativeTime(dispute.createdAt)}
+              </p>
+
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={notes[dispute.id] ?? ''}
+                  onChange={(e) => setNotes(current => ({ ...current, [dispute.id]: e.target.value }))}
+                  placeholder="Note for the player (optional)"
+                  className="h-8 text-sm"
+                  disabled={isResolving}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600"
+                    onClick={() => handleResolve(dispute, false)}
+                    disabled={isResolving}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleResolve(dispute, true)}
+                    disabled={isResolving}
+                  >
+                    {isResolving
+                      ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      : <Check className="h-4 w-4 mr-1" />}
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -40,9 +40,9 @@ import {
   getGameScores,
   updateScore,
   validateRoundCode,
+  deleteScore,
 } from '@/lib/supabase/client';
 import { formatDate } from '@/lib/utils';
-import { calculatePoints, updateBonusPoints } from '@/lib/utils/scoring';
 
 // Form validation schema
 const editScoreFormSchema = z.object({
@@ -74,6 +74,7 @@ interface ScoreWithPlayer {
     id: string;
     name: string;
     game_date: string;
+    season_id: string;
     courses: {
       id: string;
       name: string;
@@ -219,45 +220,12 @@ useEffect(() => {
     
     setIsLoading(true);
     try {
-      // Recalculate points based on new raw score
-      const points = calculatePoints(values.rawScore, selectedGame.courses.par);
-      
-      // Update the score
+      // Points and the round's low-round bonus are recalculated on the server
       await updateScore(editingScoreId, {
         raw_score: values.rawScore,
-        points,
-        edited_by: user.id,
-        edited_at: new Date().toISOString(),
         notes: values.notes,
       });
       
-      // Refresh all scores for this game
-      const updatedScores = await getGameScores(selectedGame.id);
-      
-      // Recalculate bonus points for all players in this round
-      const playerBonusUpdates = updateBonusPoints(
-        updatedScores.map(score => ({
-          playerId: score.player_id,
-          rawScore: score.raw_score,
-          bonusPoints: score.bonus_points,
-        }))
-      );
-      
-      // Apply bonus point updates if needed
-      for (const update of playerBonusUpdates) {
-        const scoreToUpdate = updatedScores.find(
-          score => score.player_id === update.playerId
-        );
-        
-        if (scoreToUpdate && scoreToUpdate.bonus_points !== (update.shouldHaveBonus ? 1 : 0)) {
-          await updateScore(scoreToUpdate.id, {
-            bonus_points: update.shouldHaveBonus ? 1 : 0,
-            edited_by: user.id,
-            edited_at: new Date().toISOString(),
-          });
-        }
-      }
-      
       // Refresh scores again after all updates
       const finalScores = await getGameScores(selectedGame.id);
       setGameScores(finalScores);
@@ -289,9 +257,8 @@ useEffect(() => {
     
     setIsLoading(true);
     try {
-      // In a real app, you would have a delete endpoint
-      // For now, we'll just filter it out of the UI
-      // await deleteScore(showDeleteConfirm);
+      // Delete the score; the low-round bonus moves on the server
+      await deleteScore(showDeleteConfirm);
       
       // Refresh scores
       const updatedScores = await getGameScores(selectedGame.id);
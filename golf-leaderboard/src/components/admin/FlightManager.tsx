@@ -0,0 +1,345 @@
+'use client'
+// src/components/admin/FlightManager.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Layers, Loader2, Plus, Trash2, Wand2 } from 'lucide-react';
+import {
+  assignSeasonFlights,
+  createSeasonFlight,
+  deleteSeasonFlight,
+  getSeasonFlights,
+  getSeasonParticipantFlights,
+} from '@/lib/supabase/client';
+import {
+  assignFlightsByHandicap,
+  describeFlightBand,
+  Flight,
+  validateFlight,
+} from '@/lib/utils/flights';
+
+const UNASSIGNED = 'none';
+
+interface Participant {
+  playerId: string;
+  username: string;
+  handicap: number | null;
+  flightId: string | null;
+}
+
+interface FlightManagerProps {
+  season: {
+    id: string;
+    name: string;
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Define a season's flights and put its players into them, either by
+ * handicap band or one at a time
+ */
+export default function FlightManager({ season, open, onOpenChange }: FlightManagerProps) {
+  const [flights, setFlights] = useState<Flight[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [name, setName] = useState('');
+  const [minHandicap, setMinHandicap] = useState('');
+  const [maxHandicap, setMaxHandicap] = useState('');
+
+  const loadFlights = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [flightRows, participantRows] = await Promise.all([
+        getSeasonFlights(season.id),
+        getSeasonParticipantFlights(season.id),
+      ]);
+      setFlights(flightRows.map((flight) => ({
+        id: flight.id,
+        name: flight.name,
+        minHandicap: flight.min_handicap,
+        maxHandicap: flight.max_handicap,
+      })));
+      setParticipants(participantRows);
+      setHasChanges(false);
+    } catch (error) {
+      console.error('Error loading flights:', error);
+      toast.error('Failed to load flights', {
+        description: 'Please try again.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [season.id]);
+
+  useEffect(() => {
+    if (open) loadFlights();
+  }, [open, loadFlights]);
+
+  const toHandicap = (input: string) => (input.trim() === '' ? null : Number(input));
+
+  const handleAddFlight = async () => {
+    const flight = {
+      name,
+      minHandicap: toHandicap(minHandicap),
+      maxHandicap: toHandicap(maxHandicap),
+    };
+
+    if ([flight.minHandicap, flight.maxHandicap].some((value) => value !== null && Number.isNaN(value))) {
+      toast.error('Handicap limits must be numbers');
+      return;
+    }
+
+    const problem = validateFlight(flight, flights);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createSeasonFlight(season.id, { ...flight, sortOrder: flights.length });
+      setName('');
+      setMinHandicap('');
+      setMaxHandicap('');
+      await loadFlights();
+    } catch (error) {
+      console.error('Error adding flight:', error);
+      toast.error('Failed to add flight', {
+        description: 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteFlight = async (flight: Flight) => {
+    setIsSaving(true);
+    try {
+      await deleteSeasonFlight(season.id, flight.id);
+      toast.success(`${flight.name} removed`, {
+        description: 'Its players are now unassigned.',
+      });
+      await loadFlights();
+    } catch (error) {
+      console.error('Error deleting flight:', error);
+      toast.error('Failed to remove flight', {
+        description: 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setPlayerFlight = (playerId: string, flightId: string | null) => {
+    setParticipants((current) => current.map((participant) =>
+      participant.playerId === playerId ? { ...participant, flightId } : participant
+    ));
+    setHasChanges(true);
+  };
+
+  // Only flights with a handicap band take part; everyone else keeps their flight
+  const handleAssignByHandicap = () => {
+    const banded = flights.filter((flight) => flight.minHandicap !== null || flight.maxHandicap !== null);
+    if (banded.length === 0) {
+      toast.error('Add a flight with a handicap band first');
+      return;
+    }
+
+    const assignments = new Map(
+      assignFlightsByHandicap(participants, banded).map((assignment) => [assignment.playerId, assignment.flightId])
+    );
+    setParticipants((current) => current.map((participant) => ({
+      ...participant,
+      flightId: assignments.get(participant.playerId) ?? participant.flightId,
+    })));
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await assignSeasonFlights(
+        season.id,
+        participants.map((participant) => ({ playerId: participant.playerId, flightId: participant.flightId }))
+      );
+      toast.success('Flights saved', {
+        description: 'Low-round bonuses were recalculated within each flight.',
+      });
+      setHasChanges(false);
+    } catch (error) {
+      console.error('Error assigning flights:', error);
+      toast.error('Failed to save flights', {
+        description: (error as Error).message || 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-green-600" />
+            Flights — {season.name}
+          </DialogTitle>
+          <DialogDescription>
+            Each flight has its own standings, and the low-round bonus is won within each flight.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              {flights.length === 0 ? (
+                <p className="text-sm text-gray-500">No flights yet. Everyone competes in one field.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {flights.map((flight) => (
+                    <li key={flight.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span>
+                        <span className="font-medium text-gray-900">{flight.name}</span>
+                        <span className="text-gray-500 ml-2">{describeFlightBand(flight)}</span>
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteFlight(flight)}
+                        disabled={isSaving}
+                        className="text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="flight-name">Flight name</Label>
+                  <Input
+                    id="flight-name"
+                    placeholder="e.g. A Flight"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="flight-min">Handicap from</Label>
+                  <Input
+                    id="flight-min"
+                    type="number"
+                    step="0.1"
+                    placeholder="Any"
+                    value={minHandicap}
+                    onChange={(e) => setMinHandicap(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="flight-max">Handicap to</Label>
+                  <Input
+                    id="flight-max"
+                    type="number"
+                    step="0.1"
+                    placeholder="Any"
+                    value={maxHandicap}
+                    onChange={(e) => setMaxHandicap(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-gray-500">Leave both limits empty for a flight you assign by hand.</p>
+                <Button variant="outline" size="sm" onClick={handleAddFlight} disabled={isSaving}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Flight
+                </Button>
+              </div>
+            </div>
+
+            {flights.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-900">Players</h3>
+                  <Button variant="outline" size="sm" onClick={handleAssignByHandicap} disabled={isSaving}>
+                    <Wand2 className="h-4 w-4 mr-1" />
+                    Assign by Handicap
+                  </Button>
+                </div>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {participants.map((participant) => (
+                    <li key={participant.playerId} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                      <span>
+                        <span className="font-medium text-gray-900">{participant.username}</span>
+                        <span className="text-gray-500 ml-2">
+                          {participant.handicap !== null ? participant.handicap.toFixed(1) : 'No index'}
+                        </span>
+                      </span>
+                      <Select
+                        value={participant.flightId ?? UNASSIGNED}
+                        onValueChange={(value) => setPlayerFlight(participant.playerId, value === UNASSIGNED ? null : value)}
+                        disabled={isSaving}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {flights.map((flight) => (
+                            <SelectItem key={flight.id} value={flight.id}>
+                              {flight.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !hasChanges}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save Assignments
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
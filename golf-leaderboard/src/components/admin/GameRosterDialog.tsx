@@ -0,0 +1,98 @@
+'use client'
+// src/components/admin/GameRosterDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, Loader2, Users } from 'lucide-react';
+import { getGameRoster } from '@/lib/supabase/client';
+import { formatDate } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { countRsvps, RosterEntry, RsvpStatus, RSVP_STATUSES } from '@/lib/utils/rsvps';
+
+const STATUS_BADGES: Record<RsvpStatus, string> = {
+  in: 'bg-green-50 text-green-700 border-green-200',
+  maybe: 'bg-amber-50 text-amber-700 border-amber-200',
+  out: 'bg-gray-50 text-gray-600 border-gray-200',
+};
+
+interface GameRosterDialogProps {
+  game: { id: string; name: string; game_date: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Who's coming to a round: every player in its season with their RSVP,
+ * and a tick once they've submitted a score
+ */
+export default function GameRosterDialog({ game, onOpenChange }: GameRosterDialogProps) {
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const gameId = game?.id;
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    setLoading(true);
+    getGameRoster(gameId)
+      .then(setRoster)
+      .catch(error => {
+        logger.error('Error loading round roster:', error);
+        setRoster([]);
+      })
+      .finally(() => setLoading(false));
+  }, [gameId]);
+
+  const counts = countRsvps(roster.filter((entry): entry is RosterEntry & { status: RsvpStatus } => entry.status !== null));
+  const noReply = roster.filter(entry => entry.status === null).length;
+
+  return (
+    <Dialog open={!!game} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-green-600" />
+            {game?.name} Roster
+          </DialogTitle>
+          <DialogDescription>
+            {game && formatDate(game.game_date)} &middot; {counts.in} in, {counts.maybe} maybe, {counts.out} out, {noReply} no reply
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+          </div>
+        ) : roster.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No players have joined this round&apos;s season yet.</p>
+        ) : (
+          <ul className="divide-y max-h-96 overflow-y-auto">
+            {roster.map(entry => (
+              <li key={entry.playerId} className="flex items-center justify-between py-2">
+                <span className="flex items-center gap-2 text-sm">
+                  {entry.username}
+                  {entry.submitted && (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" aria-label="Score submitted" />
+                  )}
+                </span>
+                {entry.status ? (
+                  <Badge variant="outline" className={STATUS_BADGES[entry.status]}>
+                    {RSVP_STATUSES[entry.status]}
+                  </Badge>
+                ) : (
+                  <span className="text-xs text-gray-400">No reply</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,394 @@
+'use client'
+// src/components/admin/HistoryImportView.tsx
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, ArrowLeft, CheckCircle2, FileUp, Loader2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { getImportContext, importLeagueHistory } from '@/lib/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { useLeague } from '@/context/LeagueContext';
+import { useNavigation } from '@/hooks/useNavigation';
+import { formatDate } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import {
+  buildImportPlan,
+  ColumnMapping,
+  CsvTable,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportContext,
+  ImportFile,
+  mapRows,
+  missingColumns,
+  parseCsv,
+} from '@/lib/utils/historyImport';
+
+// Select value for a field with no column
+const NO_COLUMN = 'none';
+
+const FILES: Array<{ file: ImportFile; title: string; description: string }> = [
+  { file: 'courses', title: 'Courses', description: 'Only needed for courses that aren\'t in the app yet' },
+  { file: 'games', title: 'Games', description: 'One row per round: season, date and course' },
+  { file: 'scores', title: 'Scores', description: 'One row per player per round: season, date, player and score' },
+];
+
+type Uploads = Partial<Record<ImportFile, { fileName: string; table: CsvTable; mapping: ColumnMapping }>>;
+
+/**
+ * Import past seasons from spreadsheets: upload CSV files of courses, games
+ * and scores, map their columns, check the preview, then import it all at once
+ */
+export default function HistoryImportView() {
+  const nav = useNavigation();
+  const { isAdmin } = useAuth();
+  const { currentLeague } = useLeague();
+  const [uploads, setUploads] = useState<Uploads>({});
+  const [context, setContext] = useState<ImportContext | null>(null);
+  // Rule set picked for each new season, by season name
+  const [seasonRuleSets, setSeasonRuleSets] = useState<Record<string, string>>({});
+  const [step, setStep] = useState<'files' | 'preview' | 'done'>('files');
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<{ rounds: number; scores: number; players: number } | null>(null);
+
+  const plan = useMemo(() => {
+    if (!context) return null;
+    const rows = (file: ImportFile) => {
+      const upload = uploads[file];
+      return upload ? mapRows(upload.table, upload.mapping) : [];
+    };
+    return buildImportPlan(
+      { courses: rows('courses'), games: rows('games'), scores: rows('scores') },
+      context,
+      seasonRuleSets
+    );
+  }, [context, uploads, seasonRuleSets]);
+
+  const handleFile = async (file: ImportFile, selected: File | undefined) => {
+    if (!selected) {
+      const rest = { ...uploads };
+      delete rest[file];
+      setUploads(rest);
+      return;
+    }
+
+    const table = parseCsv(await selected.text());
+    if (table.headers.length === 0) {
+      toast.error(`${selected.name} is empty`);
+      return;
+    }
+    setUploads({ ...uploads, [file]: { fileName: selected.name, table, mapping: guessColumnMapping(file, table.headers) } });
+  };
+
+  const setColumn = (file: ImportFile, field: string, value: string) => {
+    const upload = uploads[file];
+    if (!upload) return;
+    setUploads({
+      ...uploads,
+      [file]: { ...upload, mapping: { ...upload.mapping, [field]: value === NO_COLUMN ? null : Number(value) } },
+    });
+  };
+
+  const unmapped = FILES
+    .filter(({ file }) => uploads[file])
+    .map(({ file, title }) => ({ title, missing: missingColumns(file, uploads[file]!.mapping) }))
+    .filter(({ missing }) => missing.length > 0);
+
+  const handlePreview = async () => {
+    if (!currentLeague) return;
+
+    setLoading(true);
+    try {
+      setContext(await getImportContext(currentLeague.id, isAdmin));
+      setStep('preview');
+    } catch (error) {
+      logger.error('Error loading data for import:', error);
+      toast.error('Failed to load the league\'s seasons and players');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!currentLeague || !plan || plan.errors.length > 0) return;
+
+    setLoading(true);
+    try {
+      // Bonus points, net results and badges are brought up to date in the same transaction
+      const gameIds = await importLeagueHistory(currentLeague.id, plan);
+      setResult({ rounds: gameIds.length, scores: plan.scores.length, players: plan.players.length });
+      setStep('done');
+      toast.success(`Imported ${plan.scores.length} scores`);
+    } catch (error) {
+      logger.error('Error importing history:', error);
+      toast.error('Failed to import', {
+        description: (error as { message?: string }).message || 'Nothing was imported. Please try again.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartOver = () => {
+    setUploads({});
+    setContext(null);
+    setSeasonRuleSets({});
+    setResult(null);
+    setStep('files');
+  };
+
+  // Names for the plan's references, new or existing
+  const names = useMemo(() => {
+    const map = new Map<string, string>();
+    context?.players.forEach(player => map.set(player.id, player.username));
+    context?.seasons.forEach(season => map.set(season.id, season.name));
+    plan?.players.forEach(player => map.set(player.key, player.username));
+    plan?.seasons.forEach(season => map.set(season.key, season.name));
+    context?.games.forEach(game => map.set(game.id, `${map.get(game.seasonId) ?? ''} · ${formatDate(game.gameDate)}`));
+    plan?.games.forEach(game => map.set(game.key, `${map.get(game.seasonRef) ?? ''} · ${formatDate(game.gameDate)}`));
+    return map;
+  }, [context, plan]);
+
+  const renderFile = ({ file, title, description }: typeof FILES[number]) => {
+    const upload = uploads[file];
+    return (
+      <div key={file} className="rounded-lg border p-4 space-y-3">
+        <div>
+          <Label htmlFor={`import-${file}`} className="font-semibold">{title}</Label>
+          <p className="text-xs text-gray-500">{description}</p>
+        </div>
+        <Input
+          id={`import-${file}`}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFile(file, e.target.files?.[0])}
+        />
+        {upload && (
+          <>
+            <p className="text-xs text-gray-500">{upload.fileName} &middot; {upload.table.rows.length} rows</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {IMPORT_FIELDS[file].map(field => (
+                <div key={field.key} className="flex items-center justify-between gap-2">
+                  <span className="text-sm">
+                    {field.label}
+                    {field.required && <span className="text-red-500 ml-0.5">*</span>}
+                  </span>
+                  <Select
+                    value={upload.mapping[field.key] === null ? NO_COLUMN : String(upload.mapping[field.key])}
+                    onValueChange={(value) => setColumn(file, field.key, value)}
+                  >
+                    <SelectTrigger className="h-8 w-40 text-xs" aria-label={`${title} ${field.label} column`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                      {upload.table.headers.map((header, i) => (
+                        <SelectItem key={i} value={String(i)}>{header || `Column ${i + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderIssues = (kind: 'errors' | 'warnings') => {
+    const issues = plan?.[kind] ?? [];
+    if (issues.length === 0) return null;
+    const isError = kind === 'errors';
+    return (
+      <div className={`rounded-lg border p-3 space-y-1 ${isError ? 'border-red-200 bg-red-50' : 'border-amber-200 bg-amber-50'}`}>
+        <p className={`flex items-center gap-2 text-sm font-semibold ${isError ? 'text-red-700' : 'text-amber-700'}`}>
+          {isError ? <XCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+          {isError
+            ? `${issues.length} ${issues.length === 1 ? 'problem' : 'problems'} to fix before importing`
+            : `${issues.length} ${issues.length === 1 ? 'row matches' : 'rows match'} something already in the league`}
+        </p>
+        <ul className="max-h-48 overflow-y-auto text-sm">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              <span className="text-gray-500">{FILES.find(f => f.file === issue.file)?.title} row {issue.row}:</span>{' '}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="container max-w-5xl mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-green-700 flex items-center gap-2">
+          <FileUp className="h-8 w-8" />
+          Import History
+        </h1>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={nav.goToDashboard}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+      </div>
+
+      <Card className="shadow-md border-0">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold text-green-800">
+            {step === 'files' ? 'Files and columns' : step === 'preview' ? 'Preview' : 'Imported'}
+          </CardTitle>
+          <CardDescription>
+            Bring past seasons into {currentLeague?.name ?? 'the league'} from spreadsheets saved as CSV.
+            Seasons and players are matched by name; anyone without an account is added as a placeholder player.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {step === 'files' && (
+            <>
+              <div className="grid gap-4">{FILES.map(renderFile)}</div>
+              {unmapped.map(({ title, missing }) => (
+                <p key={title} className="text-sm text-red-600">
+                  {title}: choose the column for {missing.join(', ')}
+                </p>
+              ))}
+              <div className="flex justify-end">
+                <Button
+                  onClick={handlePreview}
+                  disabled={loading || Object.keys(uploads).length === 0 || unmapped.length > 0}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Preview Import
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && plan && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{plan.courses.length} new courses</Badge>
+                <Badge variant="outline">{plan.seasons.length} new seasons</Badge>
+                <Badge variant="outline">{plan.games.length} new rounds</Badge>
+                <Badge variant="outline">{plan.players.length} placeholder players</Badge>
+                <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                  {plan.scores.length} scores
+                </Badge>
+              </div>
+
+              {renderIssues('errors')}
+              {renderIssues('warnings')}
+
+              {plan.seasons.length > 0 && context && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-500">Scoring rules for new seasons</h3>
+                  {plan.seasons.map(season => (
+                    <div key={season.key} className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-gray-700">{season.name}</span>
+                      <Select
+                        value={season.scoringRuleSetId}
+                        onValueChange={value => setSeasonRuleSets(current => ({ ...current, [season.name]: value }))}
+                      >
+                        <SelectTrigger className="h-8 w-56 text-xs" aria-label={`${season.name} scoring rules`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {context.ruleSets.map(ruleSet => (
+                            <SelectItem key={ruleSet.id} value={ruleSet.id}>
+                              {ruleSet.rules.name} · v{ruleSet.rules.version}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {plan.players.length > 0 && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-semibold text-gray-500">New placeholder players</h3>
+                  <p className="text-sm text-gray-700">{plan.players.map(player => player.username).join(', ')}</p>
+                </div>
+              )}
+
+              {plan.scores.length > 0 && (
+                <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Round</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Player</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">Score</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">Points</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">Bonus</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {plan.scores.map(score => (
+                        <tr key={score.row}>
+                          <td className="px-3 py-1.5 text-gray-600">{names.get(score.gameRef)}</td>
+                          <td className="px-3 py-1.5">
+                            {names.get(score.playerRef)}
+                            {score.playerRef.startsWith('new:') && <span className="text-xs text-gray-400 ml-1">new</span>}
+                          </td>
+                          <td className="px-3 py-1.5 text-right">{score.rawScore}</td>
+                          <td className="px-3 py-1.5 text-right">{score.points}</td>
+                          <td className="px-3 py-1.5 text-right text-green-700">{score.bonusPoints > 0 ? `+${score.bonusPoints}` : ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep('files')} disabled={loading}>
+                  Back to Files
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={loading || plan.errors.length > 0 || plan.scores.length + plan.games.length + plan.courses.length === 0}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Import
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-4 text-center py-6">
+              <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto" />
+              <p className="text-gray-700">
+                Imported {result.scores} scores in {result.rounds} rounds
+                {result.players > 0 && `, with ${result.players} placeholder players`}.
+              </p>
+              <Button variant="outline" onClick={handleStartOver}>
+                Import More
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
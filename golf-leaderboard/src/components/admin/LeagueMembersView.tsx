@@ -0,0 +1,173 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Loader2, UserCog } from 'lucide-react';
+import { getLeagueMembers, setLeagueMemberRole } from '@/lib/supabase/client';
+import { LEAGUE_ROLES, LeagueMember, LeagueRole, validateRoleChange } from '@/lib/utils/leagues';
+import { formatDate } from '@/lib/utils';
+import { useNavigation } from '@/hooks/useNavigation';
+import { useAuth } from '@/context/AuthContext';
+import { useLeague } from '@/context/LeagueContext';
+import { toast } from 'sonner';
+
+export default function LeagueMembersView() {
+  const nav = useNavigation();
+  const { user, isAdmin: isSiteAdmin } = useAuth();
+  const { currentLeague, refreshLeagues } = useLeague();
+  const [members, setMembers] = useState<LeagueMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  // Only owners change roles; admins see who's who
+  const canChangeRoles = isSiteAdmin || currentLeague?.role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    if (!currentLeague) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setMembers(await getLeagueMembers(currentLeague.id));
+    } catch (error) {
+      console.error('Error loading league members:', error);
+      toast.error('Failed to load league members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentLeague]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const handleRoleChange = async (member: LeagueMember, role: LeagueRole) => {
+    if (!currentLeague) return;
+
+    const validationError = validateRoleChange(members, member.userId, role);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSavingId(member.userId);
+    try {
+      await setLeagueMemberRole(currentLeague.id, member.userId, role);
+      toast.success(`${member.username}'s role is now ${LEAGUE_ROLES[role]}`);
+      await loadMembers();
+      // Your own role may have changed
+      if (member.userId === user?.id) await refreshLeagues();
+    } catch (error) {
+      console.error('Error changing league role:', error);
+      toast.error('Failed to change the role', {
+        description: (error as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-green-700 flex items-center gap-2">
+          <UserCog className="h-8 w-8" />
+          League Members
+        </h1>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={nav.goToDashboard}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+      </div>
+
+      <Card className="shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-green-600 to-emerald-600 text-white">
+          <CardTitle>{currentLeague?.name ?? 'No league selected'}</CardTitle>
+          <CardDescription className="text-green-100">
+            Owners and admins run the league&apos;s seasons, rounds and scores. Only owners change roles.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-6">
+          {currentLeague && (
+            <div className="bg-blue-50 p-4 rounded-lg border border-blue-200 text-sm text-blue-800">
+              Players join with the invite code{' '}
+              <code className="font-mono font-bold bg-white px-2 py-0.5 rounded border border-blue-200">{currentLeague.code}</code>
+              {' '}or with any of the league&apos;s season codes.
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Player</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {members.map((member) => (
+                    <tr key={member.userId}>
+                      <td className="px-4 py-2 text-gray-900">
+                        {member.username}
+                        {member.userId === user?.id && <span className="text-gray-500"> (you)</span>}
+                      </td>
+                      <td className="px-4 py-2 text-gray-500">{formatDate(member.joinedAt)}</td>
+                      <td className="px-4 py-2 text-right">
+                        {canChangeRoles ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => handleRoleChange(member, role as LeagueRole)}
+                            disabled={savingId === member.userId}
+                          >
+                            <SelectTrigger className="w-32 ml-auto h-8 border-gray-300 bg-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(LEAGUE_ROLES) as LeagueRole[]).map((role) => (
+                                <SelectItem key={role} value={role}>{LEAGUE_ROLES[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge
+                            variant="outline"
+                            className={member.role === 'member' ? 'text-gray-700' : 'bg-green-50 text-green-700 border-green-200'}
+                          >
+                            {LEAGUE_ROLES[member.role]}
+                          </Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
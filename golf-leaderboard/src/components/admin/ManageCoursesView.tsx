@@ -7,8 +7,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { ArrowLeft, Plus, MapPin, Edit2, Save, X, Loader2, Flag } from 'lucide-react';
+import { ArrowLeft, Plus, MapPin, Edit2, Save, X, Loader2, Flag, LayoutGrid } from 'lucide-react';
 import { getCourses, createCourse, updateCourse } from '@/lib/supabase/client';
+import CourseLayoutEditor from './CourseLayoutEditor';
 import { useNavigation } from '@/hooks/useNavigation';
 import { formatDate } from '@/lib/utils';
 
@@ -17,6 +18,8 @@ interface Course {
   name: string;
   location: string | null;
   par: number;
+  course_rating: number | null;
+  slope_rating: number | null;
   created_at: string;
 }
 
@@ -24,8 +27,18 @@ interface CourseFormData {
   name: string;
   location: string;
   par: string;
+  courseRating: string;
+  slopeRating: string;
 }
 
+const EMPTY_COURSE_FORM: CourseFormData = {
+  name: '',
+  location: '',
+  par: '72',
+  courseRating: '',
+  slopeRating: ''
+};
+
 export default function ManageCoursesView() {
   const nav = useNavigation();
   const [courses, setCourses] = useState<Course[]>([]);
@@ -33,18 +46,11 @@ export default function ManageCoursesView() {
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [layoutCourseId, setLayoutCourseId] = useState<string | null>(null);
 
-  const [newCourse, setNewCourse] = useState<CourseFormData>({
-    name: '',
-    location: '',
-    par: '72'
-  });
+  const [newCourse, setNewCourse] = useState<CourseFormData>(EMPTY_COURSE_FORM);
 
-  const [editCourse, setEditCourse] = useState<CourseFormData>({
-    name: '',
-    location: '',
-    par: '72'
-  });
+  const [editCourse, setEditCourse] = useState<CourseFormData>(EMPTY_COURSE_FORM);
 
   useEffect(() => {
     fetchCourses();
@@ -71,6 +77,25 @@ export default function ManageCoursesView() {
     );
   };
 
+  // Rating and slope are optional; blank means "use par and the standard slope"
+  const parseRatings = (
+    formData: CourseFormData
+  ): { course_rating: number | null; slope_rating: number | null } | null => {
+    const courseRating = formData.courseRating.trim() ? parseFloat(formData.courseRating) : null;
+    if (courseRating !== null && (isNaN(courseRating) || courseRating < 50 || courseRating > 90)) {
+      toast.error('Course rating must be between 50 and 90');
+      return null;
+    }
+
+    const slopeRating = formData.slopeRating.trim() ? parseInt(formData.slopeRating) : null;
+    if (slopeRating !== null && (isNaN(slopeRating) || slopeRating < 55 || slopeRating > 155)) {
+      toast.error('Slope rating must be between 55 and 155');
+      return null;
+    }
+
+    return { course_rating: courseRating, slope_rating: slopeRating };
+  };
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -91,16 +116,20 @@ export default function ManageCoursesView() {
       return;
     }
 
+    const ratings = parseRatings(newCourse);
+    if (!ratings) return;
+
     try {
       setIsSubmitting(true);
       await createCourse({
         name: trimmedName,
         location: newCourse.location.trim() || undefined,
-        par: parValue
+        par: parValue,
+        ...ratings
       });
 
       toast.success('Course created successfully');
-      setNewCourse({ name: '', location: '', par: '72' });
+      setNewCourse(EMPTY_COURSE_FORM);
       setShowAddForm(false);
       await fetchCourses();
     } catch (error) {
@@ -129,12 +158,16 @@ export default function ManageCoursesView() {
       return;
     }
 
+    const ratings = parseRatings(editCourse);
+    if (!ratings) return;
+
     try {
       setIsSubmitting(true);
       await updateCourse(courseId, {
         name: trimmedName,
         location: editCourse.location.trim() || undefined,
-        par: parValue
+        par: parValue,
+        ...ratings
       });
 
       toast.success('Course updated successfully');
@@ -153,20 +186,24 @@ export default function ManageCoursesView() {
     setEditCourse({
       name: course.name,
       location: course.location || '',
-      par: course.par.toString()
+      par: course.par.toString(),
+      courseRating: course.course_rating?.toString() ?? '',
+      slopeRating: course.slope_rating?.toString() ?? ''
     });
   };
 
   const cancelEdit = () => {
     setEditingId(null);
-    setEditCourse({ name: '', location: '', par: '72' });
+    setEditCourse(EMPTY_COURSE_FORM);
   };
 
   const cancelAdd = () => {
     setShowAddForm(false);
-    setNewCourse({ name: '', location: '', par: '72' });
+    setNewCourse(EMPTY_COURSE_FORM);
   };
 
+  const layoutCourse = courses.find(course => course.id === layoutCourseId);
+
   return (
     <div className="space-y-6">
       <Card>
@@ -248,6 +285,38 @@ export default function ManageCoursesView() {
                       />
                     </div>
                   </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="new-rating">Course Rating</Label>
+                      <Input
+                        id="new-rating"
+                        type="number"
+                        step="0.1"
+                        value={newCourse.courseRating}
+                        onChange={(e) => setNewCourse({ ...newCourse, courseRating: e.target.value })}
+                        placeholder="e.g., 71.8"
+                        min="50"
+                        max="90"
+                        disabled={isSubmitting}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="new-slope">Slope Rating</Label>
+                      <Input
+                        id="new-slope"
+                        type="number"
+                        value={newCourse.slopeRating}
+                        onChange={(e) => setNewCourse({ ...newCourse, slopeRating: e.target.value })}
+                        placeholder="113"
+                        min="55"
+                        max="155"
+                        disabled={isSubmitting}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground md:self-end md:pb-2">
+                      Used for WHS handicaps. Leave blank to use par and the standard slope of 113.
+                    </p>
+                  </div>
                   <div className="flex gap-2 justify-end">
                     <Button
                       type="button"
@@ -295,6 +364,7 @@ export default function ManageCoursesView() {
                     <TableHead>Course Name</TableHead>
                     <TableHead>Location</TableHead>
                     <TableHead className="text-center">Par</TableHead>
+                    <TableHead className="text-center">Rating / Slope</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -336,6 +406,31 @@ export default function ManageCoursesView() {
                               className="h-8 text-center"
                             />
                           </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Input
+                                type="number"
+                                step="0.1"
+                                value={editCourse.courseRating}
+                                onChange={(e) => setEditCourse({ ...editCourse, courseRating: e.target.value })}
+                                placeholder="Rating"
+                                min="50"
+                                max="90"
+                                disabled={isSubmitting}
+                                className="h-8 text-center"
+                              />
+                              <Input
+                                type="number"
+                                value={editCourse.slopeRating}
+                                onChange={(e) => setEditCourse({ ...editCourse, slopeRating: e.target.value })}
+                                placeholder="Slope"
+                                min="55"
+                                max="155"
+                                disabled={isSubmitting}
+                                className="h-8 text-center"
+                              />
+                            </div>
+                          </TableCell>
                           <TableCell>
                             <span className="text-sm text-muted-foreground">
                               {formatDate(course.created_at)}
@@ -385,20 +480,40 @@ export default function ManageCoursesView() {
                               {course.par}
                             </span>
                           </TableCell>
+                          <TableCell className="text-center">
+                            {course.course_rating !== null || course.slope_rating !== null ? (
+                              <span className="font-mono text-sm">
+                                {course.course_rating?.toFixed(1) ?? '—'} / {course.slope_rating ?? '—'}
+                              </span>
+                            ) : (
+                              <span className="text-sm text-muted-foreground italic">Not rated</span>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <span className="text-sm text-muted-foreground">
                               {formatDate(course.created_at)}
                             </span>
                           </TableCell>
                           <TableCell className="text-right">
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => startEdit(course)}
-                              disabled={editingId !== null || showAddForm}
-                            >
-                              <Edit2 className="h-3 w-3" />
-                            </Button>
+                            <div className="flex gap-1 justify-end">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setLayoutCourseId(course.id)}
+                                disabled={editingId !== null}
+                                title="Tees & holes"
+                              >
+                                <LayoutGrid className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => startEdit(course)}
+                                disabled={editingId !== null || showAddForm}
+                              >
+                                <Edit2 className="h-3 w-3" />
+                              </Button>
+                            </div>
                           </TableCell>
                         </>
                       )}
@@ -410,6 +525,14 @@ export default function ManageCoursesView() {
           )}
         </CardContent>
       </Card>
+
+      {layoutCourse && (
+        <CourseLayoutEditor
+          key={layoutCourse.id}
+          course={layoutCourse}
+          onClose={() => setLayoutCourseId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -8,11 +8,14 @@ import { Button } from '@/components/ui/button';
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Calendar, Flag, Ticket, RefreshCw } from 'lucide-react';
+import { ArrowLeft, Calendar, CircleDollarSign, Clock, Flag, Ticket, RefreshCw, Users } from 'lucide-react';
 import { toast } from 'sonner';
-import { useAuth } from '@/context/AuthContext';
+import { useLeague } from '@/context/LeagueContext';
 import { useNavigation } from '@/hooks/useNavigation';
 import { useIsMobile } from '@/hooks/useMediaQuery';
+import GameRosterDialog from './GameRosterDialog';
+import SideGamesDialog from './SideGamesDialog';
+import TeeGroupsDialog from './TeeGroupsDialog';
 
 // Define interface for game data
 interface Game {
@@ -21,6 +24,7 @@ interface Game {
   game_date: string;
   round_code: string;
   status: 'active' | 'completed';
+  format: string;
   courses: {
     name: string;
   };
@@ -33,7 +37,10 @@ export default function ManageGamesView() {
   const nav = useNavigation();
   const [games, setGames] = useState<Game[]>([]);
   const [loading, setLoading] = useState(true);
-  const { isAdmin } = useAuth();
+  const [rosterGame, setRosterGame] = useState<Game | null>(null);
+  const [teeTimesGame, setTeeTimesGame] = useState<Game | null>(null);
+  const [sideGamesGame, setSideGamesGame] = useState<Game | null>(null);
+  const { currentLeague, isLeagueAdmin: isAdmin } = useLeague();
 
   // Use mobile detection hook (replaces duplicate logic)
   const isMobile = useIsMobile();
@@ -56,14 +63,17 @@ export default function ManageGamesView() {
   const loadGames = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
+      // Only the current league's rounds
+      let query = supabase
         .from('games')
         .select(`
-          id, name, game_date, round_code, status,
+          id, name, game_date, round_code, status, format,
           courses(name),
-          seasons(name)
-        `)
-        .order('game_date', { ascending: false });
+          seasons!inner(name, league_id)
+        `);
+      if (currentLeague) query = query.eq('seasons.league_id', currentLeague.id);
+
+      const { data, error } = await query.order('game_date', { ascending: false });
         
       if (error) {
         console.error('Error loading games:', error);
@@ -80,7 +90,8 @@ export default function ManageGamesView() {
   
   useEffect(() => {
     loadGames();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentLeague?.id]);
 
   // Status badge render helper
   const renderStatusBadge = (status: 'active' | 'completed') => {
@@ -127,18 +138,47 @@ export default function ManageGamesView() {
             </div>
             
             {isAdmin && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleGameStatusUpdate(
-                  game.id, 
-                  game.status === 'active' ? 'completed' : 'active'
-                )}
-                className="h-8 text-xs"
-              >
-                <RefreshCw className="h-3 w-3 mr-1" />
-                {game.status === 'active' ? 'Complete' : 'Reactivate'}
-              </Button>
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRosterGame(game)}
+                  className="h-8 text-xs"
+                >
+                  <Users className="h-3 w-3 mr-1" />
+                  Roster
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTeeTimesGame(game)}
+                  className="h-8 text-xs"
+                >
+                  <Clock className="h-3 w-3 mr-1" />
+                  Tee Times
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSideGamesGame(game)}
+                  className="h-8 text-xs"
+                >
+                  <CircleDollarSign className="h-3 w-3 mr-1" />
+                  Side Games
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleGameStatusUpdate(
+                    game.id, 
+                    game.status === 'active' ? 'completed' : 'active'
+                  )}
+                  className="h-8 text-xs"
+                >
+                  <RefreshCw className="h-3 w-3 mr-1" />
+                  {game.status === 'active' ? 'Complete' : 'Reactivate'}
+                </Button>
+              </div>
             )}
           </div>
         </CardContent>
@@ -183,7 +223,7 @@ export default function ManageGamesView() {
             Manage Games & Codes
           </CardTitle>
           <CardDescription className="text-sm mt-1 hidden sm:block">
-            View and manage your golf rounds and access codes
+            View and manage your golf rounds, access codes, who&apos;s playing and tee times
           </CardDescription>
         </div>
         <Button 
@@ -245,7 +285,31 @@ export default function ManageGamesView() {
                           {renderStatusBadge(game.status)}
                         </TableCell>
                         {isAdmin && (
-                          <TableCell className="text-right">
+                          <TableCell className="text-right space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setRosterGame(game)}
+                            >
+                              <Users className="h-3.5 w-3.5 mr-1.5" />
+                              Roster
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTeeTimesGame(game)}
+                            >
+                              <Clock className="h-3.5 w-3.5 mr-1.5" />
+                              Tee Times
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setSideGamesGame(game)}
+                            >
+                              <CircleDollarSign className="h-3.5 w-3.5 mr-1.5" />
+                              Side Games
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -268,6 +332,21 @@ export default function ManageGamesView() {
           </>
         )}
       </CardContent>
+
+      <GameRosterDialog
+        game={rosterGame}
+        onOpenChange={(open) => !open && setRosterGame(null)}
+      />
+
+      <TeeGroupsDialog
+        game={teeTimesGame}
+        onOpenChange={(open) => !open && setTeeTimesGame(null)}
+      />
+
+      <SideGamesDialog
+        game={sideGamesGame}
+        onOpenChange={(open) => !open && setSideGamesGame(null)}
+      />
     </Card>
   );
 }
\ No newline at end of file
@@ -44,7 +44,7 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { ArrowLeft, Edit, Trash2, Save, AlertTriangle, AlertCircle, ChevronDown, Calendar, Flag, ClipboardCheck } from 'lucide-react';
+import { ArrowLeft, Edit, Trash2, Save, AlertTriangle, AlertCircle, ChevronDown, Calendar, Flag, ClipboardCheck, History } from 'lucide-react';
 import {
   getGameScores,
   updateScore,
@@ -53,7 +53,8 @@ import {
 } from '@/lib/supabase/client';
 import { formatDate } from '@/lib/utils';
 import { useNavigation } from '@/hooks/useNavigation';
-import { calculatePoints, updateBonusPoints } from '@/lib/utils/scoring';
+import ScoreTimeline from './ScoreTimeline';
+import DisputeQueue from './DisputeQueue';
 
 // Form validation schema
 const editScoreFormSchema = z.object({
@@ -85,6 +86,7 @@ interface GameWithCourse {
   id: string;
   name: string;
   game_date: string;
+  season_id: string;
   courses: {
     id: string;
     name: string;
@@ -105,6 +107,7 @@ export default function ManageScoresView() {
   const [codeError, setCodeError] = useState<string | null>(null);
   const [formattedDates, setFormattedDates] = useState<Record<string, string>>({});
   const [expandedNotes, setExpandedNotes] = useState<string | null>(null);
+  const [timelineScore, setTimelineScore] = useState<{ id: string; username: string } | null>(null);
 
   // Use mobile detection hook (replaces duplicate logic)
   const isMobile = useIsMobile();
@@ -223,62 +226,12 @@ export default function ManageScoresView() {
     
     setIsLoading(true);
     try {
-      // Recalculate points based on new raw score
-      const points = calculatePoints(values.rawScore, selectedGame.courses.par);
-      
-      // Update the score
+      // Points and the round's low-round bonus are recalculated on the server
       await updateScore(editingScoreId, {
         raw_score: values.rawScore,
-        points,
-        edited_by: user.id,
-        edited_at: new Date().toISOString(),
         notes: values.notes,
       });
       
-      // Refresh all scores for this game
-      const updatedScores = await getGameScores(selectedGame.id);
-      
-      // Transform the updated scores
-      const validUpdatedScores = updatedScores
-        .filter(score => score.id && score.player_id)
-        .map(score => ({
-          id: score.id,
-          player_id: score.player_id,
-          raw_score: score.raw_score,
-          points: score.points,
-          bonus_points: score.bonus_points,
-          notes: score.notes,
-          submitted_at: score.submitted_at,
-          profiles: {
-            username: score.profiles?.username || 'Unknown Player',
-            profile_image_url: score.profiles?.profile_image_url
-          }
-        }));
-      
-      // Recalculate bonus points for all players in this round
-      const playerBonusUpdates = updateBonusPoints(
-        validUpdatedScores.map(score => ({
-          playerId: score.player_id,
-          rawScore: score.raw_score,
-          bonusPoints: score.bonus_points,
-        }))
-      );
-      
-      // Apply bonus point updates if needed
-      for (const update of playerBonusUpdates) {
-        const scoreToUpdate = validUpdatedScores.find(
-          score => score.player_id === update.playerId
-        );
-        
-        if (scoreToUpdate && scoreToUpdate.bonus_points !== (update.shouldHaveBonus ? 1 : 0)) {
-          await updateScore(scoreToUpdate.id, {
-            bonus_points: update.shouldHaveBonus ? 1 : 0,
-            edited_by: user.id,
-            edited_at: new Date().toISOString(),
-          });
-        }
-      }
-      
       // Refresh scores again after all updates
       const finalScores = await getGameScores(selectedGame.id);
       
@@ -369,6 +322,32 @@ export default function ManageScoresView() {
     }
   };
 
+  // An approved change request edited a score; reload the round if it's the one on screen
+  const handleDisputeApproved = async (gameId: string) => {
+    if (selectedGame?.id !== gameId) return;
+
+    try {
+      const scores = await getGameScores(gameId);
+      setGameScores(scores
+        .filter(score => score.id && score.player_id)
+        .map(score => ({
+          id: score.id,
+          player_id: score.player_id,
+          raw_score: score.raw_score,
+          points: score.points,
+          bonus_points: score.bonus_points,
+          notes: score.notes,
+          submitted_at: score.submitted_at,
+          profiles: {
+            username: score.profiles?.username || 'Unknown Player',
+            profile_image_url: score.profiles?.profile_image_url
+          }
+        })));
+    } catch (error) {
+      logger.error(error);
+    }
+  };
+
   // Toggle expanded notes
   const toggleNotes = (scoreId: string) => {
     if (expandedNotes === scoreId) {
@@ -410,6 +389,14 @@ export default function ManageScoresView() {
           </div>
           {editingScoreId !== score.id && (
             <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setTimelineScore({ id: score.id, username: score.profiles.username })}
+                aria-label="Score history"
+              >
+                <History className="h-3.5 w-3.5" />
+              </Button>
               <Button 
                 size="sm" 
                 variant="outline"
@@ -528,21 +515,33 @@ export default function ManageScoresView() {
               Manage Scores
             </CardTitle>
             <CardDescription className="text-sm mt-1">
-              Edit or delete player scores as needed.
+              Review change requests, and edit or delete player scores as needed.
             </CardDescription>
           </div>
-          <Button 
-            variant="outline" 
-            size="sm" 
-            onClick={nav.goToDashboard}
-            className="self-start sm:self-center"
-          >
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            Back
-          </Button>
+          <div className="flex gap-2 self-start sm:self-center">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={nav.goToAuditLog}
+            >
+              <History className="mr-2 h-4 w-4" />
+              Audit Log
+            </Button>
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={nav.goToDashboard}
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="px-3 sm:px-6">
           <div className="space-y-6">
+            {/* Players' correction requests and disputes */}
+            <DisputeQueue onScoreChanged={handleDisputeApproved} />
+
             {/* Round code input */}
             <div className="space-y-2 max-w-md mx-auto sm:mx-0">
               <Label htmlFor="roundCode">Enter Round Code</Label>
@@ -693,6 +692,14 @@ export default function ManageScoresView() {
                                     </>
                                   ) : (
                                     <>
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => setTimelineScore({ id: score.id, username: score.profiles.username })}
+                                        aria-label="Score history"
+                                      >
+                                        <History className="h-4 w-4" />
+                                      </Button>
                                       <Button 
                                         size="sm" 
                                         variant="outline"
@@ -761,6 +768,11 @@ export default function ManageScoresView() {
         </CardContent>
       </Card>
 
+      <ScoreTimeline
+        score={timelineScore}
+        onOpenChange={(open) => { if (!open) setTimelineScore(null); }}
+      />
+
       {/* Delete confirmation dialog */}
       <AlertDialog open={!!showDeleteConfirm} onOpenChange={(open) => !open && setShowDeleteConfirm(null)}>
         <AlertDialogContent>
@@ -18,7 +18,10 @@ import {
   XCircle,
   Loader2,
   Users,
-  Trophy
+  Trophy,
+  Swords,
+  ListOrdered,
+  Layers
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -30,11 +33,32 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { supabase } from '@/lib/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { supabase, refreshSeasonBonusPoints } from '@/lib/supabase/client';
 import { useNavigation } from '@/hooks/useNavigation';
+import { useLeague } from '@/context/LeagueContext';
 import { formatDate } from '@/lib/utils';
 import { Skeleton } from '@/components/ui/skeleton';
 import SeasonSummary from '@/components/season/SeasonSummary';
+import PlayoffSetup from '@/components/admin/PlayoffSetup';
+import FlightManager from '@/components/admin/FlightManager';
+import CountingRuleFields from '@/components/admin/CountingRuleFields';
+import TieBreakerFields from '@/components/admin/TieBreakerFields';
+import {
+  describeCountingRule,
+  parseCountingRule,
+  SeasonCountingRule,
+  validateCountingRule,
+} from '@/lib/utils/countingRules';
+import { parseTieBreakers, SeasonTieBreakers } from '@/lib/utils/standings';
 
 interface Season {
   id: string;
@@ -43,31 +67,55 @@ interface Season {
   start_date: string;
   end_date: string | null;
   is_active: boolean;
+  net_scoring: boolean;
+  require_attestation: boolean;
+  playoff_format: string;
+  playoff_status: string;
+  counting_rule: string;
+  counting_rounds: number | null;
+  min_rounds: number;
+  tie_breakers: string[];
+  countback_rounds: number;
   created_at: string;
   participant_count?: number;
 }
 
 export default function ManageSeasonsView() {
   const nav = useNavigation();
+  const { currentLeague } = useLeague();
   const [seasons, setSeasons] = useState<Season[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [updatingSeasonId, setUpdatingSeasonId] = useState<string | null>(null);
   const [summarySeasonId, setSummarySeasonId] = useState<string | null>(null);
   const [summarySeasonName, setSummarySeasonName] = useState('');
   const [deactivateTarget, setDeactivateTarget] = useState<{ id: string; name: string } | null>(null);
+  const [playoffSeasonId, setPlayoffSeasonId] = useState<string | null>(null);
+  const playoffSeason = seasons.find(season => season.id === playoffSeasonId);
+  const [flightSeason, setFlightSeason] = useState<{ id: string; name: string } | null>(null);
+  const [countingTarget, setCountingTarget] = useState<{ id: string; name: string } | null>(null);
+  const [countingRule, setCountingRule] = useState<SeasonCountingRule | null>(null);
+  const [tieBreakers, setTieBreakers] = useState<SeasonTieBreakers | null>(null);
 
-  // Fetch all seasons
+  // Fetch the current league's seasons
   useEffect(() => {
     fetchSeasons();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentLeague?.id]);
 
   const fetchSeasons = async () => {
+    if (!currentLeague) {
+      setSeasons([]);
+      setIsLoading(false);
+      return;
+    }
+
     setIsLoading(true);
     try {
-      // Get all seasons
+      // Get the league's seasons
       const { data: seasonsData, error: seasonsError } = await supabase
         .from('seasons')
         .select('*')
+        .eq('league_id', currentLeague.id)
         .order('start_date', { ascending: false });
 
       if (seasonsError) throw seasonsError;
@@ -100,6 +148,122 @@ export default function ManageSeasonsView() {
     }
   };
 
+  // Require (or stop requiring) a playing partner to attest each score before it counts
+  const toggleAttestation = async (seasonId: string, enabled: boolean) => {
+    setUpdatingSeasonId(seasonId);
+    try {
+      const { error } = await supabase
+        .from('seasons')
+        .update({ require_attestation: enabled })
+        .eq('id', seasonId);
+
+      if (error) throw error;
+
+      setSeasons(seasons.map(season =>
+        season.id === seasonId
+          ? { ...season, require_attestation: enabled }
+          : season
+      ));
+
+      toast.success(enabled ? 'Attestation required' : 'Attestation no longer required', {
+        description: enabled
+          ? 'Unattested scores are provisional and left out of the standings.'
+          : 'Every submitted score counts toward the standings.',
+      });
+    } catch (error) {
+      console.error('Error updating attestation rule:', error);
+      toast.error('Failed to update the attestation rule', {
+        description: 'Please try again.',
+      });
+    } finally {
+      setUpdatingSeasonId(null);
+    }
+  };
+
+  // Turn net scoring on or off; turning it on backfills net results for the season
+  const toggleNetScoring = async (seasonId: string, enabled: boolean) => {
+    setUpdatingSeasonId(seasonId);
+    try {
+      const { error } = await supabase
+        .from('seasons')
+        .update({ net_scoring: enabled })
+        .eq('id', seasonId);
+
+      if (error) throw error;
+
+      setSeasons(seasons.map(season =>
+        season.id === seasonId
+          ? { ...season, net_scoring: enabled }
+          : season
+      ));
+
+      if (enabled) {
+        const games = await refreshSeasonBonusPoints(seasonId);
+        toast.success('Net scoring enabled', {
+          description: `Calculated net results for ${games} ${games === 1 ? 'round' : 'rounds'}.`,
+        });
+      } else {
+        toast.success('Net scoring disabled', {
+          description: 'The leaderboard will only show gross standings.',
+        });
+      }
+    } catch (error) {
+      console.error('Error updating net scoring:', error);
+      toast.error('Failed to update net scoring', {
+        description: 'Please try again.',
+      });
+    } finally {
+      setUpdatingSeasonId(null);
+    }
+  };
+
+  // Save which rounds count toward the standings; the leaderboard view applies it immediately
+  const saveCountingRule = async () => {
+    if (!countingTarget || !countingRule || !tieBreakers) return;
+
+    const validationError = validateCountingRule(countingRule);
+    if (validationError) {
+      toast.error('Invalid counting rounds', { description: validationError });
+      return;
+    }
+
+    const seasonId = countingTarget.id;
+    setUpdatingSeasonId(seasonId);
+    try {
+      const update = {
+        counting_rule: countingRule.rule,
+        counting_rounds: countingRule.rounds,
+        min_rounds: countingRule.minRounds,
+        tie_breakers: tieBreakers.order,
+        countback_rounds: tieBreakers.countbackRounds,
+      };
+      const { error } = await supabase
+        .from('seasons')
+        .update(update)
+        .eq('id', seasonId);
+
+      if (error) throw error;
+
+      setSeasons(seasons.map(season =>
+        season.id === seasonId
+          ? { ...season, ...update }
+          : season
+      ));
+      setCountingTarget(null);
+
+      toast.success('Standings updated', {
+        description: describeCountingRule(countingRule),
+      });
+    } catch (error) {
+      console.error('Error updating counting rounds:', error);
+      toast.error('Failed to update standings', {
+        description: 'Please try again.',
+      });
+    } finally {
+      setUpdatingSeasonId(null);
+    }
+  };
+
   // Toggle season active status
   const toggleSeasonStatus = async (seasonId: string, currentStatus: boolean) => {
     setUpdatingSeasonId(seasonId);
@@ -224,6 +388,12 @@ export default function ManageSeasonsView() {
                             Inactive
                           </Badge>
                         )}
+                        {season.playoff_status !== 'not_started' && (
+                          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
+                            <Swords className="h-3 w-3 mr-1" />
+                            {season.playoff_status === 'completed' ? 'Playoffs complete' : 'Playoffs'}
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-600">
@@ -247,10 +417,67 @@ export default function ManageSeasonsView() {
                             <span>End: {formatDate(season.end_date)}</span>
                           </div>
                         )}
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            id={`net-scoring-${season.id}`}
+                            checked={season.net_scoring}
+                            onCheckedChange={(checked) => toggleNetScoring(season.id, checked)}
+                            disabled={updatingSeasonId === season.id}
+                          />
+                          <label htmlFor={`net-scoring-${season.id}`} className="font-medium">
+                            Net scoring
+                          </label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            id={`attestation-${season.id}`}
+                            checked={season.require_attestation}
+                            onCheckedChange={(checked) => toggleAttestation(season.id, checked)}
+                            disabled={updatingSeasonId === season.id}
+                          />
+                          <label htmlFor={`attestation-${season.id}`} className="font-medium">
+                            Partner attestation
+                          </label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <ListOrdered className="h-4 w-4" />
+                          <span>{describeCountingRule(parseCountingRule(season))}</span>
+                        </div>
                       </div>
                     </div>
 
-                    <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setCountingTarget({ id: season.id, name: season.name });
+                          setCountingRule(parseCountingRule(season));
+                          setTieBreakers(parseTieBreakers(season));
+                        }}
+                        className="border-gray-300 text-gray-700 hover:bg-gray-100"
+                      >
+                        <ListOrdered className="h-4 w-4 mr-1" />
+                        Standings
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setFlightSeason({ id: season.id, name: season.name })}
+                        className="border-gray-300 text-gray-700 hover:bg-gray-100"
+                      >
+                        <Layers className="h-4 w-4 mr-1" />
+                        Flights
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPlayoffSeasonId(season.id)}
+                        className="border-gray-300 text-gray-700 hover:bg-gray-100"
+                      >
+                        <Swords className="h-4 w-4 mr-1" />
+                        Playoffs
+                      </Button>
                       {!season.is_active && (
                         <Button
                           variant="outline"
@@ -333,6 +560,65 @@ export default function ManageSeasonsView() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <Dialog open={!!countingTarget} onOpenChange={(open) => { if (!open) setCountingTarget(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Standings — {countingTarget?.name}</DialogTitle>
+            <DialogDescription>
+              Choose which regular-season rounds count toward each player&apos;s points, and how ties are broken.
+            </DialogDescription>
+          </DialogHeader>
+          {countingRule && (
+            <CountingRuleFields
+              value={countingRule}
+              onChange={setCountingRule}
+              disabled={updatingSeasonId === countingTarget?.id}
+            />
+          )}
+          {tieBreakers && (
+            <TieBreakerFields
+              value={tieBreakers}
+              onChange={setTieBreakers}
+              disabled={updatingSeasonId === countingTarget?.id}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCountingTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={saveCountingRule}
+              disabled={updatingSeasonId === countingTarget?.id}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {updatingSeasonId === countingTarget?.id && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {playoffSeason && (
+        <PlayoffSetup
+          season={playoffSeason}
+          open={!!playoffSeason}
+          onOpenChange={(open) => {
+            if (!open) setPlayoffSeasonId(null);
+          }}
+          onChanged={fetchSeasons}
+        />
+      )}
+
+      {flightSeason && (
+        <FlightManager
+          season={flightSeason}
+          open={!!flightSeason}
+          onOpenChange={(open) => {
+            if (!open) setFlightSeason(null);
+          }}
+        />
+      )}
+
       {summarySeasonId && (
         <SeasonSummary
           seasonId={summarySeasonId}
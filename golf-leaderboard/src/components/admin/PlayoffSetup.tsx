@@ -0,0 +1,329 @@
+'use client'
+// src/components/admin/PlayoffSetup.tsx
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Crown, Loader2, RotateCcw, Swords } from 'lucide-react';
+import {
+  crownPlayoffChampion,
+  getSeasonPlayoffs,
+  resetSeasonPlayoffs,
+  startSeasonPlayoffs,
+} from '@/lib/supabase/client';
+import {
+  determinePlayoffChampion,
+  MAX_PLAYOFF_SIZE,
+  MIN_PLAYOFF_SIZE,
+  PLAYOFF_FORMATS,
+  PlayoffFormat,
+  playoffRoundCount,
+  PlayoffSeed,
+} from '@/lib/utils/playoffs';
+import PlayoffBracket from '@/components/season/PlayoffBracket';
+
+type SetupFormat = Exclude<PlayoffFormat, 'none'>;
+
+interface PlayoffSetupProps {
+  season: {
+    id: string;
+    name: string;
+    participant_count?: number;
+    playoff_status: string;
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+/**
+ * Seed a season's playoffs from the regular-season leaderboard, then crown
+ * the champion once the bracket or final series is decided
+ */
+export default function PlayoffSetup({ season, open, onOpenChange, onChanged }: PlayoffSetupProps) {
+  const [format, setFormat] = useState<SetupFormat>('bracket');
+  const [size, setSize] = useState(Math.min(8, Math.max(MIN_PLAYOFF_SIZE, season.participant_count || 0)));
+  const [rounds, setRounds] = useState(2);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [seeds, setSeeds] = useState<PlayoffSeed[]>([]);
+  const [decidedChampion, setDecidedChampion] = useState<PlayoffSeed | null>(null);
+  const [summary, setSummary] = useState('');
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [showBracket, setShowBracket] = useState(false);
+
+  const hasStarted = season.playoff_status !== 'not_started';
+
+  // Load the seeds and whether a champion has been decided yet
+  useEffect(() => {
+    if (!open || !hasStarted) return;
+
+    setIsLoading(true);
+    getSeasonPlayoffs(season.id)
+      .then(({ season: playoffSeason, seeds: seeded, scores, completedRounds, games }) => {
+        const totalRounds = playoffRoundCount(playoffSeason.playoff_format, playoffSeason.playoff_size, playoffSeason.playoff_rounds);
+        setSeeds(seeded);
+        setDecidedChampion(determinePlayoffChampion(
+          playoffSeason.playoff_format,
+          seeded,
+          scores,
+          completedRounds,
+          playoffSeason.playoff_rounds
+        ));
+        setSummary(
+          `${playoffSeason.playoff_format === 'bracket' ? 'Bracket' : 'Points reset'} • ${seeded.length} seeds • ` +
+          `${totalRounds} ${totalRounds === 1 ? 'round' : 'rounds'} • ${games.length} playoff ${games.length === 1 ? 'game' : 'games'}`
+        );
+      })
+      .catch((error) => {
+        console.error('Error loading playoffs:', error);
+        toast.error('Failed to load playoffs', {
+          description: 'Please try again.',
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [open, hasStarted, season.id]);
+
+  const handleStart = async () => {
+    setIsSaving(true);
+    try {
+      const seeded = await startSeasonPlayoffs(season.id, {
+        format,
+        size,
+        rounds: format === 'points_reset' ? rounds : null,
+      });
+      toast.success('Playoffs seeded', {
+        description: `${seeded.length} players qualified. Tag playoff rounds when creating games.`,
+      });
+      onChanged();
+    } catch (error) {
+      console.error('Error starting playoffs:', error);
+      toast.error('Failed to start playoffs', {
+        description: (error as Error).message || 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCrown = async () => {
+    if (!decidedChampion) return;
+
+    setIsSaving(true);
+    try {
+      await crownPlayoffChampion(season.id, decidedChampion.playerId);
+      toast.success(`${decidedChampion.username} is the playoff champion`, {
+        description: 'The champion now appears in the season summary.',
+      });
+      onChanged();
+    } catch (error) {
+      console.error('Error crowning champion:', error);
+      toast.error('Failed to crown champion', {
+        description: 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    try {
+      await resetSeasonPlayoffs(season.id);
+      toast.success('Playoffs reset', {
+        description: 'The seeds were cleared. Playoff games keep their round tags.',
+      });
+      onChanged();
+    } catch (error) {
+      console.error('Error resetting playoffs:', error);
+      toast.error('Failed to reset playoffs', {
+        description: 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Swords className="h-5 w-5 text-green-600" />
+              Playoffs — {season.name}
+            </DialogTitle>
+            <DialogDescription>
+              {hasStarted
+                ? 'Playoff games are tagged with their round when they are created.'
+                : 'Seed the top players of the regular-season leaderboard into a playoff phase.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!hasStarted ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="playoff-format">Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as SetupFormat)}>
+                  <SelectTrigger id="playoff-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PLAYOFF_FORMATS) as SetupFormat[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {PLAYOFF_FORMATS[key].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">{PLAYOFF_FORMATS[format].description}</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="playoff-size">Qualifiers</Label>
+                  <Input
+                    id="playoff-size"
+                    type="number"
+                    min={MIN_PLAYOFF_SIZE}
+                    max={MAX_PLAYOFF_SIZE}
+                    value={size}
+                    onChange={(e) => setSize(Math.min(MAX_PLAYOFF_SIZE, Math.max(MIN_PLAYOFF_SIZE, Number(e.target.value) || MIN_PLAYOFF_SIZE)))}
+                  />
+                </div>
+                {format === 'points_reset' ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="playoff-rounds">Playoff rounds</Label>
+                    <Input
+                      id="playoff-rounds"
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={rounds}
+                      onChange={(e) => setRounds(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>Bracket rounds</Label>
+                    <p className="h-10 flex items-center text-sm text-gray-700">
+                      {playoffRoundCount('bracket', size, null)}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <Button
+                onClick={handleStart}
+                disabled={isSaving}
+                className="w-full bg-green-600 hover:bg-green-700"
+              >
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Swords className="h-4 w-4 mr-2" />}
+                Seed Playoffs
+              </Button>
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">{summary}</p>
+              <ol className="text-sm space-y-1">
+                {seeds.map((seed) => (
+                  <li key={seed.playerId} className="flex justify-between">
+                    <span><span className="text-gray-400 mr-2">{seed.seed}.</span>{seed.username}</span>
+                    <span className="text-gray-500">{seed.regularSeasonPoints} pts</span>
+                  </li>
+                ))}
+              </ol>
+
+              {season.playoff_status === 'in_progress' && (
+                <p className="text-sm text-gray-600">
+                  {decidedChampion
+                    ? <>Decided: <strong>{decidedChampion.username}</strong> wins the playoffs.</>
+                    : 'No champion yet. The final round has to be played first.'}
+                </p>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => setShowBracket(true)}>
+                  View Bracket
+                </Button>
+                {season.playoff_status === 'in_progress' && (
+                  <Button
+                    onClick={handleCrown}
+                    disabled={isSaving || !decidedChampion}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    <Crown className="h-4 w-4 mr-2" />
+                    Crown Champion
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => setConfirmReset(true)}
+                  disabled={isSaving}
+                  className="text-red-600 hover:bg-red-50"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reset
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset the playoffs for &quot;{season.name}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This clears the seeds and any crowned champion. Scores in playoff games are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => {
+              setConfirmReset(false);
+              handleReset();
+            }}>Reset</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <PlayoffBracket
+        seasonId={season.id}
+        seasonName={season.name}
+        open={showBracket}
+        onOpenChange={setShowBracket}
+      />
+    </>
+  );
+}
@@ -91,7 +91,7 @@ export default function RecalculateHandicaps() {
         <CardHeader className="bg-gradient-to-r from-green-600 to-emerald-600 text-white">
           <CardTitle>Recalculate All Player Handicaps</CardTitle>
           <CardDescription className="text-green-100">
-            This will recalculate handicaps for all players using the current USGA formula
+            This will recalculate handicaps for all players using the World Handicap System
           </CardDescription>
         </CardHeader>
 
@@ -99,9 +99,11 @@ export default function RecalculateHandicaps() {
           <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
             <h3 className="font-semibold text-blue-900 mb-2">What this does:</h3>
             <ul className="text-sm text-blue-800 space-y-1 list-disc list-inside">
-              <li>Fetches all player scores from database</li>
-              <li>Calculates handicap using USGA system (best 8 of all rounds)</li>
+              <li>Fetches all player scores with course rating, slope and playing conditions</li>
+              <li>Calculates handicap index using WHS (best 8 of the most recent 20 rounds)</li>
+              <li>Applies soft/hard caps and exceptional score reductions</li>
               <li>Updates each player&apos;s profile with new handicap</li>
+              <li>Records the result in each player&apos;s handicap history (backfilled from past rounds the first time)</li>
               <li>Shows progress and results</li>
             </ul>
           </div>
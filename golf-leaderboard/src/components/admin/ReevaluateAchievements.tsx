@@ -0,0 +1,244 @@
+'use client'
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Award, CheckCircle2, Loader2, Search } from 'lucide-react';
+import { supabase, reevaluateAchievements } from '@/lib/supabase/client';
+import { AchievementChange, summarizeAchievementChanges } from '@/lib/utils/achievements';
+import { useNavigation } from '@/hooks/useNavigation';
+import { useLeague } from '@/context/LeagueContext';
+import { toast } from 'sonner';
+
+const ALL = 'all';
+
+export default function ReevaluateAchievements() {
+  const nav = useNavigation();
+  const { currentLeague } = useLeague();
+  const [seasons, setSeasons] = useState<Array<{ id: string; name: string }>>([]);
+  const [players, setPlayers] = useState<Array<{ id: string; username: string }>>([]);
+  const [seasonId, setSeasonId] = useState<string>(ALL);
+  const [playerId, setPlayerId] = useState<string>(ALL);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [preview, setPreview] = useState<AchievementChange[] | null>(null);
+  const [applied, setApplied] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!currentLeague) return;
+
+    const loadOptions = async () => {
+      try {
+        const [{ data: seasonRows, error: seasonError }, { data: profileRows, error: profileError }] = await Promise.all([
+          supabase.from('seasons').select('id, name').eq('league_id', currentLeague.id).order('start_date', { ascending: false }),
+          supabase.from('profiles').select('id, username').order('username', { ascending: true }),
+        ]);
+
+        if (seasonError) throw seasonError;
+        if (profileError) throw profileError;
+
+        setSeasons(seasonRows);
+        setPlayers(profileRows);
+      } catch (error) {
+        console.error('Error loading seasons and players:', error);
+        toast.error('Failed to load seasons and players');
+      }
+    };
+
+    loadOptions();
+  }, [currentLeague]);
+
+  // A new selection needs a new preview
+  useEffect(() => {
+    setPreview(null);
+    setApplied(null);
+  }, [seasonId, playerId]);
+
+  const run = async (dryRun: boolean) => {
+    setIsProcessing(true);
+    try {
+      const changes = await reevaluateAchievements({
+        seasonId: seasonId === ALL ? undefined : seasonId,
+        playerId: playerId === ALL ? undefined : playerId,
+        dryRun,
+      });
+
+      if (dryRun) {
+        setPreview(changes);
+        setApplied(null);
+      } else {
+        setPreview(null);
+        setApplied(changes.length);
+        toast.success('Achievements re-evaluated', {
+          description: `${changes.length} badges granted or revoked`
+        });
+      }
+    } catch (error) {
+      console.error('Error re-evaluating achievements:', error);
+      toast.error('Failed to re-evaluate achievements', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const summary = preview ? summarizeAchievementChanges(preview) : null;
+
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-green-700 flex items-center gap-2">
+          <Award className="h-8 w-8" />
+          Re-evaluate Achievements
+        </h1>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={nav.goToDashboard}
+          disabled={isProcessing}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+      </div>
+
+      <Card className="shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-green-600 to-emerald-600 text-white">
+          <CardTitle>Re-check Badges Against Current Scores</CardTitle>
+          <CardDescription className="text-green-100">
+            Grants badges players have earned and revokes ones they no longer qualify for
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-6">
+          <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
+            <h3 className="font-semibold text-blue-900 mb-2">What this does:</h3>
+            <ul className="text-sm text-blue-800 space-y-1 list-disc list-inside">
+              <li>Runs every achievement rule against the scores as they stand now</li>
+              <li>Season badges are checked for each season the player has joined</li>
+              <li>Badges for a run of recent rounds (e.g. Mr. Reliable) are granted but never revoked</li>
+              <li>Score edits, deletions and bonus recalculations already do this for their season</li>
+              <li>Preview first: nothing changes until you apply</li>
+            </ul>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reevaluate-season" className="text-gray-700 font-medium">Season</Label>
+              <Select value={seasonId} onValueChange={setSeasonId} disabled={isProcessing}>
+                <SelectTrigger id="reevaluate-season" className="w-full border-gray-300 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All seasons</SelectItem>
+                  {seasons.map((season) => (
+                    <SelectItem key={season.id} value={season.id}>{season.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reevaluate-player" className="text-gray-700 font-medium">Player</Label>
+              <Select value={playerId} onValueChange={setPlayerId} disabled={isProcessing}>
+                <SelectTrigger id="reevaluate-player" className="w-full border-gray-300 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All players</SelectItem>
+                  {players.map((player) => (
+                    <SelectItem key={player.id} value={player.id}>{player.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {preview && summary && (
+            preview.length === 0 ? (
+              <div className="bg-green-50 p-4 rounded-lg border border-green-200 text-center text-green-800">
+                Every badge already matches the scores. Nothing to change.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-700">
+                  {summary.grants} to grant and {summary.revokes} to revoke across {summary.players} {summary.players === 1 ? 'player' : 'players'}
+                </p>
+                <div className="border rounded-lg overflow-hidden max-h-96 overflow-y-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Player</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Achievement</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Season</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {preview.map((change) => (
+                        <tr key={`${change.player_id}-${change.achievement_key}-${change.season_id ?? 'all-time'}`}>
+                          <td className="px-4 py-2 text-gray-900">{change.username}</td>
+                          <td className="px-4 py-2 text-gray-900">{change.achievement_name}</td>
+                          <td className="px-4 py-2 text-gray-500">{change.season_name ?? 'All-time'}</td>
+                          <td className="px-4 py-2 text-right">
+                            <Badge
+                              variant="outline"
+                              className={change.action === 'grant'
+                                ? 'bg-green-50 text-green-700 border-green-200'
+                                : 'bg-red-50 text-red-700 border-red-200'}
+                            >
+                              {change.action === 'grant' ? 'Grant' : 'Revoke'}
+                            </Badge>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )
+          )}
+
+          {applied !== null && (
+            <div className="bg-green-50 p-6 rounded-lg border border-green-200 text-center">
+              <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto mb-3" />
+              <h3 className="text-xl font-bold text-green-900 mb-2">Complete!</h3>
+              <p className="text-green-800">
+                {applied} badges granted or revoked
+              </p>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button
+              variant="outline"
+              onClick={() => run(true)}
+              disabled={isProcessing}
+              className="flex-1"
+            >
+              {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+              Preview Changes
+            </Button>
+            <Button
+              onClick={() => run(false)}
+              disabled={isProcessing || !preview || preview.length === 0}
+              className="flex-1 bg-green-600 hover:bg-green-700"
+            >
+              {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Award className="h-4 w-4 mr-2" />}
+              Apply {preview && preview.length > 0 ? `${preview.length} Changes` : 'Changes'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
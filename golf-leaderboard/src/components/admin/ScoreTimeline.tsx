@@ -0,0 +1,115 @@
+'use client'
+// src/components/admin/ScoreTimeline.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { History, Loader2 } from 'lucide-react';
+import { getScoreAuditTrail } from '@/lib/supabase/client';
+import { formatDateTime } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import {
+  AUDIT_ACTIONS,
+  auditChanges,
+  AuditEntry,
+  formatAuditValue,
+} from '@/lib/utils/auditLog';
+
+interface ScoreTimelineProps {
+  score: {
+    id: string;
+    username: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Every change made to one score, oldest first, from the audit log
+ * Opened from Manage Scores to settle questions about a changed score
+ */
+export default function ScoreTimeline({ score, onOpenChange }: ScoreTimelineProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!score) return;
+
+    const loadTimeline = async () => {
+      setIsLoading(true);
+      try {
+        setEntries(await getScoreAuditTrail(score.id));
+      } catch (error) {
+        logger.error('Error loading score history:', error);
+        setEntries([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTimeline();
+  }, [score]);
+
+  return (
+    <Dialog open={!!score} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-green-600" />
+            Score History — {score?.username}
+          </DialogTitle>
+          <DialogDescription>
+            Every submission, edit and bonus change for this score, with who made it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No history has been recorded for this score.
+          </p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+            {entries.map((entry) => {
+              const changes = auditChanges(entry);
+              return (
+                <li key={entry.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-green-500" />
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-medium text-sm text-gray-900">{AUDIT_ACTIONS[entry.action]}</span>
+                    <time className="text-xs text-gray-500">{formatDateTime(entry.occurredAt)}</time>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-1">
+                    by {entry.actorName ?? (entry.actorId ? 'Unknown user' : 'System')}
+                  </p>
+                  {changes.length > 0 && (
+                    <ul className="text-sm text-gray-700 space-y-0.5">
+                      {changes.map((change) => (
+                        <li key={change.field}>
+                          <span className="text-gray-500">{change.label}:</span>{' '}
+                          {entry.action !== 'score_submitted' && (
+                            <>
+                              <span className="line-through text-gray-400">{formatAuditValue(change.from)}</span>
+                              {' → '}
+                            </>
+                          )}
+                          {formatAuditValue(change.to)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
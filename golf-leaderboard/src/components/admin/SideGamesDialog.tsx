@@ -0,0 +1,400 @@
+'use client'
+// src/components/admin/SideGamesDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CircleDollarSign, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  createSideGame,
+  deleteSideGame,
+  getGameRoster,
+  getGameSideGames,
+  setSideGameWinners,
+} from '@/lib/supabase/client';
+import { useUser } from '@/hooks/useUser';
+import { formatDate } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { RosterEntry } from '@/lib/utils/rsvps';
+import {
+  formatMoney,
+  SIDE_GAME_KINDS,
+  SideGame,
+  SideGameKind,
+  toCents,
+  validateSideGame,
+} from '@/lib/utils/sideGames';
+
+interface SideGamesDialogProps {
+  game: { id: string; name: string; game_date: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Side games for a round: add skins, closest-to-pin and long drive contests
+ * with an entry fee and their entrants, then enter the winners
+ */
+export default function SideGamesDialog({ game, onOpenChange }: SideGamesDialogProps) {
+  const { user } = useUser();
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [sideGames, setSideGames] = useState<SideGame[]>([]);
+  const [kind, setKind] = useState<SideGameKind>('skins');
+  const [entryFee, setEntryFee] = useState('5');
+  const [holeNumber, setHoleNumber] = useState('');
+  const [entrants, setEntrants] = useState<Set<string>>(new Set());
+  // Winners being entered, by side game: shares per player
+  const [editing, setEditing] = useState<{ sideGameId: string; shares: Record<string, number> } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const gameId = game?.id;
+
+  const loadSideGames = async (id: string) => {
+    setSideGames(await getGameSideGames(id));
+  };
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    setLoading(true);
+    setEditing(null);
+    Promise.all([getGameRoster(gameId), getGameSideGames(gameId)])
+      .then(([players, existing]) => {
+        setRoster(players);
+        setSideGames(existing);
+        // Start with the players who are playing: submitted a score or said they're in
+        const playing = players.filter(player => player.submitted || player.status === 'in');
+        setEntrants(new Set((playing.length > 0 ? playing : players).map(player => player.playerId)));
+      })
+      .catch(error => {
+        logger.error('Error loading side games:', error);
+        toast.error('Failed to load side games');
+        setRoster([]);
+        setSideGames([]);
+      })
+      .finally(() => setLoading(false));
+  }, [gameId]);
+
+  const usernames = new Map(roster.map(player => [player.playerId, player.username]));
+  const describeContest = (sideGame: Pick<SideGame, 'kind' | 'holeNumber'>) =>
+    SIDE_GAME_KINDS[sideGame.kind].needsHole
+      ? `${SIDE_GAME_KINDS[sideGame.kind].name} · Hole ${sideGame.holeNumber}`
+      : SIDE_GAME_KINDS[sideGame.kind].name;
+
+  const toggleEntrant = (playerId: string) => {
+    const next = new Set(entrants);
+    if (next.has(playerId)) {
+      next.delete(playerId);
+    } else {
+      next.add(playerId);
+    }
+    setEntrants(next);
+  };
+
+  const handleAdd = async () => {
+    if (!game || !user) return;
+
+    const sideGame = {
+      gameId: game.id,
+      kind,
+      entryFee: Number(entryFee),
+      holeNumber: holeNumber ? Number(holeNumber) : null,
+      entrants: Array.from(entrants),
+    };
+    const validationError = validateSideGame(sideGame, sideGames);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createSideGame(sideGame, user.id);
+      await loadSideGames(game.id);
+      setHoleNumber('');
+      toast.success(`${describeContest(sideGame)} added`);
+    } catch (error) {
+      logger.error('Error adding side game:', error);
+      toast.error('Failed to add side game', {
+        description: (error as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (sideGame: SideGame) => {
+    if (!game || !window.confirm(`Remove ${describeContest(sideGame)} from this round?`)) return;
+
+    setSaving(true);
+    try {
+      await deleteSideGame(sideGame.id);
+      await loadSideGames(game.id);
+    } catch (error) {
+      logger.error('Error removing side game:', error);
+      toast.error('Failed to remove side game', {
+        description: (error as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveWinners = async () => {
+    if (!game || !editing) return;
+
+    setSaving(true);
+    try {
+      await setSideGameWinners(
+        editing.sideGameId,
+        Object.entries(editing.shares)
+          .filter(([, shares]) => shares > 0)
+          .map(([playerId, shares]) => ({ playerId, shares }))
+      );
+      await loadSideGames(game.id);
+      setEditing(null);
+      toast.success('Winners saved');
+    } catch (error) {
+      logger.error('Error saving side game winners:', error);
+      toast.error('Failed to save winners', {
+        description: (error as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (sideGame: SideGame) => {
+    setEditing({
+      sideGameId: sideGame.id,
+      shares: Object.fromEntries(sideGame.winners.map(winner => [winner.playerId, winner.shares])),
+    });
+  };
+
+  const setShares = (playerId: string, shares: number) => {
+    if (!editing) return;
+    setEditing({ ...editing, shares: { ...editing.shares, [playerId]: Math.max(0, shares) } });
+  };
+
+  const renderWinnersEditor = (sideGame: SideGame) => (
+    <div className="space-y-2 rounded-md bg-gray-50 p-2">
+      <p className="text-xs text-gray-500">
+        {sideGame.kind === 'skins'
+          ? 'Skins won by each player. Leave them all at 0 to work skins out from the scorecards.'
+          : 'Tick the winner, or more than one to split the pot on a tie.'}
+      </p>
+      <ul className="grid gap-1 sm:grid-cols-2">
+        {sideGame.entrants.map(playerId => (
+          <li key={playerId} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">{usernames.get(playerId) ?? 'Unknown player'}</span>
+            {sideGame.kind === 'skins' ? (
+              <Input
+                type="number"
+                min={0}
+                value={editing?.shares[playerId] ?? 0}
+                onChange={(e) => setShares(playerId, Math.floor(Number(e.target.value) || 0))}
+                className="h-8 w-16"
+                aria-label={`Skins won by ${usernames.get(playerId) ?? 'player'}`}
+              />
+            ) : (
+              <input
+                type="checkbox"
+                checked={(editing?.shares[playerId] ?? 0) > 0}
+                onChange={(e) => setShares(playerId, e.target.checked ? 1 : 0)}
+                className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                aria-label={`${usernames.get(playerId) ?? 'Player'} won`}
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setEditing(null)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSaveWinners} disabled={saving} className="bg-green-600 hover:bg-green-700">
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Winners
+        </Button>
+      </div>
+    </div>
+  );
+
+  const describeWinners = (sideGame: SideGame) => {
+    if (sideGame.winners.length === 0) {
+      return sideGame.kind === 'skins' ? 'From the scorecards' : 'No winner yet';
+    }
+    return sideGame.winners
+      .map(winner => {
+        const username = usernames.get(winner.playerId) ?? 'Unknown player';
+        return sideGame.kind === 'skins' ? `${username} (${winner.shares})` : username;
+      })
+      .join(', ');
+  };
+
+  return (
+    <Dialog open={!!game} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CircleDollarSign className="h-5 w-5 text-green-600" />
+            {game?.name} Side Games
+          </DialogTitle>
+          <DialogDescription>
+            {game && formatDate(game.game_date)} &middot; Each entrant pays the fee into the pot, and the
+            winners split it. Winnings go on the season&apos;s side games ledger.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sideGames.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-2">No side games in this round yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {sideGames.map(sideGame => (
+                  <li key={sideGame.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-gray-800">{describeContest(sideGame)}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatMoney(toCents(sideGame.entryFee))} &times; {sideGame.entrants.length} players
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                          {formatMoney(toCents(sideGame.entryFee) * sideGame.entrants.length)} pot
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(sideGame)}
+                          disabled={saving}
+                          aria-label={`Remove ${describeContest(sideGame)}`}
+                          className="h-8 w-8 text-gray-400 hover:text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {editing?.sideGameId === sideGame.id ? (
+                      renderWinnersEditor(sideGame)
+                    ) : (
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        <span className="text-gray-600 truncate">
+                          <span className="text-gray-400">Winner: </span>
+                          {describeWinners(sideGame)}
+                        </span>
+                        <Button variant="outline" size="sm" onClick={() => startEditing(sideGame)} disabled={saving}>
+                          Enter winners
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="space-y-3 rounded-lg bg-gray-50 p-3">
+              <h4 className="text-sm font-semibold text-gray-700">Add a side game</h4>
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Contest</Label>
+                  <Select value={kind} onValueChange={(value) => setKind(value as SideGameKind)}>
+                    <SelectTrigger className="h-9 w-44" aria-label="Contest">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SIDE_GAME_KINDS).map(([value, info]) => (
+                        <SelectItem key={value} value={value}>{info.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="side-game-fee" className="text-xs">Entry fee ($)</Label>
+                  <Input
+                    id="side-game-fee"
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={entryFee}
+                    onChange={(e) => setEntryFee(e.target.value)}
+                    className="h-9 w-24"
+                  />
+                </div>
+                {SIDE_GAME_KINDS[kind].needsHole && (
+                  <div className="space-y-1">
+                    <Label htmlFor="side-game-hole" className="text-xs">Hole</Label>
+                    <Input
+                      id="side-game-hole"
+                      type="number"
+                      min={1}
+                      max={18}
+                      value={holeNumber}
+                      onChange={(e) => setHoleNumber(e.target.value)}
+                      className="h-9 w-20"
+                    />
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">{SIDE_GAME_KINDS[kind].description}</p>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Players in ({entrants.size})</Label>
+                <ul className="grid gap-1 sm:grid-cols-2">
+                  {roster.map(player => (
+                    <li key={player.playerId}>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={entrants.has(player.playerId)}
+                          onChange={() => toggleEntrant(player.playerId)}
+                          className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                        />
+                        <span className="truncate">{player.username}</span>
+                        {player.status && <span className="text-xs text-gray-400">{player.status}</span>}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <Button onClick={handleAdd} disabled={saving || !user} className="bg-green-600 hover:bg-green-700">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Side Game
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,323 @@
+'use client'
+// src/components/admin/TeeGroupsDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Clock, Loader2, Plus, Shuffle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  getGameTeeGroups,
+  getTeeGroupField,
+  setGamePairings,
+  setGameTeeGroups,
+} from '@/lib/supabase/client';
+import { formatDate } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { GAME_FORMATS, GameFormat } from '@/lib/utils/gameFormats';
+import {
+  generateTeeGroups,
+  groupAverageHandicap,
+  groupRepeats,
+  PairingHistory,
+  pairingsFromGroups,
+  TeeGroup,
+  teeTimesFrom,
+  validateTeeGroups,
+} from '@/lib/utils/teeGroups';
+
+// Select value for a player left out of every group
+const NO_GROUP = 'none';
+
+type FieldPlayer = Awaited<ReturnType<typeof getTeeGroupField>>['players'][number];
+
+interface TeeGroupsDialogProps {
+  game: { id: string; name: string; game_date: string; format: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Tee-time groups for a round: draw them with the pairings generator, then
+ * move players and tee times around by hand before saving
+ */
+export default function TeeGroupsDialog({ game, onOpenChange }: TeeGroupsDialogProps) {
+  const [players, setPlayers] = useState<FieldPlayer[]>([]);
+  const [history, setHistory] = useState<PairingHistory>(new Map());
+  const [groups, setGroups] = useState<TeeGroup[]>([]);
+  const [firstTee, setFirstTee] = useState('08:00');
+  const [teeInterval, setTeeInterval] = useState(10);
+  const [usePairings, setUsePairings] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const gameId = game?.id;
+  const format = (game?.format ?? 'stroke') as GameFormat;
+  const needsPairings = GAME_FORMATS[format]?.needsPairings ?? false;
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    setLoading(true);
+    Promise.all([getTeeGroupField(gameId), getGameTeeGroups(gameId)])
+      .then(([field, existing]) => {
+        setPlayers(field.players);
+        setHistory(field.history);
+        setGroups(existing.map(group => ({ teeTime: group.teeTime, playerIds: group.playerIds })));
+      })
+      .catch(error => {
+        logger.error('Error loading tee groups:', error);
+        toast.error('Failed to load tee times');
+        setPlayers([]);
+        setGroups([]);
+      })
+      .finally(() => setLoading(false));
+  }, [gameId]);
+
+  const playerById = new Map(players.map(player => [player.playerId, player]));
+  const handicaps = new Map(players.map(player => [player.playerId, player.handicap]));
+  const grouped = new Set(groups.flatMap(group => group.playerIds));
+  const ungrouped = players.filter(player => !grouped.has(player.playerId));
+
+  // Draw from the players who said they're in, or everyone not out if nobody has said they're in yet
+  const playingIn = players.filter(player => player.rsvp === 'in');
+  const drawFrom = playingIn.length > 0 ? playingIn : players.filter(player => player.rsvp !== 'out');
+
+  const handleGenerate = () => {
+    const drawn = generateTeeGroups(drawFrom, history);
+    const times = firstTee ? teeTimesFrom(firstTee, drawn.length, teeInterval) : [];
+    setGroups(drawn.map((playerIds, i) => ({ teeTime: times[i] ?? null, playerIds })));
+  };
+
+  const handleAddGroup = () => {
+    const times = firstTee ? teeTimesFrom(firstTee, groups.length + 1, teeInterval) : [];
+    setGroups([...groups, { teeTime: times[groups.length] ?? null, playerIds: [] }]);
+  };
+
+  const movePlayer = (playerId: string, target: string) => {
+    setGroups(groups.map((group, i) => {
+      const playerIds = group.playerIds.filter(id => id !== playerId);
+      return { ...group, playerIds: String(i) === target ? [...playerIds, playerId] : playerIds };
+    }));
+  };
+
+  const setTeeTime = (index: number, teeTime: string) => {
+    setGroups(groups.map((group, i) => (i === index ? { ...group, teeTime: teeTime || null } : group)));
+  };
+
+  const handleSave = async () => {
+    if (!game) return;
+
+    const toSave = groups.filter(group => group.playerIds.length > 0);
+    const validationError = validateTeeGroups(toSave);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setGameTeeGroups(game.id, toSave);
+      if (needsPairings && usePairings) {
+        await setGamePairings(game.id, pairingsFromGroups(toSave));
+      }
+      toast.success(toSave.length > 0 ? `Saved ${toSave.length} tee ${toSave.length === 1 ? 'group' : 'groups'}` : 'Tee groups cleared');
+      onOpenChange(false);
+    } catch (error) {
+      logger.error('Error saving tee groups:', error);
+      toast.error('Failed to save tee times', {
+        description: (error as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderMoveSelect = (playerId: string, current: string) => (
+    <Select value={current} onValueChange={(value) => movePlayer(playerId, value)}>
+      <SelectTrigger className="h-8 w-32 text-xs" aria-label="Move to group">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {groups.map((_, i) => (
+          <SelectItem key={i} value={String(i)}>Group {i + 1}</SelectItem>
+        ))}
+        <SelectItem value={NO_GROUP}>Not in a group</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
+  const describePlayer = (playerId: string) => {
+    const player = playerById.get(playerId);
+    if (!player) return 'Unknown player';
+    return player.handicap !== null ? `${player.username} (${player.handicap.toFixed(1)})` : player.username;
+  };
+
+  return (
+    <Dialog open={!!game} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-green-600" />
+            {game?.name} Tee Times
+          </DialogTitle>
+          <DialogDescription>
+            {game && formatDate(game.game_date)} &middot; Groups are balanced by handicap and avoid partners
+            who have already played together this season.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3 rounded-lg bg-gray-50 p-3">
+              <div className="space-y-1">
+                <Label htmlFor="first-tee" className="text-xs">First tee</Label>
+                <Input
+                  id="first-tee"
+                  type="time"
+                  value={firstTee}
+                  onChange={(e) => setFirstTee(e.target.value)}
+                  className="h-9 w-28"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="tee-interval" className="text-xs">Minutes apart</Label>
+                <Input
+                  id="tee-interval"
+                  type="number"
+                  min={1}
+                  value={teeInterval}
+                  onChange={(e) => setTeeInterval(Math.max(1, Number(e.target.value) || 1))}
+                  className="h-9 w-20"
+                />
+              </div>
+              <Button
+                onClick={handleGenerate}
+                disabled={drawFrom.length === 0 || saving}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                <Shuffle className="mr-2 h-4 w-4" />
+                Generate
+              </Button>
+              <p className="text-xs text-gray-500 basis-full">
+                {playingIn.length > 0
+                  ? `Draws from the ${playingIn.length} players who said they're in.`
+                  : 'Nobody has said they\'re in yet, so this draws from everyone who hasn\'t said they\'re out.'}
+              </p>
+            </div>
+
+            {groups.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">
+                No groups yet. Generate them, or add groups and place players by hand.
+              </p>
+            ) : (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {groups.map((group, i) => {
+                  const average = groupAverageHandicap(group.playerIds, handicaps);
+                  const repeats = groupRepeats(group.playerIds, history);
+                  return (
+                    <div key={i} className="rounded-lg border p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-800">Group {i + 1}</span>
+                        <Input
+                          type="time"
+                          value={group.teeTime ?? ''}
+                          onChange={(e) => setTeeTime(i, e.target.value)}
+                          className="h-8 w-28"
+                          aria-label={`Group ${i + 1} tee time`}
+                        />
+                      </div>
+                      <div className="flex flex-wrap gap-1 text-xs">
+                        {average !== null && (
+                          <Badge variant="outline">Avg {average.toFixed(1)}</Badge>
+                        )}
+                        {repeats > 0 && (
+                          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                            {repeats} repeat {repeats === 1 ? 'pairing' : 'pairings'}
+                          </Badge>
+                        )}
+                      </div>
+                      {group.playerIds.length === 0 ? (
+                        <p className="text-xs text-gray-400">No players</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {group.playerIds.map(playerId => (
+                            <li key={playerId} className="flex items-center justify-between gap-2 text-sm">
+                              <span className="truncate">{describePlayer(playerId)}</span>
+                              {renderMoveSelect(playerId, String(i))}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <Button variant="outline" size="sm" onClick={handleAddGroup} disabled={saving}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add group
+            </Button>
+
+            {groups.length > 0 && ungrouped.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-gray-500">Not in a group</h4>
+                <ul className="space-y-1">
+                  {ungrouped.map(player => (
+                    <li key={player.playerId} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">
+                        {describePlayer(player.playerId)}
+                        {player.rsvp && <span className="text-xs text-gray-400 ml-1">{player.rsvp}</span>}
+                      </span>
+                      {renderMoveSelect(player.playerId, NO_GROUP)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {needsPairings && (
+              <div className="flex items-center gap-2">
+                <Switch id="use-pairings" checked={usePairings} onCheckedChange={setUsePairings} />
+                <Label htmlFor="use-pairings" className="text-sm">
+                  Set the {GAME_FORMATS[format].name} pairings from the groups (1 &amp; 2, 3 &amp; 4)
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setGroups([])} disabled={loading || saving || groups.length === 0}>
+            Clear
+          </Button>
+          <Button onClick={handleSave} disabled={loading || saving} className="bg-green-600 hover:bg-green-700">
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Tee Times
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+'use client'
+// src/components/admin/TieBreakerFields.tsx
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import {
+  describeTieBreakers,
+  SeasonTieBreakers,
+  TIE_BREAKERS,
+  TieBreaker,
+} from '@/lib/utils/standings';
+
+interface TieBreakerFieldsProps {
+  value: SeasonTieBreakers;
+  onChange: (value: SeasonTieBreakers) => void;
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+/**
+ * The order in which a season's tie-breakers separate players level on points
+ * Used from Manage Seasons alongside the counting rule
+ */
+export default function TieBreakerFields({ value, onChange, disabled, idPrefix = 'tie-breakers' }: TieBreakerFieldsProps) {
+  const unused = (Object.keys(TIE_BREAKERS) as TieBreaker[]).filter((breaker) => !value.order.includes(breaker));
+
+  const move = (index: number, offset: number) => {
+    const order = [...value.order];
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    onChange({ ...value, order });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label htmlFor={`${idPrefix}-add`} className="text-gray-700 font-medium">Tie-breakers</Label>
+      {value.order.length > 0 && (
+        <ol className="space-y-2">
+          {value.order.map((breaker, index) => (
+            <li key={breaker} className="flex items-center gap-2 rounded border border-gray-200 px-3 py-2 text-sm">
+              <span className="text-gray-400 w-4">{index + 1}.</span>
+              <span className="flex-1">
+                <span className="font-medium text-gray-900">{TIE_BREAKERS[breaker].name}</span>
+                <span className="block text-xs text-gray-500">{TIE_BREAKERS[breaker].description}</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => move(index, -1)}
+                disabled={disabled || index === 0}
+                aria-label={`Move ${TIE_BREAKERS[breaker].name} up`}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => move(index, 1)}
+                disabled={disabled || index === value.order.length - 1}
+                aria-label={`Move ${TIE_BREAKERS[breaker].name} down`}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange({ ...value, order: value.order.filter((other) => other !== breaker) })}
+                disabled={disabled}
+                aria-label={`Remove ${TIE_BREAKERS[breaker].name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {unused.length > 0 && (
+          <div className="sm:col-span-2">
+            <Select
+              value=""
+              onValueChange={(breaker) => onChange({ ...value, order: [...value.order, breaker as TieBreaker] })}
+              disabled={disabled}
+            >
+              <SelectTrigger id={`${idPrefix}-add`} className="w-full border-gray-300 bg-white">
+                <SelectValue placeholder="Add a tie-breaker" />
+              </SelectTrigger>
+              <SelectContent>
+                {unused.map((breaker) => (
+                  <SelectItem key={breaker} value={breaker}>
+                    {TIE_BREAKERS[breaker].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {value.order.includes('countback') && (
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-countback`} className="text-gray-700 font-medium">Countback rounds</Label>
+            <Input
+              id={`${idPrefix}-countback`}
+              type="number"
+              min={1}
+              value={value.countbackRounds}
+              onChange={(e) => onChange({ ...value, countbackRounds: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        {describeTieBreakers(value)}. Players still level share a rank, shown as &quot;T3&quot;.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { attestScore, getMyAttestationRequests } from '@/lib/supabase/client';
+import { formatDate } from '@/lib/utils';
+
+interface AttestationRequestsBannerProps {
+  userId: string;
+  onNavigateToViewScores: () => void;
+}
+
+export default function AttestationRequestsBanner({ userId, onNavigateToViewScores }: AttestationRequestsBannerProps) {
+  const [requests, setRequests] = useState<Awaited<ReturnType<typeof getMyAttestationRequests>>>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState(false);
+  const [error, setError] = useState(false);
+  const [attestingId, setAttestingId] = useState<string | null>(null);
+
+  const fetchRequests = () => {
+    setError(false);
+    setLoading(true);
+    getMyAttestationRequests()
+      .then(setRequests)
+      .catch(err => {
+        console.error('Failed to load attestation requests:', err);
+        setError(true);
+      })
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, [userId]);
+
+  const handleAttest = async (scoreId: string, username: string) => {
+    setAttestingId(scoreId);
+    try {
+      await attestScore(scoreId);
+      setRequests(current => current.filter(request => request.score_id !== scoreId));
+      toast.success(`Attested ${username}'s score`);
+    } catch (err) {
+      console.error('Failed to attest score:', err);
+      toast.error('Failed to attest the score', {
+        description: (err as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setAttestingId(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-center justify-between">
+        <span className="text-sm text-red-700">Failed to load attestation requests</span>
+        <button onClick={fetchRequests} className="text-sm font-medium text-red-700 underline hover:no-underline">Retry</button>
+      </div>
+    );
+  }
+
+  if (loading || requests.length === 0) return null;
+
+  return (
+    <div className="bg-sky-50 border border-sky-200 rounded-xl p-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center justify-between w-full text-left"
+      >
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-sky-600" />
+          <span className="font-semibold text-sky-800">
+            {requests.length} partner score{requests.length !== 1 ? 's' : ''} to attest
+          </span>
+        </div>
+        {expanded ? (
+          <ChevronUp className="h-4 w-4 text-sky-600" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-sky-600" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-sky-700">
+            These scores stay provisional until someone from the round confirms them.
+            If one looks wrong, dispute it from{' '}
+            <button onClick={onNavigateToViewScores} className="font-medium underline hover:no-underline">
+              View Scores
+            </button>
+            {' '}instead.
+          </p>
+          {requests.map(request => (
+            <div key={request.score_id} className="flex items-center justify-between bg-white rounded-lg p-3 border border-sky-100">
+              <div>
+                <p className="font-medium text-gray-800 text-sm">
+                  {request.username} &middot; {request.raw_score}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {request.game_name} &middot; {formatDate(request.game_date)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleAttest(request.score_id, request.username)}
+                disabled={attestingId === request.score_id}
+                className="text-xs font-semibold text-sky-700 bg-sky-100 hover:bg-sky-200 disabled:opacity-50 px-3 py-1.5 rounded-lg transition-colors"
+              >
+                {attestingId === request.score_id ? 'Attesting...' : 'Attest'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 'use client'
 // src/components/dashboard/DashboardView.tsx
 import React, { useMemo } from 'react';
-import { Award, PlusCircle, Calendar, Flag, User, Users, ListIcon, Medal, ClipboardList, Shield } from 'lucide-react';
+import { Award, PlusCircle, Calendar, Flag, User, Users, ListIcon, Medal, ClipboardList, Shield, History, UserCog, CalendarDays, FileUp } from 'lucide-react';
 import DashboardCard from './DashboardCard';
 import QuickStatsBar from './QuickStatsBar';
 import PendingScoresBanner from './PendingScoresBanner';
+import AttestationRequestsBanner from './AttestationRequestsBanner';
 import ActivityFeed from './ActivityFeed';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useUser } from '@/hooks/useUser';
 import { useNavigation } from '@/hooks/useNavigation';
+import { useLeague } from '@/context/LeagueContext';
 
 // Golf-themed subtexts for the dashboard greeting
 const golfSubtexts = [
@@ -35,11 +37,15 @@ const golfSubtexts = [
 ];
 
 interface DashboardViewProps {
+  // Owner or admin of the current league
   isAdmin: boolean;
+  // Site administrator, who also manages shared data like courses
+  isSiteAdmin?: boolean;
 }
 
-export default function DashboardView({ isAdmin }: DashboardViewProps) {
+export default function DashboardView({ isAdmin, isSiteAdmin = false }: DashboardViewProps) {
   const { user, profile } = useUser();
+  const { currentLeague } = useLeague();
   const nav = useNavigation();
 
   // Pick a random subtext on mount (stable for session)
@@ -88,11 +94,14 @@ export default function DashboardView({ isAdmin }: DashboardViewProps) {
       {/* Pending Scores */}
       {user && <PendingScoresBanner userId={user.id} onNavigateToEnterScore={nav.goToEnterScore} />}
 
+      {/* Partners' scores awaiting attestation */}
+      {user && <AttestationRequestsBanner userId={user.id} onNavigateToViewScores={nav.goToViewScores} />}
+
       {/* 2-Column Layout: Stats + Activity */}
       {user && (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
-            <QuickStatsBar userId={user.id} />
+            <QuickStatsBar userId={user.id} leagueId={currentLeague?.id} />
           </div>
           <div className="lg:col-span-1">
             <ActivityFeed userId={user.id} />
@@ -121,6 +130,11 @@ export default function DashboardView({ isAdmin }: DashboardViewProps) {
                 icon={<Calendar className="h-5 w-5" />}
                 onClick={nav.goToJoinSeason}
               />
+              <DashboardCard
+                title="Schedule"
+                icon={<CalendarDays className="h-5 w-5" />}
+                onClick={nav.goToSchedule}
+              />
               <DashboardCard
                 title="My Profile"
                 icon={<User className="h-5 w-5" />}
@@ -172,18 +186,46 @@ export default function DashboardView({ isAdmin }: DashboardViewProps) {
                 onClick={nav.goToBonusRecalculate}
                 isAdmin
               />
+              {isSiteAdmin && (
+                <DashboardCard
+                  title="Recalc Handicaps"
+                  icon={<Users className="h-5 w-5" />}
+                  onClick={nav.goToRecalculateHandicaps}
+                  isAdmin
+                />
+              )}
               <DashboardCard
-                title="Recalc Handicaps"
-                icon={<Users className="h-5 w-5" />}
-                onClick={nav.goToRecalculateHandicaps}
+                title="Recheck Badges"
+                icon={<Award className="h-5 w-5" />}
+                onClick={nav.goToReevaluateAchievements}
                 isAdmin
               />
               <DashboardCard
-                title="Manage Courses"
-                icon={<Flag className="h-5 w-5" />}
-                onClick={nav.goToManageCourses}
+                title="Audit Log"
+                icon={<History className="h-5 w-5" />}
+                onClick={nav.goToAuditLog}
                 isAdmin
               />
+              <DashboardCard
+                title="League Members"
+                icon={<UserCog className="h-5 w-5" />}
+                onClick={nav.goToLeagueMembers}
+                isAdmin
+              />
+              <DashboardCard
+                title="Import History"
+                icon={<FileUp className="h-5 w-5" />}
+                onClick={nav.goToImportHistory}
+                isAdmin
+              />
+              {isSiteAdmin && (
+                <DashboardCard
+                  title="Manage Courses"
+                  icon={<Flag className="h-5 w-5" />}
+                  onClick={nav.goToManageCourses}
+                  isAdmin
+                />
+              )}
             </div>
           </TabsContent>
         </Tabs>
@@ -200,6 +242,11 @@ export default function DashboardView({ isAdmin }: DashboardViewProps) {
               icon={<Calendar className="h-5 w-5" />}
               onClick={nav.goToJoinSeason}
             />
+            <DashboardCard
+              title="Schedule"
+              icon={<CalendarDays className="h-5 w-5" />}
+              onClick={nav.goToSchedule}
+            />
             <DashboardCard
               title="My Profile"
               icon={<User className="h-5 w-5" />}
@@ -65,6 +65,7 @@ export default function PendingScoresBanner({ userId, onNavigateToEnterScore }:
 
       {expanded && (
         <div className="mt-3 space-y-2">
+          <p className="text-xs text-amber-700">Rounds you said you&apos;d play that still need your score.</p>
           {games.map(game => (
             <div key={game.id} className="flex items-center justify-between bg-white rounded-lg p-3 border border-amber-100">
               <div>
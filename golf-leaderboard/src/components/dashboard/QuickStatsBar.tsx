@@ -4,12 +4,15 @@ import React, { useEffect, useState } from 'react';
 import { Trophy, Award, Calendar, TrendingUp } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { getUserCurrentSeasonStats } from '@/lib/supabase/client';
+import { formatRank } from '@/lib/utils/standings';
+import { formatMovement } from '@/lib/utils/standingsHistory';
 
 interface QuickStatsBarProps {
   userId: string;
+  leagueId?: string;
 }
 
-export default function QuickStatsBar({ userId }: QuickStatsBarProps) {
+export default function QuickStatsBar({ userId, leagueId }: QuickStatsBarProps) {
   const [stats, setStats] = useState<Awaited<ReturnType<typeof getUserCurrentSeasonStats>>>(undefined as unknown as null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
@@ -17,7 +20,7 @@ export default function QuickStatsBar({ userId }: QuickStatsBarProps) {
   const fetchStats = () => {
     setError(false);
     setLoading(true);
-    getUserCurrentSeasonStats(userId)
+    getUserCurrentSeasonStats(userId, leagueId)
       .then(setStats)
       .catch(err => {
         console.error('Failed to load stats:', err);
@@ -29,7 +32,7 @@ export default function QuickStatsBar({ userId }: QuickStatsBarProps) {
   useEffect(() => {
     fetchStats();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId]);
+  }, [userId, leagueId]);
 
   if (error) {
     return (
@@ -61,8 +64,12 @@ export default function QuickStatsBar({ userId }: QuickStatsBarProps) {
     );
   }
 
+  // Places gained or lost in the last completed round
+  const movement = stats.rank ? formatMovement(stats.rankMovement) : '';
+  const movementColor = (stats.rankMovement ?? 0) > 0 ? 'text-green-600' : (stats.rankMovement ?? 0) < 0 ? 'text-red-600' : 'text-gray-400';
+
   const items = [
-    { icon: Trophy, label: 'Season Rank', value: stats.rank ? `#${stats.rank} of ${stats.totalPlayers}` : '—', color: 'text-yellow-600 bg-yellow-50' },
+    { icon: Trophy, label: 'Season Rank', value: stats.rank ? `${formatRank(stats.rank, stats.tied)} of ${stats.totalPlayers}` : '—', trend: movement, color: 'text-yellow-600 bg-yellow-50' },
     { icon: Award, label: 'Total Points', value: stats.totalPoints, color: 'text-green-600 bg-green-50' },
     { icon: Calendar, label: 'Games Played', value: stats.gamesPlayed, color: 'text-blue-600 bg-blue-50' },
     { icon: TrendingUp, label: 'Avg Score', value: stats.avgScore !== null ? Number(stats.avgScore).toFixed(1) : '—', color: 'text-purple-600 bg-purple-50' },
@@ -72,7 +79,7 @@ export default function QuickStatsBar({ userId }: QuickStatsBarProps) {
     <div className="space-y-2">
       <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">{stats.seasonName}</p>
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-        {items.map(({ icon: Icon, label, value, color }) => (
+        {items.map(({ icon: Icon, label, value, trend, color }) => (
           <div key={label} className="bg-white rounded-xl p-4 border border-gray-100">
             <div className="flex items-center gap-2 mb-1">
               <div className={`p-1.5 rounded-md ${color}`}>
@@ -80,7 +87,14 @@ export default function QuickStatsBar({ userId }: QuickStatsBarProps) {
               </div>
               <span className="text-xs text-gray-500">{label}</span>
             </div>
-            <p className="text-2xl font-bold text-gray-800">{value}</p>
+            <p className="text-2xl font-bold text-gray-800">
+              {value}
+              {trend && (
+                <span className={`ml-2 text-sm font-semibold ${movementColor}`} title="Since the last completed round">
+                  {trend}
+                </span>
+              )}
+            </p>
           </div>
         ))}
       </div>
@@ -4,8 +4,9 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LogOut, Menu, Flag, LayoutDashboard, Trophy, User, Shield, ChevronDown } from 'lucide-react';
+import { LogOut, Menu, Flag, LayoutDashboard, Trophy, CalendarDays, User, Shield, ChevronDown } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
+import LeagueSwitcher from './LeagueSwitcher';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,6 +31,7 @@ interface HeaderProps {
 const navLinks = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/leaderboard', label: 'Leaderboard', icon: Trophy },
+  { href: '/schedule', label: 'Schedule', icon: CalendarDays },
 ];
 
 export default function Header({ username, isAdmin, onLogout }: HeaderProps) {
@@ -84,6 +86,9 @@ export default function Header({ username, isAdmin, onLogout }: HeaderProps) {
                     </div>
                   </div>
 
+                  {/* League */}
+                  <LeagueSwitcher className="w-full justify-start border border-slate-600" />
+
                   {/* Nav links */}
                   <nav className="flex flex-col gap-1">
                     {navLinks.map(({ href, label, icon: Icon }) => (
@@ -134,6 +139,8 @@ export default function Header({ username, isAdmin, onLogout }: HeaderProps) {
           {/* Desktop navigation */}
           {isLoggedIn && (
             <div className="hidden md:flex items-center space-x-4">
+              <LeagueSwitcher />
+
               <nav className="flex items-center space-x-1">
                 {navLinks.map(({ href, label, icon: Icon }) => (
                   <Link
@@ -0,0 +1,168 @@
+// src/components/layout/LeagueSwitcher.tsx
+'use client'
+
+import { useEffect, useState } from 'react';
+import { Check, ChevronDown, LogIn, Plus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { useLeague } from '@/context/LeagueContext';
+import { createLeague, joinLeague } from '@/lib/supabase/client';
+import { logger } from '@/lib/logger';
+import { LEAGUE_ROLES } from '@/lib/utils/leagues';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type LeagueDialogMode = 'join' | 'create';
+
+interface LeagueSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Header menu for picking the league the app shows, and for joining or
+ * starting another one
+ */
+export default function LeagueSwitcher({ className = '' }: LeagueSwitcherProps) {
+  const { leagues, currentLeague, switchLeague, refreshLeagues } = useLeague();
+  const [dialogMode, setDialogMode] = useState<LeagueDialogMode | null>(null);
+  const [value, setValue] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setValue('');
+  }, [dialogMode]);
+
+  const handleSwitch = (leagueId: string) => {
+    if (leagueId === currentLeague?.id) return;
+    switchLeague(leagueId);
+    toast.success(`Switched to ${leagues.find(l => l.id === leagueId)?.name}`);
+  };
+
+  const handleSubmit = async () => {
+    if (!dialogMode || !value.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const leagueId = dialogMode === 'join'
+        ? await joinLeague(value.trim().toUpperCase())
+        : await createLeague(value.trim());
+
+      await refreshLeagues(leagueId);
+      toast.success(dialogMode === 'join' ? 'Joined the league' : 'League created', {
+        description: dialogMode === 'create'
+          ? 'Share its invite code from this menu so players can join.'
+          : undefined,
+      });
+      setDialogMode(null);
+    } catch (err) {
+      logger.error(`Error trying to ${dialogMode} a league:`, err);
+      toast.error(dialogMode === 'join' ? 'Failed to join the league' : 'Failed to create the league', {
+        description: (err as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-slate-300 hover:bg-slate-700/50 transition-colors duration-200 ${className}`}
+            aria-label="Switch league"
+          >
+            <Users className="h-4 w-4" />
+            <span className="max-w-36 truncate">{currentLeague?.name ?? 'No league'}</span>
+            <ChevronDown className="h-4 w-4 text-slate-400" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-60">
+          {leagues.length > 0 && (
+            <>
+              <DropdownMenuLabel>Your leagues</DropdownMenuLabel>
+              {leagues.map(league => (
+                <DropdownMenuItem
+                  key={league.id}
+                  onClick={() => handleSwitch(league.id)}
+                  className="flex items-center gap-2 cursor-pointer"
+                >
+                  <Check className={`h-4 w-4 ${league.id === currentLeague?.id ? 'text-emerald-600' : 'invisible'}`} />
+                  <span className="flex-1 truncate">{league.name}</span>
+                  {league.role !== 'member' && (
+                    <span className="text-xs text-slate-500">{LEAGUE_ROLES[league.role]}</span>
+                  )}
+                </DropdownMenuItem>
+              ))}
+              {currentLeague && (
+                <p className="px-2 py-1.5 text-xs text-slate-500">
+                  Invite code: <code className="font-mono">{currentLeague.code}</code>
+                </p>
+              )}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onClick={() => setDialogMode('join')} className="flex items-center gap-2 cursor-pointer">
+            <LogIn className="h-4 w-4" />
+            Join a league
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setDialogMode('create')} className="flex items-center gap-2 cursor-pointer">
+            <Plus className="h-4 w-4" />
+            Create a league
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{dialogMode === 'join' ? 'Join a League' : 'Create a League'}</DialogTitle>
+            <DialogDescription>
+              {dialogMode === 'join'
+                ? 'Enter the invite code a league admin gave you. Joining a season with its code adds you to its league too.'
+                : 'You\'ll be the league\'s owner and can create its seasons and rounds.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="leagueDialogValue">{dialogMode === 'join' ? 'Invite Code' : 'League Name'}</Label>
+            <Input
+              id="leagueDialogValue"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={dialogMode === 'join' ? 'e.g. 7F3A9C' : 'e.g. Wednesday Work League'}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDialogMode(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting || !value.trim()}>
+              {isSubmitting
+                ? (dialogMode === 'join' ? 'Joining...' : 'Creating...')
+                : (dialogMode === 'join' ? 'Join League' : 'Create League')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
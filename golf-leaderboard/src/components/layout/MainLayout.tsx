@@ -5,7 +5,9 @@ import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Header from './Header';
 import Footer from './Footer';
+import OfflineScoreQueue from '@/components/player/OfflineScoreQueue';
 import { useAuth } from '@/context/AuthContext';
+import { useLeague } from '@/context/LeagueContext';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,7 +24,8 @@ interface MainLayoutProps {
 }
 
 export default function MainLayout({ children }: MainLayoutProps) {
-  const { profile, isAdmin, signOut } = useAuth();
+  const { profile, signOut } = useAuth();
+  const { isLeagueAdmin } = useLeague();
   const router = useRouter();
   const [showLogoutDialog, setShowLogoutDialog] = useState(false);
 
@@ -35,7 +38,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-green-50 to-white">
       <Header
         username={profile?.username}
-        isAdmin={isAdmin}
+        isAdmin={isLeagueAdmin}
         onLogout={() => setShowLogoutDialog(true)}
       />
       <AlertDialog open={showLogoutDialog} onOpenChange={setShowLogoutDialog}>
@@ -54,6 +57,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
       </AlertDialog>
       <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 flex-grow">
         <div className="max-w-6xl mx-auto">
+          <OfflineScoreQueue />
           {children}
         </div>
       </main>
@@ -26,14 +26,27 @@ import {
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Award, Trophy, Medal, ArrowLeft, Users, Info, FileText, X } from 'lucide-react';
+import { Award, Trophy, Medal, ArrowLeft, Users, Info, FileText, X, Swords, History } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { getSeasonLeaderboard, supabase, isUserAdmin } from '@/lib/supabase/client';
+import { getSeasonLeaderboard, getSeasonStandingRounds, getStandingsHistory, supabase, isUserAdmin } from '@/lib/supabase/client';
 import { useAuth } from '@/context/AuthContext';
+import { useLeague } from '@/context/LeagueContext';
 import { useNavigation } from '@/hooks/useNavigation';
 import { useIsMobile } from '@/hooks/useMediaQuery';
 import { PlayerCard } from './PlayerCard';
 import PlayerComparison from './PlayerComparison';
+import PlayoffBracket from '@/components/season/PlayoffBracket';
+import StandingsHistory from '@/components/season/StandingsHistory';
+import { describeCountingRule, parseCountingRule } from '@/lib/utils/countingRules';
+import {
+  describeTieBreakers,
+  formatRank,
+  parseTieBreakers,
+  rankStandings,
+  StandingRound,
+  tieBreakersNeedRounds,
+} from '@/lib/utils/standings';
+import { formatMovement, latestMovements, StandingsSnapshot } from '@/lib/utils/standingsHistory';
 
 // Types for leaderboard data
 interface LeaderboardPlayer {
@@ -43,18 +56,40 @@ interface LeaderboardPlayer {
     games_played: number;
     total_points: number;
     avg_score: number;
+    net_total_points: number;
+    avg_net_score: number;
+    rounds_counted: number;
+    provisional_rounds: number;
+    qualified: boolean;
+    flight_id: string | null;
+    flight_name: string | null;
   }
 
+type ScoringView = 'gross' | 'net';
+
+const ALL_FLIGHTS = 'all';
+
 interface LeaderboardProps {
   seasonId?: string;
 }
 
 export function LeaderboardTable({ seasonId }: LeaderboardProps) {
   const { user } = useAuth();
+  const { currentLeague, isLeagueAdmin } = useLeague();
   const nav = useNavigation();
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardPlayer[]>([]);
   const [loading, setLoading] = useState(true);
-  const [seasons, setSeasons] = useState<{ id: string; name: string }[]>([]);
+  const [seasons, setSeasons] = useState<{
+    id: string;
+    name: string;
+    net_scoring?: boolean;
+    playoff_status?: string;
+    counting_rule?: string;
+    counting_rounds?: number | null;
+    min_rounds?: number;
+    tie_breakers?: string[];
+    countback_rounds?: number;
+  }[]>([]);
   const [selectedSeason, setSelectedSeason] = useState<string | undefined>(seasonId);
   const [loadingSeasons, setLoadingSeasons] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
@@ -63,6 +98,12 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
   const [isPlayerCardOpen, setIsPlayerCardOpen] = useState(false);
   const [compareIds, setCompareIds] = useState<Set<string>>(new Set());
   const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [scoringView, setScoringView] = useState<ScoringView>('gross');
+  const [isPlayoffsOpen, setIsPlayoffsOpen] = useState(false);
+  const [selectedFlight, setSelectedFlight] = useState(ALL_FLIGHTS);
+  const [standingRounds, setStandingRounds] = useState<StandingRound[]>([]);
+  const [history, setHistory] = useState<StandingsSnapshot[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // Use mobile detection hook (replaces duplicate logic)
   const isMobile = useIsMobile();
@@ -109,18 +150,21 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
     const fetchSeasons = async () => {
       setLoadingSeasons(true);
       try {
-        // Get active seasons from Supabase
-        const { data, error } = await supabase
+        // Get the current league's seasons from Supabase
+        let query = supabase
           .from('seasons')
-          .select('id, name, code, start_date, end_date, is_active')
-          .order('start_date', { ascending: false });
+          .select('id, name, code, start_date, end_date, is_active, net_scoring, playoff_status, counting_rule, counting_rounds, min_rounds, tie_breakers, countback_rounds');
+        if (currentLeague) query = query.eq('league_id', currentLeague.id);
+
+        const { data, error } = await query.order('start_date', { ascending: false });
         
         if (error) throw error;
         
         if (data && data.length > 0) {
           setSeasons(data);
-          // Set the first season as default if none provided
-          if (!selectedSeason) {
+          // Set the first season as default if none provided, or if the
+          // selected one belongs to a league we just switched away from
+          if (!selectedSeason || !data.some(season => season.id === selectedSeason)) {
             setSelectedSeason(data[0].id);
           }
         }
@@ -133,7 +177,7 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
 
     fetchSeasons();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [currentLeague?.id]);
 
   // Fetch leaderboard data
   const fetchLeaderboard = useCallback(async () => {
@@ -151,10 +195,20 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
           profile_image_url: item.profile_image_url,
           games_played: item.games_played || 0,
           total_points: item.total_points || 0,
-          avg_score: item.avg_score || 0
+          avg_score: item.avg_score || 0,
+          net_total_points: item.net_total_points || 0,
+          avg_net_score: item.avg_net_score || 0,
+          rounds_counted: item.rounds_counted ?? item.games_played ?? 0,
+          provisional_rounds: item.provisional_rounds ?? 0,
+          qualified: item.qualified !== false,
+          flight_id: item.flight_id ?? null,
+          flight_name: item.flight_name ?? null
         }));
 
-      const sortedData = validData.sort((a, b) => b.total_points - a.total_points);
+      // Players short of the season's minimum rounds are listed after everyone who qualifies
+      const sortedData = validData.sort((a, b) =>
+        Number(b.qualified) - Number(a.qualified) || b.total_points - a.total_points
+      );
       setLeaderboardData(sortedData);
     } catch (error) {
       console.error('Error fetching leaderboard:', error);
@@ -169,8 +223,102 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
     fetchLeaderboard();
   }, [fetchLeaderboard]);
 
+  // Flights belong to a season, so start each season on the full field
+  useEffect(() => {
+    setSelectedFlight(ALL_FLIGHTS);
+  }, [selectedSeason]);
+
+  // Standings snapshots for rank movement and the standings-over-time chart
+  useEffect(() => {
+    setHistory([]);
+    if (!selectedSeason) return;
+
+    getStandingsHistory(selectedSeason)
+      .then(setHistory)
+      .catch((error) => console.error('Error fetching standings history:', error));
+  }, [selectedSeason]);
+
+  // Net standings are only offered for seasons that score net
+  const seasonHasNet = !!seasons.find(s => s.id === selectedSeason)?.net_scoring;
+  const isNetView = seasonHasNet && scoringView === 'net';
+  const seasonHasPlayoffs = (seasons.find(s => s.id === selectedSeason)?.playoff_status ?? 'not_started') !== 'not_started';
+
+  const selectedSeasonData = seasons.find(s => s.id === selectedSeason);
+  const counting = selectedSeasonData ? parseCountingRule(selectedSeasonData) : null;
+  const tieBreakers = parseTieBreakers(selectedSeasonData ?? {});
+  const needsRounds = tieBreakersNeedRounds(tieBreakers);
+
+  // Wins, head-to-head and countback compare rounds, so load them only when the season uses one
+  useEffect(() => {
+    if (!selectedSeason || !needsRounds) {
+      setStandingRounds([]);
+      return;
+    }
+
+    getSeasonStandingRounds(selectedSeason, isNetView ? 'net' : 'gross')
+      .then(setStandingRounds)
+      .catch((error) => {
+        console.error('Error fetching rounds for tie-breakers:', error);
+        setStandingRounds([]);
+      });
+  }, [selectedSeason, needsRounds, isNetView]);
+
+  // Flights that have players this season, for the flight filter
+  const flights = Array.from(
+    new Map(
+      leaderboardData
+        .filter(player => player.flight_id !== null)
+        .map(player => [player.flight_id as string, player.flight_name || 'Flight'])
+    )
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+
+  // Each flight is ranked on its own
+  const fieldPlayers = selectedFlight === ALL_FLIGHTS
+    ? leaderboardData
+    : leaderboardData.filter(player => player.flight_id === selectedFlight);
+
+  const getPoints = (player: LeaderboardPlayer) => isNetView ? player.net_total_points : player.total_points;
+  const getAverage = (player: LeaderboardPlayer) => isNetView ? player.avg_net_score : player.avg_score;
+
+  // Snapshots hold the season-wide gross standings, so movement is only shown for that view
+  const movements = latestMovements(history);
+  const showMovement = history.length > 1 && !isNetView && selectedFlight === ALL_FLIGHTS;
+  const renderMovement = (playerId: string) => {
+    const movement = movements.get(playerId);
+    const color = (movement ?? 0) > 0 ? 'text-green-600' : (movement ?? 0) < 0 ? 'text-red-600' : 'text-gray-400';
+    return <span className={`text-xs font-semibold ${color}`}>{formatMovement(movement)}</span>;
+  };
+
+  // Same ranking as the dashboard, player card and season summary
+  const rankedPlayers = rankStandings(
+    fieldPlayers.map(player => ({
+      ...player,
+      playerId: player.player_id,
+      points: getPoints(player),
+      avgScore: player.games_played > 0 ? getAverage(player) : null
+    })),
+    tieBreakers,
+    standingRounds
+  );
+
   // Get rank badge/icon
-  const getRankDisplay = (rank: number) => {
+  const getRankDisplay = (rank: number, tied: boolean) => {
+    // Shared ranks show "T3" in place of the trophy or medal
+    if (tied) {
+      const colors = rank === 1
+        ? 'bg-yellow-400 text-white'
+        : rank === 2
+          ? 'bg-gray-300 text-white'
+          : rank === 3
+            ? 'bg-amber-700 text-white'
+            : 'bg-gray-100 text-gray-700';
+      return (
+        <div className={`flex items-center justify-center h-8 w-8 rounded-full ${colors}`}>
+          <span className="text-xs font-semibold">{formatRank(rank, tied)}</span>
+        </div>
+      );
+    }
+
     switch (rank) {
       case 1:
         return (
@@ -220,7 +368,7 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
       totalPlayers,
       totalGames,
       avgGamesPerPlayer,
-      allPlayers: leaderboardData,
+      allPlayers: rankedPlayers,
       reportDate: new Date().toLocaleDateString()
     };
   };
@@ -251,16 +399,16 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
               <div>
                 <h6 className="text-sm font-semibold text-gray-700 mb-3">Complete Rankings</h6>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-1">
-                  {report.allPlayers.map((player, index) => (
-                    <div key={player.player_id} className={`flex items-center justify-between p-1.5 rounded border ${index < 3 ? 'bg-yellow-50 border-yellow-200' : 'bg-white border-gray-200'}`}>
+                  {report.allPlayers.map((player) => (
+                    <div key={player.player_id} className={`flex items-center justify-between p-1.5 rounded border ${player.rank <= 3 ? 'bg-yellow-50 border-yellow-200' : 'bg-white border-gray-200'}`}>
                       <div className="flex items-center gap-2">
-                        <span className={`w-5 h-5 rounded-full flex items-center justify-center text-xs font-bold ${index < 3 ? 'bg-yellow-500 text-white' : 'bg-gray-100 text-gray-700'}`}>
-                          {index + 1}
+                        <span className={`w-5 h-5 rounded-full flex items-center justify-center text-xs font-bold ${player.rank <= 3 ? 'bg-yellow-500 text-white' : 'bg-gray-100 text-gray-700'}`}>
+                          {formatRank(player.rank, player.tied)}
                         </span>
                         <span className="font-medium text-gray-900 text-xs truncate">{player.username}</span>
                       </div>
                       <div className="text-right leading-tight">
-                        <span className="font-bold text-gray-900 text-xs">{player.total_points}pts</span>
+                        <span className="font-bold text-gray-900 text-xs">{getPoints(player)}pts</span>
                       </div>
                     </div>
                   ))}
@@ -307,14 +455,15 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
       );
     }
 
-    return leaderboardData.map((player, index) => (
+    return rankedPlayers.map((player) => (
       <div 
         key={player.player_id} 
-        className={`p-4 border rounded-lg mb-3 ${index < 3 ? "bg-green-50 border-green-100" : "bg-white"}`}
+        className={`p-4 border rounded-lg mb-3 ${player.rank <= 3 ? "bg-green-50 border-green-100" : "bg-white"}`}
       >
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
-            {getRankDisplay(index + 1)}
+            {getRankDisplay(player.rank, player.tied)}
+            {showMovement && renderMovement(player.player_id)}
             <Avatar>
               <AvatarImage
                 src={player.profile_image_url || undefined}
@@ -332,20 +481,28 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
               >
                 {player.username}
               </button>
-              {index === 0 && (
+              {player.rank === 1 && player.qualified && (
                 <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200 mt-1">
                   Leader
                 </Badge>
               )}
+              {!player.qualified && (
+                <Badge variant="outline" className="text-gray-500 mt-1">
+                  Not qualified
+                </Badge>
+              )}
             </div>
           </div>
-          <span className="text-lg font-bold">{player.total_points}</span>
+          <span className="text-lg font-bold">{getPoints(player)}</span>
         </div>
         <div className="flex justify-between mt-3 text-sm text-gray-500">
         <span className="flex items-center gap-1">
             <Users className="h-3 w-3" /> {player.games_played} {player.games_played === 1 ? 'game' : 'games'}
+            {player.provisional_rounds > 0 && (
+              <span className="text-xs text-sky-700">(+{player.provisional_rounds} provisional)</span>
+            )}
         </span>
-          <span>Avg: {player.avg_score.toFixed(1)}</span>
+          <span>{isNetView ? 'Avg net' : 'Avg'}: {getAverage(player).toFixed(1)}</span>
         </div>
       </div>
     ));
@@ -384,7 +541,7 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
                 Select 1 more
               </Button>
             )}
-            {isAdmin && (
+            {(isAdmin || isLeagueAdmin) && (
               <Button
                 variant="outline"
                 size="sm"
@@ -430,6 +587,63 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
                 )}
               </SelectContent>
             </Select>
+            {seasonHasNet && (
+              <div className="flex gap-1 mt-3" role="group" aria-label="Scoring">
+                {(['gross', 'net'] as ScoringView[]).map(view => (
+                  <Button
+                    key={view}
+                    size="sm"
+                    variant={scoringView === view ? 'default' : 'outline'}
+                    onClick={() => setScoringView(view)}
+                    aria-pressed={scoringView === view}
+                    className={scoringView === view ? 'bg-green-600 hover:bg-green-700' : ''}
+                  >
+                    {view === 'gross' ? 'Gross' : 'Net'}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {flights.length > 0 && (
+              <Select value={selectedFlight} onValueChange={setSelectedFlight}>
+                <SelectTrigger className="w-full sm:w-56 mt-3" aria-label="Flight">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_FLIGHTS}>All flights</SelectItem>
+                  {flights.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {(seasonHasPlayoffs || history.length > 0) && (
+              <div className="flex gap-2 mt-3">
+                {history.length > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setIsHistoryOpen(true)}
+                    className="flex items-center gap-1"
+                  >
+                    <History className="h-4 w-4" />
+                    History
+                  </Button>
+                )}
+                {seasonHasPlayoffs && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setIsPlayoffsOpen(true)}
+                    className="flex items-center gap-1"
+                  >
+                    <Swords className="h-4 w-4" />
+                    Playoffs
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
           
           {/* Mobile view */}
@@ -445,10 +659,11 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
                   <TableRow className="bg-gray-50">
                     <TableHead className="w-10"></TableHead>
                     <TableHead className="w-16">Rank</TableHead>
+                    {showMovement && <TableHead className="w-12 text-center">Move</TableHead>}
                     <TableHead>Player</TableHead>
                     <TableHead className="text-right">Points</TableHead>
                     <TableHead className="text-right">Games</TableHead>
-                    <TableHead className="text-right">Avg. Score</TableHead>
+                    <TableHead className="text-right">{isNetView ? 'Avg. Net' : 'Avg. Score'}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -458,6 +673,7 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
                       <TableRow key={i}>
                         <TableCell><Skeleton className="h-4 w-4" /></TableCell>
                         <TableCell><Skeleton className="h-8 w-8 rounded-full" /></TableCell>
+                        {showMovement && <TableCell><Skeleton className="h-4 w-6 mx-auto" /></TableCell>}
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <Skeleton className="h-10 w-10 rounded-full" />
@@ -471,15 +687,15 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
                     ))
                   ) : leaderboardData.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="h-24 text-center">
+                      <TableCell colSpan={showMovement ? 7 : 6} className="h-24 text-center">
                         No data available for this season
                       </TableCell>
                     </TableRow>
                   ) : (
-                    leaderboardData.map((player, index) => (
+                    rankedPlayers.map((player) => (
                       <TableRow 
                         key={player.player_id}
-                        className={index < 3 ? "bg-green-50" : undefined}
+                        className={player.rank <= 3 ? "bg-green-50" : undefined}
                       >
                         <TableCell>
                           <input
@@ -490,7 +706,8 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
                             className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
                           />
                         </TableCell>
-                        <TableCell>{getRankDisplay(index + 1)}</TableCell>
+                        <TableCell>{getRankDisplay(player.rank, player.tied)}</TableCell>
+                        {showMovement && <TableCell className="text-center">{renderMovement(player.player_id)}</TableCell>}
                         <TableCell>
                           <div className="flex items-center gap-3">
                             <Avatar>
@@ -509,22 +726,38 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
                               >
                                 {player.username}
                               </button>
-                              {index === 0 && (
+                              {player.rank === 1 && player.qualified && (
                                 <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
                                   Leader
                                 </Badge>
                               )}
+                              {!player.qualified && (
+                                <Badge variant="outline" className="text-gray-500">
+                                  Not qualified
+                                </Badge>
+                              )}
                             </div>
                           </div>
                         </TableCell>
                         <TableCell className="text-right font-semibold">
-                          {player.total_points}
+                          {getPoints(player)}
                         </TableCell>
                         <TableCell className="text-right">
                           {player.games_played}
+                          {player.rounds_counted < player.games_played && (
+                            <span className="text-xs text-gray-500"> ({player.rounds_counted} count)</span>
+                          )}
+                          {player.provisional_rounds > 0 && (
+                            <span
+                              className="block text-xs text-sky-700"
+                              title="Awaiting a playing partner's attestation; not counted yet"
+                            >
+                              +{player.provisional_rounds} provisional
+                            </span>
+                          )}
                         </TableCell>
                         <TableCell className="text-right font-medium">
-                          {player.avg_score.toFixed(1)}
+                          {getAverage(player).toFixed(1)}
                         </TableCell>
                       </TableRow>
                     ))
@@ -540,6 +773,11 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
               <p className="text-center">
                 Points are calculated based on your scores relative to par. 
                 The lower your score, the more points you earn.
+                {isNetView && ' Net points use each player\'s handicap as of the round date.'}
+                {counting && (counting.rule !== 'all' || counting.minRounds > 0) && ` ${describeCountingRule(counting)}.`}
+                {` Ties: ${describeTieBreakers(tieBreakers)}.`}
+                {leaderboardData.some(player => player.provisional_rounds > 0) &&
+                  ' Provisional rounds count once a playing partner attests them.'}
               </p>
             </div>
           )}
@@ -553,6 +791,7 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
       {selectedPlayerId && (
         <PlayerCard
           playerId={selectedPlayerId}
+          seasonId={selectedSeason}
           isOpen={isPlayerCardOpen}
           onClose={() => setIsPlayerCardOpen(false)}
         />
@@ -568,6 +807,26 @@ export function LeaderboardTable({ seasonId }: LeaderboardProps) {
           onClose={() => setIsCompareOpen(false)}
         />
       )}
+
+      {/* Standings over time */}
+      {history.length > 0 && (
+        <StandingsHistory
+          seasonName={seasons.find(s => s.id === selectedSeason)?.name || ''}
+          snapshots={history}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+        />
+      )}
+
+      {/* Playoff bracket / standings */}
+      {seasonHasPlayoffs && selectedSeason && (
+        <PlayoffBracket
+          seasonId={selectedSeason}
+          seasonName={seasons.find(s => s.id === selectedSeason)?.name || ''}
+          open={isPlayoffsOpen}
+          onOpenChange={setIsPlayoffsOpen}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
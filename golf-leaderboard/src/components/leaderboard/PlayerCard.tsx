@@ -1,7 +1,8 @@
 'use client'
 
 import React, { useEffect, useState } from 'react';
-import { Trophy, TrendingDown, Calendar, Award, Loader2, User as UserIcon } from 'lucide-react';
+import Link from 'next/link';
+import { Trophy, TrendingDown, Calendar, Award, CircleDollarSign, Loader2, User as UserIcon } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -11,12 +12,16 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { getPlayerCardData } from '@/lib/supabase/client';
+import { getPlayerCardData, getSeasonRoundBreakdown } from '@/lib/supabase/client';
+import { describeCountingRule } from '@/lib/utils/countingRules';
+import { formatRank } from '@/lib/utils/standings';
 import { formatDate } from '@/lib/utils';
 import BadgesDisplay from '@/components/player/BadgesDisplay';
 
 interface PlayerCardProps {
   playerId: string;
+  /** Season shown on the leaderboard; adds a breakdown of which rounds count */
+  seasonId?: string;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -70,8 +75,11 @@ interface PlayerData {
   }>;
 }
 
-export function PlayerCard({ playerId, isOpen, onClose }: PlayerCardProps) {
+type SeasonBreakdown = Awaited<ReturnType<typeof getSeasonRoundBreakdown>>;
+
+export function PlayerCard({ playerId, seasonId, isOpen, onClose }: PlayerCardProps) {
   const [playerData, setPlayerData] = useState<PlayerData | null>(null);
+  const [seasonBreakdown, setSeasonBreakdown] = useState<SeasonBreakdown | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -92,6 +100,16 @@ export function PlayerCard({ playerId, isOpen, onClose }: PlayerCardProps) {
     fetchPlayerData();
   }, [playerId, isOpen]);
 
+  // The season breakdown is optional; the card still works without it
+  useEffect(() => {
+    setSeasonBreakdown(null);
+    if (!isOpen || !playerId || !seasonId) return;
+
+    getSeasonRoundBreakdown(playerId, seasonId)
+      .then(setSeasonBreakdown)
+      .catch((error) => console.error('Error fetching season breakdown:', error));
+  }, [playerId, seasonId, isOpen]);
+
   const getInitials = (username: string, firstName?: string | null, lastName?: string | null) => {
     if (firstName && lastName) {
       return `${firstName[0]}${lastName[0]}`.toUpperCase();
@@ -204,12 +222,23 @@ export function PlayerCard({ playerId, isOpen, onClose }: PlayerCardProps) {
                   </p>
                 </div>
               </div>
+
+              {seasonId && (
+                <Link
+                  href={`/side-games?season=${seasonId}&player=${playerId}`}
+                  className="flex items-center gap-1 text-sm text-green-700 hover:underline"
+                >
+                  <CircleDollarSign className="h-4 w-4" />
+                  Side games balance this season
+                </Link>
+              )}
             </div>
 
             {/* Tabs for Recent Scores and Achievements */}
             <Tabs defaultValue="scores" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className={`grid w-full ${seasonBreakdown ? 'grid-cols-3' : 'grid-cols-2'}`}>
                 <TabsTrigger value="scores">Recent Scores</TabsTrigger>
+                {seasonBreakdown && <TabsTrigger value="season">Season</TabsTrigger>}
                 <TabsTrigger value="achievements">Achievements</TabsTrigger>
               </TabsList>
 
@@ -263,6 +292,54 @@ export function PlayerCard({ playerId, isOpen, onClose }: PlayerCardProps) {
                 )}
               </TabsContent>
 
+              {seasonBreakdown && (
+                <TabsContent value="season" className="space-y-3 mt-4">
+                  <p className="text-sm text-gray-600">
+                    <span className="font-medium text-gray-900">{seasonBreakdown.seasonName}</span>
+                    {seasonBreakdown.standing.rank > 0 && (
+                      <>
+                        {' • '}
+                        Rank {formatRank(seasonBreakdown.standing.rank, seasonBreakdown.standing.tied)} of {seasonBreakdown.standing.totalPlayers}
+                      </>
+                    )}
+                    {' • '}
+                    {describeCountingRule(seasonBreakdown.counting)}
+                  </p>
+                  {seasonBreakdown.rounds.length > 0 ? (
+                    <div className="space-y-2">
+                      {seasonBreakdown.rounds.map((round) => (
+                        <div
+                          key={round.scoreId}
+                          className={`flex items-center justify-between p-3 rounded-lg border ${
+                            round.counts ? 'bg-gray-50 border-gray-200' : 'bg-white border-dashed border-gray-200 text-gray-400'
+                          }`}
+                        >
+                          <div>
+                            <p className={`font-medium ${round.counts ? 'text-gray-900' : ''}`}>{round.gameName}</p>
+                            <p className="text-xs">{formatDate(round.gameDate)} • {round.rawScore}</p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className={`text-sm font-semibold ${round.counts ? '' : 'line-through'}`}>
+                              {round.points} pts
+                            </span>
+                            {round.counts ? (
+                              <Badge className="bg-green-600 text-white text-xs">Counts</Badge>
+                            ) : (
+                              <Badge variant="outline" className="text-xs text-gray-500">Dropped</Badge>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-gray-500">
+                      <Trophy className="h-12 w-12 mx-auto mb-2 text-gray-300" />
+                      <p>No rounds this season yet</p>
+                    </div>
+                  )}
+                </TabsContent>
+              )}
+
               <TabsContent value="achievements" className="mt-4">
                 {playerData.achievements.length > 0 ? (
                   <BadgesDisplay userAchievements={playerData.achievements} isLoading={false} />
@@ -29,6 +29,7 @@ jest.mock('@/lib/supabase/client', () => ({
     })),
   },
   getSeasonLeaderboard: jest.fn(),
+  getStandingsHistory: jest.fn(() => Promise.resolve([])),
   isUserAdmin: jest.fn(),
   subscribeToScoreChanges: jest.fn(() => jest.fn()), // Returns unsubscribe function
 }))
@@ -296,6 +297,128 @@ describe('LeaderboardTable Component', () => {
       const leaderBadges = screen.getAllByText('Leader')
       expect(leaderBadges).toHaveLength(1)
     })
+
+    it('should show a shared rank when the season has no tie-breakers', async () => {
+      const from = supabaseClient.supabase.from as jest.Mock
+      from.mockReturnValueOnce({
+        select: jest.fn(() => ({
+          order: jest.fn(() => ({
+            data: mockSeasons.map(season => ({ ...season, tie_breakers: [] })),
+            error: null,
+          })),
+        })),
+      })
+      getSeasonLeaderboard.mockResolvedValue(mockLeaderboardDataWithTies)
+
+      render(
+        <LeaderboardTable />,
+        { authContext: { user: mockUser, profile: mockProfile } }
+      )
+
+      await waitFor(() => {
+        expect(screen.getAllByText('T1')).toHaveLength(2)
+      })
+      // Both players are first, so only the third place gets a medal and no shared rank
+      const dataRows = screen.getAllByRole('row').slice(1)
+      expect(within(dataRows[2]).getByText('bob_wilson')).toBeInTheDocument()
+      expect(within(dataRows[2]).queryByText(/^T/)).not.toBeInTheDocument()
+      expect(screen.getAllByText('Leader')).toHaveLength(2)
+      expect(screen.getByText(/Ties: Ties share a rank/)).toBeInTheDocument()
+    })
+  })
+
+  describe('Rank Movement', () => {
+    it('should show each player\'s movement over the last completed round', async () => {
+      const standing = (playerId: string, rank: number) => ({ playerId, username: playerId, rank, tied: false, points: 0 })
+      const getStandingsHistory = supabaseClient.getStandingsHistory as jest.Mock
+      getStandingsHistory.mockResolvedValueOnce([
+        { gameId: 'g1', gameName: 'Week 1', gameDate: '2024-05-01', standings: [standing('player-2', 1), standing('player-1', 2), standing('player-3', 3)] },
+        { gameId: 'g2', gameName: 'Week 2', gameDate: '2024-05-08', standings: [standing('player-1', 1), standing('player-2', 2), standing('player-3', 3)] },
+      ])
+
+      render(
+        <LeaderboardTable />,
+        { authContext: { user: mockUser, profile: mockProfile } }
+      )
+
+      expect(await screen.findByRole('columnheader', { name: 'Move' })).toBeInTheDocument()
+      const dataRows = screen.getAllByRole('row').slice(1)
+      expect(within(dataRows[0]).getByText('▲1')).toBeInTheDocument()
+      expect(within(dataRows[1]).getByText('▼1')).toBeInTheDocument()
+      expect(within(dataRows[2]).getByText('–')).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /history/i })).toBeInTheDocument()
+    })
+
+    it('should mark rounds still awaiting attestation as provisional', async () => {
+      getSeasonLeaderboard.mockResolvedValue(
+        mockLeaderboardData.map(row => (row.player_id === 'player-2' ? { ...row, provisional_rounds: 2 } : row))
+      )
+
+      render(
+        <LeaderboardTable />,
+        { authContext: { user: mockUser, profile: mockProfile } }
+      )
+
+      expect(await screen.findByText('+2 provisional')).toBeInTheDocument()
+      expect(screen.getAllByText(/provisional$/)).toHaveLength(1)
+      expect(screen.getByText(/Provisional rounds count once a playing partner attests them/)).toBeInTheDocument()
+    })
+
+    it('should not show a movement column before two rounds are completed', async () => {
+      render(
+        <LeaderboardTable />,
+        { authContext: { user: mockUser, profile: mockProfile } }
+      )
+
+      await waitFor(() => {
+        expect(screen.getByText('john_doe')).toBeInTheDocument()
+      })
+      expect(screen.queryByRole('columnheader', { name: 'Move' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Net Scoring', () => {
+    it('should not offer a gross/net toggle for gross-only seasons', async () => {
+      render(
+        <LeaderboardTable />,
+        { authContext: { user: mockUser, profile: mockProfile } }
+      )
+
+      await waitFor(() => {
+        expect(screen.getByText('john_doe')).toBeInTheDocument()
+      })
+
+      expect(screen.queryByRole('button', { name: 'Net' })).not.toBeInTheDocument()
+    })
+
+    it('should rank by net points when the net view is selected', async () => {
+      const from = supabaseClient.supabase.from as jest.Mock
+      from.mockReturnValueOnce({
+        select: jest.fn(() => ({
+          order: jest.fn(() => ({
+            data: mockSeasons.map(season => ({ ...season, net_scoring: true })),
+            error: null,
+          })),
+        })),
+      })
+      getSeasonLeaderboard.mockResolvedValue([
+        { ...mockLeaderboardData[0], net_total_points: 70, avg_net_score: 70.5 },
+        { ...mockLeaderboardData[1], net_total_points: 99, avg_net_score: 68.2 },
+      ])
+
+      const user = userEvent.setup()
+      render(
+        <LeaderboardTable />,
+        { authContext: { user: mockUser, profile: mockProfile } }
+      )
+
+      await user.click(await screen.findByRole('button', { name: 'Net' }))
+
+      const dataRows = screen.getAllByRole('row').slice(1)
+      expect(within(dataRows[0]).getByText('jane_smith')).toBeInTheDocument()
+      expect(within(dataRows[0]).getByText('99')).toBeInTheDocument()
+      expect(screen.getByRole('columnheader', { name: /avg\. net/i })).toBeInTheDocument()
+    })
   })
 
   describe('Empty State', () => {
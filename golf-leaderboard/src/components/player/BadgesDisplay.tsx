@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import * as LucideIcons from 'lucide-react';
 import { formatDate } from '@/lib/utils';
-import { AchievementProgress } from '@/lib/utils/achievementProgress';
+import { AchievementProgress, progressFraction } from '@/lib/utils/achievements';
 
 interface Achievement {
   id: string;
@@ -223,6 +223,7 @@ export default function BadgesDisplay({
                   {/* Locked achievements */}
                   {locked.map((a) => {
                     const progressData = progress?.get(a.key);
+                    const fraction = progressData ? progressFraction(progressData) : null;
 
                     return (
                       <div
@@ -255,16 +256,18 @@ export default function BadgesDisplay({
                             {/* Progress bar if progress data exists */}
                             {progressData && (
                               <div className="mt-2">
-                                <div className="w-full bg-gray-200 rounded-full h-2">
-                                  <div
-                                    className="bg-green-500 h-2 rounded-full transition-all"
-                                    style={{
-                                      width: `${Math.min(100, (progressData.current / progressData.target) * 100)}%`
-                                    }}
-                                  />
-                                </div>
+                                {fraction !== null && (
+                                  <div className="w-full bg-gray-200 rounded-full h-2">
+                                    <div
+                                      className="bg-green-500 h-2 rounded-full transition-all"
+                                      style={{ width: `${fraction * 100}%` }}
+                                    />
+                                  </div>
+                                )}
                                 <p className="text-xs text-gray-500 mt-1">
-                                  {progressData.label}: {progressData.current}/{progressData.target}
+                                  {progressData.label}: {fraction !== null
+                                    ? `${progressData.current}/${progressData.target}`
+                                    : `${progressData.current} (needs ${progressData.comparison === 'at_most' ? `${progressData.target} or better` : progressData.target})`}
                                 </p>
                               </div>
                             )}
@@ -0,0 +1,165 @@
+'use client'
+// src/components/player/CalendarFeedDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarPlus, Check, Copy, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { getCalendarFeedToken, getUserSeasons } from '@/lib/supabase/client';
+import { logger } from '@/lib/logger';
+
+// Select value for the feed of every round the player is in
+const ALL_ROUNDS = 'all';
+
+interface CalendarFeedDialogProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Private subscription links for adding the schedule to a phone calendar,
+ * for one season or all the player's rounds
+ */
+export default function CalendarFeedDialog({ userId, open, onOpenChange }: CalendarFeedDialogProps) {
+  const [seasons, setSeasons] = useState<Array<{ id: string; name: string }>>([]);
+  const [feed, setFeed] = useState(ALL_ROUNDS);
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    getUserSeasons(userId)
+      .then(setSeasons)
+      .catch(error => logger.error('Error loading seasons for calendar feeds:', error));
+  }, [open, userId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    setToken(null);
+    getCalendarFeedToken(feed === ALL_ROUNDS ? undefined : feed)
+      .then(setToken)
+      .catch(error => {
+        logger.error('Error loading calendar feed link:', error);
+        toast.error('Failed to load your calendar link');
+      })
+      .finally(() => setLoading(false));
+  }, [open, feed]);
+
+  const feedUrl = token ? `${window.location.origin}/api/calendar/${token}.ics` : '';
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(feedUrl)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+        toast.success('Link copied to clipboard');
+      })
+      .catch(() => {
+        toast.error('Failed to copy link');
+      });
+  };
+
+  const resetLink = async () => {
+    setLoading(true);
+    try {
+      setToken(await getCalendarFeedToken(feed === ALL_ROUNDS ? undefined : feed, true));
+      toast.success('Calendar link reset', {
+        description: 'The old link no longer works. Subscribe again with the new one.',
+      });
+    } catch (error) {
+      logger.error('Error resetting calendar feed link:', error);
+      toast.error('Failed to reset your calendar link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarPlus className="h-5 w-5 text-green-600" />
+            Add to Calendar
+          </DialogTitle>
+          <DialogDescription>
+            Subscribe in your calendar app to see rounds, courses and round codes. Anyone with the link can see
+            your schedule, so keep it to yourself.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed">Rounds</Label>
+            <Select value={feed} onValueChange={setFeed}>
+              <SelectTrigger id="calendar-feed">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ROUNDS}>All my rounds</SelectItem>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id}>
+                    {season.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed-url">Subscription link</Label>
+            <div className="flex gap-2">
+              <Input
+                id="calendar-feed-url"
+                readOnly
+                value={loading ? 'Loading…' : feedUrl}
+                onFocus={event => event.target.select()}
+                className="font-mono text-xs"
+              />
+              <Button variant="outline" size="icon" onClick={copyLink} disabled={!token || loading} aria-label="Copy link">
+                {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={resetLink} disabled={!token || loading}>
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+            Reset link
+          </Button>
+          {token && !loading ? (
+            <Button asChild className="bg-green-600 hover:bg-green-700">
+              <a href={feedUrl.replace(/^https?:/, 'webcal:')}>Open in Calendar</a>
+            </Button>
+          ) : (
+            <Button disabled className="bg-green-600 hover:bg-green-700">
+              Open in Calendar
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
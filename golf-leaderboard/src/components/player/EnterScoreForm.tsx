@@ -38,7 +38,8 @@ import {
   Flag,
   Medal,
   Loader2,
-  Camera
+  Camera,
+  WifiOff
 } from 'lucide-react';
 import {
   validateRoundCode,
@@ -46,23 +47,49 @@ import {
   isUserInSeason,
   submitScore,
   getGameScores,
-  updateScoreBonusPoints,
-  updatePlayerHandicap
+  updatePlayerHandicap,
+  getSeasonScoringRules
 } from '@/lib/supabase/client';
-import { calculateFullScore, updateBonusPoints } from '@/lib/utils/scoring';
+import { calculateFullScore } from '@/lib/utils/scoring';
+import { ScoringRules } from '@/lib/utils/scoringRules';
+import {
+  createEmptyScorecard,
+  HoleCount,
+  HoleScore,
+  scorecardRawScore,
+  summarizeScorecard,
+  validateScorecard
+} from '@/lib/utils/scorecard';
 import { checkAndAwardAchievements } from '@/lib/utils/achievements';
 import { Separator } from '@/components/ui/separator';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import QRScanner from '@/components/ui/QRScanner';
+import ScorecardEntry from '@/components/player/ScorecardEntry';
+import { GAME_FORMATS, GameFormat } from '@/lib/utils/gameFormats';
+import { CachedRound, classifySyncError, validateOfflineSubmission } from '@/lib/utils/offlineScores';
+import { getCachedRound, getQueuedScores, queueScore } from '@/lib/offlineQueue';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+// Allowed scores by holes played; a 9-hole scorecard totals half a round
+const SCORE_RANGES: Record<HoleCount, { min: number; max: number }> = {
+  18: { min: 50, max: 150 },
+  9: { min: 25, max: 75 },
+};
 
 // Form validation schema
 const scoreFormSchema = z.object({
   roundCode: z.string().min(1, 'Round code is required'),
-  rawScore: z
-    .number()
-    .min(50, 'Score must be at least 50')
-    .max(150, 'Score cannot be more than 150'),
+  rawScore: z.number(),
+  holesPlayed: z.union([z.literal(9), z.literal(18)]),
   notes: z.string().optional(),
+}).superRefine(({ rawScore, holesPlayed }, ctx) => {
+  const range = SCORE_RANGES[holesPlayed];
+  if (rawScore < range.min) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rawScore'], message: `Score must be at least ${range.min}` });
+  } else if (rawScore > range.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rawScore'], message: `Score cannot be more than ${range.max}` });
+  }
 });
 
 type ScoreFormValues = z.infer<typeof scoreFormSchema>;
@@ -72,6 +99,7 @@ interface GameDetails {
   id: string;
   name: string;
   season_id: string;
+  format: string;
   courses: {
     id: string;
     name: string;
@@ -82,6 +110,7 @@ interface GameDetails {
 export default function EnterScoreForm() {
   const { user } = useUser();
   const nav = useNavigation();
+  const isOnline = useOnlineStatus();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [gameDetails, setGameDetails] = useState<GameDetails | null>(null);
   const [calculatedScore, setCalculatedScore] = useState<{
@@ -91,17 +120,23 @@ export default function EnterScoreForm() {
     bonusPoints: number;
     totalPoints: number;
   } | null>(null);
+  const [scoringRules, setScoringRules] = useState<ScoringRules | null>(null);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [isValidatingCode, setIsValidatingCode] = useState(false);
   const [showQRScanner, setShowQRScanner] = useState(false);
   const [codeError, setCodeError] = useState<string | null>(null);
   const [formStep, setFormStep] = useState<'code' | 'score'>('code');
+  const [useScorecard, setUseScorecard] = useState(false);
+  const [holes, setHoles] = useState<HoleScore[]>(() => createEmptyScorecard());
+  // Set when the round was found in the offline cache; the score is queued instead of submitted
+  const [offlineRound, setOfflineRound] = useState<CachedRound | null>(null);
 
   const form = useForm<ScoreFormValues>({
     resolver: zodResolver(scoreFormSchema),
     defaultValues: {
       roundCode: '',
       rawScore: undefined,
+      holesPlayed: 18,
       notes: '',
     },
   });
@@ -141,6 +176,28 @@ export default function EnterScoreForm() {
     try {
       // Update the form value to ensure it's in the correct format
       form.setValue('roundCode', formattedCode);
+
+      // No signal: check the code against the rounds cached while online
+      if (!isOnline) {
+        const round = await getCachedRound(user.id, formattedCode);
+        const offlineError = validateOfflineSubmission(round, await getQueuedScores(user.id));
+        if (offlineError || !round) {
+          setCodeError(offlineError);
+          toast.error("Can't score this round offline", { description: offlineError });
+          return;
+        }
+
+        setOfflineRound(round);
+        setGameDetails(round.game);
+        if (GAME_FORMATS[round.game.format as GameFormat]?.needsScorecards) {
+          handleScorecardToggle(true);
+        }
+        setFormStep('score');
+        toast.success("Round found offline", {
+          description: `Your score for ${round.game.name} will be submitted when you have signal.`,
+        });
+        return;
+      }
       
       // Validate the round code and get game details
       const game = await validateRoundCode(formattedCode);
@@ -167,6 +224,10 @@ export default function EnterScoreForm() {
       
       // Set the game details in state
       setGameDetails(game);
+      // Formats other than stroke play are decided hole by hole
+      if (GAME_FORMATS[game.format as GameFormat]?.needsScorecards) {
+        handleScorecardToggle(true);
+      }
       setFormStep('score');
       toast.success("Round code valid", {
         description: `Ready to submit score for ${game.name} at ${game.courses.name}`,
@@ -202,16 +263,53 @@ export default function EnterScoreForm() {
     }
   };
 
+  // Keep the raw score in sync with the scorecard totals
+  const handleHolesChange = (nextHoles: HoleScore[]) => {
+    setHoles(nextHoles);
+    form.setValue('holesPlayed', nextHoles.length as HoleCount);
+    const rawScore = scorecardRawScore(nextHoles);
+    if (rawScore !== null) {
+      form.setValue('rawScore', rawScore, { shouldValidate: true });
+    } else {
+      form.resetField('rawScore');
+    }
+  };
+
+  const handleScorecardToggle = (checked: boolean) => {
+    setUseScorecard(checked);
+    form.resetField('rawScore');
+    if (checked) {
+      handleHolesChange(holes);
+    } else {
+      form.setValue('holesPlayed', 18);
+    }
+  };
+
+  const scorecardRequired = !!gameDetails && !!GAME_FORMATS[gameDetails.format as GameFormat]?.needsScorecards;
+
   // Calculate score and show confirmation dialog
   const handleScoreCalculation = async (values: ScoreFormValues) => {
     if (!gameDetails || !user) return;
+
+    if (useScorecard) {
+      const scorecardError = validateScorecard(holes);
+      if (scorecardError) {
+        toast.error("Scorecard incomplete", { description: scorecardError });
+        return;
+      }
+    }
     
     try {
-      // Get all existing scores for this game to determine if this is the lowest score
-      const allScores = await getGameScores(gameDetails.id);
-      const rawScores = allScores.map(score => score.raw_score);
+      // Get all existing scores for this game to determine if this is the lowest score,
+      // and the season's scoring rules to price the round
+      const [rawScores, rules] = offlineRound
+        ? [offlineRound.rawScores, offlineRound.rules]
+        : await Promise.all([
+            getGameScores(gameDetails.id).then(scores => scores.map(score => score.raw_score)),
+            getSeasonScoringRules(gameDetails.season_id),
+          ]);
       
-      // Calculate points based on the scoring system
+      // Calculate points based on the season's scoring rules
       const calculatedScore = calculateFullScore(
         {
           rawScore: values.rawScore,
@@ -220,9 +318,11 @@ export default function EnterScoreForm() {
           gameId: gameDetails.id,
           notes: values.notes,
         },
-        rawScores
+        rawScores,
+        rules
       );
       
+      setScoringRules(rules);
       setCalculatedScore(calculatedScore);
       setShowConfirmation(true);
     } catch (error) {
@@ -233,91 +333,106 @@ export default function EnterScoreForm() {
     }
   };
 
+  const resetForm = () => {
+    form.reset();
+    setGameDetails(null);
+    setOfflineRound(null);
+    setCalculatedScore(null);
+    setScoringRules(null);
+    setUseScorecard(false);
+    setHoles(createEmptyScorecard());
+    setShowConfirmation(false);
+    setFormStep('code');
+  };
+
+  // Save the score on this device; OfflineScoreQueue submits it when the connection is back
+  const queueOfflineScore = async () => {
+    if (!gameDetails || !calculatedScore || !user) return;
+
+    await queueScore({
+      playerId: user.id,
+      roundCode: form.getValues().roundCode,
+      gameId: gameDetails.id,
+      seasonId: gameDetails.season_id,
+      gameName: gameDetails.name,
+      courseName: gameDetails.courses.name,
+      rawScore: calculatedScore.rawScore,
+      notes: form.getValues().notes,
+      holesPlayed: useScorecard ? holes.length : undefined,
+      holes: useScorecard ? holes : undefined,
+    });
+
+    toast.success("Score saved offline", {
+      description: "It will be submitted automatically when you're back online.",
+    });
+    resetForm();
+  };
+
   // Submit score after confirmation
   const handleSubmitConfirmed = async () => {
-    if (!gameDetails || !calculatedScore || !user) return;
+    if (!gameDetails || !calculatedScore || !scoringRules || !user) return;
     
     setIsSubmitting(true);
     try {
-      // First, get all existing scores for this game (before our new score is added)
-      const existingScores = await getGameScores(gameDetails.id);
-      
-      // Submit the new score
-      const newScore = await submitScore({
-        game_id: gameDetails.id,
-        player_id: user.id,
-        raw_score: calculatedScore.rawScore,
-        points: calculatedScore.points,
-        bonus_points: calculatedScore.bonusPoints,
-        notes: form.getValues().notes,
-      });
-      
-      // Create a combined array of all scores (existing + new score) 
-      // This saves us from having to fetch all scores again
-      const allScores = [
-        ...existingScores,
-        {
-          id: newScore.id,
-          player_id: user.id,
+      if (offlineRound || !isOnline) {
+        await queueOfflineScore();
+        return;
+      }
+
+      // The server inserts the score and scorecard and settles the gross and net
+      // low-round bonuses for the whole round in one transaction
+      let standings: Awaited<ReturnType<typeof submitScore>>;
+      try {
+        standings = await submitScore({
+          game_id: gameDetails.id,
           raw_score: calculatedScore.rawScore,
-          points: calculatedScore.points,
-          bonus_points: calculatedScore.bonusPoints
-        }
-      ];
-      
-      // Prepare data for bonus point calculation
-      const scoresForBonusUpdate = allScores.map(score => ({
-        playerId: score.player_id,
-        rawScore: score.raw_score,
-        bonusPoints: score.bonus_points
-      }));
-      
-      // Calculate which players should have bonus points
-      const bonusUpdates = updateBonusPoints(scoresForBonusUpdate);
-    
-      
-      // Update bonus points in the database for all players if needed
-      for (const update of bonusUpdates) {
-        const shouldHaveBonus = update.shouldHaveBonus ? 1 : 0;
-        const scoreToUpdate = allScores.find(score => score.player_id === update.playerId);
-        
-        
-        if (scoreToUpdate && scoreToUpdate.bonus_points !== shouldHaveBonus) {
-            try {
-              await updateScoreBonusPoints(scoreToUpdate.id, shouldHaveBonus);
-            } catch (error) {
-              logger.error(`Failed to update bonus points for score ${scoreToUpdate.id}:`, error);
-            }
-          } else {
-            logger.debug(`No update needed for player ${update.playerId} (current=${scoreToUpdate?.bonus_points}, should=${shouldHaveBonus})`);
+          notes: form.getValues().notes,
+          holes_played: useScorecard ? holes.length : undefined,
+          holes: useScorecard ? holes : undefined,
+        });
+      } catch (error: unknown) {
+        logger.error("Error submitting score:", error);
+
+        // Signal dropped mid-submit: keep the score rather than losing it
+        if (classifySyncError(error) === 'retry') {
+          try {
+            await queueOfflineScore();
+            return;
+          } catch (queueError) {
+            logger.error("Failed to save score offline:", queueError);
           }
-      }
+        }
 
-      // Check and award achievements
-      await checkAndAwardAchievements(user.id, gameDetails.season_id);
+        toast.error("Error submitting score", {
+          description: error instanceof Error && error.message ? error.message : "Please try again.",
+        });
+        return;
+      }
+      const submitted = standings.find(standing => standing.player_id === user.id);
 
-      // Update player handicap
-      await updatePlayerHandicap(user.id);
+      // The score is saved; none of the follow-up should fail the submission
+      try {
+        await checkAndAwardAchievements(gameDetails.season_id);
+        await updatePlayerHandicap(user.id);
+      } catch (error: unknown) {
+        logger.error("Failed to update stats after submitting a score:", error);
+      }
 
       toast.success("Score submitted successfully!", {
-        description: `You earned ${calculatedScore.totalPoints} points for this round.`,
+        description: `You earned ${submitted?.total_points ?? calculatedScore.totalPoints} points for this round.`,
       });
       
       // Reset form and state
-      form.reset();
-      setGameDetails(null);
-      setCalculatedScore(null);
-      setShowConfirmation(false);
-      setFormStep('code');
+      resetForm();
       
       // Redirect back to dashboard after short delay
       setTimeout(() => {
         nav.goToDashboard();
       }, 2000);
-    } catch (error) {
-      logger.error("Error submitting score:", error);
-      toast.error("Error submitting score", {
-        description: "Please try again.",
+    } catch (error: unknown) {
+      logger.error("Error saving score offline:", error);
+      toast.error("Error saving score offline", {
+        description: error instanceof Error && error.message ? error.message : "Please try again.",
       });
     } finally {
       setIsSubmitting(false);
@@ -327,9 +442,12 @@ export default function EnterScoreForm() {
   // Reset code and go back to code input
   const handleResetCode = () => {
     setGameDetails(null);
+    setOfflineRound(null);
     setFormStep('code');
   };
 
+  const scorecardSummary = summarizeScorecard(holes);
+
   return (
     <>
       <div className="container max-w-2xl mx-auto px-4 py-6">
@@ -386,6 +504,14 @@ export default function EnterScoreForm() {
 
           <CardContent className="p-6">
             <form className="space-y-6">
+              {!isOnline && (
+                <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 text-amber-800 text-sm flex items-start gap-2">
+                  <WifiOff className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <p>
+                    You&apos;re offline. Rounds you&apos;ve opened while online can still be scored; your score is saved on this device and submitted when you have signal.
+                  </p>
+                </div>
+              )}
               {formStep === 'code' ? (
                 <div className="space-y-4">
                   <div className="bg-amber-50 border border-amber-100 rounded-lg p-4 text-amber-800 text-sm flex items-start gap-3">
@@ -472,24 +598,45 @@ export default function EnterScoreForm() {
                 </div>
               ) : (
                 <div className="space-y-6">
-                  <div className="flex flex-col sm:flex-row sm:items-center gap-4 bg-gradient-to-br from-emerald-50 to-green-50 rounded-xl p-4 shadow-sm">
-                    <div className="w-full sm:w-2/3">
-                      <Label htmlFor="rawScore" className="text-green-800 font-medium mb-1 block">Your Score</Label>
-                      <Input
-                        {...form.register('rawScore', { 
-                          valueAsNumber: true 
-                        })}
-                        id="rawScore"
-                        type="number"
-                        placeholder="Enter your score"
-                        className="text-center text-xl font-bold h-14 bg-white/80 border-green-300 focus:border-green-500 focus:ring focus:ring-green-200"
-                      />
-                    </div>
-                    <div className="w-full sm:w-1/3 bg-white/60 p-3 rounded-lg flex flex-col items-center justify-center">
-                      <p className="text-sm text-gray-600">Course Par</p>
-                      <p className="text-2xl font-bold text-green-700">{gameDetails?.courses.par || '-'}</p>
-                    </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="useScorecard" className="text-gray-700 font-medium">
+                      Enter hole by hole
+                    </Label>
+                    <Switch
+                      id="useScorecard"
+                      checked={useScorecard}
+                      onCheckedChange={handleScorecardToggle}
+                      disabled={scorecardRequired}
+                    />
                   </div>
+                  {scorecardRequired && (
+                    <p className="text-xs text-gray-500 -mt-4">
+                      This round is {GAME_FORMATS[gameDetails?.format as GameFormat].name}, so every hole is needed.
+                    </p>
+                  )}
+
+                  {useScorecard ? (
+                    <ScorecardEntry holes={holes} onChange={handleHolesChange} disabled={isSubmitting} />
+                  ) : (
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-4 bg-gradient-to-br from-emerald-50 to-green-50 rounded-xl p-4 shadow-sm">
+                      <div className="w-full sm:w-2/3">
+                        <Label htmlFor="rawScore" className="text-green-800 font-medium mb-1 block">Your Score</Label>
+                        <Input
+                          {...form.register('rawScore', { 
+                            valueAsNumber: true 
+                          })}
+                          id="rawScore"
+                          type="number"
+                          placeholder="Enter your score"
+                          className="text-center text-xl font-bold h-14 bg-white/80 border-green-300 focus:border-green-500 focus:ring focus:ring-green-200"
+                        />
+                      </div>
+                      <div className="w-full sm:w-1/3 bg-white/60 p-3 rounded-lg flex flex-col items-center justify-center">
+                        <p className="text-sm text-gray-600">Course Par</p>
+                        <p className="text-2xl font-bold text-green-700">{gameDetails?.courses.par || '-'}</p>
+                      </div>
+                    </div>
+                  )}
                   
                   {form.formState.errors.rawScore && (
                     <div className="flex items-center gap-2 text-sm text-red-500 font-medium bg-red-50 p-2 rounded border border-red-100">
@@ -614,6 +761,11 @@ export default function EnterScoreForm() {
                       </span>
                     )}
                   </div>
+                  {offlineRound && (
+                    <p className="text-xs text-amber-700 mt-2">
+                      Points are confirmed when the score syncs; the low-round bonus may change if others have scored since.
+                    </p>
+                  )}
                 </div>
               </div>
               
@@ -633,6 +785,26 @@ export default function EnterScoreForm() {
                     <span className="text-gray-600">Event</span>
                     <span className="font-medium">{gameDetails.name}</span>
                   </div>
+                  {scoringRules && (
+                    <>
+                      <Separator className="my-1.5 sm:my-2" />
+                      <div className="flex justify-between items-center text-xs sm:text-sm">
+                        <span className="text-gray-600">Scoring</span>
+                        <span className="font-medium">{scoringRules.name}</span>
+                      </div>
+                    </>
+                  )}
+                  {useScorecard && (
+                    <>
+                      <Separator className="my-1.5 sm:my-2" />
+                      <div className="flex justify-between items-center text-xs sm:text-sm">
+                        <span className="text-gray-600">Scorecard ({holes.length} holes)</span>
+                        <span className="font-medium">
+                          {scorecardSummary.totalPutts} putts · {scorecardSummary.fairwaysHit}/{scorecardSummary.fairwaysAttempted} FIR · {scorecardSummary.greensInRegulation} GIR
+                        </span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
               
@@ -667,7 +839,7 @@ export default function EnterScoreForm() {
               ) : (
                 <div className="flex items-center gap-1 sm:gap-2">
                   <Check className="h-3 w-3 sm:h-4 sm:w-4" />
-                  Confirm & Submit Score
+                  {offlineRound || !isOnline ? 'Save Score Offline' : 'Confirm & Submit Score'}
                 </div>
               )}
             </Button>
@@ -0,0 +1,123 @@
+'use client'
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Trophy } from 'lucide-react';
+import { FormatResults as FormatResultsData, GAME_FORMATS, GameFormat } from '@/lib/utils/gameFormats';
+
+interface FormatResultsProps {
+  format: GameFormat;
+  results: FormatResultsData;
+  /** Usernames by player id */
+  players: Record<string, string>;
+}
+
+export default function FormatResults({ format, results, players }: FormatResultsProps) {
+  const name = (playerId: string) => players[playerId] || 'Unknown';
+  const { result } = results;
+
+  return (
+    <div className="rounded-lg border border-green-200 bg-green-50 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Trophy className="h-4 w-4 text-green-700" />
+        <h3 className="font-semibold text-green-800">{GAME_FORMATS[format].name} Results</h3>
+      </div>
+
+      {results.error && (
+        <p className="text-sm text-amber-700 flex items-center gap-1">
+          <AlertCircle className="h-4 w-4" />
+          {results.error}
+        </p>
+      )}
+
+      {result?.format === 'stableford' && (
+        <ol className="space-y-1">
+          {result.standings.map((standing, index) => (
+            <li key={standing.playerId} className="flex items-center justify-between text-sm">
+              <span>
+                <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                {name(standing.playerId)}
+              </span>
+              <span className="font-semibold">{standing.points} pts</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {result?.format === 'skins' && (
+        <>
+          <ol className="space-y-1">
+            {result.standings.map(standing => (
+              <li key={standing.playerId} className="flex items-center justify-between text-sm">
+                <span>{name(standing.playerId)}</span>
+                <span className="font-semibold">
+                  {standing.skins} {standing.skins === 1 ? 'skin' : 'skins'}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <div className="flex flex-wrap gap-1">
+            {result.holes.filter(hole => hole.winnerId).map(hole => (
+              <Badge key={hole.holeNumber} variant="secondary" className="text-xs">
+                #{hole.holeNumber} {name(hole.winnerId as string)}
+                {hole.value > 1 && ` ×${hole.value}`}
+              </Badge>
+            ))}
+          </div>
+          {result.carryover > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {result.carryover} {result.carryover === 1 ? 'skin' : 'skins'} left unclaimed
+            </p>
+          )}
+        </>
+      )}
+
+      {result?.format === 'match_play' && (
+        <ul className="space-y-1">
+          {result.matches.map(match => (
+            <li key={match.playerIds.join('-')} className="flex items-center justify-between text-sm gap-2">
+              <span>
+                <span className={match.winnerId === match.playerIds[0] ? 'font-semibold' : ''}>
+                  {name(match.playerIds[0])}
+                </span>
+                <span className="text-muted-foreground mx-1">vs</span>
+                <span className={match.winnerId === match.playerIds[1] ? 'font-semibold' : ''}>
+                  {name(match.playerIds[1])}
+                </span>
+              </span>
+              <span className="text-right">
+                {match.winnerId && match.complete ? `${name(match.winnerId)} wins ${match.result}` : match.result}
+              </span>
+            </li>
+          ))}
+          {result.matches.length === 0 && (
+            <li className="text-sm text-muted-foreground">No match has both scorecards yet.</li>
+          )}
+        </ul>
+      )}
+
+      {result?.format === 'best_ball' && (
+        <ol className="space-y-1">
+          {result.standings.map((team, index) => (
+            <li key={team.playerIds.join('-')} className="flex items-center justify-between text-sm">
+              <span>
+                <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                {team.playerIds.map(name).join(' & ')}
+              </span>
+              <span className="font-semibold">
+                {team.score}
+                <span className="text-xs text-muted-foreground font-normal ml-1">({team.holesPlayed} holes)</span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {results.missingScorecards.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          No scorecard from {results.missingScorecards.map(name).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Activity } from 'lucide-react';
+import { formatHandicap } from '@/lib/utils/handicap';
+
+interface HandicapChartProps {
+  history: Array<{
+    effective_date: string;
+    handicap_index: number | null;
+    rounds_used: number;
+  }>;
+}
+
+export default function HandicapChart({ history }: HandicapChartProps) {
+  // One point per date (the latest recalculation wins), skipping dates before an index existed
+  const byDate = new Map<string, { date: string; handicap: number; roundsUsed: number }>();
+  history.forEach(entry => {
+    if (entry.handicap_index === null) return;
+    byDate.set(entry.effective_date, {
+      date: entry.effective_date,
+      handicap: entry.handicap_index,
+      roundsUsed: entry.rounds_used
+    });
+  });
+
+  const chartData = Array.from(byDate.values()).map(point => ({
+    ...point,
+    displayDate: new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  }));
+
+  if (chartData.length < 2) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Handicap Trend
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-64 text-muted-foreground">
+            <p>Handicap trend appears after your index changes</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const handicaps = chartData.map(point => point.handicap);
+  const yAxisMin = Math.floor(Math.min(...handicaps) - 2);
+  const yAxisMax = Math.ceil(Math.max(...handicaps) + 2);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+
+      return (
+        <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3">
+          <p className="text-xs text-gray-600">{new Date(data.date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}</p>
+          <div className="mt-2 space-y-1">
+            <p className="text-sm">
+              <span className="font-medium">Index:</span> {formatHandicap(data.handicap)}
+            </p>
+            <p className="text-xs text-gray-500">
+              From {data.roundsUsed} {data.roundsUsed === 1 ? 'round' : 'rounds'}
+            </p>
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Handicap Trend
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200" />
+            <XAxis
+              dataKey="displayDate"
+              className="text-xs"
+              tick={{ fontSize: 12 }}
+            />
+            <YAxis
+              domain={[yAxisMin, yAxisMax]}
+              className="text-xs"
+              tick={{ fontSize: 12 }}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Line
+              type="stepAfter"
+              dataKey="handicap"
+              stroke="#2563eb"
+              strokeWidth={2}
+              dot={{ r: 3, fill: '#2563eb', strokeWidth: 2, stroke: '#fff' }}
+              activeDot={{ r: 5 }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
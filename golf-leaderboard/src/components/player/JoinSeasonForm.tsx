@@ -30,6 +30,7 @@ import {
   Camera
 } from 'lucide-react';
 import { joinSeason, getUserSeasons } from '@/lib/supabase/client';
+import { useLeague } from '@/context/LeagueContext';
 import { Badge } from '@/components/ui/badge';
 import QRScanner from '@/components/ui/QRScanner';
 
@@ -42,6 +43,7 @@ type SeasonFormValues = z.infer<typeof seasonFormSchema>;
 
 export default function JoinSeasonForm() {
   const { user } = useUser();
+  const { refreshLeagues } = useLeague();
   const nav = useNavigation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
@@ -107,6 +109,9 @@ export default function JoinSeasonForm() {
       // Try to join the season
       await joinSeason(normalizedCode, user.id);
       
+      // Joining may have added the player to the season's league
+      await refreshLeagues();
+      
       // Update the user's seasons list
       const seasons = await getUserSeasons(user.id);
       setUserSeasons(seasons);
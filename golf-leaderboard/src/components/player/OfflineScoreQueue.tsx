@@ -0,0 +1,150 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, CloudOff, Loader2, RefreshCw, X } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { logger } from '@/lib/logger';
+import {
+  cacheOfflineRounds,
+  getQueuedScores,
+  isOfflineStorageAvailable,
+  QUEUE_CHANGED_EVENT,
+  removeQueuedScore,
+  syncQueuedScores,
+} from '@/lib/offlineQueue';
+import { QueuedScore } from '@/lib/utils/offlineScores';
+import { formatDate } from '@/lib/utils';
+
+/**
+ * Scores entered without signal: syncs them when the connection returns and
+ * shows any the server rejected. Renders nothing while the queue is empty.
+ */
+export default function OfflineScoreQueue() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const isOnline = useOnlineStatus();
+  const [queue, setQueue] = useState<QueuedScore[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    if (!userId || !isOfflineStorageAvailable()) return;
+    try {
+      setQueue(await getQueuedScores(userId));
+    } catch (error) {
+      logger.error('Failed to load offline scores:', error);
+    }
+  }, [userId]);
+
+  const sync = useCallback(async () => {
+    if (!userId || !isOfflineStorageAvailable()) return;
+
+    setIsSyncing(true);
+    try {
+      const { synced, conflicts } = await syncQueuedScores(userId);
+
+      if (synced.length > 0) {
+        toast.success(`${synced.length} offline ${synced.length === 1 ? 'score' : 'scores'} submitted`, {
+          description: synced.map(score => score.gameName).join(', '),
+        });
+      }
+      conflicts.forEach(score => {
+        toast.error(`Score for ${score.gameName} not submitted`, {
+          description: score.conflict,
+        });
+      });
+    } catch (error) {
+      logger.error('Failed to sync offline scores:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [userId]);
+
+  // Keep the list current as scores are queued and synced
+  useEffect(() => {
+    loadQueue();
+    window.addEventListener(QUEUE_CHANGED_EVENT, loadQueue);
+    return () => window.removeEventListener(QUEUE_CHANGED_EVENT, loadQueue);
+  }, [loadQueue]);
+
+  // Back online: refresh the cached rounds and send anything queued
+  useEffect(() => {
+    if (!isOnline || !userId || !isOfflineStorageAvailable()) return;
+
+    cacheOfflineRounds(userId).catch(error => {
+      logger.warn('Failed to cache rounds for offline use:', error);
+    });
+    sync();
+  }, [isOnline, userId, sync]);
+
+  if (queue.length === 0) return null;
+
+  const pendingCount = queue.filter(score => score.status === 'pending').length;
+
+  return (
+    <Card className="mb-6 border-amber-200 bg-amber-50">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <CardTitle className="text-base flex items-center gap-2 text-amber-900">
+            <CloudOff className="h-4 w-4" />
+            Offline Scores
+          </CardTitle>
+          {pendingCount > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={sync}
+              disabled={!isOnline || isSyncing}
+              className="flex items-center gap-1"
+            >
+              {isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              {isOnline ? 'Sync now' : 'Waiting for signal'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {queue.map(score => (
+          <div
+            key={score.id}
+            className="flex items-start justify-between gap-3 rounded-md bg-white p-3 border border-amber-100"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-sm">
+                {score.gameName} <span className="text-gray-500 font-normal">at {score.courseName}</span>
+              </p>
+              <p className="text-xs text-gray-500">
+                Score {score.rawScore} • Entered {formatDate(score.queuedAt)}
+              </p>
+              {score.status === 'conflict' && (
+                <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                  {score.conflict}
+                </p>
+              )}
+            </div>
+            {score.status === 'pending' ? (
+              <Badge variant="secondary" className="flex-shrink-0">Waiting to sync</Badge>
+            ) : (
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Badge variant="destructive">Not submitted</Badge>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeQueuedScore(score.id)}
+                  aria-label="Dismiss"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -29,13 +29,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { getUserRecentScores, getUserSeasonScores, getUserSeasons, getUserAchievements, getUserSeasonRank, updatePlayerHandicap, getAllAchievements } from '@/lib/supabase/client';
+import { getUserRecentScores, getUserSeasonScores, getUserSeasons, getUserAchievements, getUserSeasonRank, updatePlayerHandicap, getAllAchievements, getHandicapHistory } from '@/lib/supabase/client';
 import { useAuth } from '@/context/AuthContext';
 import { formatDate } from '@/lib/utils';
-import { checkAndAwardAchievements } from '@/lib/utils/achievements';
-import { getAchievementProgress, AchievementProgress } from '@/lib/utils/achievementProgress';
+import { checkAndAwardAchievements, AchievementProgress } from '@/lib/utils/achievements';
+import { formatRank } from '@/lib/utils/standings';
 import BadgesDisplay from './BadgesDisplay';
 import ScoreChart from './ScoreChart';
+import HandicapChart from './HandicapChart';
 import PlayerStats from './PlayerStats';
 
 // Form validation schema
@@ -99,9 +100,10 @@ export default function ProfileForm() {
   const [selectedSeason, setSelectedSeason] = useState<string>('all');
   const [userAchievements, setUserAchievements] = useState<UserAchievement[]>([]);
   const [isLoadingAchievements, setIsLoadingAchievements] = useState(true);
-  const [seasonRank, setSeasonRank] = useState<{ rank: number; totalPlayers: number } | null>(null);
+  const [seasonRank, setSeasonRank] = useState<{ rank: number; tied: boolean; totalPlayers: number } | null>(null);
   const [allAchievementsList, setAllAchievementsList] = useState<Achievement[]>([]);
   const [achievementProgress, setAchievementProgress] = useState<Map<string, AchievementProgress>>(new Map());
+  const [handicapHistory, setHandicapHistory] = useState<Awaited<ReturnType<typeof getHandicapHistory>>>([]);
 
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileFormSchema),
@@ -160,26 +162,18 @@ export default function ProfileForm() {
 
       setIsLoadingAchievements(true);
       try {
+        // Award anything newly earned first so it shows in the list below
+        const progress = await checkAndAwardAchievements(
+          selectedSeason !== 'all' ? selectedSeason : undefined
+        );
+        setAchievementProgress(progress);
+
         const [achievements, allAchs] = await Promise.all([
           getUserAchievements(user.id),
           getAllAchievements(),
         ]);
         setUserAchievements(achievements);
         setAllAchievementsList(allAchs);
-
-        // Check for new achievements
-        if (selectedSeason !== 'all') {
-          await checkAndAwardAchievements(user.id, selectedSeason);
-        } else {
-          await checkAndAwardAchievements(user.id);
-        }
-
-        // Load progress
-        const progress = await getAchievementProgress(
-          user.id,
-          selectedSeason !== 'all' ? selectedSeason : undefined
-        );
-        setAchievementProgress(progress);
       } catch (error) {
         logger.error('Error loading achievements:', error);
       } finally {
@@ -202,6 +196,7 @@ export default function ProfileForm() {
           scores = await getUserRecentScores(user.id);
           // Calculate and update handicap when viewing all scores
           await updatePlayerHandicap(user.id);
+          setHandicapHistory(await getHandicapHistory(user.id));
         } else {
           scores = await getUserSeasonScores(user.id, selectedSeason);
         }
@@ -393,7 +388,7 @@ export default function ProfileForm() {
                 <div>
                   <p className="text-xs text-gray-600">Season Rank</p>
                   <p className="text-lg font-bold text-yellow-700">
-                    #{seasonRank.rank} <span className="text-sm font-normal text-gray-600">of {seasonRank.totalPlayers}</span>
+                    {formatRank(seasonRank.rank, seasonRank.tied)} <span className="text-sm font-normal text-gray-600">of {seasonRank.totalPlayers}</span>
                   </p>
                 </div>
               </div>
@@ -542,14 +537,17 @@ export default function ProfileForm() {
           {/* Score Chart & Stats */}
           {!isLoadingScores && recentScores.length > 0 && (
             <div className="space-y-6 mb-6">
-              <ScoreChart
-                scores={recentScores.map(s => ({
-                  date: s.games.game_date,
-                  score: s.raw_score,
-                  par: s.games.courses.par,
-                  courseName: s.games.courses.name,
-                }))}
-              />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ScoreChart
+                  scores={recentScores.map(s => ({
+                    date: s.games.game_date,
+                    score: s.raw_score,
+                    par: s.games.courses.par,
+                    courseName: s.games.courses.name,
+                  }))}
+                />
+                <HandicapChart history={handicapHistory} />
+              </div>
               <PlayerStats scores={recentScores} />
             </div>
           )}
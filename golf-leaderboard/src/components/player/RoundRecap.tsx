@@ -1,22 +1,32 @@
 'use client'
 
 import React from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Trophy, Calendar, Flag, MessageSquare } from 'lucide-react';
+import { Trophy, Calendar, CircleDollarSign, Flag, MessageSquare } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
+import { FormatResults as FormatResultsData, GAME_FORMATS, GameFormat } from '@/lib/utils/gameFormats';
+import FormatResults from './FormatResults';
 
 interface RoundRecapProps {
   recap: {
     game: {
+      id?: string;
+      season_id?: string;
       name: string;
-      game_date: string
+      game_date: string;
+      format?: GameFormat;
     };
     course: {
       name: string;
       par: number
     };
+    formatResults?: FormatResultsData | null;
+    /** Number of side games in the round */
+    sideGames?: number;
     scores: Array<{
+      playerId?: string;
       player: {
         username: string;
         profile_image_url: string | null
@@ -32,6 +42,10 @@ interface RoundRecapProps {
 export default function RoundRecap({ recap }: RoundRecapProps) {
   const sortedScores = [...recap.scores].sort((a, b) => a.score - b.score);
   const winningScore = sortedScores[0]?.score;
+  const format = recap.game.format ?? 'stroke';
+  const usernames = Object.fromEntries(
+    recap.scores.filter(s => s.playerId).map(s => [s.playerId as string, s.player.username])
+  );
 
   const getScoreDiff = (score: number) => {
     const diff = score - recap.course.par;
@@ -63,10 +77,30 @@ export default function RoundRecap({ recap }: RoundRecapProps) {
               </div>
             </div>
           </div>
+          <div className="flex items-center gap-2">
+            {format !== 'stroke' && (
+              <Badge variant="outline">{GAME_FORMATS[format].name}</Badge>
+            )}
+            {!!recap.sideGames && recap.game.id && recap.game.season_id && (
+              <Link
+                href={`/side-games?season=${recap.game.season_id}&game=${recap.game.id}`}
+                className="flex items-center gap-1 text-sm text-green-700 hover:underline"
+              >
+                <CircleDollarSign className="h-4 w-4" />
+                Side games
+              </Link>
+            )}
+          </div>
         </div>
       </CardHeader>
 
       <CardContent>
+        {format !== 'stroke' && recap.formatResults && (
+          <div className="mb-4">
+            <FormatResults format={format} results={recap.formatResults} players={usernames} />
+          </div>
+        )}
+
         <div className="space-y-2">
           {sortedScores.map((scoreEntry, index) => {
             const isWinner = scoreEntry.score === winningScore;
@@ -102,7 +136,7 @@ export default function RoundRecap({ recap }: RoundRecapProps) {
                         </span>
                         {isWinner && (
                           <Badge variant="default" className="bg-yellow-500 hover:bg-yellow-600 text-xs">
-                            Winner
+                            {format === 'stroke' ? 'Winner' : 'Low Gross'}
                           </Badge>
                         )}
                       </div>
@@ -0,0 +1,191 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useUser } from '@/hooks/useUser';
+import { useNavigation } from '@/hooks/useNavigation';
+import { useLeague } from '@/context/LeagueContext';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, CalendarDays, CalendarPlus, Flag, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { getSeasonSchedule, setGameRsvp } from '@/lib/supabase/client';
+import { formatDate } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { RSVP_STATUSES, RsvpStatus } from '@/lib/utils/rsvps';
+import CalendarFeedDialog from '@/components/player/CalendarFeedDialog';
+
+const RSVP_STYLES: Record<RsvpStatus, string> = {
+  in: 'bg-green-600 hover:bg-green-700 text-white border-green-600',
+  maybe: 'bg-amber-500 hover:bg-amber-600 text-white border-amber-500',
+  out: 'bg-gray-500 hover:bg-gray-600 text-white border-gray-500',
+};
+
+type ScheduledGame = Awaited<ReturnType<typeof getSeasonSchedule>>[number];
+
+/**
+ * Upcoming rounds in the player's seasons, grouped by month, with an RSVP for each
+ */
+export default function ScheduleView() {
+  const { user } = useUser();
+  const { currentLeague } = useLeague();
+  const nav = useNavigation();
+  const [games, setGames] = useState<ScheduledGame[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [subscribeOpen, setSubscribeOpen] = useState(false);
+
+  const loadSchedule = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      setGames(await getSeasonSchedule(user.id, currentLeague?.id));
+    } catch (error) {
+      logger.error('Error loading schedule:', error);
+      toast.error('Failed to load the schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, currentLeague?.id]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const handleRsvp = async (game: ScheduledGame, status: RsvpStatus) => {
+    if (game.myRsvp === status) return;
+
+    setSavingId(game.id);
+    try {
+      await setGameRsvp(game.id, status);
+      await loadSchedule();
+    } catch (error) {
+      logger.error('Error saving RSVP:', error);
+      toast.error('Failed to save your RSVP', {
+        description: (error as { message?: string }).message || 'Please try again.',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Rounds by month, in date order
+  const months = games.reduce<Array<{ label: string; games: ScheduledGame[] }>>((groups, game) => {
+    const label = new Date(`${game.game_date}T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    const last = groups[groups.length - 1];
+    if (last?.label === label) {
+      last.games.push(game);
+    } else {
+      groups.push({ label, games: [game] });
+    }
+    return groups;
+  }, []);
+
+  return (
+    <Card className="w-full shadow-sm">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-3 sm:space-y-0 pb-4">
+        <div>
+          <CardTitle className="text-xl sm:text-2xl text-green-700 flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Schedule
+          </CardTitle>
+          <CardDescription className="text-sm mt-1">
+            Upcoming rounds in your seasons. Let everyone know if you&apos;re playing.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2 self-start sm:self-center">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSubscribeOpen(true)}
+            disabled={!user}
+          >
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Subscribe
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={nav.goToDashboard}
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="px-3 sm:px-6">
+        {loading ? (
+          <div className="space-y-3">
+            {Array(3).fill(0).map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : games.length === 0 ? (
+          <div className="text-center py-8 px-4">
+            <CalendarDays className="h-12 w-12 mx-auto text-gray-300 mb-3" />
+            <p className="text-gray-500">No upcoming rounds have been scheduled yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {months.map(month => (
+              <div key={month.label} className="space-y-3">
+                <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">{month.label}</h3>
+                {month.games.map(game => (
+                  <div key={game.id} className="rounded-lg border p-4 space-y-3">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-gray-800">{game.name}</p>
+                        <p className="text-sm text-gray-500 flex items-center gap-3">
+                          <span className="inline-flex items-center gap-1">
+                            <CalendarDays className="h-3.5 w-3.5" />
+                            {formatDate(game.game_date)}
+                          </span>
+                          <span className="inline-flex items-center gap-1">
+                            <MapPin className="h-3.5 w-3.5" />
+                            {game.course_name}
+                          </span>
+                          <span className="hidden sm:inline-flex items-center gap-1">
+                            <Flag className="h-3.5 w-3.5" />
+                            {game.season_name}
+                          </span>
+                        </p>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {game.counts.in} in &middot; {game.counts.maybe} maybe &middot; {game.counts.out} out
+                      </p>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(RSVP_STATUSES) as RsvpStatus[]).map(status => (
+                        <Button
+                          key={status}
+                          size="sm"
+                          variant="outline"
+                          className={game.myRsvp === status ? RSVP_STYLES[status] : ''}
+                          onClick={() => handleRsvp(game, status)}
+                          disabled={savingId === game.id}
+                        >
+                          {RSVP_STATUSES[status]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {user && (
+        <CalendarFeedDialog userId={user.id} open={subscribeOpen} onOpenChange={setSubscribeOpen} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+'use client'
+// src/components/player/ScoreDisputeDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertCircle, Flag } from 'lucide-react';
+import { toast } from 'sonner';
+import { openScoreDispute } from '@/lib/supabase/client';
+import { logger } from '@/lib/logger';
+import {
+  disputeKindFor,
+  DISPUTE_KINDS,
+  MAX_DISPUTED_SCORE,
+  MIN_DISPUTED_SCORE,
+  validateDisputeRequest,
+} from '@/lib/utils/disputes';
+
+interface ScoreDisputeDialogProps {
+  score: {
+    id: string;
+    playerId: string;
+    username: string;
+    rawScore: number;
+  } | null;
+  userId: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+/**
+ * Ask an admin to change a submitted score
+ * On your own score this is a correction request; on a playing partner's it's a dispute
+ */
+export default function ScoreDisputeDialog({ score, userId, onOpenChange, onSubmitted }: ScoreDisputeDialogProps) {
+  const [proposedScore, setProposedScore] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setProposedScore('');
+    setReason('');
+    setError(null);
+  }, [score?.id]);
+
+  const isOwnScore = score ? disputeKindFor(score.playerId, userId) === 'correction' : false;
+
+  const handleSubmit = async () => {
+    if (!score) return;
+
+    const proposed = proposedScore.trim() === '' ? null : Number(proposedScore);
+    const validationError = validateDisputeRequest({
+      currentScore: score.rawScore,
+      proposedScore: proposed,
+      reason,
+    });
+
+    if (validationError || proposed === null) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await openScoreDispute(score.id, proposed, reason.trim());
+      toast.success(`${DISPUTE_KINDS[disputeKindFor(score.playerId, userId)]} sent`, {
+        description: 'An admin will review it. The score stays as it is until then.',
+      });
+      onSubmitted();
+      onOpenChange(false);
+    } catch (err) {
+      logger.error('Error opening score dispute:', err);
+      // The server explains refusals, e.g. an already open request
+      setError((err as { message?: string }).message || 'Failed to send the request');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!score} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-green-600" />
+            {isOwnScore ? 'Request a Correction' : `Dispute ${score?.username}'s Score`}
+          </DialogTitle>
+          <DialogDescription>
+            {isOwnScore
+              ? 'Submitted scores can only be changed by an admin. Tell them what the score should be and why.'
+              : 'Think a playing partner\'s score is wrong? Tell an admin what it should be and why.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Current Score</Label>
+              <div className="h-9 flex items-center font-semibold">{score?.rawScore}</div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposedScore">Correct Score</Label>
+              <Input
+                id="proposedScore"
+                type="number"
+                min={MIN_DISPUTED_SCORE}
+                max={MAX_DISPUTED_SCORE}
+                value={proposedScore}
+                onChange={(e) => {
+                  setProposedScore(e.target.value);
+                  if (error) setError(null);
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="disputeReason">Reason</Label>
+            <Textarea
+              id="disputeReason"
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                if (error) setError(null);
+              }}
+              placeholder="e.g. Wrote down a 6 on the 14th, it was a 4"
+              rows={3}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-500 font-medium">
+              <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Sending...' : 'Send Request'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+// src/components/player/ScorecardEntry.tsx
+'use client'
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  createEmptyScorecard,
+  HoleCount,
+  HoleScore,
+  SCORECARD_HOLE_COUNTS,
+  scorecardRawScore,
+  summarizeScorecard,
+} from '@/lib/utils/scorecard';
+
+interface ScorecardEntryProps {
+  holes: HoleScore[];
+  onChange: (holes: HoleScore[]) => void;
+  disabled?: boolean;
+}
+
+const parseNumber = (value: string): number | null => {
+  const parsed = parseInt(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+export default function ScorecardEntry({ holes, onChange, disabled = false }: ScorecardEntryProps) {
+  const holeCount = holes.length as HoleCount;
+  const summary = summarizeScorecard(holes);
+  const rawScore = scorecardRawScore(holes);
+
+  const updateHole = (holeNumber: number, changes: Partial<HoleScore>) => {
+    onChange(holes.map(hole => (hole.holeNumber === holeNumber ? { ...hole, ...changes } : hole)));
+  };
+
+  const switchHoleCount = (count: HoleCount) => {
+    if (count === holeCount) return;
+    // Keep whatever was already entered for holes that still exist
+    onChange(
+      createEmptyScorecard(count).map(
+        blank => holes.find(hole => hole.holeNumber === blank.holeNumber) ?? blank
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          {SCORECARD_HOLE_COUNTS.map(count => (
+            <Button
+              key={count}
+              type="button"
+              size="sm"
+              variant={holeCount === count ? 'default' : 'outline'}
+              onClick={() => switchHoleCount(count)}
+              disabled={disabled}
+              className={holeCount === count ? 'bg-green-600 hover:bg-green-700' : ''}
+            >
+              {count} holes
+            </Button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-600">
+          {summary.holesCompleted}/{holeCount} holes entered
+        </p>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto max-h-[420px] overflow-y-auto bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12 text-center">Hole</TableHead>
+              <TableHead className="text-center">Strokes</TableHead>
+              <TableHead className="text-center">Putts</TableHead>
+              <TableHead className="text-center">Fairway</TableHead>
+              <TableHead className="text-center">GIR</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {holes.map(hole => (
+              <TableRow key={hole.holeNumber}>
+                <TableCell className="text-center font-medium">{hole.holeNumber}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    min="1"
+                    max="20"
+                    value={hole.strokes ?? ''}
+                    onChange={(e) => updateHole(hole.holeNumber, { strokes: parseNumber(e.target.value) })}
+                    disabled={disabled}
+                    aria-label={`Hole ${hole.holeNumber} strokes`}
+                    className="h-8 w-16 mx-auto text-center"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    min="0"
+                    max="10"
+                    value={hole.putts ?? ''}
+                    onChange={(e) => updateHole(hole.holeNumber, { putts: parseNumber(e.target.value) })}
+                    disabled={disabled}
+                    aria-label={`Hole ${hole.holeNumber} putts`}
+                    className="h-8 w-16 mx-auto text-center"
+                  />
+                </TableCell>
+                <TableCell className="text-center">
+                  <input
+                    type="checkbox"
+                    checked={hole.fairwayHit === true}
+                    onChange={(e) => updateHole(hole.holeNumber, { fairwayHit: e.target.checked })}
+                    disabled={disabled}
+                    aria-label={`Hole ${hole.holeNumber} fairway hit`}
+                    className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  />
+                </TableCell>
+                <TableCell className="text-center">
+                  <input
+                    type="checkbox"
+                    checked={hole.greenInRegulation === true}
+                    onChange={(e) => updateHole(hole.holeNumber, { greenInRegulation: e.target.checked })}
+                    disabled={disabled}
+                    aria-label={`Hole ${hole.holeNumber} green in regulation`}
+                    className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell className="text-center font-semibold">Total</TableCell>
+              <TableCell className="text-center font-semibold">{summary.totalStrokes}</TableCell>
+              <TableCell className="text-center font-semibold">{summary.totalPutts}</TableCell>
+              <TableCell className="text-center font-semibold">{summary.fairwaysHit}</TableCell>
+              <TableCell className="text-center font-semibold">{summary.greensInRegulation}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between bg-green-50 p-3 rounded-lg">
+        <span className="text-sm text-green-800 font-medium">Score for this round</span>
+        <span className="text-2xl font-bold text-green-700">{rawScore ?? '-'}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Clock } from 'lucide-react';
+import { getGameTeeGroups } from '@/lib/supabase/client';
+
+interface TeeSheetProps {
+  groups: Awaited<ReturnType<typeof getGameTeeGroups>>;
+  /** Highlights this player's group */
+  playerId?: string;
+  /** Submitted gross scores by player id */
+  scores?: Record<string, number>;
+}
+
+// "08:10" in the viewer's clock, e.g. "8:10 AM"
+const formatTeeTime = (teeTime: string) =>
+  new Date(`1970-01-01T${teeTime}:00`).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * A round's tee-time groups, in tee order
+ */
+export default function TeeSheet({ groups, playerId, scores = {} }: TeeSheetProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Clock className="h-4 w-4 text-green-600" />
+          Tee Times
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-3 sm:grid-cols-2">
+          {groups.map(group => {
+            const isMine = !!playerId && group.playerIds.includes(playerId);
+            return (
+              <div
+                key={group.id}
+                className={`rounded-lg border p-3 ${isMine ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-gray-800">Group {group.groupNumber}</span>
+                  <span className="flex items-center gap-2">
+                    {isMine && (
+                      <Badge variant="outline" className="border-green-300 text-green-800">Your group</Badge>
+                    )}
+                    {group.teeTime && (
+                      <span className="text-sm text-gray-600">{formatTeeTime(group.teeTime)}</span>
+                    )}
+                  </span>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {group.players.map(player => (
+                    <li key={player.playerId} className="flex items-center justify-between">
+                      <span>
+                        {player.username}
+                        {player.handicap !== null && (
+                          <span className="text-xs text-gray-500 ml-1">({player.handicap.toFixed(1)})</span>
+                        )}
+                      </span>
+                      {scores[player.playerId] !== undefined && (
+                        <span className="font-semibold">{scores[player.playerId]}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
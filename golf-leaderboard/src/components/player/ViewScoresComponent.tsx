@@ -28,14 +28,26 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { ArrowLeft, AlertCircle, ChevronDown, Calendar, Flag, ClipboardCheck } from 'lucide-react';
+import { ArrowLeft, AlertCircle, ChevronDown, Calendar, Flag, ClipboardCheck, MessageSquareWarning, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
 import {
   getGameScores,
   validateRoundCode,
   getRoundRecap,
+  getMyScoreDisputes,
+  withdrawScoreDispute,
+  getGameAttestations,
+  attestScore,
+  getGameTeeGroups,
 } from '@/lib/supabase/client';
 import { formatDate } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+import { describePlayerFormatResult, GAME_FORMATS, GameFormat } from '@/lib/utils/gameFormats';
+import { DISPUTE_STATUSES, latestDisputeByScore, ScoreDispute } from '@/lib/utils/disputes';
+import { arePlayingPartners } from '@/lib/utils/teeGroups';
 import RoundRecap from './RoundRecap';
+import ScoreDisputeDialog from './ScoreDisputeDialog';
+import TeeSheet from './TeeSheet';
 
 // Types
 interface ScoreWithPlayer {
@@ -56,6 +68,7 @@ interface GameWithCourse {
   id: string;
   name: string;
   game_date: string;
+  format: string;
   courses: {
     id: string;
     name: string;
@@ -73,8 +86,11 @@ export default function ViewScoresComponent() {
   const [codeError, setCodeError] = useState<string | null>(null);
   const [formattedDates, setFormattedDates] = useState<Record<string, string>>({});
   const [expandedNotes, setExpandedNotes] = useState<string | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const [roundRecap, setRoundRecap] = useState<any>(null);
+  const [roundRecap, setRoundRecap] = useState<Awaited<ReturnType<typeof getRoundRecap>> | null>(null);
+  const [myDisputes, setMyDisputes] = useState<Map<string, ScoreDispute>>(new Map());
+  const [disputeScore, setDisputeScore] = useState<ScoreWithPlayer | null>(null);
+  const [attestations, setAttestations] = useState<Awaited<ReturnType<typeof getGameAttestations>> | null>(null);
+  const [teeGroups, setTeeGroups] = useState<Awaited<ReturnType<typeof getGameTeeGroups>>>([]);
 
   // Use mobile detection hook (replaces duplicate logic)
   const isMobile = useIsMobile();
@@ -113,6 +129,7 @@ export default function ViewScoresComponent() {
       // Validate the round code and get game details
       const game = await validateRoundCode(formattedCode);
       setSelectedGame(game);
+      setRoundRecap(null);
       
       // Load scores for this game
       const scores = await getGameScores(game.id);
@@ -135,6 +152,7 @@ export default function ViewScoresComponent() {
         }));
       
       setGameScores(validScores);
+      await Promise.all([loadMyDisputes(game.id), loadAttestations(game.id), loadTeeGroups(game.id)]);
 
       // Load round recap
       try {
@@ -163,11 +181,153 @@ export default function ViewScoresComponent() {
       // Clear any previously set game details and scores
       setSelectedGame(null);
       setGameScores([]);
+      setAttestations(null);
+      setTeeGroups([]);
     } finally {
       setIsValidatingCode(false);
     }
   };
 
+  // The player's own change requests for this round, latest per score
+  const loadMyDisputes = async (gameId: string) => {
+    if (!user) return;
+    try {
+      setMyDisputes(latestDisputeByScore(await getMyScoreDisputes(user.id, gameId)));
+    } catch (error) {
+      logger.error('Error loading score disputes:', error);
+      setMyDisputes(new Map());
+    }
+  };
+
+  // Attestation only matters when the round's season requires it
+  const loadAttestations = async (gameId: string) => {
+    try {
+      setAttestations(await getGameAttestations(gameId));
+    } catch (error) {
+      logger.error('Error loading score attestations:', error);
+      setAttestations(null);
+    }
+  };
+
+  // Tee-time groups, when the round has them
+  const loadTeeGroups = async (gameId: string) => {
+    try {
+      setTeeGroups(await getGameTeeGroups(gameId));
+    } catch (error) {
+      logger.error('Error loading tee groups:', error);
+      setTeeGroups([]);
+    }
+  };
+
+  const handleAttest = async (score: ScoreWithPlayer) => {
+    try {
+      await attestScore(score.id);
+      toast.success(`Attested ${score.profiles.username}'s score`);
+      await loadAttestations(selectedGame?.id ?? '');
+    } catch (error) {
+      logger.error('Error attesting score:', error);
+      toast.error('Failed to attest the score', {
+        description: (error as { message?: string }).message || 'Please try again.',
+      });
+    }
+  };
+
+  const isProvisional = (score: ScoreWithPlayer) =>
+    !!attestations?.required && !attestations.attestedBy.has(score.id);
+
+  const handleWithdraw = async (dispute: ScoreDispute) => {
+    try {
+      await withdrawScoreDispute(dispute.id);
+      toast.success('Request withdrawn');
+      await loadMyDisputes(dispute.gameId);
+    } catch (error) {
+      logger.error('Error withdrawing score dispute:', error);
+      toast.error('Failed to withdraw the request');
+    }
+  };
+
+  // Only players with a score in the round can dispute its scores
+  const canRequestChanges = !!user && gameScores.some(score => score.player_id === user.id);
+
+  // Provisional scores don't count toward the standings until a playing partner attests them
+  const renderAttestation = (score: ScoreWithPlayer) => {
+    if (!isProvisional(score)) return null;
+
+    return (
+      <span className="inline-flex items-center gap-1">
+        <Badge variant="outline" className="bg-sky-50 text-sky-700 border-sky-200">
+          Provisional
+        </Badge>
+        {canRequestChanges && score.player_id !== user?.id && arePlayingPartners(teeGroups, score.player_id, user!.id) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs text-sky-700"
+            onClick={() => handleAttest(score)}
+          >
+            <ShieldCheck className="h-3 w-3 mr-1" />
+            Attest
+          </Button>
+        )}
+      </span>
+    );
+  };
+
+  // Status of the player's latest request on a score, or the button to open one
+  const renderDisputeAction = (score: ScoreWithPlayer) => {
+    if (!canRequestChanges) return null;
+
+    const dispute = myDisputes.get(score.id);
+    if (dispute?.status === 'open') {
+      return (
+        <span className="inline-flex items-center gap-1">
+          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+            {DISPUTE_STATUSES.open}: {dispute.proposedScore}
+          </Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs text-gray-500"
+            onClick={() => handleWithdraw(dispute)}
+          >
+            Withdraw
+          </Button>
+        </span>
+      );
+    }
+
+    return (
+      <span className="inline-flex items-center gap-1">
+        {dispute && dispute.status !== 'withdrawn' && (
+          <Badge
+            variant="outline"
+            className={dispute.status === 'approved'
+              ? 'bg-green-50 text-green-700 border-green-200'
+              : 'bg-gray-50 text-gray-700 border-gray-200'}
+            title={dispute.resolutionNote ?? undefined}
+          >
+            {DISPUTE_STATUSES[dispute.status]}
+          </Badge>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-xs text-gray-500"
+          onClick={() => setDisputeScore(score)}
+        >
+          <MessageSquareWarning className="h-3 w-3 mr-1" />
+          {score.player_id === user?.id ? 'Request correction' : 'Dispute'}
+        </Button>
+      </span>
+    );
+  };
+
+  // Per-player result under the game's format (not shown for stroke play)
+  const format = (selectedGame?.format ?? 'stroke') as GameFormat;
+  const showFormatResult = format !== 'stroke';
+  const getFormatResult = (playerId: string) =>
+    describePlayerFormatResult(roundRecap?.formatResults?.result ?? null, playerId) ?? '—';
+
   // Toggle expanded notes
   const toggleNotes = (scoreId: string) => {
     if (expandedNotes === scoreId) {
@@ -226,12 +386,22 @@ export default function ViewScoresComponent() {
               </div>
             </div>
             
+            {showFormatResult && (
+              <div className="flex items-center justify-between text-sm bg-gray-50 p-2 rounded">
+                <span className="text-gray-500">{GAME_FORMATS[format].name}</span>
+                <span className="font-medium">{getFormatResult(score.player_id)}</span>
+              </div>
+            )}
+
             {score.bonus_points > 0 && (
               <Badge className="bg-green-100 text-green-800 border-green-200 mt-1">
                 +{score.bonus_points} Bonus Point
               </Badge>
             )}
             
+            {renderAttestation(score)}
+            {renderDisputeAction(score)}
+
             {score.notes && (
               <Collapsible>
                 <CollapsibleTrigger asChild>
@@ -324,7 +494,14 @@ export default function ViewScoresComponent() {
             {/* Game details if loaded */}
             {selectedGame && (
               <div className="rounded-md bg-green-50 p-3 border border-green-200">
-                <h3 className="font-semibold text-green-800">{selectedGame.name}</h3>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <h3 className="font-semibold text-green-800">{selectedGame.name}</h3>
+                  {showFormatResult && (
+                    <Badge variant="outline" className="border-green-300 text-green-800">
+                      {GAME_FORMATS[format].name}
+                    </Badge>
+                  )}
+                </div>
                 <div className="flex flex-col sm:flex-row sm:gap-4 mt-1">
                   <p className="text-sm text-green-700 flex items-center">
                     <Flag className="h-3.5 w-3.5 mr-1" />
@@ -335,8 +512,22 @@ export default function ViewScoresComponent() {
                     {formattedDates.gameDate || 'Loading...'}
                   </p>
                 </div>
+                {attestations?.required && (
+                  <p className="text-xs text-green-700 mt-2">
+                    Scores in this season count once another player from the {teeGroups.length > 0 ? 'group' : 'round'} attests them.
+                  </p>
+                )}
               </div>
             )}
+
+            {/* Tee times */}
+            {selectedGame && teeGroups.length > 0 && (
+              <TeeSheet
+                groups={teeGroups}
+                playerId={user?.id}
+                scores={Object.fromEntries(gameScores.map(score => [score.player_id, score.raw_score]))}
+              />
+            )}
             
             {/* Round Recap */}
             {roundRecap && roundRecap.scores.length > 0 && (
@@ -369,13 +560,16 @@ export default function ViewScoresComponent() {
                           <TableHead className="text-right">Points</TableHead>
                           <TableHead className="text-right">Bonus</TableHead>
                           <TableHead className="text-right">Total</TableHead>
+                          {showFormatResult && (
+                            <TableHead className="text-right">{GAME_FORMATS[format].name}</TableHead>
+                          )}
                           <TableHead className="text-right">Submitted</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {gameScores.length === 0 ? (
                           <TableRow>
-                            <TableCell colSpan={6} className="h-24 text-center">
+                            <TableCell colSpan={showFormatResult ? 7 : 6} className="h-24 text-center">
                               No scores have been submitted for this round yet.
                             </TableCell>
                           </TableRow>
@@ -395,6 +589,10 @@ export default function ViewScoresComponent() {
                                     Notes
                                   </Button>
                                 )}
+                                <div>
+                                  {renderAttestation(score)}
+                                  {renderDisputeAction(score)}
+                                </div>
                               </TableCell>
                               <TableCell className="text-right">
                                 {score.raw_score}
@@ -408,6 +606,11 @@ export default function ViewScoresComponent() {
                               <TableCell className="text-right font-semibold">
                                 {score.points + score.bonus_points}
                               </TableCell>
+                              {showFormatResult && (
+                                <TableCell className="text-right">
+                                  {getFormatResult(score.player_id)}
+                                </TableCell>
+                              )}
                               <TableCell className="text-right text-gray-500 text-sm">
                                 {formattedDates[score.id] || 'Loading...'}
                               </TableCell>
@@ -447,6 +650,20 @@ export default function ViewScoresComponent() {
           </div>
         </CardContent>
       </Card>
+
+      {user && (
+        <ScoreDisputeDialog
+          score={disputeScore && {
+            id: disputeScore.id,
+            playerId: disputeScore.player_id,
+            username: disputeScore.profiles.username,
+            rawScore: disputeScore.raw_score,
+          }}
+          userId={user.id}
+          onOpenChange={(open) => { if (!open) setDisputeScore(null); }}
+          onSubmitted={() => { if (selectedGame) loadMyDisputes(selectedGame.id); }}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
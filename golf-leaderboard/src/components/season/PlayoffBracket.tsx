@@ -0,0 +1,187 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getSeasonPlayoffs } from '@/lib/supabase/client'
+import {
+  BracketMatch,
+  buildBracket,
+  PLAYOFF_FORMATS,
+  PlayoffSeed,
+  pointsResetStandings,
+} from '@/lib/utils/playoffs'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Crown, Loader2, Swords } from 'lucide-react'
+
+type PlayoffData = Awaited<ReturnType<typeof getSeasonPlayoffs>>
+
+interface PlayoffBracketProps {
+  seasonId: string
+  seasonName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function MatchSlot({ seed, score, isWinner, isBye }: {
+  seed: PlayoffSeed | null
+  score: number | null
+  isWinner: boolean
+  isBye: boolean
+}) {
+  return (
+    <div className={`flex items-center justify-between gap-2 px-2 py-1 text-sm ${isWinner ? 'font-semibold text-green-700' : 'text-gray-700'}`}>
+      <span className="truncate">
+        {seed ? (
+          <>
+            <span className="text-xs text-gray-400 mr-1">{seed.seed}</span>
+            {seed.username}
+          </>
+        ) : (
+          <span className="italic text-gray-400">{isBye ? 'Bye' : 'TBD'}</span>
+        )}
+      </span>
+      {score !== null && <span>{score}</span>}
+    </div>
+  )
+}
+
+function MatchCard({ match, isFirstRound }: { match: BracketMatch; isFirstRound: boolean }) {
+  const winnerId = match.winner?.playerId
+  return (
+    <div className="rounded-md border bg-white divide-y">
+      <MatchSlot
+        seed={match.top}
+        score={match.topScore}
+        isWinner={!!winnerId && winnerId === match.top?.playerId}
+        isBye={isFirstRound}
+      />
+      <MatchSlot
+        seed={match.bottom}
+        score={match.bottomScore}
+        isWinner={!!winnerId && winnerId === match.bottom?.playerId}
+        isBye={isFirstRound}
+      />
+    </div>
+  )
+}
+
+export default function PlayoffBracket({ seasonId, seasonName, open, onOpenChange }: PlayoffBracketProps) {
+  const [data, setData] = useState<PlayoffData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open || !seasonId) return
+
+    setLoading(true)
+    setError(null)
+    getSeasonPlayoffs(seasonId)
+      .then(setData)
+      .catch((err) => {
+        console.error('Failed to load playoffs:', err)
+        setError('Failed to load playoffs')
+      })
+      .finally(() => setLoading(false))
+  }, [open, seasonId])
+
+  const format = data?.season.playoff_format
+  const formatInfo = format && format !== 'none' ? PLAYOFF_FORMATS[format] : null
+  const champion = data?.season.playoff_status === 'completed'
+    ? data.seeds.find(seed => seed.playerId === data.season.playoff_champion_id)
+    : undefined
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Swords className="h-6 w-6 text-green-600" />
+            Playoffs — {seasonName}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-green-600" />
+          </div>
+        )}
+
+        {error && <p className="text-red-600 text-center py-4">{error}</p>}
+
+        {data && !loading && (
+          data.seeds.length === 0 || !formatInfo ? (
+            <p className="text-gray-500 text-center py-8">The playoffs haven&apos;t been seeded yet.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 flex-wrap text-sm text-gray-600">
+                <Badge variant="outline">{formatInfo.name}</Badge>
+                <span>{formatInfo.description}</span>
+              </div>
+
+              {champion && (
+                <div className="flex items-center gap-3 p-3 rounded-lg border text-amber-700 bg-amber-50 border-amber-300">
+                  <Crown className="h-6 w-6 flex-shrink-0" />
+                  <div>
+                    <p className="text-xs font-medium opacity-75">Playoff Champion</p>
+                    <p className="font-semibold">{champion.username}</p>
+                  </div>
+                </div>
+              )}
+
+              {format === 'bracket' ? (
+                <div className="flex gap-4 overflow-x-auto pb-2">
+                  {buildBracket(data.seeds, data.scores, data.completedRounds).map(round => (
+                    <div key={round.round} className="min-w-[180px] flex-1 space-y-3">
+                      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{round.name}</p>
+                      <div className="flex flex-col justify-around gap-3 h-full">
+                        {round.matches.map((match, index) => (
+                          <MatchCard key={index} match={match} isFirstRound={round.round === 1} />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="rounded-md border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Seed</th>
+                        <th className="px-3 py-2 text-left">Player</th>
+                        <th className="px-3 py-2 text-right">Start</th>
+                        <th className="px-3 py-2 text-right">Playoff</th>
+                        <th className="px-3 py-2 text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pointsResetStandings(data.seeds, data.scores).map(row => (
+                        <tr key={row.playerId} className="border-t">
+                          <td className="px-3 py-2 text-gray-500">{row.seed}</td>
+                          <td className="px-3 py-2 font-medium">{row.username}</td>
+                          <td className="px-3 py-2 text-right">{row.startingPoints}</td>
+                          <td className="px-3 py-2 text-right">{row.playoffPoints}</td>
+                          <td className="px-3 py-2 text-right font-semibold">{row.totalPoints}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                {data.games.length === 0
+                  ? 'No playoff games have been scheduled yet.'
+                  : `${data.games.length} playoff ${data.games.length === 1 ? 'game' : 'games'} played or scheduled.`}
+              </p>
+            </div>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,7 +8,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Trophy, TrendingUp, Target, Award, Loader2, Users, Flag } from 'lucide-react'
+import { Trophy, TrendingUp, Target, Award, Loader2, Users, Flag, Crown } from 'lucide-react'
 
 interface SeasonSummaryProps {
   seasonId: string
@@ -38,7 +38,11 @@ export default function SeasonSummary({ seasonId, seasonName, open, onOpenChange
 
   const awards = data
     ? [
-        { icon: Trophy, label: 'MVP (Most Points)', player: data.mvp, color: 'text-yellow-600 bg-yellow-50 border-yellow-200' },
+        // Only seasons with finished playoffs have a champion to show
+        ...(data.playoffChampion
+          ? [{ icon: Crown, label: 'Playoff Champion', player: data.playoffChampion, color: 'text-amber-700 bg-amber-50 border-amber-300' }]
+          : []),
+        { icon: Trophy, label: data.playoffChampion ? 'Regular Season MVP (Most Points)' : 'MVP (Most Points)', player: data.mvp, color: 'text-yellow-600 bg-yellow-50 border-yellow-200' },
         { icon: TrendingUp, label: 'Most Improved', player: data.mostImproved, color: 'text-blue-600 bg-blue-50 border-blue-200' },
         { icon: Target, label: 'Most Consistent', player: data.mostConsistent, color: 'text-purple-600 bg-purple-50 border-purple-200' },
         { icon: Award, label: 'Best Single Round', player: data.bestRound, color: 'text-green-600 bg-green-50 border-green-200' },
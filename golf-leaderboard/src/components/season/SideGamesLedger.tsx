@@ -0,0 +1,239 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ArrowLeft, ArrowRight, CircleDollarSign } from 'lucide-react'
+import { toast } from 'sonner'
+import { getSideGameLedger, getUserSeasons } from '@/lib/supabase/client'
+import { useUser } from '@/hooks/useUser'
+import { useNavigation } from '@/hooks/useNavigation'
+import { formatDate } from '@/lib/utils'
+import { logger } from '@/lib/logger'
+import { formatMoney, SIDE_GAME_KINDS, SideGameStatus, toCents } from '@/lib/utils/sideGames'
+
+type Ledger = Awaited<ReturnType<typeof getSideGameLedger>>
+type Season = Awaited<ReturnType<typeof getUserSeasons>>[number]
+
+const STATUS_LABELS: Record<SideGameStatus, string> = {
+  settled: 'Settled',
+  pending: 'Awaiting winner',
+  refunded: 'Refunded',
+}
+
+const netClass = (cents: number) =>
+  cents > 0 ? 'text-green-700' : cents < 0 ? 'text-red-600' : 'text-gray-500'
+
+/**
+ * A season's side games: every contest with its payouts, each player's net
+ * winnings, and who pays whom to square up. ?season= picks the season;
+ * ?player= and ?game= highlight a player or round linked from elsewhere
+ */
+export default function SideGamesLedger() {
+  const { user } = useUser()
+  const nav = useNavigation()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [seasons, setSeasons] = useState<Season[]>([])
+  const [ledger, setLedger] = useState<Ledger | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const playerId = searchParams.get('player')
+  const highlightGameId = searchParams.get('game')
+  const seasonId = searchParams.get('season')
+    ?? seasons.find(season => season.isActive)?.id
+    ?? seasons[0]?.id
+    ?? null
+
+  useEffect(() => {
+    if (!user) return
+    getUserSeasons(user.id)
+      .then(setSeasons)
+      .catch(error => logger.error('Error loading seasons for side games:', error))
+  }, [user])
+
+  const loadLedger = useCallback(async () => {
+    if (!seasonId) {
+      setLedger(null)
+      setLoading(false)
+      return
+    }
+    setLoading(true)
+    try {
+      setLedger(await getSideGameLedger(seasonId))
+    } catch (error) {
+      logger.error('Error loading side games ledger:', error)
+      toast.error('Failed to load side games')
+      setLedger(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [seasonId])
+
+  useEffect(() => {
+    loadLedger()
+  }, [loadLedger])
+
+  const handleSeasonChange = (value: string) => {
+    router.push(`/side-games?season=${value}`)
+  }
+
+  const username = (id: string) => ledger?.usernames[id] ?? 'Unknown player'
+  const describeContest = (kind: keyof typeof SIDE_GAME_KINDS, holeNumber: number | null) =>
+    SIDE_GAME_KINDS[kind].needsHole ? `${SIDE_GAME_KINDS[kind].name} · Hole ${holeNumber}` : SIDE_GAME_KINDS[kind].name
+
+  const transfers = ledger?.transfers.filter(t => !playerId || t.from === playerId || t.to === playerId) ?? []
+
+  return (
+    <Card className="w-full shadow-sm">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-3 sm:space-y-0 pb-4">
+        <div>
+          <CardTitle className="text-xl sm:text-2xl text-green-700 flex items-center gap-2">
+            <CircleDollarSign className="h-5 w-5" />
+            Side Games
+          </CardTitle>
+          <CardDescription className="text-sm mt-1">
+            Skins, closest to the pin and long drive winnings for the season, and who owes whom.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2 self-start sm:self-center">
+          {seasons.length > 0 && seasonId && (
+            <Select value={seasonId} onValueChange={handleSeasonChange}>
+              <SelectTrigger className="h-9 w-44" aria-label="Season">
+                <SelectValue placeholder="Season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id}>{season.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" size="sm" onClick={nav.goToDashboard}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : !ledger || ledger.rounds.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            {seasonId ? 'No side games in this season yet.' : 'Join a season to see its side games.'}
+          </p>
+        ) : (
+          <>
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-500">Balances</h3>
+              <ul className="divide-y rounded-lg border">
+                {ledger.balances.map(balance => (
+                  <li
+                    key={balance.playerId}
+                    className={`flex items-center justify-between px-3 py-2 text-sm ${
+                      balance.playerId === playerId ? 'bg-green-50 font-medium' : ''
+                    }`}
+                  >
+                    <span className="truncate">
+                      {balance.username}
+                      {balance.playerId === user?.id && <span className="text-xs text-gray-400 ml-1">(you)</span>}
+                    </span>
+                    <span className={netClass(balance.net)}>
+                      {balance.net > 0 ? '+' : ''}{formatMoney(balance.net)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-500">
+                {playerId ? `Settling up with ${username(playerId)}` : 'Settle up'}
+              </h3>
+              {transfers.length === 0 ? (
+                <p className="text-sm text-gray-500">Everyone is square.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {transfers.map(transfer => (
+                    <li key={`${transfer.from}-${transfer.to}`} className="flex items-center gap-2 text-sm">
+                      <span className="font-medium">{username(transfer.from)}</span>
+                      <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                      <span className="font-medium">{username(transfer.to)}</span>
+                      <span className="ml-auto text-green-700">{formatMoney(transfer.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-500">Rounds</h3>
+              {ledger.rounds.map(round => (
+                <div
+                  key={round.gameId}
+                  className={`rounded-lg border p-3 space-y-2 ${
+                    round.gameId === highlightGameId ? 'border-green-300 bg-green-50/50' : ''
+                  }`}
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-medium text-gray-800">{round.name}</span>
+                    <span className="text-xs text-gray-500">{formatDate(round.gameDate)}</span>
+                  </div>
+                  <ul className="space-y-2">
+                    {round.contests.map(({ sideGame, result }) => (
+                      <li key={sideGame.id} className="text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span>{describeContest(sideGame.kind, sideGame.holeNumber)}</span>
+                          <div className="flex items-center gap-1">
+                            <span className="text-xs text-gray-500">
+                              {formatMoney(result.pot)} pot &middot; {formatMoney(toCents(sideGame.entryFee))} &times; {sideGame.entrants.length}
+                            </span>
+                            {result.status !== 'settled' && (
+                              <Badge variant="outline" className="text-xs">{STATUS_LABELS[result.status]}</Badge>
+                            )}
+                          </div>
+                        </div>
+                        {result.status === 'settled' && (
+                          <p className="text-xs text-gray-600">
+                            {Object.entries(result.payouts)
+                              .map(([id, cents]) => {
+                                const skins = sideGame.kind === 'skins'
+                                  ? result.winners.find(winner => winner.playerId === id)?.shares
+                                  : undefined
+                                return `${username(id)} ${formatMoney(cents)}${skins ? ` (${skins} ${skins === 1 ? 'skin' : 'skins'})` : ''}`
+                              })
+                              .join(', ')}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </section>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
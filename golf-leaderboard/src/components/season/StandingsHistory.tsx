@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { History } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import { formatRank } from '@/lib/utils/standings'
+import {
+  formatMovement,
+  rankHistorySeries,
+  rankMovement,
+  StandingsSnapshot,
+} from '@/lib/utils/standingsHistory'
+
+interface StandingsHistoryProps {
+  seasonName: string
+  snapshots: StandingsSnapshot[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Players charted: the top of the standings after the round being viewed
+const CHARTED_PLAYERS = 5
+const LINE_COLORS = ['#16a34a', '#2563eb', '#d97706', '#9333ea', '#dc2626']
+
+export default function StandingsHistory({ seasonName, snapshots, open, onOpenChange }: StandingsHistoryProps) {
+  const [roundIndex, setRoundIndex] = useState(snapshots.length - 1)
+
+  // Open on the latest round
+  useEffect(() => {
+    if (open) setRoundIndex(snapshots.length - 1)
+  }, [open, snapshots.length])
+
+  const snapshot = snapshots[roundIndex]
+  const previous = roundIndex > 0 ? snapshots[roundIndex - 1] : null
+  const previousRanks = new Map(previous?.standings.map(s => [s.playerId, s.rank]) ?? [])
+
+  const charted = snapshot?.standings.slice(0, CHARTED_PLAYERS) ?? []
+  const chartData = rankHistorySeries(snapshots, charted.map(s => s.playerId))
+  const fieldSize = Math.max(1, ...snapshots.map(s => s.standings.length))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <History className="h-6 w-6 text-green-600" />
+            Standings Over Time — {seasonName}
+          </DialogTitle>
+          <DialogDescription>
+            The standings as they stood when each round was completed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!snapshot ? (
+          <p className="text-gray-500 text-center py-8">No rounds have been completed yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">
+                  After round {roundIndex + 1}: {snapshot.gameName}
+                </span>
+                <span className="text-gray-500">{snapshot.gameDate && formatDate(snapshot.gameDate)}</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={snapshots.length - 1}
+                value={roundIndex}
+                onChange={(e) => setRoundIndex(Number(e.target.value))}
+                disabled={snapshots.length < 2}
+                aria-label="Round"
+                className="w-full accent-green-600"
+              />
+            </div>
+
+            {snapshots.length > 1 && (
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200" />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis reversed allowDecimals={false} domain={[1, fieldSize]} tick={{ fontSize: 12 }} width={30} />
+                  <Tooltip />
+                  <Legend />
+                  <ReferenceLine x={`R${roundIndex + 1}`} stroke="#9ca3af" strokeDasharray="4 4" />
+                  {charted.map((standing, index) => (
+                    <Line
+                      key={standing.playerId}
+                      type="monotone"
+                      dataKey={standing.playerId}
+                      name={standing.username}
+                      stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+
+            <div className="rounded-md border overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Rank</th>
+                    <th className="px-3 py-2 text-left">Player</th>
+                    <th className="px-3 py-2 text-right">Points</th>
+                    <th className="px-3 py-2 text-right">Move</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshot.standings.map(standing => {
+                    const movement = previous ? rankMovement(previousRanks.get(standing.playerId), standing.rank) : null
+                    return (
+                      <tr key={standing.playerId} className="border-t">
+                        <td className="px-3 py-2 text-gray-500">{formatRank(standing.rank, standing.tied)}</td>
+                        <td className="px-3 py-2 font-medium">{standing.username}</td>
+                        <td className="px-3 py-2 text-right">{standing.points}</td>
+                        <td className={`px-3 py-2 text-right ${(movement ?? 0) > 0 ? 'text-green-600' : (movement ?? 0) < 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                          {formatMovement(movement)}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
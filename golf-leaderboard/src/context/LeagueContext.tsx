@@ -0,0 +1,91 @@
+"use client"
+
+// src/context/LeagueContext.tsx
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { getMyLeagues } from '../lib/supabase/client';
+import { logger } from '@/lib/logger';
+import {
+  canManageLeague,
+  CURRENT_LEAGUE_STORAGE_KEY,
+  League,
+  pickCurrentLeague,
+} from '@/lib/utils/leagues';
+
+// League context type
+export interface LeagueContextType {
+  leagues: League[];
+  currentLeague: League | null;
+  // Owner or admin of the current league, or the site administrator
+  isLeagueAdmin: boolean;
+  isLoading: boolean;
+  switchLeague: (leagueId: string) => void;
+  refreshLeagues: (switchToId?: string) => Promise<void>;
+}
+
+// Create the league context
+export const LeagueContext = createContext<LeagueContextType | undefined>(undefined);
+
+// League provider component; sits inside AuthProvider
+export function LeagueProvider({ children }: { children: React.ReactNode }) {
+  const { user, isAdmin } = useAuth();
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const [currentLeague, setCurrentLeague] = useState<League | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshLeagues = useCallback(async (switchToId?: string) => {
+    if (!user) {
+      setLeagues([]);
+      setCurrentLeague(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const myLeagues = await getMyLeagues(user.id);
+      if (switchToId) localStorage.setItem(CURRENT_LEAGUE_STORAGE_KEY, switchToId);
+      setLeagues(myLeagues);
+      setCurrentLeague(pickCurrentLeague(myLeagues, localStorage.getItem(CURRENT_LEAGUE_STORAGE_KEY)));
+    } catch (error) {
+      logger.error('Error fetching leagues:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshLeagues();
+  }, [refreshLeagues]);
+
+  const switchLeague = (leagueId: string) => {
+    const league = leagues.find(l => l.id === leagueId);
+    if (!league) return;
+    localStorage.setItem(CURRENT_LEAGUE_STORAGE_KEY, league.id);
+    setCurrentLeague(league);
+  };
+
+  // League context value
+  const value: LeagueContextType = {
+    leagues,
+    currentLeague,
+    isLeagueAdmin: isAdmin || canManageLeague(currentLeague?.role),
+    isLoading,
+    switchLeague,
+    refreshLeagues,
+  };
+
+  return (
+    <LeagueContext.Provider value={value}>
+      {children}
+    </LeagueContext.Provider>
+  );
+}
+
+// Custom hook to use league context
+export function useLeague() {
+  const context = useContext(LeagueContext);
+  if (context === undefined) {
+    throw new Error('useLeague must be used within a LeagueProvider');
+  }
+  return context;
+}
@@ -12,6 +12,7 @@ export function useNavigation() {
     goToEnterScore: useCallback(() => router.push('/scores/enter'), [router]),
     goToViewScores: useCallback(() => router.push('/scores/view'), [router]),
     goToJoinSeason: useCallback(() => router.push('/join-season'), [router]),
+    goToSchedule: useCallback(() => router.push('/schedule'), [router]),
     goToProfile: useCallback(() => router.push('/profile'), [router]),
     goToLogin: useCallback(() => router.push('/login'), [router]),
     goToRegister: useCallback(() => router.push('/register'), [router]),
@@ -25,6 +26,10 @@ export function useNavigation() {
     goToManageGames: useCallback(() => router.push('/admin/manage-games'), [router]),
     goToBonusRecalculate: useCallback(() => router.push('/admin/bonus-recalculate'), [router]),
     goToRecalculateHandicaps: useCallback(() => router.push('/admin/recalculate-handicaps'), [router]),
+    goToReevaluateAchievements: useCallback(() => router.push('/admin/reevaluate-achievements'), [router]),
+    goToAuditLog: useCallback(() => router.push('/admin/audit-log'), [router]),
+    goToLeagueMembers: useCallback(() => router.push('/admin/league-members'), [router]),
+    goToImportHistory: useCallback(() => router.push('/admin/import-history'), [router]),
     router,
   }
 }
@@ -0,0 +1,29 @@
+/**
+ * Custom hook for the browser's connection status
+ * Used by offline score entry to decide between submitting and queueing
+ */
+
+import { useState, useEffect } from 'react'
+
+/**
+ * Hook to track whether the browser is online
+ * @returns boolean indicating if the browser reports a connection
+ */
+export function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = useState(true)
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    update()
+
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  return isOnline
+}
@@ -0,0 +1,200 @@
+// src/lib/offlineQueue.ts
+import { logger } from '@/lib/logger';
+import {
+  getOfflineRounds,
+  submitScore,
+  updatePlayerHandicap,
+} from '@/lib/supabase/client';
+import { checkAndAwardAchievements } from '@/lib/utils/achievements';
+import {
+  CachedRound,
+  cachedRoundKey,
+  classifySyncError,
+  QueuedScore,
+} from '@/lib/utils/offlineScores';
+
+/**
+ * IndexedDB storage for offline score entry
+ * - rounds: open rounds cached for checking round codes without signal
+ * - scores: submissions waiting to sync, and ones the server rejected
+ */
+
+const DB_NAME = 'golf-leaderboard';
+const DB_VERSION = 1;
+const ROUNDS = 'rounds';
+const SCORES = 'scores';
+
+/** Fired on window whenever the queue changes */
+export const QUEUE_CHANGED_EVENT = 'offline-scores-changed';
+
+export function isOfflineStorageAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ROUNDS)) {
+        db.createObjectStore(ROUNDS, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(SCORES)) {
+        db.createObjectStore(SCORES, { keyPath: 'id' }).createIndex('playerId', 'playerId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+function notifyQueueChanged() {
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+}
+
+// ===== CACHED ROUNDS =====
+
+/**
+ * Refresh the player's cached rounds from the server
+ * Rounds that are no longer open are dropped
+ */
+export async function cacheOfflineRounds(playerId: string): Promise<number> {
+  const rounds = await getOfflineRounds(playerId);
+  const existing = (await withStore<CachedRound[]>(ROUNDS, 'readonly', store => store.getAll())) ?? [];
+
+  await withStore(ROUNDS, 'readwrite', store => {
+    existing
+      .filter(round => round.playerId === playerId)
+      .forEach(round => store.delete(round.key));
+    rounds.forEach(round => store.put(round));
+  });
+
+  return rounds.length;
+}
+
+export async function getCachedRound(playerId: string, roundCode: string): Promise<CachedRound | undefined> {
+  return withStore<CachedRound>(ROUNDS, 'readonly', store => store.get(cachedRoundKey(playerId, roundCode)));
+}
+
+// ===== QUEUED SCORES =====
+
+export async function getQueuedScores(playerId: string): Promise<QueuedScore[]> {
+  const scores = await withStore<QueuedScore[]>(SCORES, 'readonly', store =>
+    store.index('playerId').getAll(playerId)
+  );
+  return (scores ?? []).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+/**
+ * Queue a score to submit once the connection is back
+ * The open page sends it (OfflineScoreQueue); nothing syncs while the app is closed
+ */
+export async function queueScore(
+  score: Omit<QueuedScore, 'id' | 'queuedAt' | 'status' | 'conflict'>
+): Promise<QueuedScore> {
+  const queued: QueuedScore = {
+    ...score,
+    id: crypto.randomUUID(),
+    queuedAt: new Date().toISOString(),
+    status: 'pending',
+    conflict: null,
+  };
+
+  await withStore(SCORES, 'readwrite', store => store.put(queued));
+  notifyQueueChanged();
+
+  return queued;
+}
+
+export async function removeQueuedScore(id: string): Promise<void> {
+  await withStore(SCORES, 'readwrite', store => store.delete(id));
+  notifyQueueChanged();
+}
+
+let activeSync: Promise<{ synced: QueuedScore[]; conflicts: QueuedScore[] }> | null = null;
+
+/**
+ * Submit the player's pending scores
+ *
+ * Scores the server accepts are removed from the queue. Scores it rejects
+ * are kept as conflicts with the server's reason; network failures leave
+ * the score pending for the next attempt.
+ */
+export function syncQueuedScores(playerId: string) {
+  // One sync at a time, or a score could be submitted twice
+  if (!activeSync) {
+    activeSync = runSync(playerId).finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+}
+
+async function runSync(playerId: string) {
+  const synced: QueuedScore[] = [];
+  const conflicts: QueuedScore[] = [];
+
+  for (const score of await getQueuedScores(playerId)) {
+    if (score.status !== 'pending') continue;
+
+    try {
+      await submitScore({
+        game_id: score.gameId,
+        raw_score: score.rawScore,
+        notes: score.notes,
+        holes_played: score.holesPlayed,
+        holes: score.holes,
+      });
+      await withStore(SCORES, 'readwrite', store => store.delete(score.id));
+      synced.push(score);
+    } catch (error) {
+      if (classifySyncError(error) === 'retry') {
+        logger.warn('Score sync interrupted, will retry:', error);
+        break;
+      }
+
+      const conflict: QueuedScore = {
+        ...score,
+        status: 'conflict',
+        conflict: (error as { message?: string }).message || 'The score was rejected',
+      };
+      await withStore(SCORES, 'readwrite', store => store.put(conflict));
+      conflicts.push(conflict);
+      continue;
+    }
+
+    // Same follow-up as an online submission; none of it should fail the sync
+    try {
+      await checkAndAwardAchievements(score.seasonId);
+      await updatePlayerHandicap(playerId);
+    } catch (error) {
+      logger.error('Failed to update stats after syncing a score:', error);
+    }
+  }
+
+  if (synced.length > 0 || conflicts.length > 0) {
+    notifyQueueChanged();
+  }
+
+  return { synced, conflicts };
+}
@@ -1,8 +1,58 @@
 // src/lib/supabase/client.ts
 import { createClient } from '@supabase/supabase-js';
 import { Database, Json } from './types';
-import { updateBonusPoints } from '../utils/scoring';
-import { calculateHandicap, ScoreForHandicap } from '../utils/handicap';
+import { parseScoringRules, ScoringRules } from '../utils/scoringRules';
+import { HoleScore } from '../utils/scorecard';
+import {
+  calculateCourseHandicap,
+  calculateHandicapDetails,
+  HandicapCalculation,
+  ScoreForHandicap,
+} from '../utils/handicap';
+import {
+  calculateFormatResults,
+  DEFAULT_FORMAT_CONFIG,
+  FormatResults,
+  GameFormat,
+  GameFormatConfig,
+  parseFormatConfig,
+} from '../utils/gameFormats';
+import { CachedRound, cachedRoundKey } from '../utils/offlineScores';
+import { parseCountingRule } from '../utils/countingRules';
+import { FlightAssignment } from '../utils/flights';
+import { latestMovements, StandingsSnapshot } from '../utils/standingsHistory';
+import { AuditAction, AuditEntry, AuditLogFilters } from '../utils/auditLog';
+import { DisputeKind, DisputeStatus, ScoreDispute } from '../utils/disputes';
+import { League, LeagueMember, LeagueRole } from '../utils/leagues';
+import { buildRoster, countRsvps, RsvpStatus } from '../utils/rsvps';
+import { CalendarRound } from '../utils/icalendar';
+import { buildPairingHistory, TeeGroup } from '../utils/teeGroups';
+import {
+  settleSideGame,
+  settleUp,
+  SIDE_GAME_KINDS,
+  SideGame,
+  sideGameBalances,
+  SideGameKind,
+  SideGameWinner,
+  skinsFromScorecards,
+} from '../utils/sideGames';
+import { ImportContext, ImportPlan } from '../utils/historyImport';
+import {
+  parseTieBreakers,
+  rankStandings,
+  StandingRound,
+  StandingsView,
+  tieBreakersNeedRounds,
+} from '../utils/standings';
+import {
+  MIN_PLAYOFF_SIZE,
+  PlayoffFormat,
+  PlayoffScore,
+  PlayoffSeed,
+  PlayoffStatus,
+  seedPlayoffs,
+} from '../utils/playoffs';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string;
@@ -73,10 +123,15 @@ export async function createGame(gameData: {
   game_date: string;
   created_by: string;
   status?: string;
+  tee_id?: string | null;
+  format?: GameFormat;
+  format_config?: GameFormatConfig;
+  playoff_round?: number | null;
 }) {
     const gameDataWithStatus = {
         ...gameData,
-        status: gameData.status || 'active'
+        status: gameData.status || 'active',
+        format_config: (gameData.format_config ?? DEFAULT_FORMAT_CONFIG) as unknown as Json
       };
 
   const { data, error } = await supabase
@@ -91,54 +146,63 @@ export async function createGame(gameData: {
 
 // Add a player to a season
 export async function joinSeason(seasonCode: string, playerId: string) {
-  // First, get the season ID from the code
-  const { data: seasonData, error: seasonError } = await supabase
-    .from('seasons')
-    .select('id')
-    .eq('code', seasonCode)
-    .single();
+  // Joins the season's league too; seasons of other leagues aren't visible
+  // until then, so the lookup happens server-side
+  const { data: seasonId, error: joinError } = await supabase.rpc('join_season', {
+    p_code: seasonCode
+  });
   
-  if (seasonError) throw seasonError;
+  if (joinError) throw joinError;
   
-  // Then add the player to the season
   const { data, error } = await supabase
     .from('season_participants')
-    .insert({
-      season_id: seasonData.id,
-      player_id: playerId
-    })
     .select()
+    .eq('season_id', seasonId)
+    .eq('player_id', playerId)
     .single();
   
   if (error) throw error;
   return data;
 }
 
-// Submit a score for a round
+// Submit the signed-in player's score for a round
+// One server-side transaction checks the round is still open, inserts the score
+// and its scorecard, and moves the low-round bonus; returns the round's new standings
 export async function submitScore(scoreData: {
   game_id: string;
-  player_id: string;
   raw_score: number;
-  points: number;
-  bonus_points: number;
   notes?: string;
+  holes_played?: number;
+  holes?: HoleScore[];
 }) {
-  // First, let's debug by getting all columns
-  const { data: debugData } = await supabase
-    .from('games')
-    .select('*')
-    .eq('id', scoreData.game_id)
-    .single();
-  
-  if (debugData && debugData.status === 'completed') {
-    throw new Error('This round is completed. No new scores can be submitted.');
-  }
+  const { data, error } = await supabase.rpc('submit_score', {
+    p_game_id: scoreData.game_id,
+    p_raw_score: scoreData.raw_score,
+    p_notes: scoreData.notes || null,
+    p_holes_played: scoreData.holes_played ?? 18,
+    p_holes: scoreData.holes
+      ? scoreData.holes.map(hole => ({
+          hole_number: hole.holeNumber,
+          strokes: hole.strokes,
+          putts: hole.putts,
+          fairway_hit: hole.fairwayHit,
+          green_in_regulation: hole.greenInRegulation
+        }))
+      : null
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Get the hole-by-hole scorecard for a score (empty if none was entered)
+export async function getScoreHoles(scoreId: string) {
   const { data, error } = await supabase
-    .from('scores')
-    .insert(scoreData)
-    .select()
-    .single();
-  
+    .from('score_holes')
+    .select('hole_number, strokes, putts, fairway_hit, green_in_regulation')
+    .eq('score_id', scoreId)
+    .order('hole_number', { ascending: true });
+
   if (error) throw error;
   return data;
 }
@@ -171,31 +235,81 @@ export async function getSeasonLeaderboard(seasonId: string) {
     .from('season_leaderboard')
     .select('*')
     .eq('season_id', seasonId)
+    .order('qualified', { ascending: false })
     .order('total_points', { ascending: false });
   
   if (error) throw error;
   return data;
 }
 
+// Get a season's leaderboard in rank order, with the season's tie-breakers applied
+// Every screen that shows a season rank uses this so ranks agree
+export async function getSeasonStandings(seasonId: string, view: StandingsView = 'gross') {
+  const { data: season, error } = await supabase
+    .from('seasons')
+    .select('tie_breakers, countback_rounds')
+    .eq('id', seasonId)
+    .single();
+
+  if (error) throw error;
+
+  const tieBreakers = parseTieBreakers(season);
+  const [leaderboard, rounds] = await Promise.all([
+    getSeasonLeaderboard(seasonId),
+    tieBreakersNeedRounds(tieBreakers) ? getSeasonStandingRounds(seasonId, view) : Promise.resolve([])
+  ]);
+
+  return rankStandings(
+    leaderboard
+      .filter(row => row.player_id !== null)
+      .map(row => ({
+        ...row,
+        playerId: row.player_id as string,
+        points: (view === 'net' ? row.net_total_points : row.total_points) ?? 0,
+        qualified: row.qualified !== false,
+        avgScore: row.games_played ? (view === 'net' ? row.avg_net_score : row.avg_score) : null
+      })),
+    tieBreakers,
+    rounds
+  );
+}
+
+// Every regular-season round in a season, for the tie-breakers that compare rounds
+export async function getSeasonStandingRounds(seasonId: string, view: StandingsView = 'gross'): Promise<StandingRound[]> {
+  const { data, error } = await supabase
+    .from('season_score_counting')
+    .select('game_id, game_date, player_id, raw_score, net_score, round_points, net_round_points')
+    .eq('season_id', seasonId);
+
+  if (error) throw error;
+
+  return data
+    .filter(row => (view === 'net' ? row.net_score : row.raw_score) !== null)
+    .map(row => ({
+      gameId: row.game_id as string,
+      gameDate: row.game_date as string,
+      playerId: row.player_id as string,
+      score: (view === 'net' ? row.net_score : row.raw_score) as number,
+      points: (view === 'net' ? row.net_round_points : row.round_points) ?? 0
+    }));
+}
+
 // Update a score (admin only)
+// Points, the round's low-round bonus and the season's achievements are recalculated
+// in the same transaction; returns the round's new standings
 export async function updateScore(
-  scoreId: string, 
+  scoreId: string,
   updates: {
-    raw_score?: number;
-    points?: number;
-    bonus_points?: number;
+    raw_score: number;
     notes?: string;
-    edited_by: string;
-    edited_at: string;
   }
 ) {
-  const { data, error } = await supabase
-    .from('scores')
-    .update(updates)
-    .eq('id', scoreId)
-    .select()
-    .single();
-  
+  const { data, error } = await supabase.rpc('update_score', {
+    p_score_id: scoreId,
+    p_raw_score: updates.raw_score,
+    p_notes: updates.notes || null
+  });
+
   if (error) throw error;
   return data;
 }
@@ -227,65 +341,33 @@ export async function updateScoreBonusPoints(scoreId: string, bonusPoints: numbe
 
 /**
  * Admin function to recalculate bonus points for a specific game/round
- * This ensures only the player(s) with the lowest score get bonus points
+ * This ensures only the player(s) with the lowest score get bonus points.
+ * Badges that depend on the bonus are left alone; re-evaluate them afterwards
+ * with reevaluateAchievements
  * 
  * @param gameId ID of the game/round to recalculate
- * @returns Object with success status and message
+ * @returns The scores whose bonus changed, and a message
  */
 export async function recalculateBonusPoints(gameId: string) {
-    // Get all scores for the game
-    const { data: scores, error } = await supabase
-      .from('scores')
-      .select('id, player_id, raw_score, bonus_points, points')
-      .eq('game_id', gameId);
-    
+    // One server-side transaction moves the bonus and records it in the audit log
+    const { data: changed, error } = await supabase.rpc('recalculate_game_bonus_points', {
+      p_game_id: gameId
+    });
+
     if (error) {
       throw error;
     }
-    
-    // Format for the updateBonusPoints function
-    const scoresForUpdate = scores.map(score => ({
-      playerId: score.player_id,
+
+    const updatedScores = changed.map(score => ({
+      id: score.score_id,
       rawScore: score.raw_score,
-      bonusPoints: score.bonus_points
+      oldBonus: score.old_bonus,
+      newBonus: score.new_bonus
     }));
-    
-    // Calculate who should have bonus points
-    const bonusUpdates = updateBonusPoints(scoresForUpdate);
-    
-    // Track which scores were updated
-    const updatedScores = [];
-    const failedUpdates = [];
-    
-    // Update each score as needed
-    for (const update of bonusUpdates) {
-      const shouldHaveBonus = update.shouldHaveBonus ? 1 : 0;
-      const scoreToUpdate = scores.find(score => score.player_id === update.playerId);
-      
-      if (scoreToUpdate && scoreToUpdate.bonus_points !== shouldHaveBonus) {
-        try {
-          await updateScoreBonusPoints(scoreToUpdate.id, shouldHaveBonus);
-          updatedScores.push({
-            id: scoreToUpdate.id,
-            rawScore: scoreToUpdate.raw_score,
-            oldBonus: scoreToUpdate.bonus_points,
-            newBonus: shouldHaveBonus
-          });
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        } catch (error: any) {
-          failedUpdates.push({
-            id: scoreToUpdate.id,
-            error: error.message
-          });
-        }
-      }
-    }
-    
+
     return {
-      success: failedUpdates.length === 0,
       updatedScores,
-      failedUpdates,
-      message: `Updated ${updatedScores.length} scores, ${failedUpdates.length} failures`
+      message: `Updated ${updatedScores.length} scores`
     };
   }
 
@@ -325,6 +407,7 @@ export async function validateRoundCode(roundCode: string) {
       name,
       game_date,
       season_id,
+      format,
       courses:course_id (
         id,
         name,
@@ -361,12 +444,24 @@ export async function isUserInSeason(seasonId: string, playerId: string) {
   if (error) throw error;
   return count && count > 0;
 }
-// Add to src/lib/supabase/client.ts
+
+// Get the players in a season, by username
+export async function getSeasonPlayers(seasonId: string) {
+  const { data, error } = await supabase
+    .from('season_participants')
+    .select('player_id, profiles:player_id ( username )')
+    .eq('season_id', seasonId);
+
+  if (error) throw error;
+  return data
+    .map(participant => ({ id: participant.player_id, username: participant.profiles?.username || 'Unknown' }))
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+// Delete a score (admin only)
+// The low-round bonus moves and the season's achievements are re-evaluated in the same
+// transaction; returns the round's new standings
 export async function deleteScore(scoreId: string) {
-    const { data, error } = await supabase
-      .from('scores')
-      .delete()
-      .eq('id', scoreId);
+    const { data, error } = await supabase.rpc('delete_score', { p_score_id: scoreId });
     
     if (error) throw error;
     return data;
@@ -385,18 +480,79 @@ export async function getGameStatus(gameId: string) {
   }
   
   // Update game status (admin only)
+  // Completing a regular-season round also stores the season standings as they are
+  // now against it, in the same transaction as the status change
   export async function updateGameStatus(gameId: string, status: 'active' | 'completed') {
-    const { data, error } = await supabase
+    const { data: game, error: gameError } = await supabase
       .from('games')
-      .update({ status })
+      .select('season_id, playoff_round')
       .eq('id', gameId)
-      .select()
       .single();
 
+    if (gameError) throw gameError;
+
+    const standings = status === 'completed' && game.season_id && game.playoff_round === null
+      ? await getSeasonStandings(game.season_id)
+      : [];
+
+    const { error } = await supabase.rpc('set_game_status', {
+      p_game_id: gameId,
+      p_status: status,
+      p_standings: standings.map(standing => ({
+        player_id: standing.playerId,
+        rank: standing.rank,
+        tied: standing.tied,
+        total_points: standing.points,
+        games_played: standing.games_played ?? 0,
+        qualified: standing.qualified
+      }))
+    });
+
+    if (error) throw error;
+  }
+
+  // ===== SCORING RULES FUNCTIONS =====
+
+  // Get all scoring rule sets, newest version of each first
+  export async function getScoringRuleSets() {
+    const { data, error } = await supabase
+      .from('scoring_rule_sets')
+      .select('id, key, version, name, definition')
+      .order('key', { ascending: true })
+      .order('version', { ascending: false });
+
     if (error) throw error;
     return data;
   }
 
+  // Resolve a season's scoring rules (default rules if none assigned)
+  export async function getSeasonScoringRules(seasonId: string): Promise<ScoringRules> {
+    const { data, error } = await supabase
+      .from('seasons')
+      .select(`
+        scoring_rule_sets:scoring_rule_set_id (
+          definition
+        )
+      `)
+      .eq('id', seasonId)
+      .single();
+
+    if (error) throw error;
+    return parseScoringRules(data.scoring_rule_sets?.definition);
+  }
+
+  // Resolve the scoring rules for the season a game belongs to
+  export async function getGameScoringRules(gameId: string): Promise<ScoringRules> {
+    const { data, error } = await supabase
+      .from('games')
+      .select('season_id')
+      .eq('id', gameId)
+      .single();
+
+    if (error) throw error;
+    return getSeasonScoringRules(data.season_id);
+  }
+
   // ===== ACHIEVEMENTS FUNCTIONS =====
 
   // Get all available achievements
@@ -439,78 +595,32 @@ export async function getGameStatus(gameId: string) {
     return data;
   }
 
-  // Award achievement to user (called from client-side after detection)
-  export async function awardAchievement(
-    userId: string,
-    achievementKey: string,
-    seasonId?: string,
-    metadata?: Record<string, unknown>
-  ) {
-    // First get the achievement ID by key
-    const { data: achievement, error: achError } = await supabase
-      .from('achievements')
-      .select('id')
-      .eq('key', achievementKey)
-      .single();
-
-    if (achError || !achievement) throw achError || new Error('Achievement not found');
-
-    // Check if already earned
-    let query = supabase
-      .from('user_achievements')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('achievement_id', achievement.id);
-
-    // Add season filter if provided, otherwise check for null
-    if (seasonId) {
-      query = query.eq('season_id', seasonId);
-    } else {
-      query = query.is('season_id', null);
-    }
-
-    const { data: existing } = await query.maybeSingle();
-
-    if (existing) {
-      return { alreadyEarned: true, data: null };
-    }
-
-    // Award the achievement
-    const insertData: {
-      user_id: string;
-      achievement_id: string;
-      season_id?: string | null;
-      metadata?: Json | null;
-    } = {
-      user_id: userId,
-      achievement_id: achievement.id,
-    };
-
-    if (seasonId !== undefined) {
-      insertData.season_id = seasonId;
-    }
+  // Evaluate the signed-in player's achievement rules on the server, awarding any newly met
+  // Season-scoped rules are only checked when a season is given; returns progress toward every rule
+  export async function checkMyAchievements(seasonId?: string) {
+    const { data, error } = await supabase.rpc('check_my_achievements', {
+      p_season_id: seasonId ?? null
+    });
 
-    if (metadata !== undefined) {
-      insertData.metadata = metadata as Json;
-    }
+    if (error) throw error;
+    return data;
+  }
 
-    const { data, error } = await supabase
-      .from('user_achievements')
-      .insert(insertData)
-      .select(`
-        id,
-        earned_at,
-        achievements:achievement_id (
-          name,
-          description,
-          icon,
-          tier
-        )
-      `)
-      .single();
+  // Re-evaluate achievements for a season and/or player (admin only; neither means every season)
+  // A dry run only lists the badges that would be granted and revoked; otherwise they are applied
+  export async function reevaluateAchievements(options: {
+    seasonId?: string;
+    playerId?: string;
+    dryRun: boolean;
+  }) {
+    const { data, error } = await supabase.rpc('reevaluate_achievements', {
+      p_season_id: options.seasonId ?? null,
+      p_player_id: options.playerId ?? null,
+      p_dry_run: options.dryRun
+    });
 
     if (error) throw error;
-    return { alreadyEarned: false, data };
+    return data;
   }
 
   // Get user's season-specific scores for stats calculation
@@ -546,16 +656,50 @@ export async function getGameStatus(gameId: string) {
 
   // Get user's rank in a specific season
   export async function getUserSeasonRank(userId: string, seasonId: string) {
+    const standings = await getSeasonStandings(seasonId);
+    const standing = standings.find(player => player.playerId === userId);
+
+    return {
+      rank: standing?.rank ?? 0,
+      tied: standing?.tied ?? false,
+      totalPlayers: standings.length
+    };
+  }
+
+  // Get a player's regular-season rounds and whether each counts toward the standings
+  export async function getSeasonRoundBreakdown(userId: string, seasonId: string) {
+    const { data: season, error: seasonError } = await supabase
+      .from('seasons')
+      .select('name, counting_rule, counting_rounds, min_rounds')
+      .eq('id', seasonId)
+      .single();
+
+    if (seasonError) throw seasonError;
+
     const { data, error } = await supabase
-      .from('season_leaderboard')
-      .select('player_id, total_points')
+      .from('season_score_counting')
+      .select('score_id, game_name, game_date, raw_score, round_points, counts')
       .eq('season_id', seasonId)
-      .order('total_points', { ascending: false });
+      .eq('player_id', userId)
+      .order('game_date', { ascending: false });
 
     if (error) throw error;
 
-    const rank = data.findIndex(player => player.player_id === userId) + 1;
-    return { rank, totalPlayers: data.length };
+    const standing = await getUserSeasonRank(userId, seasonId);
+
+    return {
+      seasonName: season.name,
+      counting: parseCountingRule(season),
+      standing,
+      rounds: data.map(round => ({
+        scoreId: round.score_id as string,
+        gameName: round.game_name || 'Unknown',
+        gameDate: round.game_date as string,
+        rawScore: round.raw_score ?? 0,
+        points: round.round_points ?? 0,
+        counts: round.counts !== false,
+      })),
+    };
   }
 
   // Get comprehensive player card data for modal display
@@ -666,86 +810,225 @@ export async function getGameStatus(gameId: string) {
 
   // Calculate and update player handicap
   export async function updatePlayerHandicap(userId: string): Promise<number | null> {
-    // Get all player scores with course par
+    const scoresByPlayer = await getHandicapScores([userId]);
+
+    // Calculate handicap (WHS: most recent 20, caps, exceptional scores)
+    const details = calculateHandicapDetails(scoresByPlayer.get(userId) ?? []);
+    const handicap = details.handicapIndex;
+
+    // Update profile with calculated handicap
+    if (handicap !== null) {
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ handicap })
+        .eq('id', userId);
+
+      if (updateError) throw updateError;
+    }
+
+    await recordHandicapHistory(userId, details);
+
+    return handicap;
+  }
+
+  /**
+   * Append a handicap recalculation to the player's history
+   * The first recalculation for a player backfills one row per earlier round date.
+   * Recalculations that change nothing are not recorded again.
+   */
+  async function recordHandicapHistory(userId: string, details: HandicapCalculation) {
+    // Latest entry per round date (several rounds can share a date)
+    const byDate = new Map<string, HandicapCalculation['history'][number]>();
+    details.history.forEach(entry => {
+      if (entry.playedAt) byDate.set(entry.playedAt, entry);
+    });
+    const entries = Array.from(byDate.entries());
+    if (entries.length === 0) return;
+
+    const { data: latest, error } = await supabase
+      .from('handicap_history')
+      .select('handicap_index, effective_date, rounds_used')
+      .eq('player_id', userId)
+      .order('effective_date', { ascending: false })
+      .order('calculated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const [effectiveDate, current] = entries[entries.length - 1];
+    if (
+      latest &&
+      latest.effective_date === effectiveDate &&
+      latest.handicap_index === current.handicapIndex &&
+      latest.rounds_used === current.roundsInRecord
+    ) {
+      return;
+    }
+
+    const rows = (latest ? entries.slice(-1) : entries).map(([date, entry], i, all) => ({
+      player_id: userId,
+      handicap_index: entry.handicapIndex,
+      effective_date: date,
+      rounds_used: entry.roundsInRecord,
+      differentials_used: entry.differentialsUsed,
+      method: i === all.length - 1 ? 'whs' : 'whs_backfill'
+    }));
+
+    const { error: insertError } = await supabase
+      .from('handicap_history')
+      .insert(rows);
+
+    if (insertError) throw insertError;
+  }
+
+  // Get a player's handicap history, oldest first
+  export async function getHandicapHistory(userId: string) {
+    const { data, error } = await supabase
+      .from('handicap_history')
+      .select('handicap_index, effective_date, rounds_used, differentials_used, method, calculated_at')
+      .eq('player_id', userId)
+      .order('effective_date', { ascending: true })
+      .order('calculated_at', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Get the handicap index that was in effect on a date
+   * That is the latest recalculation from rounds played before the date, so a
+   * round never counts towards the handicap used to score it.
+   *
+   * @param userId Player ID
+   * @param date Round date (YYYY-MM-DD)
+   * @returns History entry, or null if nothing was recorded before the date
+   */
+  export async function getHandicapAsOf(userId: string, date: string) {
+    const { data, error } = await supabase
+      .from('handicap_history')
+      .select('handicap_index, effective_date, rounds_used, differentials_used, method, calculated_at')
+      .eq('player_id', userId)
+      .lt('effective_date', date)
+      .order('effective_date', { ascending: false })
+      .order('calculated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Handicap index in effect on a date for several players, from their handicap history
+  // (the same source as handicap_index_as_of in migration 027); players with no history get null
+  async function getHandicapIndexesAsOf(playerIds: string[], date: string): Promise<Map<string, number | null>> {
+    const { data: history, error } = await supabase
+      .from('handicap_history')
+      .select('player_id, handicap_index')
+      .in('player_id', playerIds)
+      .lt('effective_date', date)
+      .order('effective_date', { ascending: false })
+      .order('calculated_at', { ascending: false });
+
+    if (error) throw error;
+
+    const indexes = new Map<string, number | null>(playerIds.map(id => [id, null]));
+    const found = new Set<string>();
+    history.forEach(entry => {
+      if (!found.has(entry.player_id)) {
+        found.add(entry.player_id);
+        indexes.set(entry.player_id, entry.handicap_index);
+      }
+    });
+
+    return indexes;
+  }
+
+  // Get every score for the given players with course rating, slope and playing conditions
+  async function getHandicapScores(playerIds: string[]): Promise<Map<string, ScoreForHandicap[]>> {
     const { data: scores, error } = await supabase
       .from('scores')
       .select(`
+        player_id,
         raw_score,
         games:game_id (
+          game_date,
+          pcc,
           courses:course_id (
-            par
+            par,
+            course_rating,
+            slope_rating
+          ),
+          course_tees:tee_id (
+            course_rating,
+            slope_rating
           )
         )
       `)
-      .eq('player_id', userId);
+      .in('player_id', playerIds);
 
     if (error) throw error;
 
     // Transform scores for handicap calculation
-    const scoresForHandicap: ScoreForHandicap[] = (scores || [])
+    const scoresByPlayer = new Map<string, ScoreForHandicap[]>();
+    (scores || [])
       .filter(score => !!score.games?.courses?.par)
-      .map(score => ({
-        raw_score: score.raw_score,
-        par: score.games.courses.par,
-      }));
-
-    // Calculate handicap
-    const handicap = calculateHandicap(scoresForHandicap);
-
-    // Update profile with calculated handicap
-    if (handicap !== null) {
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ handicap })
-        .eq('id', userId);
-
-      if (updateError) throw updateError;
-    }
+      .forEach(score => {
+        const playerScores = scoresByPlayer.get(score.player_id) ?? [];
+        playerScores.push({
+          raw_score: score.raw_score,
+          par: score.games.courses.par,
+          // Tee set ratings take precedence over the course defaults
+          course_rating: score.games.course_tees?.course_rating ?? score.games.courses.course_rating,
+          slope_rating: score.games.course_tees?.slope_rating ?? score.games.courses.slope_rating,
+          pcc: score.games.pcc,
+          played_at: score.games.game_date,
+        });
+        scoresByPlayer.set(score.player_id, playerScores);
+      });
 
-    return handicap;
+    return scoresByPlayer;
   }
 
   // ===== DASHBOARD QUERY FUNCTIONS =====
 
-  export async function getUserCurrentSeasonStats(userId: string) {
-    // Get user's active seasons
+  export async function getUserCurrentSeasonStats(userId: string, leagueId?: string) {
+    // Get user's active seasons, in the given league if any
     const { data: participations, error: pError } = await supabase
       .from('season_participants')
-      .select('season_id, seasons:season_id (id, name, is_active)')
+      .select('season_id, seasons:season_id (id, name, is_active, league_id)')
       .eq('player_id', userId);
 
     if (pError) throw pError;
 
-    const activeSeasons = (participations || []).filter(p => p.seasons?.is_active);
+    const activeSeasons = (participations || []).filter(p =>
+      p.seasons?.is_active && (!leagueId || p.seasons.league_id === leagueId)
+    );
     if (activeSeasons.length === 0) return null;
 
     const season = activeSeasons[0].seasons!;
 
-    // Get leaderboard for this season
-    const { data: leaderboard, error: lError } = await supabase
-      .from('season_leaderboard')
-      .select('*')
-      .eq('season_id', season.id)
-      .order('total_points', { ascending: false });
-
-    if (lError) throw lError;
-
-    const userRow = (leaderboard || []).find(r => r.player_id === userId);
-    const rank = userRow
-      ? (leaderboard || []).findIndex(r => r.player_id === userId) + 1
-      : null;
+    // Get the ranked leaderboard for this season, and the last round's movement
+    const [standings, history] = await Promise.all([
+      getSeasonStandings(season.id),
+      getStandingsHistory(season.id)
+    ]);
+    const userRow = standings.find(r => r.playerId === userId);
 
     return {
       seasonId: season.id,
       seasonName: season.name,
-      rank,
-      totalPlayers: (leaderboard || []).length,
+      rank: userRow?.rank ?? null,
+      tied: userRow?.tied ?? false,
+      rankMovement: latestMovements(history).get(userId) ?? null,
+      totalPlayers: standings.length,
       totalPoints: userRow?.total_points ?? 0,
       gamesPlayed: userRow?.games_played ?? 0,
       avgScore: userRow?.avg_score ?? null,
     };
   }
 
+  // Played rounds the player RSVP'd in for but hasn't submitted a score for
   export async function getUserPendingGames(userId: string) {
     // Get user's active season IDs
     const { data: participations, error: pError } = await supabase
@@ -776,9 +1059,22 @@ export async function getGameStatus(gameId: string) {
       .order('game_date', { ascending: false });
 
     if (gError) throw gError;
+    if (!games || games.length === 0) return [];
+
+    // Only chase rounds the player said they'd play
+    const { data: rsvps, error: rError } = await supabase
+      .from('game_rsvps')
+      .select('game_id')
+      .eq('player_id', userId)
+      .eq('status', 'in')
+      .in('game_id', games.map(game => game.id));
+
+    if (rError) throw rError;
+
+    const attending = new Set((rsvps || []).map(rsvp => rsvp.game_id));
 
     const pending = [];
-    for (const game of games || []) {
+    for (const game of games.filter(game => attending.has(game.id))) {
       const submitted = await hasUserSubmittedScore(game.id, userId);
       if (!submitted) {
         pending.push({
@@ -793,31 +1089,109 @@ export async function getGameStatus(gameId: string) {
     return pending;
   }
 
-  // ===== COURSE MANAGEMENT FUNCTIONS =====
+  // Open rounds in the player's active seasons, with what EnterScoreForm needs to
+  // check and price a score without signal (see src/lib/utils/offlineScores.ts)
+  export async function getOfflineRounds(userId: string): Promise<CachedRound[]> {
+    const { data: participations, error: pError } = await supabase
+      .from('season_participants')
+      .select('season_id, seasons:season_id (id, is_active)')
+      .eq('player_id', userId);
 
-  export async function getCourses() {
-    const { data, error } = await supabase
-      .from('courses')
-      .select('*')
-      .order('name', { ascending: true });
+    if (pError) throw pError;
 
-    if (error) throw error;
-    return data;
-  }
+    const activeSeasonIds = (participations || [])
+      .filter(p => p.seasons?.is_active)
+      .map(p => p.season_id);
 
-  export async function createCourse(courseData: { name: string; location?: string; par: number }) {
-    const { data, error } = await supabase
-      .from('courses')
-      .insert(courseData)
-      .select()
-      .single();
+    if (activeSeasonIds.length === 0) return [];
 
-    if (error) throw error;
-    return data;
-  }
+    const { data: games, error: gError } = await supabase
+      .from('games')
+      .select(`
+        id, name, season_id, format, status, round_code,
+        courses:course_id (id, name, par)
+      `)
+      .in('season_id', activeSeasonIds)
+      .eq('status', 'active');
 
-  export async function updateCourse(id: string, updates: { name?: string; location?: string; par?: number }) {
-    const { data, error } = await supabase
+    if (gError) throw gError;
+    if (!games || games.length === 0) return [];
+
+    const [{ data: scores, error: sError }, rules] = await Promise.all([
+      supabase
+        .from('scores')
+        .select('game_id, player_id, raw_score')
+        .in('game_id', games.map(game => game.id)),
+      Promise.all(
+        Array.from(new Set(games.map(game => game.season_id)))
+          .map(async seasonId => [seasonId, await getSeasonScoringRules(seasonId)] as const)
+      )
+    ]);
+
+    if (sError) throw sError;
+
+    const rulesBySeason = new Map(rules);
+    const cachedAt = new Date().toISOString();
+
+    return games.map(game => {
+      const gameScores = (scores || []).filter(score => score.game_id === game.id);
+      return {
+        key: cachedRoundKey(userId, game.round_code),
+        playerId: userId,
+        roundCode: game.round_code,
+        game: {
+          id: game.id,
+          name: game.name,
+          season_id: game.season_id,
+          format: game.format,
+          status: game.status,
+          courses: game.courses,
+        },
+        rules: rulesBySeason.get(game.season_id) as ScoringRules,
+        rawScores: gameScores.map(score => score.raw_score),
+        submitted: gameScores.some(score => score.player_id === userId),
+        cachedAt,
+      };
+    });
+  }
+
+  // ===== COURSE MANAGEMENT FUNCTIONS =====
+
+  export async function getCourses() {
+    const { data, error } = await supabase
+      .from('courses')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  export async function createCourse(courseData: {
+    name: string;
+    location?: string;
+    par: number;
+    course_rating?: number | null;
+    slope_rating?: number | null;
+  }) {
+    const { data, error } = await supabase
+      .from('courses')
+      .insert(courseData)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  export async function updateCourse(id: string, updates: {
+    name?: string;
+    location?: string;
+    par?: number;
+    course_rating?: number | null;
+    slope_rating?: number | null;
+  }) {
+    const { data, error } = await supabase
       .from('courses')
       .update(updates)
       .eq('id', id)
@@ -828,6 +1202,110 @@ export async function getGameStatus(gameId: string) {
     return data;
   }
 
+  // Get a course's tee sets, longest first
+  export async function getCourseTees(courseId: string) {
+    const { data, error } = await supabase
+      .from('course_tees')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('yardage', { ascending: false, nullsFirst: false });
+
+    if (error) throw error;
+    return data;
+  }
+
+  export async function createCourseTee(teeData: {
+    course_id: string;
+    name: string;
+    color?: string | null;
+    yardage?: number | null;
+    course_rating?: number | null;
+    slope_rating?: number | null;
+  }) {
+    const { data, error } = await supabase
+      .from('course_tees')
+      .insert(teeData)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  export async function updateCourseTee(id: string, updates: {
+    name?: string;
+    color?: string | null;
+    yardage?: number | null;
+    course_rating?: number | null;
+    slope_rating?: number | null;
+  }) {
+    const { data, error } = await supabase
+      .from('course_tees')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  export async function deleteCourseTee(id: string) {
+    const { error } = await supabase
+      .from('course_tees')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Get a course's hole layout (par, stroke index) and per-tee hole yardages
+  export async function getCourseLayout(courseId: string, teeIds: string[]) {
+    const { data: holes, error } = await supabase
+      .from('course_holes')
+      .select('hole_number, par, stroke_index')
+      .eq('course_id', courseId)
+      .order('hole_number', { ascending: true });
+
+    if (error) throw error;
+
+    if (teeIds.length === 0) {
+      return { holes, yardages: [] };
+    }
+
+    const { data: yardages, error: yardageError } = await supabase
+      .from('course_hole_yardages')
+      .select('tee_id, hole_number, yardage')
+      .in('tee_id', teeIds);
+
+    if (yardageError) throw yardageError;
+    return { holes, yardages };
+  }
+
+  // Save a course's hole layout and per-tee hole yardages
+  export async function saveCourseLayout(
+    courseId: string,
+    holes: { hole_number: number; par: number; stroke_index: number }[],
+    yardages: { tee_id: string; hole_number: number; yardage: number }[]
+  ) {
+    const { error } = await supabase
+      .from('course_holes')
+      .upsert(
+        holes.map(hole => ({ ...hole, course_id: courseId })),
+        { onConflict: 'course_id,hole_number' }
+      );
+
+    if (error) throw error;
+
+    if (yardages.length > 0) {
+      const { error: yardageError } = await supabase
+        .from('course_hole_yardages')
+        .upsert(yardages, { onConflict: 'tee_id,hole_number' });
+
+      if (yardageError) throw yardageError;
+    }
+  }
+
   // ===== PLAYER STATS FUNCTION =====
 
   export async function getPlayerStats(userId: string, seasonId?: string) {
@@ -957,8 +1435,9 @@ export async function getGameStatus(gameId: string) {
     const { data: game, error: gError } = await supabase
       .from('games')
       .select(`
-        id, name, game_date,
-        courses:course_id (name, par)
+        id, name, game_date, season_id, course_id, format, format_config,
+        courses:course_id (name, par, course_rating, slope_rating),
+        course_tees:tee_id (course_rating, slope_rating)
       `)
       .eq('id', gameId)
       .single();
@@ -968,7 +1447,7 @@ export async function getGameStatus(gameId: string) {
     const { data: scores, error: sError } = await supabase
       .from('scores')
       .select(`
-        id, raw_score, points, bonus_points, notes,
+        id, player_id, raw_score, points, bonus_points, notes, course_handicap,
         profiles!player_id (username, profile_image_url)
       `)
       .eq('game_id', gameId)
@@ -976,10 +1455,69 @@ export async function getGameStatus(gameId: string) {
 
     if (sError) throw sError;
 
+    const format = game.format as GameFormat;
+    const config = parseFormatConfig(game.format_config);
+    let formatResults: FormatResults | null = null;
+
+    if (format !== 'stroke' && scores.length > 0) {
+      const [{ data: holes, error: hError }, { data: scoreHoles, error: shError }] = await Promise.all([
+        supabase
+          .from('course_holes')
+          .select('hole_number, par, stroke_index')
+          .eq('course_id', game.course_id),
+        supabase
+          .from('score_holes')
+          .select('score_id, hole_number, strokes')
+          .in('score_id', scores.map(s => s.id))
+      ]);
+
+      if (hError) throw hError;
+      if (shError) throw shError;
+
+      // Net seasons store each round's course handicap; otherwise work it out as of the round date
+      const courseHandicaps = new Map(scores.map(s => [s.player_id, s.course_handicap]));
+      const needHandicaps = scores.filter(s => s.course_handicap === null).map(s => s.player_id);
+      if (config.useHandicaps && needHandicaps.length > 0) {
+        const indexes = await getHandicapIndexesAsOf(needHandicaps, game.game_date);
+        const tee = {
+          par: game.courses.par,
+          course_rating: game.course_tees?.course_rating ?? game.courses.course_rating,
+          slope_rating: game.course_tees?.slope_rating ?? game.courses.slope_rating
+        };
+        indexes.forEach((index, playerId) => {
+          if (index !== null) courseHandicaps.set(playerId, calculateCourseHandicap(index, tee));
+        });
+      }
+
+      formatResults = calculateFormatResults({
+        format,
+        config,
+        holes: (holes || []).map(h => ({ holeNumber: h.hole_number, par: h.par, strokeIndex: h.stroke_index })),
+        players: scores.map(s => ({
+          playerId: s.player_id,
+          username: s.profiles?.username || 'Unknown',
+          courseHandicap: courseHandicaps.get(s.player_id) ?? null,
+          holes: (scoreHoles || [])
+            .filter(h => h.score_id === s.id)
+            .map(h => ({ holeNumber: h.hole_number, strokes: h.strokes }))
+        }))
+      });
+    }
+
+    const { count: sideGames, error: sgError } = await supabase
+      .from('side_games')
+      .select('id', { count: 'exact', head: true })
+      .eq('game_id', gameId);
+
+    if (sgError) throw sgError;
+
     return {
-      game: { name: game.name, game_date: game.game_date },
+      game: { id: game.id, season_id: game.season_id, name: game.name, game_date: game.game_date, format },
       course: { name: game.courses.name, par: game.courses.par },
+      formatResults,
+      sideGames: sideGames ?? 0,
       scores: (scores || []).map(s => ({
+        playerId: s.player_id,
         player: { username: s.profiles?.username || 'Unknown', profile_image_url: s.profiles?.profile_image_url || null },
         score: s.raw_score,
         points: s.points,
@@ -1083,6 +1621,1135 @@ export async function getGameStatus(gameId: string) {
     return items.slice(0, limit);
   }
 
+  // ===== SEASON PLAYOFFS =====
+
+  // Get a season's playoff settings, seeds, and playoff games with their scores
+  export async function getSeasonPlayoffs(seasonId: string) {
+    const { data: season, error: seasonError } = await supabase
+      .from('seasons')
+      .select('id, name, playoff_format, playoff_size, playoff_rounds, playoff_status, playoff_champion_id')
+      .eq('id', seasonId)
+      .single();
+
+    if (seasonError) throw seasonError;
+
+    const { data: seedRows, error: seedsError } = await supabase
+      .from('season_playoff_seeds')
+      .select('player_id, seed, regular_season_points, starting_points, profiles:player_id ( username )')
+      .eq('season_id', seasonId)
+      .order('seed', { ascending: true });
+
+    if (seedsError) throw seedsError;
+
+    const { data: games, error: gamesError } = await supabase
+      .from('games')
+      .select('id, name, game_date, status, playoff_round')
+      .eq('season_id', seasonId)
+      .not('playoff_round', 'is', null)
+      .order('game_date', { ascending: true });
+
+    if (gamesError) throw gamesError;
+
+    const roundByGame = new Map(games.map(game => [game.id, game.playoff_round as number]));
+    let scores: PlayoffScore[] = [];
+
+    if (games.length > 0) {
+      const { data: scoreRows, error: scoresError } = await supabase
+        .from('scores')
+        .select('game_id, player_id, raw_score, points, bonus_points')
+        .in('game_id', games.map(game => game.id));
+
+      if (scoresError) throw scoresError;
+
+      scores = scoreRows.map(score => ({
+        round: roundByGame.get(score.game_id) as number,
+        playerId: score.player_id,
+        rawScore: score.raw_score,
+        points: (score.points || 0) + (score.bonus_points || 0),
+      }));
+    }
+
+    // A round is over once every game tagged with it is completed
+    const rounds = Array.from(new Set(roundByGame.values()));
+    const completedRounds = rounds.filter(round =>
+      games.every(game => game.playoff_round !== round || game.status === 'completed')
+    );
+
+    const seeds: PlayoffSeed[] = seedRows.map(row => ({
+      playerId: row.player_id,
+      username: row.profiles?.username || 'Unknown',
+      seed: row.seed,
+      regularSeasonPoints: row.regular_season_points,
+      startingPoints: row.starting_points,
+    }));
+
+    return {
+      season: {
+        ...season,
+        playoff_format: season.playoff_format as PlayoffFormat,
+        playoff_status: season.playoff_status as PlayoffStatus,
+      },
+      seeds,
+      games,
+      scores,
+      completedRounds,
+    };
+  }
+
+  // Seed the playoffs from the regular-season leaderboard (admin only)
+  export async function startSeasonPlayoffs(
+    seasonId: string,
+    settings: {
+      format: Exclude<PlayoffFormat, 'none'>;
+      size: number;
+      rounds: number | null;
+    }
+  ): Promise<PlayoffSeed[]> {
+    // Players short of the season's minimum rounds can't qualify
+    const leaderboard = await getSeasonLeaderboard(seasonId);
+    const seeds = seedPlayoffs(
+      leaderboard.filter(row => row.qualified !== false).map(row => ({
+        playerId: row.player_id as string,
+        username: row.username || 'Unknown',
+        totalPoints: row.total_points ?? 0,
+      })),
+      settings.size
+    );
+
+    if (seeds.length < MIN_PLAYOFF_SIZE) {
+      throw new Error(`At least ${MIN_PLAYOFF_SIZE} players are needed to start the playoffs`);
+    }
+
+    const { error: deleteError } = await supabase
+      .from('season_playoff_seeds')
+      .delete()
+      .eq('season_id', seasonId);
+
+    if (deleteError) throw deleteError;
+
+    const { error: insertError } = await supabase
+      .from('season_playoff_seeds')
+      .insert(seeds.map(seed => ({
+        season_id: seasonId,
+        player_id: seed.playerId,
+        seed: seed.seed,
+        regular_season_points: seed.regularSeasonPoints,
+        starting_points: seed.startingPoints,
+      })));
+
+    if (insertError) throw insertError;
+
+    const { error } = await supabase
+      .from('seasons')
+      .update({
+        playoff_format: settings.format,
+        playoff_size: settings.size,
+        playoff_rounds: settings.format === 'points_reset' ? settings.rounds : null,
+        playoff_status: 'in_progress',
+        playoff_champion_id: null,
+      })
+      .eq('id', seasonId);
+
+    if (error) throw error;
+    return seeds;
+  }
+
+  // Clear the seeds so the playoffs can be set up again (admin only)
+  // Games already tagged as playoff rounds keep their tag
+  export async function resetSeasonPlayoffs(seasonId: string) {
+    const { error: deleteError } = await supabase
+      .from('season_playoff_seeds')
+      .delete()
+      .eq('season_id', seasonId);
+
+    if (deleteError) throw deleteError;
+
+    const { error } = await supabase
+      .from('seasons')
+      .update({ playoff_status: 'not_started', playoff_champion_id: null })
+      .eq('id', seasonId);
+
+    if (error) throw error;
+  }
+
+  // Crown the playoff champion and close the playoffs (admin only)
+  export async function crownPlayoffChampion(seasonId: string, playerId: string) {
+    const { error } = await supabase
+      .from('seasons')
+      .update({ playoff_status: 'completed', playoff_champion_id: playerId })
+      .eq('id', seasonId);
+
+    if (error) throw error;
+  }
+
+  // ===== STANDINGS HISTORY =====
+
+  // Get every standings snapshot for a season, in the order the games were played
+  export async function getStandingsHistory(seasonId: string): Promise<StandingsSnapshot[]> {
+    const { data, error } = await supabase
+      .from('season_standings_snapshots')
+      .select(`
+        game_id,
+        player_id,
+        rank,
+        tied,
+        total_points,
+        created_at,
+        games:game_id ( name, game_date ),
+        profiles:player_id ( username )
+      `)
+      .eq('season_id', seasonId)
+      .order('rank', { ascending: true });
+
+    if (error) throw error;
+
+    const snapshots = new Map<string, StandingsSnapshot>();
+    const completedAt = new Map<string, string>();
+    data.forEach(row => {
+      if (!snapshots.has(row.game_id)) {
+        snapshots.set(row.game_id, {
+          gameId: row.game_id,
+          gameName: row.games?.name || 'Unknown',
+          gameDate: row.games?.game_date || '',
+          standings: []
+        });
+        completedAt.set(row.game_id, row.created_at);
+      }
+      snapshots.get(row.game_id)!.standings.push({
+        playerId: row.player_id,
+        username: row.profiles?.username || 'Unknown',
+        rank: row.rank,
+        tied: row.tied,
+        points: row.total_points
+      });
+    });
+
+    // Games on the same day are ordered by when they were completed
+    return Array.from(snapshots.values()).sort((a, b) =>
+      a.gameDate.localeCompare(b.gameDate) ||
+      completedAt.get(a.gameId)!.localeCompare(completedAt.get(b.gameId)!)
+    );
+  }
+
+  // ===== SEASON FLIGHTS =====
+
+  // Get a season's flights in display order
+  export async function getSeasonFlights(seasonId: string) {
+    const { data, error } = await supabase
+      .from('season_flights')
+      .select('id, name, min_handicap, max_handicap, sort_order')
+      .eq('season_id', seasonId)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Add a flight to a season (admin only)
+  export async function createSeasonFlight(
+    seasonId: string,
+    flight: { name: string; minHandicap: number | null; maxHandicap: number | null; sortOrder: number }
+  ) {
+    const { data, error } = await supabase
+      .from('season_flights')
+      .insert({
+        season_id: seasonId,
+        name: flight.name.trim(),
+        min_handicap: flight.minHandicap,
+        max_handicap: flight.maxHandicap,
+        sort_order: flight.sortOrder
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Remove a flight (admin only); its players become unassigned and the bonuses are recomputed
+  export async function deleteSeasonFlight(seasonId: string, flightId: string) {
+    const { error } = await supabase
+      .from('season_flights')
+      .delete()
+      .eq('id', flightId);
+
+    if (error) throw error;
+
+    await refreshSeasonBonusPoints(seasonId);
+  }
+
+  // Get a season's players with their handicap index and flight
+  export async function getSeasonParticipantFlights(seasonId: string) {
+    const { data, error } = await supabase
+      .from('season_participants')
+      .select('player_id, flight_id, profiles:player_id ( username, handicap )')
+      .eq('season_id', seasonId);
+
+    if (error) throw error;
+
+    return data
+      .map(participant => ({
+        playerId: participant.player_id,
+        username: participant.profiles?.username ?? 'Unknown',
+        handicap: participant.profiles?.handicap ?? null,
+        flightId: participant.flight_id
+      }))
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  // Put players into flights and move the low-round bonuses to match (admin only)
+  export async function assignSeasonFlights(seasonId: string, assignments: FlightAssignment[]) {
+    const { error } = await supabase.rpc('assign_season_flights', {
+      p_season_id: seasonId,
+      p_assignments: assignments.map(assignment => ({
+        player_id: assignment.playerId,
+        flight_id: assignment.flightId
+      }))
+    });
+
+    if (error) throw error;
+  }
+
+  // Recompute the gross and net low-round bonuses for every game in a season (admin only)
+  // Returns the number of games refreshed
+  export async function refreshSeasonBonusPoints(seasonId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('refresh_season_bonus_points', {
+      p_season_id: seasonId
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // ===== AUDIT LOG =====
+
+  // Get audit log entries, newest first (admins only; RLS hides the log from everyone else)
+  // Pass the oldest occurredAt already shown as `before` to page further back
+  export async function getAuditLog(
+    filters: AuditLogFilters = {},
+    options: { before?: string; limit?: number } = {}
+  ): Promise<AuditEntry[]> {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .limit(options.limit ?? 50);
+
+    if (filters.gameId) query = query.eq('game_id', filters.gameId);
+    if (filters.playerId) query = query.eq('player_id', filters.playerId);
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+    if (filters.action) query = query.eq('action', filters.action);
+    if (options.before) query = query.lt('occurred_at', options.before);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return toAuditEntries(data);
+  }
+
+  // Get everything that has happened to one score, oldest first
+  export async function getScoreAuditTrail(scoreId: string): Promise<AuditEntry[]> {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('entity_id', scoreId)
+      .order('occurred_at', { ascending: true });
+
+    if (error) throw error;
+    return toAuditEntries(data);
+  }
+
+  // The log keeps IDs only (rows outlive what they describe), so look up names separately
+  async function toAuditEntries(rows: Database['public']['Tables']['audit_log']['Row'][]): Promise<AuditEntry[]> {
+    const profileIds = Array.from(new Set(rows.flatMap(row => [row.actor_id, row.player_id]).filter((id): id is string => !!id)));
+    const gameIds = Array.from(new Set(rows.map(row => row.game_id).filter((id): id is string => !!id)));
+
+    const [profilesResult, gamesResult] = await Promise.all([
+      profileIds.length > 0
+        ? supabase.from('profiles').select('id, username').in('id', profileIds)
+        : Promise.resolve({ data: [], error: null }),
+      gameIds.length > 0
+        ? supabase.from('games').select('id, name').in('id', gameIds)
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (profilesResult.error) throw profilesResult.error;
+    if (gamesResult.error) throw gamesResult.error;
+
+    const usernames = new Map((profilesResult.data ?? []).map(profile => [profile.id, profile.username]));
+    const gameNames = new Map((gamesResult.data ?? []).map(game => [game.id, game.name]));
+
+    return rows.map(row => ({
+      id: row.id,
+      occurredAt: row.occurred_at,
+      action: row.action as AuditAction,
+      entityType: row.entity_type as AuditEntry['entityType'],
+      entityId: row.entity_id,
+      actorId: row.actor_id,
+      actorName: row.actor_id ? usernames.get(row.actor_id) ?? null : null,
+      gameId: row.game_id,
+      gameName: row.game_id ? gameNames.get(row.game_id) ?? null : null,
+      playerId: row.player_id,
+      playerName: row.player_id ? usernames.get(row.player_id) ?? null : null,
+      before: row.before as Record<string, unknown> | null,
+      after: row.after as Record<string, unknown> | null
+    }));
+  }
+
+  // ===== SCORE DISPUTES =====
+
+  // Ask for a change to a submitted score: a correction on your own score or a
+  // dispute on another player's score from a round you played
+  export async function openScoreDispute(scoreId: string, proposedScore: number, reason: string) {
+    const { data, error } = await supabase.rpc('open_score_dispute', {
+      p_score_id: scoreId,
+      p_proposed_score: proposedScore,
+      p_reason: reason
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Withdraw one of your own open requests
+  export async function withdrawScoreDispute(disputeId: string) {
+    const { error } = await supabase.rpc('withdraw_score_dispute', {
+      p_dispute_id: disputeId
+    });
+
+    if (error) throw error;
+  }
+
+  // Get the requests you have raised, newest first (optionally for one round)
+  export async function getMyScoreDisputes(userId: string, gameId?: string): Promise<ScoreDispute[]> {
+    let query = supabase
+      .from('score_disputes')
+      .select('*')
+      .eq('raised_by', userId)
+      .order('created_at', { ascending: false });
+
+    if (gameId) query = query.eq('game_id', gameId);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return toScoreDisputes(data);
+  }
+
+  // Get the admin review queue: every open request, oldest first
+  export async function getOpenScoreDisputes(): Promise<ScoreDispute[]> {
+    const { data, error } = await supabase
+      .from('score_disputes')
+      .select('*')
+      .eq('status', 'open')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return toScoreDisputes(data);
+  }
+
+  // Approve or reject a request (admin only)
+  // An approval goes through update_score, which also refreshes the round's net results
+  export async function resolveScoreDispute(disputeId: string, approve: boolean, note?: string) {
+    const { data: gameId, error } = await supabase.rpc('resolve_score_dispute', {
+      p_dispute_id: disputeId,
+      p_approve: approve,
+      p_note: note || null
+    });
+
+    if (error) throw error;
+    return gameId;
+  }
+
+  async function toScoreDisputes(rows: Database['public']['Tables']['score_disputes']['Row'][]): Promise<ScoreDispute[]> {
+    const profileIds = Array.from(new Set(rows.flatMap(row => [row.player_id, row.raised_by])));
+    const gameIds = Array.from(new Set(rows.map(row => row.game_id)));
+
+    const [profilesResult, gamesResult] = await Promise.all([
+      profileIds.length > 0
+        ? supabase.from('profiles').select('id, username').in('id', profileIds)
+        : Promise.resolve({ data: [], error: null }),
+      gameIds.length > 0
+        ? supabase.from('games').select('id, name').in('id', gameIds)
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (profilesResult.error) throw profilesResult.error;
+    if (gamesResult.error) throw gamesResult.error;
+
+    const usernames = new Map((profilesResult.data ?? []).map(profile => [profile.id, profile.username]));
+    const gameNames = new Map((gamesResult.data ?? []).map(game => [game.id, game.name]));
+
+    return rows.map(row => ({
+      id: row.id,
+      scoreId: row.score_id,
+      gameId: row.game_id,
+      gameName: gameNames.get(row.game_id) ?? null,
+      playerId: row.player_id,
+      playerName: usernames.get(row.player_id) ?? null,
+      raisedBy: row.raised_by,
+      raisedByName: usernames.get(row.raised_by) ?? null,
+      kind: row.kind as DisputeKind,
+      reason: row.reason,
+      currentScore: row.current_score,
+      proposedScore: row.proposed_score,
+      status: row.status as DisputeStatus,
+      resolvedBy: row.resolved_by,
+      resolvedAt: row.resolved_at,
+      resolutionNote: row.resolution_note,
+      createdAt: row.created_at
+    }));
+  }
+
+  // ===== SCORE ATTESTATION =====
+
+  // Attest a playing partner's score so it counts in a season that requires attestation
+  export async function attestScore(scoreId: string) {
+    const { error } = await supabase.rpc('attest_score', {
+      p_score_id: scoreId
+    });
+
+    if (error) throw error;
+  }
+
+  // Partners' scores waiting on the current player's attestation
+  export async function getMyAttestationRequests() {
+    const { data, error } = await supabase.rpc('my_attestation_requests');
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Whether a round's season requires attestation, and who attested each of its scores
+  export async function getGameAttestations(gameId: string) {
+    const [gameResult, attestationsResult] = await Promise.all([
+      supabase
+        .from('games')
+        .select('seasons:season_id (require_attestation)')
+        .eq('id', gameId)
+        .single(),
+      supabase
+        .from('score_attestations')
+        .select('score_id, attested_by, scores!inner (game_id)')
+        .eq('scores.game_id', gameId)
+    ]);
+
+    if (gameResult.error) throw gameResult.error;
+    if (attestationsResult.error) throw attestationsResult.error;
+
+    return {
+      required: gameResult.data.seasons?.require_attestation ?? false,
+      attestedBy: new Map(attestationsResult.data.map(row => [row.score_id, row.attested_by]))
+    };
+  }
+
+  // ===== LEAGUES =====
+
+  // Leagues the player belongs to, with their role in each, oldest membership first
+  export async function getMyLeagues(userId: string): Promise<League[]> {
+    const { data, error } = await supabase
+      .from('league_members')
+      .select('role, joined_at, leagues:league_id (id, name, code)')
+      .eq('user_id', userId)
+      .order('joined_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || [])
+      .filter(row => row.leagues)
+      .map(row => ({
+        id: row.leagues!.id,
+        name: row.leagues!.name,
+        code: row.leagues!.code,
+        role: row.role as LeagueRole
+      }));
+  }
+
+  // Start a league; the caller becomes its owner. Returns the new league's ID
+  export async function createLeague(name: string) {
+    const { data, error } = await supabase.rpc('create_league', {
+      p_name: name
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Join a league with its invite code. Returns the league's ID
+  export async function joinLeague(code: string) {
+    const { data, error } = await supabase.rpc('join_league', {
+      p_code: code
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // A league's members and their roles, owners first
+  export async function getLeagueMembers(leagueId: string): Promise<LeagueMember[]> {
+    const { data, error } = await supabase
+      .from('league_members')
+      .select('user_id, role, joined_at, profiles:user_id (username)')
+      .eq('league_id', leagueId)
+      .order('joined_at', { ascending: true });
+
+    if (error) throw error;
+
+    const rank: Record<LeagueRole, number> = { owner: 0, admin: 1, member: 2 };
+    return (data || [])
+      .map(row => ({
+        userId: row.user_id,
+        username: row.profiles?.username ?? 'Unknown player',
+        role: row.role as LeagueRole,
+        joinedAt: row.joined_at
+      }))
+      .sort((a, b) => rank[a.role] - rank[b.role] || a.username.localeCompare(b.username));
+  }
+
+  // Change a member's role (league owners only)
+  export async function setLeagueMemberRole(leagueId: string, userId: string, role: LeagueRole) {
+    const { error } = await supabase.rpc('set_league_member_role', {
+      p_league_id: leagueId,
+      p_user_id: userId,
+      p_role: role
+    });
+
+    if (error) throw error;
+  }
+
+  // ===== ROUND SCHEDULE =====
+
+  // Upcoming rounds in the player's active seasons (in the given league, if any),
+  // soonest first, with the player's RSVP and everyone's counts
+  export async function getSeasonSchedule(userId: string, leagueId?: string) {
+    const { data: participations, error: pError } = await supabase
+      .from('season_participants')
+      .select('season_id, seasons:season_id (id, is_active, league_id)')
+      .eq('player_id', userId);
+
+    if (pError) throw pError;
+
+    const seasonIds = (participations || [])
+      .filter(p => p.seasons?.is_active && (!leagueId || p.seasons.league_id === leagueId))
+      .map(p => p.season_id);
+
+    if (seasonIds.length === 0) return [];
+
+    const today = new Date().toISOString().split('T')[0];
+
+    const { data: games, error: gError } = await supabase
+      .from('games')
+      .select(`
+        id, name, game_date, status,
+        seasons:season_id (name),
+        courses:course_id (name)
+      `)
+      .in('season_id', seasonIds)
+      .gte('game_date', today)
+      .eq('status', 'active')
+      .order('game_date', { ascending: true });
+
+    if (gError) throw gError;
+    if (!games || games.length === 0) return [];
+
+    const { data: rsvps, error: rError } = await supabase
+      .from('game_rsvps')
+      .select('game_id, player_id, status')
+      .in('game_id', games.map(game => game.id));
+
+    if (rError) throw rError;
+
+    return games.map(game => {
+      const gameRsvps = (rsvps || [])
+        .filter(rsvp => rsvp.game_id === game.id)
+        .map(rsvp => ({ playerId: rsvp.player_id, status: rsvp.status as RsvpStatus }));
+
+      return {
+        id: game.id,
+        name: game.name,
+        game_date: game.game_date,
+        status: game.status,
+        season_name: game.seasons?.name ?? '',
+        course_name: game.courses?.name ?? '',
+        myRsvp: gameRsvps.find(rsvp => rsvp.playerId === userId)?.status ?? null,
+        counts: countRsvps(gameRsvps)
+      };
+    });
+  }
+
+  // Set the current player's RSVP for a round
+  export async function setGameRsvp(gameId: string, status: RsvpStatus) {
+    const { error } = await supabase.rpc('set_game_rsvp', {
+      p_game_id: gameId,
+      p_status: status
+    });
+
+    if (error) throw error;
+  }
+
+  // Everyone in a round's season with their RSVP and whether they've submitted a score
+  export async function getGameRoster(gameId: string) {
+    const { data: game, error: gError } = await supabase
+      .from('games')
+      .select('season_id')
+      .eq('id', gameId)
+      .single();
+
+    if (gError) throw gError;
+
+    const [participantsResult, rsvpsResult, scoresResult] = await Promise.all([
+      supabase
+        .from('season_participants')
+        .select('player_id, profiles:player_id (username)')
+        .eq('season_id', game.season_id),
+      supabase
+        .from('game_rsvps')
+        .select('player_id, status')
+        .eq('game_id', gameId),
+      supabase
+        .from('scores')
+        .select('player_id')
+        .eq('game_id', gameId)
+    ]);
+
+    if (participantsResult.error) throw participantsResult.error;
+    if (rsvpsResult.error) throw rsvpsResult.error;
+    if (scoresResult.error) throw scoresResult.error;
+
+    return buildRoster(
+      participantsResult.data.map(p => ({
+        playerId: p.player_id,
+        username: p.profiles?.username ?? 'Unknown player'
+      })),
+      rsvpsResult.data.map(r => ({ playerId: r.player_id, status: r.status as RsvpStatus })),
+      new Set(scoresResult.data.map(score => score.player_id))
+    );
+  }
+
+  // ===== CALENDAR FEEDS =====
+
+  // The current player's private calendar feed token for a season, or for all
+  // their rounds when seasonId is omitted. reset replaces the old link
+  export async function getCalendarFeedToken(seasonId?: string, reset = false) {
+    const { data, error } = await supabase.rpc('calendar_feed_token', {
+      p_season_id: seasonId ?? null,
+      p_reset: reset
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // The rounds in a calendar feed, by token. Works without a session
+  export async function getCalendarFeed(token: string) {
+    const { data, error } = await supabase.rpc('calendar_feed', { p_token: token });
+
+    if (error) throw error;
+
+    return {
+      name: data[0]?.feed_name ?? null,
+      rounds: data.map((row): CalendarRound => ({
+        gameId: row.game_id,
+        name: row.game_name,
+        date: row.game_date,
+        status: row.status,
+        roundCode: row.round_code,
+        seasonName: row.season_name,
+        courseName: row.course_name,
+        courseLocation: row.course_location,
+        rsvpStatus: row.rsvp_status
+      }))
+    };
+  }
+
+  // ===== TEE TIMES =====
+
+  // A round's tee-time groups in tee order, with each group's players
+  export async function getGameTeeGroups(gameId: string) {
+    const { data, error } = await supabase
+      .from('tee_groups')
+      .select(`
+        id, group_number, tee_time,
+        tee_group_players (player_id, profiles:player_id (username, handicap))
+      `)
+      .eq('game_id', gameId)
+      .order('group_number', { ascending: true });
+
+    if (error) throw error;
+
+    return data.map(group => ({
+      id: group.id,
+      groupNumber: group.group_number,
+      // TIME columns come back as HH:MM:SS
+      teeTime: group.tee_time?.slice(0, 5) ?? null,
+      playerIds: group.tee_group_players.map(p => p.player_id),
+      players: group.tee_group_players.map(p => ({
+        playerId: p.player_id,
+        username: p.profiles?.username ?? 'Unknown player',
+        handicap: p.profiles?.handicap ?? null
+      }))
+    }));
+  }
+
+  // Everyone who could play a round, with their handicap and RSVP, and how
+  // often each pair has already shared a group in the season's other rounds
+  export async function getTeeGroupField(gameId: string) {
+    const { data: game, error: gError } = await supabase
+      .from('games')
+      .select('season_id')
+      .eq('id', gameId)
+      .single();
+
+    if (gError) throw gError;
+
+    const [participantsResult, rsvpsResult, historyResult] = await Promise.all([
+      supabase
+        .from('season_participants')
+        .select('player_id, profiles:player_id (username, handicap)')
+        .eq('season_id', game.season_id),
+      supabase
+        .from('game_rsvps')
+        .select('player_id, status')
+        .eq('game_id', gameId),
+      supabase
+        .from('tee_group_players')
+        .select('group_id, player_id, games!inner (season_id)')
+        .eq('games.season_id', game.season_id)
+        .neq('game_id', gameId)
+    ]);
+
+    if (participantsResult.error) throw participantsResult.error;
+    if (rsvpsResult.error) throw rsvpsResult.error;
+    if (historyResult.error) throw historyResult.error;
+
+    const rsvps = new Map(rsvpsResult.data.map(r => [r.player_id, r.status as RsvpStatus]));
+    const earlierGroups = new Map<string, string[]>();
+    historyResult.data.forEach(row => {
+      earlierGroups.set(row.group_id, [...(earlierGroups.get(row.group_id) ?? []), row.player_id]);
+    });
+
+    return {
+      players: participantsResult.data
+        .map(p => ({
+          playerId: p.player_id,
+          username: p.profiles?.username ?? 'Unknown player',
+          handicap: p.profiles?.handicap ?? null,
+          rsvp: rsvps.get(p.player_id) ?? null
+        }))
+        .sort((a, b) => a.username.localeCompare(b.username)),
+      history: buildPairingHistory(Array.from(earlierGroups.values()))
+    };
+  }
+
+  // Replace a round's tee-time groups (league admins)
+  export async function setGameTeeGroups(gameId: string, groups: TeeGroup[]) {
+    const { data, error } = await supabase.rpc('set_game_tee_groups', {
+      p_game_id: gameId,
+      p_groups: groups.map(group => ({
+        tee_time: group.teeTime,
+        player_ids: group.playerIds
+      }))
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Set a match play or best ball round's pairings, keeping the rest of its format config
+  export async function setGamePairings(gameId: string, pairings: string[][]) {
+    const { data: game, error: gError } = await supabase
+      .from('games')
+      .select('status, format_config')
+      .eq('id', gameId)
+      .single();
+
+    if (gError) throw gError;
+
+    const config = parseFormatConfig(game.format_config);
+    const { error } = await supabase
+      .from('games')
+      .update({
+        status: game.status,
+        format_config: { ...config, pairings } as unknown as Json
+      })
+      .eq('id', gameId);
+
+    if (error) throw error;
+  }
+
+  // ===== SIDE GAMES =====
+
+  const SIDE_GAME_COLUMNS = `
+    id, game_id, kind, entry_fee, hole_number,
+    side_game_entries (player_id),
+    side_game_winners (player_id, shares)
+  `;
+
+  type SideGameRow = {
+    id: string;
+    game_id: string;
+    kind: string;
+    entry_fee: number;
+    hole_number: number | null;
+    side_game_entries: { player_id: string }[];
+    side_game_winners: { player_id: string; shares: number }[];
+  };
+
+  function toSideGame(row: SideGameRow): SideGame {
+    return {
+      id: row.id,
+      gameId: row.game_id,
+      kind: row.kind as SideGameKind,
+      entryFee: Number(row.entry_fee),
+      holeNumber: row.hole_number,
+      entrants: row.side_game_entries.map(entry => entry.player_id),
+      winners: row.side_game_winners.map(winner => ({ playerId: winner.player_id, shares: winner.shares }))
+    };
+  }
+
+  // A round's side games, with their entrants and any winners entered by hand
+  export async function getGameSideGames(gameId: string) {
+    const { data, error } = await supabase
+      .from('side_games')
+      .select(SIDE_GAME_COLUMNS)
+      .eq('game_id', gameId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as SideGameRow[]).map(toSideGame);
+  }
+
+  // Add a side game to a round with the players who paid in (league admins)
+  export async function createSideGame(sideGame: Omit<SideGame, 'id' | 'winners'>, createdBy: string) {
+    const { data, error } = await supabase
+      .from('side_games')
+      .insert({
+        game_id: sideGame.gameId,
+        kind: sideGame.kind,
+        entry_fee: sideGame.entryFee,
+        hole_number: SIDE_GAME_KINDS[sideGame.kind].needsHole ? sideGame.holeNumber : null,
+        created_by: createdBy
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    const { error: eError } = await supabase
+      .from('side_game_entries')
+      .insert(sideGame.entrants.map(playerId => ({ side_game_id: data.id, player_id: playerId })));
+
+    if (eError) {
+      // Don't leave a side game without its entrants behind
+      await supabase.from('side_games').delete().eq('id', data.id);
+      throw eError;
+    }
+
+    return data.id;
+  }
+
+  // Replace the winners entered by hand; none leaves skins to the scorecards (league admins)
+  export async function setSideGameWinners(sideGameId: string, winners: SideGameWinner[]) {
+    const { error: dError } = await supabase
+      .from('side_game_winners')
+      .delete()
+      .eq('side_game_id', sideGameId);
+
+    if (dError) throw dError;
+    if (winners.length === 0) return;
+
+    const { error } = await supabase
+      .from('side_game_winners')
+      .insert(winners.map(winner => ({
+        side_game_id: sideGameId,
+        player_id: winner.playerId,
+        shares: winner.shares
+      })));
+
+    if (error) throw error;
+  }
+
+  // Remove a side game from a round (league admins)
+  export async function deleteSideGame(sideGameId: string) {
+    const { error } = await supabase
+      .from('side_games')
+      .delete()
+      .eq('id', sideGameId);
+
+    if (error) throw error;
+  }
+
+  // Every side game in a season with its result, each player's net winnings
+  // and the payments that square everyone up
+  export async function getSideGameLedger(seasonId: string) {
+    const { data: games, error: gError } = await supabase
+      .from('games')
+      .select(`id, name, game_date, course_id, side_games (${SIDE_GAME_COLUMNS})`)
+      .eq('season_id', seasonId)
+      .order('game_date', { ascending: true });
+
+    if (gError) throw gError;
+
+    const rounds = games
+      .map(game => ({ ...game, sideGames: (game.side_games as SideGameRow[]).map(toSideGame) }))
+      .filter(game => game.sideGames.length > 0);
+
+    // Skins without winners entered by hand are worked out from the entrants' scorecards
+    const skinsRounds = rounds.filter(game =>
+      game.sideGames.some(sideGame => sideGame.kind === 'skins' && sideGame.winners.length === 0)
+    );
+    const scorecardSkins = new Map<string, SideGameWinner[] | null>();
+
+    if (skinsRounds.length > 0) {
+      const { data: scores, error: sError } = await supabase
+        .from('scores')
+        .select('id, game_id, player_id')
+        .in('game_id', skinsRounds.map(game => game.id));
+
+      if (sError) throw sError;
+
+      const [{ data: scoreHoles, error: shError }, { data: holes, error: hError }] = await Promise.all([
+        supabase
+          .from('score_holes')
+          .select('score_id, hole_number, strokes')
+          .in('score_id', scores.map(score => score.id)),
+        supabase
+          .from('course_holes')
+          .select('course_id, hole_number, par, stroke_index')
+          .in('course_id', Array.from(new Set(skinsRounds.map(game => game.course_id))))
+      ]);
+
+      if (shError) throw shError;
+      if (hError) throw hError;
+
+      skinsRounds.forEach(game => {
+        const sideGame = game.sideGames.find(sg => sg.kind === 'skins') as SideGame;
+        const cards = scores
+          .filter(score => score.game_id === game.id)
+          .map(score => ({
+            playerId: score.player_id,
+            username: '',
+            courseHandicap: null,
+            holes: scoreHoles
+              .filter(hole => hole.score_id === score.id)
+              .map(hole => ({ holeNumber: hole.hole_number, strokes: hole.strokes }))
+          }));
+        const courseHoles = holes
+          .filter(hole => hole.course_id === game.course_id)
+          .map(hole => ({ holeNumber: hole.hole_number, par: hole.par, strokeIndex: hole.stroke_index }));
+
+        scorecardSkins.set(sideGame.id, skinsFromScorecards(sideGame.entrants, cards, courseHoles));
+      });
+    }
+
+    const playerIds = Array.from(new Set(rounds.flatMap(game => game.sideGames.flatMap(sg => sg.entrants))));
+    const { data: profiles, error: pError } = playerIds.length > 0
+      ? await supabase.from('profiles').select('id, username').in('id', playerIds)
+      : { data: [], error: null };
+
+    if (pError) throw pError;
+
+    const usernames: Record<string, string> = Object.fromEntries(
+      (profiles || []).map(profile => [profile.id, profile.username])
+    );
+
+    const ledgerRounds = rounds.map(game => ({
+      gameId: game.id,
+      name: game.name,
+      gameDate: game.game_date,
+      contests: game.sideGames.map(sideGame => ({
+        sideGame,
+        result: settleSideGame(sideGame, scorecardSkins.get(sideGame.id) ?? null)
+      }))
+    }));
+
+    const balances = sideGameBalances(ledgerRounds.flatMap(round => round.contests.map(contest => contest.result)));
+
+    return {
+      rounds: ledgerRounds,
+      balances: playerIds
+        .map(playerId => ({
+          playerId,
+          username: usernames[playerId] ?? 'Unknown player',
+          net: balances.get(playerId) ?? 0
+        }))
+        .sort((a, b) => b.net - a.net || a.username.localeCompare(b.username)),
+      transfers: settleUp(balances),
+      usernames
+    };
+  }
+
+  // ===== HISTORY IMPORT =====
+
+  // What an import is matched against: courses, the league's seasons (with
+  // their scoring rules), rounds (with the scores already in them) and
+  // members, and the rule sets a new season can use
+  export async function getImportContext(leagueId: string, canAddCourses: boolean): Promise<ImportContext> {
+    const [coursesResult, seasonsResult, gamesResult, membersResult, ruleSets] = await Promise.all([
+      supabase
+        .from('courses')
+        .select('id, name, par'),
+      supabase
+        .from('seasons')
+        .select('id, name, scoring_rule_sets:scoring_rule_set_id (definition)')
+        .eq('league_id', leagueId),
+      supabase
+        .from('games')
+        .select(`
+          id, season_id, game_date,
+          courses:course_id (par),
+          scores (player_id, raw_score),
+          seasons!inner (league_id)
+        `)
+        .eq('seasons.league_id', leagueId),
+      supabase
+        .from('league_members')
+        .select('user_id, profiles:user_id (username)')
+        .eq('league_id', leagueId),
+      getScoringRuleSets()
+    ]);
+
+    if (coursesResult.error) throw coursesResult.error;
+    if (seasonsResult.error) throw seasonsResult.error;
+    if (gamesResult.error) throw gamesResult.error;
+    if (membersResult.error) throw membersResult.error;
+
+    return {
+      courses: coursesResult.data,
+      seasons: seasonsResult.data.map(season => ({
+        id: season.id,
+        name: season.name,
+        rules: parseScoringRules(season.scoring_rule_sets?.definition)
+      })),
+      games: gamesResult.data.map(game => ({
+        id: game.id,
+        seasonId: game.season_id,
+        gameDate: game.game_date,
+        coursePar: game.courses.par,
+        scores: game.scores.map(score => ({ playerId: score.player_id, rawScore: score.raw_score }))
+      })),
+      players: membersResult.data.flatMap(member =>
+        member.profiles ? [{ id: member.user_id, username: member.profiles.username }] : []
+      ),
+      ruleSets: ruleSets.map(ruleSet => ({ id: ruleSet.id, rules: parseScoringRules(ruleSet.definition) })),
+      canAddCourses
+    };
+  }
+
+  // Write an import plan in one transaction (league admins)
+  // Returns the rounds that got scores; their bonus points and the seasons' achievements are already up to date
+  export async function importLeagueHistory(leagueId: string, plan: ImportPlan): Promise<string[]> {
+    const { courses, seasons, games, players, scores } = plan;
+    const { data, error } = await supabase.rpc('import_league_history', {
+      p_league_id: leagueId,
+      p_plan: { courses, seasons, games, players, scores } as unknown as Json
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
 // Subscribe to real-time score changes for a season
 export function subscribeToScoreChanges(
   seasonId: string,
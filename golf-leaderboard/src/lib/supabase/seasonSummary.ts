@@ -1,4 +1,4 @@
-import { supabase } from './client'
+import { getSeasonStandings, supabase } from './client'
 
 interface PlayerAward {
   playerId: string
@@ -7,6 +7,7 @@ interface PlayerAward {
 }
 
 export interface SeasonSummaryData {
+  playoffChampion: PlayerAward | null
   mvp: PlayerAward | null
   mostImproved: PlayerAward | null
   mostConsistent: PlayerAward | null
@@ -16,16 +17,28 @@ export interface SeasonSummaryData {
 }
 
 export async function getSeasonSummary(seasonId: string): Promise<SeasonSummaryData> {
+  // The playoff champion is crowned separately from the regular-season points leader
+  const { data: season, error: seasonError } = await supabase
+    .from('seasons')
+    .select('playoff_status, playoff_champion_id, champion:profiles!playoff_champion_id ( username )')
+    .eq('id', seasonId)
+    .single()
+
+  if (seasonError) throw seasonError
+  const playoffChampion: PlayerAward | null = season.playoff_status === 'completed' && season.playoff_champion_id
+    ? { playerId: season.playoff_champion_id, username: season.champion?.username || 'Unknown', value: 'Playoff winner' }
+    : null
+
   // Get all scores for this season with player info
   // First get game IDs for this season
   const { data: games, error: gamesError } = await supabase
     .from('games')
-    .select('id, courses:course_id ( par )')
+    .select('id, playoff_round, courses:course_id ( par )')
     .eq('season_id', seasonId)
 
   if (gamesError) throw gamesError
   if (!games || games.length === 0) {
-    return { mvp: null, mostImproved: null, mostConsistent: null, bestRound: null, totalRounds: 0, totalPlayers: 0 }
+    return { playoffChampion, mvp: null, mostImproved: null, mostConsistent: null, bestRound: null, totalRounds: 0, totalPlayers: 0 }
   }
 
   const gameIds = games.map(g => g.id)
@@ -39,8 +52,6 @@ export async function getSeasonSummary(seasonId: string): Promise<SeasonSummaryD
       player_id,
       game_id,
       raw_score,
-      points,
-      bonus_points,
       submitted_at,
       profiles!player_id ( username )
     `)
@@ -49,11 +60,11 @@ export async function getSeasonSummary(seasonId: string): Promise<SeasonSummaryD
 
   if (error) throw error
   if (!scores || scores.length === 0) {
-    return { mvp: null, mostImproved: null, mostConsistent: null, bestRound: null, totalRounds: 0, totalPlayers: 0 }
+    return { playoffChampion, mvp: null, mostImproved: null, mostConsistent: null, bestRound: null, totalRounds: 0, totalPlayers: 0 }
   }
 
   // Group scores by player
-  const playerScores: Record<string, { username: string; scores: number[]; points: number; rawScores: { score: number; par: number }[] }> = {}
+  const playerScores: Record<string, { username: string; scores: number[]; rawScores: { score: number; par: number }[] }> = {}
 
   for (const score of scores) {
     const pid = score.player_id
@@ -62,24 +73,25 @@ export async function getSeasonSummary(seasonId: string): Promise<SeasonSummaryD
     const par = gamePar[score.game_id] || 72
 
     if (!playerScores[pid]) {
-      playerScores[pid] = { username, scores: [], points: 0, rawScores: [] }
+      playerScores[pid] = { username, scores: [], rawScores: [] }
     }
     playerScores[pid].scores.push(score.raw_score)
-    playerScores[pid].points += (score.points || 0) + (score.bonus_points || 0)
     playerScores[pid].rawScores.push({ score: score.raw_score, par })
   }
 
   const playerIds = Object.keys(playerScores)
 
-  // MVP: most total points
-  let mvp: PlayerAward | null = null
-  let maxPoints = -1
-  for (const pid of playerIds) {
-    if (playerScores[pid].points > maxPoints) {
-      maxPoints = playerScores[pid].points
-      mvp = { playerId: pid, username: playerScores[pid].username, value: maxPoints }
-    }
-  }
+  // MVP: regular-season points leader, ranked like the leaderboard so the season's
+  // counting rule, qualifying minimum and tie-breakers apply (playoff games are excluded)
+  const standings = await getSeasonStandings(seasonId)
+  const leaders = standings.filter(s => s.qualified && s.rank === 1)
+  const mvp: PlayerAward | null = leaders.length > 0
+    ? {
+        playerId: leaders[0].playerId,
+        username: leaders.map(l => l.username || 'Unknown').join(' & '),
+        value: leaders.length > 1 ? `${leaders[0].points} (tied)` : leaders[0].points,
+      }
+    : null
 
   // Most Improved: biggest average score drop (first half vs second half)
   let mostImproved: PlayerAward | null = null
@@ -127,6 +139,7 @@ export async function getSeasonSummary(seasonId: string): Promise<SeasonSummaryD
   }
 
   return {
+    playoffChampion,
     mvp,
     mostImproved,
     mostConsistent,
@@ -16,6 +16,8 @@ export interface Database {
           name: string
           location: string | null
           par: number
+          course_rating: number | null
+          slope_rating: number | null
           created_at: string
         }
         Insert: {
@@ -23,6 +25,8 @@ export interface Database {
           name: string
           location?: string | null
           par: number
+          course_rating?: number | null
+          slope_rating?: number | null
           created_at?: string
         }
         Update: {
@@ -30,10 +34,111 @@ export interface Database {
           name?: string
           location?: string | null
           par?: number
+          course_rating?: number | null
+          slope_rating?: number | null
           created_at?: string
         }
         Relationships: []
       }
+      course_holes: {
+        Row: {
+          id: string
+          course_id: string
+          hole_number: number
+          par: number
+          stroke_index: number
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          hole_number: number
+          par: number
+          stroke_index: number
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          hole_number?: number
+          par?: number
+          stroke_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_holes_course_id_fkey"
+            columns: ["course_id"]
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      course_hole_yardages: {
+        Row: {
+          id: string
+          tee_id: string
+          hole_number: number
+          yardage: number
+        }
+        Insert: {
+          id?: string
+          tee_id: string
+          hole_number: number
+          yardage: number
+        }
+        Update: {
+          id?: string
+          tee_id?: string
+          hole_number?: number
+          yardage?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_hole_yardages_tee_id_fkey"
+            columns: ["tee_id"]
+            referencedRelation: "course_tees"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      course_tees: {
+        Row: {
+          id: string
+          course_id: string
+          name: string
+          color: string | null
+          yardage: number | null
+          course_rating: number | null
+          slope_rating: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          name: string
+          color?: string | null
+          yardage?: number | null
+          course_rating?: number | null
+          slope_rating?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          name?: string
+          color?: string | null
+          yardage?: number | null
+          course_rating?: number | null
+          slope_rating?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_tees_course_id_fkey"
+            columns: ["course_id"]
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       games: {
         Row: {
           id: string
@@ -45,6 +150,11 @@ export interface Database {
           created_by: string
           created_at: string
           status: string;
+          pcc: number
+          tee_id: string | null
+          format: string
+          format_config: Json
+          playoff_round: number | null
         }
         Insert: {
           id?: string
@@ -56,6 +166,11 @@ export interface Database {
           created_by: string
           created_at?: string
           status: string;
+          pcc?: number
+          tee_id?: string | null
+          format?: string
+          format_config?: Json
+          playoff_round?: number | null
         }
         Update: {
           id?: string
@@ -67,6 +182,11 @@ export interface Database {
           created_by?: string
           created_at?: string
           status: string;
+          pcc?: number
+          tee_id?: string | null
+          format?: string
+          format_config?: Json
+          playoff_round?: number | null
         }
         Relationships: [
           {
@@ -75,6 +195,12 @@ export interface Database {
             referencedRelation: "courses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "games_tee_id_fkey"
+            columns: ["tee_id"]
+            referencedRelation: "course_tees"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "games_created_by_fkey"
             columns: ["created_by"]
@@ -89,6 +215,284 @@ export interface Database {
           }
         ]
       }
+      game_rsvps: {
+        Row: {
+          game_id: string
+          player_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          game_id: string
+          player_id: string
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          game_id?: string
+          player_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_rsvps_game_id_fkey"
+            columns: ["game_id"]
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_rsvps_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          token: string
+          player_id: string
+          season_id: string | null
+          created_at: string
+        }
+        Insert: {
+          token: string
+          player_id: string
+          season_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          token?: string
+          player_id?: string
+          season_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feeds_season_id_fkey"
+            columns: ["season_id"]
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      tee_groups: {
+        Row: {
+          id: string
+          game_id: string
+          group_number: number
+          tee_time: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          group_number: number
+          tee_time?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          group_number?: number
+          tee_time?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tee_groups_game_id_fkey"
+            columns: ["game_id"]
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      tee_group_players: {
+        Row: {
+          group_id: string
+          game_id: string
+          player_id: string
+        }
+        Insert: {
+          group_id: string
+          game_id: string
+          player_id: string
+        }
+        Update: {
+          group_id?: string
+          game_id?: string
+          player_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tee_group_players_group_id_fkey"
+            columns: ["group_id"]
+            referencedRelation: "tee_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tee_group_players_game_id_fkey"
+            columns: ["game_id"]
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tee_group_players_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      side_games: {
+        Row: {
+          id: string
+          game_id: string
+          kind: string
+          entry_fee: number
+          hole_number: number | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          kind: string
+          entry_fee?: number
+          hole_number?: number | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          kind?: string
+          entry_fee?: number
+          hole_number?: number | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "side_games_game_id_fkey"
+            columns: ["game_id"]
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "side_games_created_by_fkey"
+            columns: ["created_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      side_game_entries: {
+        Row: {
+          side_game_id: string
+          player_id: string
+        }
+        Insert: {
+          side_game_id: string
+          player_id: string
+        }
+        Update: {
+          side_game_id?: string
+          player_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "side_game_entries_side_game_id_fkey"
+            columns: ["side_game_id"]
+            referencedRelation: "side_games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "side_game_entries_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      side_game_winners: {
+        Row: {
+          side_game_id: string
+          player_id: string
+          shares: number
+        }
+        Insert: {
+          side_game_id: string
+          player_id: string
+          shares?: number
+        }
+        Update: {
+          side_game_id?: string
+          player_id?: string
+          shares?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "side_game_winners_side_game_id_fkey"
+            columns: ["side_game_id"]
+            referencedRelation: "side_games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "side_game_winners_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      handicap_history: {
+        Row: {
+          id: string
+          player_id: string
+          handicap_index: number | null
+          effective_date: string
+          rounds_used: number
+          differentials_used: number
+          method: string
+          calculated_at: string
+        }
+        Insert: {
+          id?: string
+          player_id: string
+          handicap_index?: number | null
+          effective_date: string
+          rounds_used?: number
+          differentials_used?: number
+          method?: string
+          calculated_at?: string
+        }
+        Update: {
+          id?: string
+          player_id?: string
+          handicap_index?: number | null
+          effective_date?: string
+          rounds_used?: number
+          differentials_used?: number
+          method?: string
+          calculated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "handicap_history_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       profiles: {
         Row: {
           id: string
@@ -100,6 +504,8 @@ export interface Database {
           bio: string | null
           profile_image_url: string | null
           is_admin: boolean
+          is_placeholder: boolean
+          auth_user_id: string | null
           created_at: string
           updated_at: string
         }
@@ -113,6 +519,8 @@ export interface Database {
           bio?: string | null
           profile_image_url?: string | null
           is_admin?: boolean
+          is_placeholder?: boolean
+          auth_user_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -126,13 +534,15 @@ export interface Database {
           bio?: string | null
           profile_image_url?: string | null
           is_admin?: boolean
+          is_placeholder?: boolean
+          auth_user_id?: string | null
           created_at?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_id_fkey"
-            columns: ["id"]
+            foreignKeyName: "profiles_auth_user_id_fkey"
+            columns: ["auth_user_id"]
             referencedRelation: "users"
             referencedColumns: ["id"]
           }
@@ -150,46 +560,354 @@ export interface Database {
           submitted_at: string
           edited_by: string | null
           edited_at: string | null
+          holes_played: number
+          course_handicap: number | null
+          net_score: number | null
+          net_points: number | null
+          net_bonus_points: number
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          player_id: string
+          raw_score: number
+          points: number
+          bonus_points?: number
+          notes?: string | null
+          submitted_at?: string
+          edited_by?: string | null
+          edited_at?: string | null
+          holes_played?: number
+          course_handicap?: number | null
+          net_score?: number | null
+          net_points?: number | null
+          net_bonus_points?: number
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          player_id?: string
+          raw_score?: number
+          points?: number
+          bonus_points?: number
+          notes?: string | null
+          submitted_at?: string
+          edited_by?: string | null
+          edited_at?: string | null
+          holes_played?: number
+          course_handicap?: number | null
+          net_score?: number | null
+          net_points?: number | null
+          net_bonus_points?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scores_edited_by_fkey"
+            columns: ["edited_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scores_game_id_fkey"
+            columns: ["game_id"]
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scores_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      score_holes: {
+        Row: {
+          id: string
+          score_id: string
+          hole_number: number
+          strokes: number
+          putts: number | null
+          fairway_hit: boolean | null
+          green_in_regulation: boolean | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          score_id: string
+          hole_number: number
+          strokes: number
+          putts?: number | null
+          fairway_hit?: boolean | null
+          green_in_regulation?: boolean | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          score_id?: string
+          hole_number?: number
+          strokes?: number
+          putts?: number | null
+          fairway_hit?: boolean | null
+          green_in_regulation?: boolean | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_holes_score_id_fkey"
+            columns: ["score_id"]
+            referencedRelation: "scores"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      season_flights: {
+        Row: {
+          id: string
+          season_id: string
+          name: string
+          min_handicap: number | null
+          max_handicap: number | null
+          sort_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          season_id: string
+          name: string
+          min_handicap?: number | null
+          max_handicap?: number | null
+          sort_order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          season_id?: string
+          name?: string
+          min_handicap?: number | null
+          max_handicap?: number | null
+          sort_order?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_flights_season_id_fkey"
+            columns: ["season_id"]
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      audit_log: {
+        Row: {
+          id: string
+          occurred_at: string
+          actor_id: string | null
+          action: string
+          entity_type: string
+          entity_id: string
+          game_id: string | null
+          player_id: string | null
+          season_id: string | null
+          before: Json | null
+          after: Json | null
+        }
+        Insert: {
+          id?: string
+          occurred_at?: string
+          actor_id?: string | null
+          action: string
+          entity_type: string
+          entity_id: string
+          game_id?: string | null
+          player_id?: string | null
+          season_id?: string | null
+          before?: Json | null
+          after?: Json | null
+        }
+        Update: {
+          id?: string
+          occurred_at?: string
+          actor_id?: string | null
+          action?: string
+          entity_type?: string
+          entity_id?: string
+          game_id?: string | null
+          player_id?: string | null
+          season_id?: string | null
+          before?: Json | null
+          after?: Json | null
+        }
+        Relationships: []
+      }
+      score_attestations: {
+        Row: {
+          id: string
+          score_id: string
+          attested_by: string
+          attested_at: string
+        }
+        Insert: {
+          id?: string
+          score_id: string
+          attested_by: string
+          attested_at?: string
+        }
+        Update: {
+          id?: string
+          score_id?: string
+          attested_by?: string
+          attested_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_attestations_score_id_fkey"
+            columns: ["score_id"]
+            referencedRelation: "scores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_attestations_attested_by_fkey"
+            columns: ["attested_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      score_disputes: {
+        Row: {
+          id: string
+          score_id: string
+          game_id: string
+          player_id: string
+          raised_by: string
+          kind: string
+          reason: string
+          current_score: number
+          proposed_score: number
+          status: string
+          resolved_by: string | null
+          resolved_at: string | null
+          resolution_note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          score_id: string
+          game_id: string
+          player_id: string
+          raised_by: string
+          kind: string
+          reason: string
+          current_score: number
+          proposed_score: number
+          status?: string
+          resolved_by?: string | null
+          resolved_at?: string | null
+          resolution_note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          score_id?: string
+          game_id?: string
+          player_id?: string
+          raised_by?: string
+          kind?: string
+          reason?: string
+          current_score?: number
+          proposed_score?: number
+          status?: string
+          resolved_by?: string | null
+          resolved_at?: string | null
+          resolution_note?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_disputes_score_id_fkey"
+            columns: ["score_id"]
+            referencedRelation: "scores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_disputes_game_id_fkey"
+            columns: ["game_id"]
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_disputes_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_disputes_raised_by_fkey"
+            columns: ["raised_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_disputes_resolved_by_fkey"
+            columns: ["resolved_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      season_standings_snapshots: {
+        Row: {
+          id: string
+          season_id: string
+          game_id: string
+          player_id: string
+          rank: number
+          tied: boolean
+          total_points: number
+          games_played: number
+          qualified: boolean
+          created_at: string
         }
         Insert: {
           id?: string
+          season_id: string
           game_id: string
           player_id: string
-          raw_score: number
-          points: number
-          bonus_points?: number
-          notes?: string | null
-          submitted_at?: string
-          edited_by?: string | null
-          edited_at?: string | null
+          rank: number
+          tied?: boolean
+          total_points?: number
+          games_played?: number
+          qualified?: boolean
+          created_at?: string
         }
         Update: {
           id?: string
+          season_id?: string
           game_id?: string
           player_id?: string
-          raw_score?: number
-          points?: number
-          bonus_points?: number
-          notes?: string | null
-          submitted_at?: string
-          edited_by?: string | null
-          edited_at?: string | null
+          rank?: number
+          tied?: boolean
+          total_points?: number
+          games_played?: number
+          qualified?: boolean
+          created_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "scores_edited_by_fkey"
-            columns: ["edited_by"]
-            referencedRelation: "profiles"
+            foreignKeyName: "season_standings_snapshots_season_id_fkey"
+            columns: ["season_id"]
+            referencedRelation: "seasons"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "scores_game_id_fkey"
+            foreignKeyName: "season_standings_snapshots_game_id_fkey"
             columns: ["game_id"]
             referencedRelation: "games"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "scores_player_id_fkey"
+            foreignKeyName: "season_standings_snapshots_player_id_fkey"
             columns: ["player_id"]
             referencedRelation: "profiles"
             referencedColumns: ["id"]
@@ -202,20 +920,29 @@ export interface Database {
           season_id: string
           player_id: string
           joined_at: string
+          flight_id: string | null
         }
         Insert: {
           id?: string
           season_id: string
           player_id: string
           joined_at?: string
+          flight_id?: string | null
         }
         Update: {
           id?: string
           season_id?: string
           player_id?: string
           joined_at?: string
+          flight_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "season_participants_flight_id_fkey"
+            columns: ["flight_id"]
+            referencedRelation: "season_flights"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "season_participants_player_id_fkey"
             columns: ["player_id"]
@@ -240,6 +967,12 @@ export interface Database {
           category: string
           tier: string
           created_at: string
+          metric: string | null
+          comparison: string
+          threshold: number | null
+          scope: string
+          window_rounds: number | null
+          show_progress: boolean
         }
         Insert: {
           id?: string
@@ -250,6 +983,12 @@ export interface Database {
           category: string
           tier?: string
           created_at?: string
+          metric?: string | null
+          comparison?: string
+          threshold?: number | null
+          scope?: string
+          window_rounds?: number | null
+          show_progress?: boolean
         }
         Update: {
           id?: string
@@ -260,6 +999,12 @@ export interface Database {
           category?: string
           tier?: string
           created_at?: string
+          metric?: string | null
+          comparison?: string
+          threshold?: number | null
+          scope?: string
+          window_rounds?: number | null
+          show_progress?: boolean
         }
         Relationships: []
       }
@@ -309,6 +1054,114 @@ export interface Database {
           }
         ]
       }
+      season_playoff_seeds: {
+        Row: {
+          id: string
+          season_id: string
+          player_id: string
+          seed: number
+          regular_season_points: number
+          starting_points: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          season_id: string
+          player_id: string
+          seed: number
+          regular_season_points?: number
+          starting_points?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          season_id?: string
+          player_id?: string
+          seed?: number
+          regular_season_points?: number
+          starting_points?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_playoff_seeds_season_id_fkey"
+            columns: ["season_id"]
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "season_playoff_seeds_player_id_fkey"
+            columns: ["player_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      leagues: {
+        Row: {
+          id: string
+          name: string
+          code: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          code: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          code?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leagues_created_by_fkey"
+            columns: ["created_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      league_members: {
+        Row: {
+          league_id: string
+          user_id: string
+          role: string
+          joined_at: string
+        }
+        Insert: {
+          league_id: string
+          user_id: string
+          role?: string
+          joined_at?: string
+        }
+        Update: {
+          league_id?: string
+          user_id?: string
+          role?: string
+          joined_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "league_members_league_id_fkey"
+            columns: ["league_id"]
+            referencedRelation: "leagues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "league_members_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       seasons: {
         Row: {
           id: string
@@ -319,6 +1172,20 @@ export interface Database {
           created_by: string
           created_at: string
           is_active: boolean
+          scoring_rule_set_id: string | null
+          net_scoring: boolean
+          playoff_format: string
+          playoff_size: number | null
+          playoff_rounds: number | null
+          playoff_status: string
+          playoff_champion_id: string | null
+          counting_rule: string
+          counting_rounds: number | null
+          min_rounds: number
+          tie_breakers: string[]
+          countback_rounds: number
+          require_attestation: boolean
+          league_id: string
         }
         Insert: {
           id?: string
@@ -329,6 +1196,20 @@ export interface Database {
           created_by: string
           created_at?: string
           is_active?: boolean
+          scoring_rule_set_id?: string | null
+          net_scoring?: boolean
+          playoff_format?: string
+          playoff_size?: number | null
+          playoff_rounds?: number | null
+          playoff_status?: string
+          playoff_champion_id?: string | null
+          counting_rule?: string
+          counting_rounds?: number | null
+          min_rounds?: number
+          tie_breakers?: string[]
+          countback_rounds?: number
+          require_attestation?: boolean
+          league_id: string
         }
         Update: {
           id?: string
@@ -339,16 +1220,75 @@ export interface Database {
           created_by?: string
           created_at?: string
           is_active?: boolean
+          scoring_rule_set_id?: string | null
+          net_scoring?: boolean
+          playoff_format?: string
+          playoff_size?: number | null
+          playoff_rounds?: number | null
+          playoff_status?: string
+          playoff_champion_id?: string | null
+          counting_rule?: string
+          counting_rounds?: number | null
+          min_rounds?: number
+          tie_breakers?: string[]
+          countback_rounds?: number
+          require_attestation?: boolean
+          league_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "seasons_league_id_fkey"
+            columns: ["league_id"]
+            referencedRelation: "leagues"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "seasons_created_by_fkey"
             columns: ["created_by"]
             referencedRelation: "profiles"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seasons_scoring_rule_set_id_fkey"
+            columns: ["scoring_rule_set_id"]
+            referencedRelation: "scoring_rule_sets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seasons_playoff_champion_id_fkey"
+            columns: ["playoff_champion_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
           }
         ]
       }
+      scoring_rule_sets: {
+        Row: {
+          id: string
+          key: string
+          version: number
+          name: string
+          definition: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          key: string
+          version?: number
+          name: string
+          definition: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          key?: string
+          version?: number
+          name?: string
+          definition?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       season_leaderboard: {
@@ -361,6 +1301,15 @@ export interface Database {
           games_played: number | null
           total_points: number | null
           avg_score: number | null
+          net_scoring: boolean | null
+          net_total_points: number | null
+          avg_net_score: number | null
+          rounds_counted: number | null
+          all_points: number | null
+          qualified: boolean | null
+          flight_id: string | null
+          flight_name: string | null
+          provisional_rounds: number | null
         }
         Relationships: [
           {
@@ -377,6 +1326,24 @@ export interface Database {
           }
         ]
       }
+      season_score_counting: {
+        Row: {
+          score_id: string | null
+          season_id: string | null
+          player_id: string | null
+          game_id: string | null
+          game_name: string | null
+          game_date: string | null
+          raw_score: number | null
+          net_score: number | null
+          round_points: number | null
+          net_round_points: number | null
+          rounds_played: number | null
+          counts: boolean | null
+          net_counts: boolean | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       calculate_points: {
@@ -386,6 +1353,256 @@ export interface Database {
         }
         Returns: number
       }
+      game_standings: {
+        Args: {
+          p_game_id: string
+        }
+        Returns: {
+          score_id: string
+          player_id: string
+          username: string
+          raw_score: number
+          points: number
+          bonus_points: number
+          total_points: number
+        }[]
+      }
+      submit_score: {
+        Args: {
+          p_game_id: string
+          p_raw_score: number
+          p_notes?: string | null
+          p_holes_played?: number
+          p_holes?: Json | null
+        }
+        Returns: {
+          score_id: string
+          player_id: string
+          username: string
+          raw_score: number
+          points: number
+          bonus_points: number
+          total_points: number
+        }[]
+      }
+      update_score: {
+        Args: {
+          p_score_id: string
+          p_raw_score: number
+          p_notes?: string | null
+        }
+        Returns: {
+          score_id: string
+          player_id: string
+          username: string
+          raw_score: number
+          points: number
+          bonus_points: number
+          total_points: number
+        }[]
+      }
+      delete_score: {
+        Args: {
+          p_score_id: string
+        }
+        Returns: {
+          score_id: string
+          player_id: string
+          username: string
+          raw_score: number
+          points: number
+          bonus_points: number
+          total_points: number
+        }[]
+      }
+      refresh_season_bonus_points: {
+        Args: {
+          p_season_id: string
+        }
+        Returns: number
+      }
+      assign_season_flights: {
+        Args: {
+          p_season_id: string
+          p_assignments: Json
+        }
+        Returns: number
+      }
+      check_my_achievements: {
+        Args: {
+          p_season_id?: string | null
+        }
+        Returns: {
+          achievement_id: string
+          achievement_key: string
+          achievement_name: string
+          metric: string
+          comparison: string
+          threshold: number
+          scope: string
+          show_progress: boolean
+          current_value: number | null
+          met: boolean
+          earned: boolean
+          newly_earned: boolean
+        }[]
+      }
+      recalculate_game_bonus_points: {
+        Args: {
+          p_game_id: string
+        }
+        Returns: {
+          score_id: string
+          raw_score: number
+          old_bonus: number
+          new_bonus: number
+        }[]
+      }
+      reevaluate_achievements: {
+        Args: {
+          p_season_id?: string | null
+          p_player_id?: string | null
+          p_dry_run?: boolean
+        }
+        Returns: {
+          player_id: string
+          username: string
+          achievement_id: string
+          achievement_key: string
+          achievement_name: string
+          season_id: string | null
+          season_name: string | null
+          action: string
+          current_value: number | null
+        }[]
+      }
+      open_score_dispute: {
+        Args: {
+          p_score_id: string
+          p_proposed_score: number
+          p_reason: string
+        }
+        Returns: string
+      }
+      withdraw_score_dispute: {
+        Args: {
+          p_dispute_id: string
+        }
+        Returns: undefined
+      }
+      resolve_score_dispute: {
+        Args: {
+          p_dispute_id: string
+          p_approve: boolean
+          p_note?: string | null
+        }
+        Returns: string
+      }
+      attest_score: {
+        Args: {
+          p_score_id: string
+        }
+        Returns: undefined
+      }
+      my_attestation_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          score_id: string
+          game_id: string
+          game_name: string
+          game_date: string
+          player_id: string
+          username: string
+          raw_score: number
+        }[]
+      }
+      create_league: {
+        Args: {
+          p_name: string
+        }
+        Returns: string
+      }
+      join_league: {
+        Args: {
+          p_code: string
+        }
+        Returns: string
+      }
+      join_season: {
+        Args: {
+          p_code: string
+        }
+        Returns: string
+      }
+      set_game_status: {
+        Args: {
+          p_game_id: string
+          p_status: string
+          p_standings?: Json
+        }
+        Returns: undefined
+      }
+      set_league_member_role: {
+        Args: {
+          p_league_id: string
+          p_user_id: string
+          p_role: string
+        }
+        Returns: undefined
+      }
+      set_game_rsvp: {
+        Args: {
+          p_game_id: string
+          p_status: string
+        }
+        Returns: undefined
+      }
+      calendar_feed_token: {
+        Args: {
+          p_season_id?: string | null
+          p_reset?: boolean
+        }
+        Returns: string
+      }
+      calendar_feed: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          feed_name: string
+          game_id: string
+          game_name: string
+          game_date: string
+          status: string
+          round_code: string
+          season_name: string
+          course_name: string
+          course_location: string | null
+          rsvp_status: string | null
+        }[]
+      }
+      are_playing_partners: {
+        Args: {
+          p_game_id: string
+          p_player_a: string
+          p_player_b: string
+        }
+        Returns: boolean
+      }
+      set_game_tee_groups: {
+        Args: {
+          p_game_id: string
+          p_groups: Json
+        }
+        Returns: number
+      }
+      import_league_history: {
+        Args: {
+          p_league_id: string
+          p_plan: Json
+        }
+        Returns: string[]
+      }
     }
   }
 }
\ No newline at end of file
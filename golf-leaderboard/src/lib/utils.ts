@@ -29,3 +29,13 @@ export function formatDate(date: string | Date): string {
     day: 'numeric',
   });
 }
+
+export function formatDateTime(date: string | Date): string {
+  return new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
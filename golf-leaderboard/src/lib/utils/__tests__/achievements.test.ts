@@ -0,0 +1,132 @@
+import {
+  achievementProgress,
+  AchievementEvaluation,
+  checkAndAwardAchievements,
+  progressFraction,
+  progressLabel,
+  summarizeAchievementChanges,
+} from '../achievements'
+import { checkMyAchievements } from '@/lib/supabase/client'
+import { toast } from 'sonner'
+import { createFixture } from '@/__tests__/utils/fixtures'
+
+jest.mock('@/lib/supabase/client', () => ({
+  checkMyAchievements: jest.fn(),
+}))
+
+jest.mock('sonner', () => ({
+  toast: { success: jest.fn() },
+}))
+
+const evaluation = createFixture<AchievementEvaluation>({
+  achievement_key: 'games_5',
+  achievement_name: 'Getting Started',
+  metric: 'rounds_played',
+  comparison: 'at_least',
+  threshold: 5,
+  scope: 'all_time',
+  show_progress: true,
+  current_value: 3,
+  earned: false,
+  newly_earned: false,
+})
+
+describe('achievements', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('progressLabel', () => {
+    it('should prefix season-scoped counts', () => {
+      expect(progressLabel('points', 'all_time')).toBe('Points')
+      expect(progressLabel('points', 'season')).toBe('Season points')
+      expect(progressLabel('season_rank', 'season')).toBe('Current rank')
+    })
+
+    it('should fall back to the metric name for unknown metrics', () => {
+      expect(progressLabel('eagles', 'all_time')).toBe('eagles')
+    })
+  })
+
+  describe('achievementProgress', () => {
+    it('should map locked rules to progress toward their threshold', () => {
+      const progress = achievementProgress([
+        evaluation(),
+        evaluation({ achievement_key: 'points_100', metric: 'points', scope: 'season', threshold: 100, current_value: 42 }),
+      ])
+      expect(progress.get('games_5')).toEqual({ current: 3, target: 5, label: 'Games played', comparison: 'at_least' })
+      expect(progress.get('points_100')).toEqual({ current: 42, target: 100, label: 'Season points', comparison: 'at_least' })
+    })
+
+    it('should leave out earned, hidden and unmeasured rules', () => {
+      const progress = achievementProgress([
+        evaluation({ achievement_key: 'games_5', earned: true }),
+        evaluation({ achievement_key: 'early_bird', show_progress: false }),
+        evaluation({ achievement_key: 'season_champion', metric: 'season_rank', current_value: null }),
+      ])
+      expect(progress.size).toBe(0)
+    })
+  })
+
+  describe('progressFraction', () => {
+    it('should be capped at a full bar', () => {
+      expect(progressFraction({ current: 3, target: 5, label: '', comparison: 'at_least' })).toBe(0.6)
+      expect(progressFraction({ current: 8, target: 5, label: '', comparison: 'at_least' })).toBe(1)
+    })
+
+    it('should have no bar for rank and range rules', () => {
+      expect(progressFraction({ current: 4, target: 3, label: '', comparison: 'at_most' })).toBeNull()
+      expect(progressFraction({ current: 2, target: 1, label: '', comparison: 'exactly' })).toBeNull()
+    })
+  })
+
+  describe('summarizeAchievementChanges', () => {
+    it('should count grants, revokes and the players affected', () => {
+      const change = (player_id: string, action: string) => ({
+        player_id,
+        username: player_id,
+        achievement_key: 'games_5',
+        achievement_name: 'Getting Started',
+        season_id: null,
+        season_name: null,
+        action,
+        current_value: 5,
+      })
+      expect(summarizeAchievementChanges([
+        change('a', 'grant'),
+        change('a', 'revoke'),
+        change('b', 'grant'),
+      ])).toEqual({ grants: 2, revokes: 1, players: 2 })
+      expect(summarizeAchievementChanges([])).toEqual({ grants: 0, revokes: 0, players: 0 })
+    })
+  })
+
+  describe('checkAndAwardAchievements', () => {
+    it('should toast only the achievements awarded by this check', async () => {
+      const mockCheck = checkMyAchievements as jest.Mock
+      mockCheck.mockResolvedValue([
+        evaluation({ achievement_key: 'first_score', achievement_name: 'First Steps', earned: true, newly_earned: true }),
+        evaluation({ achievement_key: 'first_win', achievement_name: 'First Victory', earned: true }),
+        evaluation(),
+      ])
+
+      const progress = await checkAndAwardAchievements('season-1')
+
+      expect(mockCheck).toHaveBeenCalledWith('season-1')
+      expect(toast.success).toHaveBeenCalledTimes(1)
+      expect(toast.success).toHaveBeenCalledWith('Achievement Unlocked!', expect.objectContaining({ description: 'First Steps' }))
+      expect(Array.from(progress.keys())).toEqual(['games_5'])
+    })
+
+    it('should return no progress when the check fails', async () => {
+      const mockCheck = checkMyAchievements as jest.Mock
+      mockCheck.mockRejectedValue(new Error('offline'))
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const progress = await checkAndAwardAchievements()
+
+      expect(progress.size).toBe(0)
+      expect(toast.success).not.toHaveBeenCalled()
+    })
+  })
+})
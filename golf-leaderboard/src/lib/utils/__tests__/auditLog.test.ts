@@ -0,0 +1,93 @@
+import {
+  auditChanges,
+  bonusChanges,
+  describeAuditEntry,
+  fieldLabel,
+  formatAuditValue,
+} from '../auditLog'
+import { createFixture } from '@/__tests__/utils/fixtures'
+
+const score = createFixture<Record<string, unknown>>({
+  id: 'score-1',
+  game_id: 'game-1',
+  player_id: 'player-1',
+  raw_score: 84,
+  points: 3,
+  bonus_points: 0,
+  notes: null,
+  submitted_at: '2024-05-01T18:00:00Z',
+  edited_by: null,
+  edited_at: null,
+})
+
+describe('audit log', () => {
+  describe('fieldLabel', () => {
+    it('should use friendly names for known columns and tidy the rest', () => {
+      expect(fieldLabel('bonus_points')).toBe('Bonus')
+      expect(fieldLabel('format_config')).toBe('Format config')
+    })
+  })
+
+  describe('formatAuditValue', () => {
+    it('should format empty values, flags and numbers', () => {
+      expect(formatAuditValue(null)).toBe('—')
+      expect(formatAuditValue('')).toBe('—')
+      expect(formatAuditValue(true)).toBe('Yes')
+      expect(formatAuditValue(82)).toBe('82')
+    })
+  })
+
+  describe('auditChanges', () => {
+    it('should list only the fields an edit changed, ignoring bookkeeping columns', () => {
+      expect(auditChanges({
+        action: 'score_edited',
+        before: score(),
+        after: score({ raw_score: 82, points: 4, edited_by: 'admin-1', edited_at: '2024-05-02T09:00:00Z' }),
+      })).toEqual([
+        { field: 'raw_score', label: 'Score', from: 84, to: 82 },
+        { field: 'points', label: 'Points', from: 3, to: 4 },
+      ])
+    })
+
+    it('should compare a submission against nothing', () => {
+      const changes = auditChanges({ action: 'score_submitted', before: null, after: score() })
+      expect(changes.map(change => change.field)).toEqual(['raw_score', 'points', 'bonus_points'])
+      expect(changes[0]).toEqual({ field: 'raw_score', label: 'Score', from: null, to: 84 })
+    })
+  })
+
+  describe('bonusChanges', () => {
+    it('should find the scores a recalculation moved the bonus on', () => {
+      expect(bonusChanges({
+        before: { a: 1, b: 0, c: 0 },
+        after: { a: 0, b: 1, c: 0 },
+      })).toEqual([
+        { scoreId: 'a', from: 1, to: 0 },
+        { scoreId: 'b', from: 0, to: 1 },
+      ])
+    })
+  })
+
+  describe('describeAuditEntry', () => {
+    it('should summarise each kind of entry', () => {
+      expect(describeAuditEntry({ action: 'score_submitted', before: null, after: score() })).toBe('Submitted 84')
+      expect(describeAuditEntry({ action: 'score_deleted', before: score(), after: null })).toBe('Deleted a score of 84')
+      expect(describeAuditEntry({
+        action: 'score_edited',
+        before: score(),
+        after: score({ bonus_points: 1 }),
+      })).toBe('Bonus 0 → 1')
+      expect(describeAuditEntry({
+        action: 'game_status_changed',
+        before: { status: 'active' },
+        after: { status: 'completed' },
+      })).toBe('Status active → completed')
+      expect(describeAuditEntry({ action: 'season_toggled', before: { is_active: true }, after: { is_active: false } }))
+        .toBe('Season deactivated')
+      expect(describeAuditEntry({ action: 'bonus_recalculated', before: { a: 1 }, after: { a: 0 } }))
+        .toBe('1 score changed bonus')
+      expect(describeAuditEntry({ action: 'bonus_recalculated', before: { a: 1 }, after: { a: 1 } }))
+        .toBe('No bonus changes')
+    })
+  })
+})
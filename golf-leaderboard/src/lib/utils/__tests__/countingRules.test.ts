@@ -0,0 +1,63 @@
+import {
+  countingRoundsFor,
+  DEFAULT_COUNTING_RULE,
+  describeCountingRule,
+  parseCountingRule,
+  validateCountingRule,
+} from '../countingRules'
+
+describe('counting rules', () => {
+  describe('parseCountingRule', () => {
+    it('should read the season columns', () => {
+      expect(parseCountingRule({ counting_rule: 'best_n', counting_rounds: 10, min_rounds: 5 })).toEqual({
+        rule: 'best_n',
+        rounds: 10,
+        minRounds: 5,
+      })
+    })
+
+    it('should fall back to every round counting', () => {
+      expect(parseCountingRule({})).toEqual(DEFAULT_COUNTING_RULE)
+      expect(parseCountingRule({ counting_rule: 'unknown', counting_rounds: 3 })).toEqual(DEFAULT_COUNTING_RULE)
+    })
+  })
+
+  describe('validateCountingRule', () => {
+    it('should require a round count unless every round counts', () => {
+      expect(validateCountingRule({ rule: 'all', rounds: null, minRounds: 0 })).toBeNull()
+      expect(validateCountingRule({ rule: 'best_n', rounds: null, minRounds: 0 })).toMatch(/how many rounds/)
+      expect(validateCountingRule({ rule: 'drop_worst', rounds: 0, minRounds: 0 })).toMatch(/how many rounds/)
+      expect(validateCountingRule({ rule: 'drop_worst', rounds: 2, minRounds: 0 })).toBeNull()
+    })
+
+    it('should reject a negative minimum', () => {
+      expect(validateCountingRule({ rule: 'all', rounds: null, minRounds: -1 })).toMatch(/minimum/)
+    })
+  })
+
+  describe('countingRoundsFor', () => {
+    it('should count every round by default', () => {
+      expect(countingRoundsFor(DEFAULT_COUNTING_RULE, 12)).toBe(12)
+    })
+
+    it('should cap best N at the rounds played', () => {
+      const bestTen = { rule: 'best_n' as const, rounds: 10, minRounds: 0 }
+      expect(countingRoundsFor(bestTen, 14)).toBe(10)
+      expect(countingRoundsFor(bestTen, 6)).toBe(6)
+    })
+
+    it('should drop the worst rounds, never below zero', () => {
+      const dropThree = { rule: 'drop_worst' as const, rounds: 3, minRounds: 0 }
+      expect(countingRoundsFor(dropThree, 10)).toBe(7)
+      expect(countingRoundsFor(dropThree, 2)).toBe(0)
+    })
+  })
+
+  describe('describeCountingRule', () => {
+    it('should describe the rule and the qualifying minimum', () => {
+      expect(describeCountingRule(DEFAULT_COUNTING_RULE)).toBe('Every round counts')
+      expect(describeCountingRule({ rule: 'best_n', rounds: 10, minRounds: 5 })).toBe('Best 10 rounds count • 5 rounds to qualify')
+      expect(describeCountingRule({ rule: 'drop_worst', rounds: 1, minRounds: 0 })).toBe('Worst 1 round dropped')
+    })
+  })
+})
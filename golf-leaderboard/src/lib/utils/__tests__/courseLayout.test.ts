@@ -0,0 +1,57 @@
+import {
+  createDefaultLayout,
+  getLayoutPar,
+  getTeeYardage,
+  validateHoleLayout,
+} from '../courseLayout'
+import { calculateCourseHandicap, getHandicapStrokesForHole } from '../handicap'
+
+describe('course layout', () => {
+  describe('validateHoleLayout', () => {
+    it('should accept a layout whose pars add up to the course par', () => {
+      const holes = createDefaultLayout([])
+      expect(getLayoutPar(holes)).toBe(72)
+      expect(validateHoleLayout(holes, 72)).toBeNull()
+    })
+
+    it('should reject a par mismatch', () => {
+      expect(validateHoleLayout(createDefaultLayout([]), 71)).toMatch(/add up to 72/)
+    })
+
+    it('should reject duplicate stroke indexes', () => {
+      const holes = createDefaultLayout([])
+      holes[1].strokeIndex = 1
+      expect(validateHoleLayout(holes, 72)).toMatch(/only be used once/)
+    })
+  })
+
+  describe('getTeeYardage', () => {
+    it('should total a tee once every hole has a yardage', () => {
+      const holes = createDefaultLayout(['blue'])
+      expect(getTeeYardage(holes, 'blue')).toBeNull()
+
+      holes.forEach(hole => { hole.yardages.blue = 400 })
+      expect(getTeeYardage(holes, 'blue')).toBe(7200)
+    })
+  })
+
+  describe('course handicap', () => {
+    it('should scale the index by slope and add rating minus par', () => {
+      expect(calculateCourseHandicap(10, { par: 72, course_rating: 73.1, slope_rating: 130 })).toBe(13)
+      expect(calculateCourseHandicap(10, { par: 72 })).toBe(10)
+    })
+
+    it('should allocate strokes by stroke index', () => {
+      expect(getHandicapStrokesForHole(20, 1)).toBe(2)
+      expect(getHandicapStrokesForHole(20, 2)).toBe(2)
+      expect(getHandicapStrokesForHole(20, 3)).toBe(1)
+      expect(getHandicapStrokesForHole(5, 6)).toBe(0)
+    })
+
+    it('should give strokes back on the easiest holes for plus handicaps', () => {
+      expect(getHandicapStrokesForHole(-2, 18)).toBe(-1)
+      expect(getHandicapStrokesForHole(-2, 17)).toBe(-1)
+      expect(getHandicapStrokesForHole(-2, 16)).toBe(0)
+    })
+  })
+})
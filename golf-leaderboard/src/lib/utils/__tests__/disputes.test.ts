@@ -0,0 +1,77 @@
+import {
+  describeProposedChange,
+  disputeKindFor,
+  latestDisputeByScore,
+  ScoreDispute,
+  validateDisputeRequest,
+} from '../disputes'
+import { createFixture } from '@/__tests__/utils/fixtures'
+
+const dispute = createFixture<ScoreDispute>({
+  id: 'dispute-1',
+  scoreId: 'score-1',
+  gameId: 'game-1',
+  gameName: 'Week 1',
+  playerId: 'player-1',
+  playerName: 'alice',
+  raisedBy: 'player-1',
+  raisedByName: 'alice',
+  kind: 'correction',
+  reason: 'Added up the back nine wrong',
+  currentScore: 84,
+  proposedScore: 82,
+  status: 'open',
+  resolvedBy: null,
+  resolvedAt: null,
+  resolutionNote: null,
+  createdAt: '2024-05-01T18:00:00Z',
+})
+
+describe('score disputes', () => {
+  describe('validateDisputeRequest', () => {
+    const valid = { currentScore: 84, proposedScore: 82, reason: 'Miscounted the 7th' }
+
+    it('should accept a different score in range with a reason', () => {
+      expect(validateDisputeRequest(valid)).toBeNull()
+    })
+
+    it('should require a whole score in the accepted range', () => {
+      expect(validateDisputeRequest({ ...valid, proposedScore: null })).toBe('Enter the score you think is correct')
+      expect(validateDisputeRequest({ ...valid, proposedScore: 82.5 })).toBe('Enter the score you think is correct')
+      expect(validateDisputeRequest({ ...valid, proposedScore: 49 })).toBe('Scores must be between 50 and 150')
+      expect(validateDisputeRequest({ ...valid, proposedScore: 151 })).toBe('Scores must be between 50 and 150')
+    })
+
+    it('should reject unchanged scores and blank reasons', () => {
+      expect(validateDisputeRequest({ ...valid, proposedScore: 84 }))
+        .toBe('The proposed score is the same as the current score')
+      expect(validateDisputeRequest({ ...valid, reason: '   ' })).toBe('Explain why the score should change')
+    })
+  })
+
+  describe('disputeKindFor', () => {
+    it('should treat requests on your own score as corrections', () => {
+      expect(disputeKindFor('player-1', 'player-1')).toBe('correction')
+      expect(disputeKindFor('player-1', 'player-2')).toBe('dispute')
+    })
+  })
+
+  describe('latestDisputeByScore', () => {
+    it('should keep the newest request for each score', () => {
+      const older = dispute({ id: 'old', status: 'rejected' })
+      const newer = dispute({ id: 'new', createdAt: '2024-05-03T10:00:00Z' })
+      const other = dispute({ id: 'other', scoreId: 'score-2' })
+
+      const latest = latestDisputeByScore([newer, older, other])
+      expect(latest.get('score-1')?.id).toBe('new')
+      expect(latest.get('score-2')?.id).toBe('other')
+    })
+  })
+
+  describe('describeProposedChange', () => {
+    it('should show the change and the difference', () => {
+      expect(describeProposedChange({ currentScore: 84, proposedScore: 82 })).toBe('84 → 82 (−2)')
+      expect(describeProposedChange({ currentScore: 84, proposedScore: 87 })).toBe('84 → 87 (+3)')
+    })
+  })
+})
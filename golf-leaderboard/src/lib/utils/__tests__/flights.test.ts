@@ -0,0 +1,72 @@
+import {
+  assignFlightsByHandicap,
+  describeFlightBand,
+  Flight,
+  flightForHandicap,
+  validateFlight,
+} from '../flights'
+
+const flights: Flight[] = [
+  { id: 'a', name: 'A Flight', minHandicap: null, maxHandicap: 12.9 },
+  { id: 'b', name: 'B Flight', minHandicap: 13, maxHandicap: null },
+]
+
+describe('flights', () => {
+  describe('flightForHandicap', () => {
+    it('should place a handicap in the band that contains it', () => {
+      expect(flightForHandicap(flights, 5.2)).toBe('a')
+      expect(flightForHandicap(flights, 12.9)).toBe('a')
+      expect(flightForHandicap(flights, 13)).toBe('b')
+      expect(flightForHandicap(flights, 28)).toBe('b')
+    })
+
+    it('should leave players without an index or outside every band unassigned', () => {
+      expect(flightForHandicap(flights, null)).toBeNull()
+      expect(flightForHandicap([{ id: 'c', name: 'C', minHandicap: 0, maxHandicap: 10 }], 15)).toBeNull()
+    })
+  })
+
+  describe('assignFlightsByHandicap', () => {
+    it('should assign every player', () => {
+      expect(assignFlightsByHandicap([
+        { playerId: 'p1', handicap: 4 },
+        { playerId: 'p2', handicap: 22.4 },
+        { playerId: 'p3', handicap: null },
+      ], flights)).toEqual([
+        { playerId: 'p1', flightId: 'a' },
+        { playerId: 'p2', flightId: 'b' },
+        { playerId: 'p3', flightId: null },
+      ])
+    })
+  })
+
+  describe('validateFlight', () => {
+    it('should accept a band that fits between the others', () => {
+      const existing = [{ id: 'a', name: 'A', minHandicap: 0, maxHandicap: 9.9 }]
+      expect(validateFlight({ name: 'B', minHandicap: 10, maxHandicap: 19.9 }, existing)).toBeNull()
+    })
+
+    it('should reject missing or duplicate names', () => {
+      expect(validateFlight({ name: ' ', minHandicap: null, maxHandicap: null }, [])).toMatch(/name/)
+      expect(validateFlight({ name: 'a flight', minHandicap: null, maxHandicap: null }, flights)).toMatch(/already/)
+    })
+
+    it('should reject inverted and overlapping bands', () => {
+      expect(validateFlight({ name: 'C', minHandicap: 20, maxHandicap: 10 }, [])).toMatch(/not be above/)
+      expect(validateFlight({ name: 'C', minHandicap: 10, maxHandicap: 15 }, flights)).toMatch(/overlaps the A Flight/)
+    })
+
+    it('should let manually assigned flights sit alongside handicap bands', () => {
+      expect(validateFlight({ name: 'Seniors', minHandicap: null, maxHandicap: null }, flights)).toBeNull()
+    })
+  })
+
+  describe('describeFlightBand', () => {
+    it('should describe open and closed bands', () => {
+      expect(describeFlightBand({ minHandicap: 0, maxHandicap: 12.9 })).toBe('0.0 – 12.9')
+      expect(describeFlightBand({ minHandicap: 13, maxHandicap: null })).toBe('13.0+')
+      expect(describeFlightBand({ minHandicap: null, maxHandicap: 12.9 })).toBe('Up to 12.9')
+      expect(describeFlightBand({ minHandicap: null, maxHandicap: null })).toBe('Assigned manually')
+    })
+  })
+})
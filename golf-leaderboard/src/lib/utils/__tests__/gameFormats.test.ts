@@ -0,0 +1,236 @@
+import {
+  calculateFormatResults,
+  describeMatch,
+  describePlayerFormatResult,
+  FormatHole,
+  FormatPlayerRound,
+  GameFormat,
+  GameFormatConfig,
+  parseFormatConfig,
+  stablefordPoints,
+  validateFormatConfig,
+} from '../gameFormats'
+
+// 18 par 4s, stroke index in hole order
+const layout: FormatHole[] = Array.from({ length: 18 }, (_, i) => ({
+  holeNumber: i + 1,
+  par: 4,
+  strokeIndex: i + 1,
+}))
+
+const player = (
+  playerId: string,
+  strokes: number[],
+  courseHandicap: number | null = null
+): FormatPlayerRound => ({
+  playerId,
+  username: playerId,
+  courseHandicap,
+  holes: strokes.map((s, i) => ({ holeNumber: i + 1, strokes: s })),
+})
+
+const allPars = Array(18).fill(4)
+const withHoles = (changes: Record<number, number>) =>
+  allPars.map((s, i) => changes[i + 1] ?? s)
+
+const run = (
+  format: GameFormat,
+  players: FormatPlayerRound[],
+  config: Partial<GameFormatConfig> = {}
+) =>
+  calculateFormatResults({
+    format,
+    config: { useHandicaps: false, pairings: [], ...config },
+    holes: layout,
+    players,
+  })
+
+describe('game formats', () => {
+  describe('parseFormatConfig', () => {
+    it('should default missing or malformed config', () => {
+      expect(parseFormatConfig(null)).toEqual({ useHandicaps: false, pairings: [] })
+      expect(parseFormatConfig({ useHandicaps: 'yes', pairings: [['a']] })).toEqual({
+        useHandicaps: false,
+        pairings: [],
+      })
+    })
+
+    it('should keep valid pairings', () => {
+      expect(parseFormatConfig({ useHandicaps: true, pairings: [['a', 'b']] })).toEqual({
+        useHandicaps: true,
+        pairings: [['a', 'b']],
+      })
+    })
+  })
+
+  describe('validateFormatConfig', () => {
+    it('should not need pairings for stroke, Stableford or skins', () => {
+      expect(validateFormatConfig('skins', { useHandicaps: false, pairings: [] })).toBeNull()
+    })
+
+    it('should require complete pairings for match play', () => {
+      expect(validateFormatConfig('match_play', { useHandicaps: false, pairings: [] })).toMatch(/at least one match/)
+      expect(validateFormatConfig('match_play', { useHandicaps: false, pairings: [['a', '']] })).toMatch(/two players/)
+    })
+
+    it('should reject a player in two pairings', () => {
+      expect(
+        validateFormatConfig('best_ball', { useHandicaps: false, pairings: [['a', 'b'], ['b', 'c']] })
+      ).toMatch(/only be in one pairing/)
+    })
+  })
+
+  describe('stablefordPoints', () => {
+    it('should score relative to par', () => {
+      expect(stablefordPoints(2, 4)).toBe(4)
+      expect(stablefordPoints(3, 4)).toBe(3)
+      expect(stablefordPoints(4, 4)).toBe(2)
+      expect(stablefordPoints(5, 4)).toBe(1)
+      expect(stablefordPoints(6, 4)).toBe(0)
+      expect(stablefordPoints(9, 4)).toBe(0)
+    })
+  })
+
+  describe('stableford', () => {
+    it('should total points and rank the highest first', () => {
+      const { result } = run('stableford', [
+        player('a', allPars),
+        player('b', withHoles({ 1: 3, 2: 7 })),
+      ])
+      expect(result).toEqual({
+        format: 'stableford',
+        standings: [
+          { playerId: 'a', points: 36, holesPlayed: 18 },
+          { playerId: 'b', points: 35, holesPlayed: 18 },
+        ],
+      })
+    })
+
+    it('should give handicap strokes on the hardest holes', () => {
+      const { result } = run('stableford', [player('a', allPars, 2)], { useHandicaps: true })
+      expect(result?.format === 'stableford' && result.standings[0].points).toBe(38)
+    })
+
+    it('should need the course layout', () => {
+      const results = calculateFormatResults({
+        format: 'stableford',
+        config: { useHandicaps: false, pairings: [] },
+        holes: [],
+        players: [player('a', allPars)],
+      })
+      expect(results.result).toBeNull()
+      expect(results.error).toMatch(/hole layout/)
+    })
+  })
+
+  describe('skins', () => {
+    it('should carry tied holes over to the next outright win', () => {
+      const { result } = run('skins', [
+        player('a', withHoles({ 3: 3 })),
+        player('b', withHoles({ 5: 3 })),
+      ])
+      if (result?.format !== 'skins') throw new Error('expected skins')
+
+      expect(result.holes.slice(0, 5)).toEqual([
+        { holeNumber: 1, winnerId: null, value: 1 },
+        { holeNumber: 2, winnerId: null, value: 2 },
+        { holeNumber: 3, winnerId: 'a', value: 3 },
+        { holeNumber: 4, winnerId: null, value: 1 },
+        { holeNumber: 5, winnerId: 'b', value: 2 },
+      ])
+      expect(result.standings).toEqual([
+        { playerId: 'a', skins: 3 },
+        { playerId: 'b', skins: 2 },
+      ])
+      expect(result.carryover).toBe(13)
+    })
+
+    it('should leave out players without a scorecard', () => {
+      const results = run('skins', [player('a', allPars), player('b', [])])
+      expect(results.missingScorecards).toEqual(['b'])
+      expect(results.result?.format === 'skins' && results.result.standings).toEqual([{ playerId: 'a', skins: 0 }])
+    })
+  })
+
+  describe('match play', () => {
+    it('should describe match results', () => {
+      expect(describeMatch(3, 16, 18)).toBe('3 & 2')
+      expect(describeMatch(-1, 18, 18)).toBe('1 up')
+      expect(describeMatch(0, 18, 18)).toBe('All square')
+      expect(describeMatch(2, 12, 18)).toBe('2 up thru 12')
+    })
+
+    it('should end the match once it cannot be caught', () => {
+      // a wins holes 1-4, then halves everything
+      const { result } = run(
+        'match_play',
+        [player('a', withHoles({ 1: 3, 2: 3, 3: 3, 4: 3 })), player('b', allPars)],
+        { pairings: [['a', 'b']] }
+      )
+      expect(result).toEqual({
+        format: 'match_play',
+        matches: [
+          { playerIds: ['a', 'b'], winnerId: 'a', result: '4 & 3', holesPlayed: 15, complete: true },
+        ],
+      })
+    })
+
+    it('should give the handicap difference to the higher handicap', () => {
+      // b is a stroke worse on hole 1 (SI 1) but gets a stroke there
+      const { result } = run(
+        'match_play',
+        [player('a', allPars, 4), player('b', withHoles({ 1: 5 }), 5)],
+        { useHandicaps: true, pairings: [['a', 'b']] }
+      )
+      expect(result?.format === 'match_play' && result.matches[0]).toMatchObject({
+        winnerId: null,
+        result: 'All square',
+      })
+    })
+
+    it('should skip a match until both players have a scorecard', () => {
+      const { result } = run('match_play', [player('a', allPars), player('b', [])], {
+        pairings: [['a', 'b']],
+      })
+      expect(result).toEqual({ format: 'match_play', matches: [] })
+    })
+  })
+
+  describe('best ball', () => {
+    it('should count the better score of each team on every hole', () => {
+      const { result } = run(
+        'best_ball',
+        [
+          player('a', withHoles({ 1: 3, 2: 5 })),
+          player('b', withHoles({ 2: 4, 3: 5 })),
+          player('c', withHoles({ 1: 5 })),
+          player('d', allPars),
+        ],
+        { pairings: [['a', 'b'], ['c', 'd']] }
+      )
+      expect(result).toEqual({
+        format: 'best_ball',
+        standings: [
+          { playerIds: ['a', 'b'], score: 71, holesPlayed: 18 },
+          { playerIds: ['c', 'd'], score: 72, holesPlayed: 18 },
+        ],
+      })
+    })
+  })
+
+  describe('describePlayerFormatResult', () => {
+    it('should summarize each format for one player', () => {
+      const match = run(
+        'match_play',
+        [player('a', withHoles({ 1: 3, 2: 3, 3: 3, 4: 3 })), player('b', allPars)],
+        { pairings: [['a', 'b']] }
+      ).result
+
+      expect(describePlayerFormatResult(match, 'a')).toBe('Won 4 & 3')
+      expect(describePlayerFormatResult(match, 'b')).toBe('Lost 4 & 3')
+      expect(describePlayerFormatResult(match, 'c')).toBeNull()
+      expect(describePlayerFormatResult(run('stableford', [player('a', allPars)]).result, 'a')).toBe('36 pts')
+      expect(describePlayerFormatResult({ format: 'stroke' }, 'a')).toBeNull()
+    })
+  })
+})
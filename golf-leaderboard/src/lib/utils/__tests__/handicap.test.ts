@@ -0,0 +1,133 @@
+import {
+  applyHandicapCaps,
+  calculateHandicap,
+  calculateHandicapDetails,
+  calculateScoreDifferential,
+  getExceptionalScoreReduction,
+  ScoreForHandicap,
+} from '../handicap'
+
+// One round per week starting 2026-01-01 on a 72.0 / 113 course, so differential = score - 72
+const rounds = (scores: number[]): ScoreForHandicap[] =>
+  scores.map((raw_score, i) => ({
+    raw_score,
+    par: 72,
+    course_rating: 72,
+    slope_rating: 113,
+    played_at: new Date(Date.UTC(2026, 0, 1 + i * 7)).toISOString().slice(0, 10),
+  }))
+
+describe('handicap (WHS)', () => {
+  describe('calculateScoreDifferential', () => {
+    it('should apply course rating, slope and playing conditions', () => {
+      expect(
+        calculateScoreDifferential({ raw_score: 90, par: 72, course_rating: 71.2, slope_rating: 130 })
+      ).toBe(16.3)
+      expect(
+        calculateScoreDifferential({ raw_score: 90, par: 72, course_rating: 71.2, slope_rating: 130, pcc: 1 })
+      ).toBe(15.5)
+    })
+
+    it('should fall back to par and the standard slope for unrated courses', () => {
+      expect(calculateScoreDifferential({ raw_score: 85, par: 72 })).toBe(13)
+    })
+  })
+
+  describe('calculateHandicap', () => {
+    it('should need at least three rounds', () => {
+      expect(calculateHandicap(rounds([90, 91]))).toBeNull()
+    })
+
+    it('should apply the small-record adjustments from the WHS table', () => {
+      // 3 rounds: lowest 1, -2.0
+      expect(calculateHandicap(rounds([90, 88, 92]))).toBe(14)
+      // 6 rounds: average of lowest 2, -1.0
+      expect(calculateHandicap(rounds([90, 88, 92, 86, 95, 91]))).toBe(14)
+    })
+
+    it('should only count the most recent 20 rounds', () => {
+      const old = Array(10).fill(95)
+      const recent = Array(20).fill(90)
+      expect(calculateHandicap(rounds([...old, ...recent]))).toBe(18)
+    })
+
+    it('should use the best 8 of 20', () => {
+      const record = [...Array(8).fill(80), ...Array(12).fill(100)]
+      const details = calculateHandicapDetails(rounds(record))
+
+      expect(details.handicapIndex).toBe(8)
+      expect(details.roundsInRecord).toBe(20)
+      expect(details.differentialsUsed).toBe(8)
+    })
+  })
+
+  describe('history', () => {
+    it('should record the index after every round', () => {
+      const { history } = calculateHandicapDetails(rounds([90, 88, 92, 86]))
+
+      expect(history.map(entry => entry.handicapIndex)).toEqual([null, null, 14, 13])
+      expect(history[3]).toEqual({
+        playedAt: '2026-01-22',
+        handicapIndex: 13,
+        roundsInRecord: 4,
+        differentialsUsed: 1,
+      })
+    })
+
+    it('should replay undated rounds before dated ones, and dated ones by date', () => {
+      const [first, second, third] = rounds([90, 88, 92])
+      const undated = [{ ...first, played_at: null }, { ...first, raw_score: 95, played_at: undefined }]
+      const { history } = calculateHandicapDetails([third, undated[0], second, undated[1], first])
+
+      expect(history.map(entry => entry.playedAt)).toEqual([
+        null,
+        null,
+        '2026-01-01',
+        '2026-01-08',
+        '2026-01-15',
+      ])
+      // 90, 95, then 90, 88, 92 by date
+      expect(history.map(entry => entry.handicapIndex)).toEqual([null, null, 16, 15, 16])
+    })
+  })
+
+  describe('caps', () => {
+    it('should soft cap increases above 3.0 at half the excess', () => {
+      expect(applyHandicapCaps(14, 10)).toEqual({ handicapIndex: 13.5, cap: 'soft' })
+    })
+
+    it('should hard cap increases at 5.0', () => {
+      expect(applyHandicapCaps(25, 10)).toEqual({ handicapIndex: 15, cap: 'hard' })
+    })
+
+    it('should leave small increases alone', () => {
+      expect(applyHandicapCaps(12.5, 10)).toEqual({ handicapIndex: 12.5, cap: 'none' })
+    })
+
+    it('should cap a run of bad rounds against the low index', () => {
+      const details = calculateHandicapDetails(rounds([...Array(20).fill(82), ...Array(20).fill(110)]))
+
+      expect(details.lowHandicapIndex).toBe(10)
+      expect(details.handicapIndex).toBe(15)
+      expect(details.cap).toBe('hard')
+    })
+  })
+
+  describe('exceptional scores', () => {
+    it('should reduce by 1.0 or 2.0 depending on the margin', () => {
+      expect(getExceptionalScoreReduction(10, 16.9)).toBe(0)
+      expect(getExceptionalScoreReduction(10, 17)).toBe(1)
+      expect(getExceptionalScoreReduction(10, 20)).toBe(2)
+      expect(getExceptionalScoreReduction(10, null)).toBe(0)
+    })
+
+    it('should apply the reduction to the index', () => {
+      const details = calculateHandicapDetails(rounds([...Array(10).fill(92), 78]))
+
+      // Index before the round was 20.0, the 6.0 differential is 14.0 better,
+      // so every differential drops by 2.0: best 3 of 11 = (4 + 18 + 18) / 3
+      expect(details.exceptionalReduction).toBe(2)
+      expect(details.handicapIndex).toBe(13.3)
+    })
+  })
+})
@@ -0,0 +1,254 @@
+import {
+  buildImportPlan,
+  guessColumnMapping,
+  ImportContext,
+  ImportFile,
+  ImportRow,
+  mapRows,
+  missingColumns,
+  parseCsv,
+  parseImportDate,
+} from '../historyImport'
+import { DEFAULT_SCORING_RULES, ScoringRules } from '../scoringRules'
+import { calculatePoints } from '../scoring'
+import { createFixture } from '@/__tests__/utils/fixtures'
+
+// Points by strokes over par, so a season on these rules scores differently
+const TO_PAR_RULES: ScoringRules = {
+  ...DEFAULT_SCORING_RULES,
+  key: 'to_par',
+  basis: 'to_par',
+  brackets: [{ min: 1, points: 0 }, { min: null, points: 10 }],
+}
+
+const context = createFixture<ImportContext>({
+  courses: [{ id: 'course-1', name: 'Pine Valley', par: 72 }],
+  seasons: [{ id: 'season-1', name: '2024 Season', rules: DEFAULT_SCORING_RULES }],
+  games: [],
+  players: [
+    { id: 'p-alice', username: 'alice' },
+    { id: 'p-bob', username: 'Bob' },
+  ],
+  ruleSets: [
+    { id: 'rules-to-par', rules: TO_PAR_RULES },
+    { id: 'rules-default', rules: DEFAULT_SCORING_RULES },
+  ],
+  canAddCourses: true,
+})
+
+const rows = (...values: Array<Record<string, string>>): ImportRow[] =>
+  values.map((v, i) => ({ row: i + 2, values: v }))
+
+const plan = (
+  input: Partial<Record<ImportFile, ImportRow[]>>,
+  ctx: ImportContext = context(),
+  seasonRuleSets: Record<string, string> = {}
+) => buildImportPlan({ courses: [], games: [], scores: [], ...input }, ctx, seasonRuleSets)
+
+describe('History import', () => {
+  describe('parseCsv', () => {
+    it('should read headers and rows', () => {
+      expect(parseCsv('Season,Date,Player,Score\n2024,5/18/2024,alice,85\n')).toEqual({
+        headers: ['Season', 'Date', 'Player', 'Score'],
+        rows: [['2024', '5/18/2024', 'alice', '85']],
+      })
+    })
+
+    it('should handle quotes, commas and line breaks inside quotes, and CRLF', () => {
+      const table = parseCsv('\uFEFFName,Notes\r\n"Smith, J","Said ""hi""\nthen left"\r\n\r\nJones,\r\n')
+
+      expect(table.headers).toEqual(['Name', 'Notes'])
+      expect(table.rows).toEqual([
+        ['Smith, J', 'Said "hi"\nthen left'],
+        ['Jones', ''],
+      ])
+    })
+
+    it('should read a file without a trailing newline', () => {
+      expect(parseCsv('a,b\n1,2').rows).toEqual([['1', '2']])
+    })
+  })
+
+  describe('column mapping', () => {
+    it('should guess columns from common header names', () => {
+      const mapping = guessColumnMapping('scores', ['Date', 'Golfer', 'Gross Score', 'Season', 'Comments'])
+
+      expect(mapping).toEqual({ season: 3, date: 0, player: 1, score: 2, notes: 4 })
+      expect(missingColumns('scores', mapping)).toEqual([])
+    })
+
+    it('should report required fields with no column', () => {
+      const mapping = guessColumnMapping('courses', ['Course', 'Town'])
+
+      expect(missingColumns('courses', mapping)).toEqual(['Par'])
+    })
+
+    it('should pull mapped values out of each row', () => {
+      const table = parseCsv('Player,Score\n alice ,85\nbob')
+
+      expect(mapRows(table, { player: 0, score: 1, notes: null })).toEqual([
+        { row: 2, values: { player: 'alice', score: '85', notes: '' } },
+        { row: 3, values: { player: 'bob', score: '', notes: '' } },
+      ])
+    })
+  })
+
+  describe('parseImportDate', () => {
+    it('should read ISO and US dates', () => {
+      expect(parseImportDate('2024-05-18')).toBe('2024-05-18')
+      expect(parseImportDate('5/18/2024')).toBe('2024-05-18')
+      expect(parseImportDate('5/18/24')).toBe('2024-05-18')
+    })
+
+    it('should reject dates that do not exist', () => {
+      expect(parseImportDate('2/30/2024')).toBeNull()
+      expect(parseImportDate('May 18')).toBeNull()
+    })
+  })
+
+  describe('buildImportPlan', () => {
+    it('should create seasons, games and placeholder players, with points under the season rules', () => {
+      const result = plan({
+        games: rows({ season: '2023 Season', date: '6/1/2023', course: 'pine valley', name: '' }),
+        scores: rows(
+          { season: '2023 season', date: '2023-06-01', player: 'Alice', score: '80', notes: '' },
+          { season: '2023 Season', date: '6/1/2023', player: 'Carl', score: '90', notes: 'Rain' },
+        ),
+      })
+
+      expect(result.errors).toEqual([])
+      expect(result.seasons).toEqual([
+        { key: 'new:season:1', name: '2023 Season', startDate: '2023-06-01', endDate: '2023-06-01', scoringRuleSetId: 'rules-default' },
+      ])
+      expect(result.games).toEqual([
+        { key: 'new:game:1', seasonRef: 'new:season:1', courseRef: 'course-1', name: 'pine valley', gameDate: '2023-06-01' },
+      ])
+      expect(result.players).toEqual([{ key: 'new:player:1', username: 'Carl' }])
+      expect(result.scores).toEqual([
+        expect.objectContaining({ playerRef: 'p-alice', rawScore: 80, points: calculatePoints(80, 72), bonusPoints: DEFAULT_SCORING_RULES.bonus.lowRound }),
+        expect.objectContaining({ playerRef: 'new:player:1', rawScore: 90, notes: 'Rain', bonusPoints: 0 }),
+      ])
+    })
+
+    it('should add new courses and play new rounds on them', () => {
+      const result = plan({
+        courses: rows({ name: 'Oak Hill', location: '', par: '70', courseRating: '', slopeRating: '128' }),
+        games: rows({ season: '2024 Season', date: '2024-07-04', course: 'Oak Hill', name: 'Fourth' }),
+      })
+
+      expect(result.courses).toEqual([
+        { key: 'new:course:1', name: 'Oak Hill', location: null, par: 70, courseRating: null, slopeRating: 128 },
+      ])
+      expect(result.games[0]).toEqual(expect.objectContaining({ seasonRef: 'season-1', courseRef: 'new:course:1' }))
+    })
+
+    it('should only let the site administrator add courses', () => {
+      const result = plan(
+        { courses: rows({ name: 'Oak Hill', par: '70' }) },
+        context({ canAddCourses: false })
+      )
+
+      expect(result.errors).toEqual([
+        { file: 'courses', row: 2, message: 'Only the site administrator can add courses (Oak Hill)' },
+      ])
+    })
+
+    it('should match existing courses and rounds with a warning instead of creating them', () => {
+      const result = plan({
+        courses: rows({ name: 'Pine Valley', par: '72' }),
+        games: rows({ season: '2024 Season', date: '2024-05-18', course: 'Pine Valley' }),
+        scores: rows({ season: '2024 Season', date: '2024-05-18', player: 'bob', score: '79' }),
+      }, context({
+        games: [{ id: 'game-1', seasonId: 'season-1', gameDate: '2024-05-18', coursePar: 72, scores: [{ playerId: 'p-alice', rawScore: 75 }] }],
+      }))
+
+      expect(result.errors).toEqual([])
+      expect(result.courses).toEqual([])
+      expect(result.games).toEqual([])
+      expect(result.warnings.map(w => w.file)).toEqual(['courses', 'games'])
+      // Alice's 75 already holds the bonus
+      expect(result.scores).toEqual([expect.objectContaining({ gameRef: 'game-1', playerRef: 'p-bob', bonusPoints: 0 })])
+    })
+
+    it('should use an existing season\'s rules for points', () => {
+      const result = plan({
+        scores: rows({ season: '2024 Season', date: '2024-05-18', player: 'alice', score: '70' }),
+      }, context({
+        seasons: [{ id: 'season-1', name: '2024 Season', rules: TO_PAR_RULES }],
+        games: [{ id: 'game-1', seasonId: 'season-1', gameDate: '2024-05-18', coursePar: 72, scores: [] }],
+      }))
+
+      expect(result.scores[0].points).toBe(calculatePoints(70, 72, TO_PAR_RULES))
+    })
+
+    it('should score a new season under the rule set picked for it', () => {
+      const result = plan({
+        games: rows({ season: '2023 Season', date: '2023-06-01', course: 'Pine Valley' }),
+        scores: rows({ season: '2023 Season', date: '2023-06-01', player: 'alice', score: '70' }),
+      }, context(), { '2023 Season': 'rules-to-par' })
+
+      expect(result.seasons[0].scoringRuleSetId).toBe('rules-to-par')
+      expect(result.scores[0].points).toBe(calculatePoints(70, 72, TO_PAR_RULES))
+    })
+
+    it('should not create a season when there are no rule sets to score it with', () => {
+      const result = plan({
+        games: rows({ season: '2023 Season', date: '2023-06-01', course: 'Pine Valley' }),
+      }, context({ ruleSets: [] }))
+
+      expect(result.seasons).toEqual([])
+      expect(result.errors).toEqual([
+        { file: 'games', row: 2, message: 'No scoring rules to score 2023 Season with' },
+      ])
+    })
+
+    it('should make a placeholder for a player who is not in the league', () => {
+      const result = plan({
+        scores: rows({ season: '2024 Season', date: '2024-05-18', player: 'alice', score: '80' }),
+      }, context({
+        players: [{ id: 'p-bob', username: 'Bob' }],
+        games: [{ id: 'game-1', seasonId: 'season-1', gameDate: '2024-05-18', coursePar: 72, scores: [] }],
+      }))
+
+      expect(result.players).toEqual([{ key: 'new:player:1', username: 'alice' }])
+      expect(result.scores[0].playerRef).toBe('new:player:1')
+    })
+
+    it('should report bad rows with their line numbers', () => {
+      const result = plan({
+        games: rows(
+          { season: '2024 Season', date: 'soon', course: 'Pine Valley' },
+          { season: '2024 Season', date: '2024-06-01', course: 'Augusta' },
+        ),
+        scores: rows(
+          { season: '2024 Season', date: '2024-08-01', player: 'alice', score: '80' },
+          { season: '2024 Season', date: '2024-06-01', player: 'alice', score: '300' },
+        ),
+      })
+
+      expect(result.errors).toEqual([
+        { file: 'games', row: 2, message: '"soon" is not a date' },
+        { file: 'games', row: 3, message: 'Unknown course "Augusta"; add it to the courses file' },
+        { file: 'scores', row: 2, message: 'No round on 2024-08-01 in 2024 Season; add it to the games file' },
+        { file: 'scores', row: 3, message: 'No round on 2024-06-01 in 2024 Season; add it to the games file' },
+      ])
+    })
+
+    it('should reject a second score for the same player in a round', () => {
+      const result = plan({
+        games: rows({ season: '2024 Season', date: '2024-06-01', course: 'Pine Valley' }),
+        scores: rows(
+          { season: '2024 Season', date: '2024-06-01', player: 'Dana', score: '88' },
+          { season: '2024 Season', date: '2024-06-01', player: 'dana', score: '91' },
+          { season: '2024 Season', date: '2024-06-01', player: 'alice', score: '300' },
+        ),
+      })
+
+      expect(result.players).toHaveLength(1)
+      expect(result.errors).toEqual([
+        { file: 'scores', row: 3, message: 'dana is listed more than once on 2024-06-01' },
+        { file: 'scores', row: 4, message: 'Score must be a whole number between 50 and 150' },
+      ])
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import {
+  buildRoundCalendar,
+  CalendarRound,
+  describeRound,
+  escapeICalText,
+  foldICalLine,
+} from '../icalendar'
+import { createFixture } from '@/__tests__/utils/fixtures'
+
+const round = createFixture<CalendarRound>({
+  gameId: 'game-1',
+  name: 'Week 1',
+  date: '2024-06-30',
+  status: 'active',
+  roundCode: 'ABC123',
+  seasonName: 'Summer 2024',
+  courseName: 'Pine Valley',
+  courseLocation: 'Clementon, NJ',
+  rsvpStatus: 'in',
+})
+
+const NOW = new Date('2024-06-01T12:34:56.789Z')
+
+describe('iCalendar feeds', () => {
+  describe('escapeICalText', () => {
+    it('should escape backslashes, separators and newlines', () => {
+      expect(escapeICalText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne')
+    })
+  })
+
+  describe('foldICalLine', () => {
+    it('should leave short lines alone', () => {
+      expect(foldICalLine('SUMMARY:Week 1')).toBe('SUMMARY:Week 1')
+    })
+
+    it('should fold long lines at 75 octets with a leading space', () => {
+      const folded = foldICalLine(`DESCRIPTION:${'x'.repeat(150)}`)
+      const lines = folded.split('\r\n')
+
+      expect(lines[0]).toHaveLength(75)
+      expect(lines.slice(1).every(line => line.startsWith(' ') && line.length <= 75)).toBe(true)
+      expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'x'.repeat(150)}`)
+    })
+
+    it('should not split multi-byte characters', () => {
+      const folded = foldICalLine(`SUMMARY:${'é'.repeat(60)}`)
+
+      expect(folded.split('\r\n').every(line => !line.includes('�'))).toBe(true)
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`)
+    })
+  })
+
+  describe('describeRound', () => {
+    it('should name the round and course', () => {
+      expect(describeRound(round())).toBe('Week 1 · Pine Valley')
+    })
+
+    it('should note a maybe or an out', () => {
+      expect(describeRound(round({ rsvpStatus: 'maybe' }))).toBe('Week 1 · Pine Valley (maybe)')
+      expect(describeRound(round({ rsvpStatus: 'out' }))).toBe('Week 1 · Pine Valley (not playing)')
+    })
+  })
+
+  describe('buildRoundCalendar', () => {
+    it('should make an all-day event with the course and round code', () => {
+      const ics = buildRoundCalendar('Summer 2024', [round()], NOW)
+
+      expect(ics).toContain('X-WR-CALNAME:Summer 2024')
+      expect(ics).toContain('UID:game-1@golf-leaderboard')
+      expect(ics).toContain('DTSTAMP:20240601T123456Z')
+      expect(ics).toContain('DTSTART;VALUE=DATE:20240630')
+      expect(ics).toContain('DTEND;VALUE=DATE:20240701')
+      expect(ics).toContain('LOCATION:Pine Valley\\, Clementon\\, NJ')
+      expect(ics).toContain('Round code: ABC123')
+    })
+
+    it('should remind players of the round code on the day', () => {
+      const ics = buildRoundCalendar('Summer 2024', [round()], NOW)
+
+      expect(ics).toContain('BEGIN:VALARM')
+      expect(ics).toContain('DESCRIPTION:Week 1 today. Round code: ABC123')
+    })
+
+    it('should not remind players about completed rounds', () => {
+      const ics = buildRoundCalendar('Summer 2024', [round({ status: 'completed' })], NOW)
+
+      expect(ics).not.toContain('BEGIN:VALARM')
+    })
+
+    it('should end the month and year correctly', () => {
+      const ics = buildRoundCalendar('Summer 2024', [round({ date: '2024-12-31' })], NOW)
+
+      expect(ics).toContain('DTEND;VALUE=DATE:20250101')
+    })
+
+    it('should use CRLF line endings throughout', () => {
+      const ics = buildRoundCalendar('Summer 2024', [round()], NOW)
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true)
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+      expect(ics.replace(/\r\n/g, '')).not.toContain('\n')
+    })
+
+    it('should make an empty calendar for a feed without rounds', () => {
+      const ics = buildRoundCalendar('Summer 2024', [], NOW)
+
+      expect(ics).not.toContain('BEGIN:VEVENT')
+      expect(ics).toContain('END:VCALENDAR')
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import {
+  canManageLeague,
+  League,
+  LeagueMember,
+  pickCurrentLeague,
+  validateRoleChange,
+} from '../leagues'
+import { createFixture } from '@/__tests__/utils/fixtures'
+
+const league = createFixture<League>({
+  id: 'league-1',
+  name: 'Golf Society',
+  code: 'ABC123',
+  role: 'member',
+})
+
+const member = createFixture<LeagueMember>({
+  userId: 'player-1',
+  username: 'alice',
+  role: 'member',
+  joinedAt: '2024-05-01T18:00:00Z',
+})
+
+describe('leagues', () => {
+  describe('canManageLeague', () => {
+    it('should let owners and admins manage the league', () => {
+      expect(canManageLeague('owner')).toBe(true)
+      expect(canManageLeague('admin')).toBe(true)
+    })
+
+    it('should not let members or outsiders manage the league', () => {
+      expect(canManageLeague('member')).toBe(false)
+      expect(canManageLeague(null)).toBe(false)
+      expect(canManageLeague(undefined)).toBe(false)
+    })
+  })
+
+  describe('pickCurrentLeague', () => {
+    const society = league()
+    const wednesday = league({ id: 'league-2', name: 'Wednesday League' })
+
+    it('should keep the league picked last time', () => {
+      expect(pickCurrentLeague([society, wednesday], 'league-2')).toBe(wednesday)
+    })
+
+    it('should fall back to the first league when the stored one is gone', () => {
+      expect(pickCurrentLeague([society, wednesday], 'league-9')).toBe(society)
+      expect(pickCurrentLeague([society, wednesday], null)).toBe(society)
+    })
+
+    it('should return null for a player in no league', () => {
+      expect(pickCurrentLeague([], 'league-1')).toBeNull()
+    })
+  })
+
+  describe('validateRoleChange', () => {
+    const owner = member({ userId: 'owner-1', username: 'olivia', role: 'owner' })
+
+    it('should allow promoting a member', () => {
+      expect(validateRoleChange([owner, member()], 'player-1', 'admin')).toBeNull()
+    })
+
+    it('should refuse to demote the only owner', () => {
+      expect(validateRoleChange([owner, member()], 'owner-1', 'admin')).toMatch(/at least one owner/)
+    })
+
+    it('should allow demoting an owner when another remains', () => {
+      const second = member({ role: 'owner' })
+      expect(validateRoleChange([owner, second], 'owner-1', 'member')).toBeNull()
+    })
+
+    it('should refuse players outside the league', () => {
+      expect(validateRoleChange([owner], 'player-9', 'admin')).toMatch(/not a member/)
+    })
+  })
+})
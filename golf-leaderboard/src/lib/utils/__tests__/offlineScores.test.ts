@@ -0,0 +1,82 @@
+import {
+  CachedRound,
+  cachedRoundKey,
+  classifySyncError,
+  QueuedScore,
+  validateOfflineSubmission,
+} from '../offlineScores'
+import { GROSS_BRACKETS_2026 } from '../scoringRules'
+import { createFixture } from '@/__tests__/utils/fixtures'
+
+const round = createFixture<CachedRound>({
+  key: cachedRoundKey('player-1', 'ABC123'),
+  playerId: 'player-1',
+  roundCode: 'ABC123',
+  game: {
+    id: 'game-1',
+    name: 'Week 1',
+    season_id: 'season-1',
+    format: 'stroke',
+    status: 'active',
+    courses: { id: 'course-1', name: 'Pine Valley', par: 72 },
+  },
+  rules: GROSS_BRACKETS_2026,
+  rawScores: [85, 90],
+  submitted: false,
+  cachedAt: '2026-05-01T10:00:00.000Z',
+})
+
+const queued = createFixture<QueuedScore>({
+  id: 'queued-1',
+  playerId: 'player-1',
+  roundCode: 'ABC123',
+  gameId: 'game-1',
+  seasonId: 'season-1',
+  gameName: 'Week 1',
+  courseName: 'Pine Valley',
+  rawScore: 88,
+  queuedAt: '2026-05-01T12:00:00.000Z',
+  status: 'pending',
+  conflict: null,
+})
+
+describe('offline scores', () => {
+  describe('cachedRoundKey', () => {
+    it('should normalize the round code', () => {
+      expect(cachedRoundKey('player-1', ' abc123 ')).toBe('player-1:ABC123')
+    })
+  })
+
+  describe('validateOfflineSubmission', () => {
+    it('should accept an open round the player has not scored', () => {
+      expect(validateOfflineSubmission(round(), [])).toBeNull()
+    })
+
+    it('should reject a round that was never cached', () => {
+      expect(validateOfflineSubmission(undefined, [])).toMatch(/isn't available offline/)
+    })
+
+    it('should reject completed rounds and rounds already scored', () => {
+      expect(validateOfflineSubmission(round({ game: { ...round().game, status: 'completed' } }), [])).toMatch(/completed/)
+      expect(validateOfflineSubmission(round({ submitted: true }), [])).toMatch(/already submitted/)
+    })
+
+    it('should reject a second queued score for the same round', () => {
+      expect(validateOfflineSubmission(round(), [queued()])).toMatch(/waiting to sync/)
+      expect(validateOfflineSubmission(round(), [queued({ gameId: 'game-2' })])).toBeNull()
+    })
+  })
+
+  describe('classifySyncError', () => {
+    it('should retry when the request never reached the server', () => {
+      expect(classifySyncError(new TypeError('Failed to fetch'))).toBe('retry')
+      expect(classifySyncError({ message: 'TypeError: Load failed' })).toBe('retry')
+    })
+
+    it('should treat server rejections as conflicts', () => {
+      expect(classifySyncError({ message: 'This round is completed. No new scores can be submitted.' })).toBe('conflict')
+      expect(classifySyncError({ message: 'You have already submitted a score for this round' })).toBe('conflict')
+      expect(classifySyncError(null)).toBe('conflict')
+    })
+  })
+})
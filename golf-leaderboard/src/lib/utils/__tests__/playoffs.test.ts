@@ -0,0 +1,140 @@
+import {
+  bracketSlots,
+  buildBracket,
+  determinePlayoffChampion,
+  playoffRoundCount,
+  playoffRoundName,
+  PlayoffScore,
+  pointsResetStandings,
+  seedPlayoffs,
+} from '../playoffs'
+
+const standings = [
+  { playerId: 'p1', username: 'Alice', totalPoints: 40 },
+  { playerId: 'p2', username: 'Bob', totalPoints: 35 },
+  { playerId: 'p3', username: 'Cara', totalPoints: 35 },
+  { playerId: 'p4', username: 'Dan', totalPoints: 20 },
+  { playerId: 'p5', username: 'Eve', totalPoints: 12 },
+  { playerId: 'p6', username: 'Finn', totalPoints: 8 },
+]
+
+const score = (round: number, playerId: string, rawScore: number, points = 0): PlayoffScore => ({
+  round,
+  playerId,
+  rawScore,
+  points,
+})
+
+describe('playoffs', () => {
+  describe('seedPlayoffs', () => {
+    it('should seed the top players by points, keeping leaderboard order on ties', () => {
+      const seeds = seedPlayoffs(standings, 4)
+      expect(seeds.map(seed => seed.playerId)).toEqual(['p1', 'p2', 'p3', 'p4'])
+      expect(seeds.map(seed => seed.seed)).toEqual([1, 2, 3, 4])
+      expect(seeds[1].regularSeasonPoints).toBe(35)
+    })
+
+    it('should give higher seeds more starting points for a points reset', () => {
+      expect(seedPlayoffs(standings, 4).map(seed => seed.startingPoints)).toEqual([8, 6, 4, 2])
+    })
+
+    it('should seed everyone when fewer players than the playoff size', () => {
+      expect(seedPlayoffs(standings.slice(0, 3), 8)).toHaveLength(3)
+    })
+  })
+
+  describe('rounds', () => {
+    it('should count bracket rounds from the field size', () => {
+      expect(playoffRoundCount('bracket', 2, null)).toBe(1)
+      expect(playoffRoundCount('bracket', 6, null)).toBe(3)
+      expect(playoffRoundCount('bracket', 8, null)).toBe(3)
+      expect(playoffRoundCount('points_reset', 8, 2)).toBe(2)
+      expect(playoffRoundCount('none', null, null)).toBe(0)
+    })
+
+    it('should name the late bracket rounds', () => {
+      expect(playoffRoundName('bracket', 3, 3)).toBe('Final')
+      expect(playoffRoundName('bracket', 2, 3)).toBe('Semifinals')
+      expect(playoffRoundName('bracket', 1, 3)).toBe('Quarterfinals')
+      expect(playoffRoundName('points_reset', 1, 2)).toBe('Playoff Round 1')
+    })
+
+    it('should order bracket slots so the top two seeds meet in the final', () => {
+      expect(bracketSlots(4)).toEqual([1, 4, 2, 3])
+      expect(bracketSlots(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6])
+    })
+  })
+
+  describe('buildBracket', () => {
+    const seeds = seedPlayoffs(standings, 6)
+
+    it('should give byes to the top seeds', () => {
+      const [first] = buildBracket(seeds, [], [])
+      expect(first.matches).toHaveLength(4)
+      expect(first.matches[0].bottom).toBeNull()
+      expect(first.matches[0].winner?.playerId).toBe('p1')
+      expect(first.matches[1].winner).toBeNull()
+    })
+
+    it('should advance the lower score and break ties by seed', () => {
+      const bracket = buildBracket(seeds, [
+        score(1, 'p4', 80), score(1, 'p5', 78),
+        score(1, 'p3', 85), score(1, 'p6', 85),
+      ], [])
+
+      expect(bracket[0].matches[1].winner?.playerId).toBe('p5')
+      expect(bracket[0].matches[3].winner?.playerId).toBe('p3')
+      expect(bracket[1].matches[0].top?.playerId).toBe('p1')
+      expect(bracket[1].matches[0].bottom?.playerId).toBe('p5')
+    })
+
+    it('should forfeit a missing score once the round is completed', () => {
+      const scores = [score(1, 'p4', 90)]
+      expect(buildBracket(seeds, scores, [])[0].matches[1].winner).toBeNull()
+      expect(buildBracket(seeds, scores, [1])[0].matches[1].winner?.playerId).toBe('p4')
+      expect(buildBracket(seeds, scores, [1])[0].matches[3].winner?.playerId).toBe('p3')
+    })
+
+    it('should crown the winner of the final', () => {
+      const fourSeeds = seedPlayoffs(standings, 4)
+      const scores = [
+        score(1, 'p1', 80), score(1, 'p4', 82),
+        score(1, 'p2', 79), score(1, 'p3', 77),
+        score(2, 'p3', 79),
+      ]
+      expect(determinePlayoffChampion('bracket', fourSeeds, scores, [1], null)).toBeNull()
+      expect(determinePlayoffChampion('bracket', fourSeeds, scores, [1, 2], null)?.playerId).toBe('p3')
+      expect(determinePlayoffChampion('bracket', fourSeeds, [...scores, score(2, 'p1', 78)], [1], null)?.playerId).toBe('p1')
+    })
+  })
+
+  describe('points reset', () => {
+    const seeds = seedPlayoffs(standings, 3)
+
+    it('should add playoff points to the starting points', () => {
+      const table = pointsResetStandings(seeds, [
+        score(1, 'p3', 75, 8),
+        score(1, 'p1', 82, 2),
+        score(1, 'p9', 70, 10),
+      ])
+
+      expect(table.map(row => [row.playerId, row.totalPoints])).toEqual([
+        ['p3', 10],
+        ['p1', 8],
+        ['p2', 4],
+      ])
+      expect(table[2].roundsPlayed).toBe(0)
+    })
+
+    it('should break ties by seed', () => {
+      const table = pointsResetStandings(seeds, [score(1, 'p2', 80, 2)])
+      expect(table.map(row => row.playerId)).toEqual(['p1', 'p2', 'p3'])
+    })
+
+    it('should crown the leader only after every round is completed', () => {
+      const scores = [score(1, 'p3', 75, 8), score(2, 'p3', 76, 6)]
+      expect(determinePlayoffChampion('points_reset', seeds, scores, [1], 2)).toBeNull()
+      expect(determinePlayoffChampion('points_reset', seeds, scores, [1, 2], 2)?.playerId).toBe('p3')
+    })
+  })
+})
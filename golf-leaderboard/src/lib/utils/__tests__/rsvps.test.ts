@@ -0,0 +1,71 @@
+import { buildRoster, countRsvps, isRsvpOpen } from '../rsvps'
+
+describe('round RSVPs', () => {
+  describe('countRsvps', () => {
+    it('should count each answer', () => {
+      expect(countRsvps([
+        { status: 'in' },
+        { status: 'in' },
+        { status: 'maybe' },
+        { status: 'out' },
+      ])).toEqual({ in: 2, maybe: 1, out: 1 })
+    })
+
+    it('should count nothing for a round without answers', () => {
+      expect(countRsvps([])).toEqual({ in: 0, maybe: 0, out: 0 })
+    })
+  })
+
+  describe('buildRoster', () => {
+    const participants = [
+      { playerId: 'p1', username: 'dave' },
+      { playerId: 'p2', username: 'alice' },
+      { playerId: 'p3', username: 'carol' },
+      { playerId: 'p4', username: 'bob' },
+    ]
+
+    it('should list players coming first and not coming last', () => {
+      const roster = buildRoster(
+        participants,
+        [
+          { playerId: 'p1', status: 'out' },
+          { playerId: 'p2', status: 'maybe' },
+          { playerId: 'p3', status: 'in' },
+        ],
+        new Set()
+      )
+
+      expect(roster.map(entry => entry.username)).toEqual(['carol', 'alice', 'bob', 'dave'])
+      expect(roster[2].status).toBeNull()
+    })
+
+    it('should sort players with the same answer by name', () => {
+      const roster = buildRoster(
+        participants,
+        participants.map(p => ({ playerId: p.playerId, status: 'in' as const })),
+        new Set()
+      )
+
+      expect(roster.map(entry => entry.username)).toEqual(['alice', 'bob', 'carol', 'dave'])
+    })
+
+    it('should mark players who have submitted a score', () => {
+      const roster = buildRoster(participants, [], new Set(['p4']))
+
+      expect(roster.find(entry => entry.playerId === 'p4')?.submitted).toBe(true)
+      expect(roster.find(entry => entry.playerId === 'p1')?.submitted).toBe(false)
+    })
+  })
+
+  describe('isRsvpOpen', () => {
+    it('should take RSVPs for active rounds up to the day itself', () => {
+      expect(isRsvpOpen({ status: 'active', game_date: '2024-06-01' }, '2024-05-30')).toBe(true)
+      expect(isRsvpOpen({ status: 'active', game_date: '2024-06-01' }, '2024-06-01')).toBe(true)
+    })
+
+    it('should close RSVPs once the round has passed or completed', () => {
+      expect(isRsvpOpen({ status: 'active', game_date: '2024-06-01' }, '2024-06-02')).toBe(false)
+      expect(isRsvpOpen({ status: 'completed', game_date: '2024-06-01' }, '2024-05-30')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import {
+  createEmptyScorecard,
+  HoleCount,
+  HoleScore,
+  scorecardRawScore,
+  summarizeScorecard,
+  validateScorecard,
+} from '../scorecard'
+
+// Every hole a par-4 bogey: 5 strokes, 2 putts, fairway missed, green missed
+const filledScorecard = (holeCount: HoleCount = 18): HoleScore[] =>
+  createEmptyScorecard(holeCount).map(hole => ({ ...hole, strokes: 5, putts: 2, fairwayHit: false, greenInRegulation: false }))
+
+describe('scorecards', () => {
+  describe('validateScorecard', () => {
+    it('should accept a complete 18-hole card', () => {
+      expect(validateScorecard(filledScorecard())).toBeNull()
+    })
+
+    it('should accept a complete 9-hole card', () => {
+      expect(validateScorecard(filledScorecard(9))).toBeNull()
+    })
+
+    it('should reject a card that is neither 9 nor 18 holes', () => {
+      expect(validateScorecard(filledScorecard().slice(0, 12))).toBe('Scorecards must have 9 or 18 holes')
+    })
+
+    it('should name the first hole with no strokes', () => {
+      const holes = filledScorecard()
+      holes[6].strokes = null
+      expect(validateScorecard(holes)).toBe('Enter strokes for hole 7')
+    })
+
+    it('should reject out-of-range strokes and more putts than strokes', () => {
+      const tooMany = filledScorecard()
+      tooMany[0].strokes = 21
+      expect(validateScorecard(tooMany)).toBe('Hole 1: strokes must be between 1 and 20')
+
+      const putts = filledScorecard()
+      putts[2].putts = 6
+      expect(validateScorecard(putts)).toBe('Hole 3: putts cannot exceed strokes')
+    })
+  })
+
+  describe('summarizeScorecard', () => {
+    it('should total a partial card and only count recorded fairways as attempted', () => {
+      const holes = createEmptyScorecard()
+      holes[0] = { ...holes[0], strokes: 4, putts: 2, fairwayHit: true, greenInRegulation: true }
+      holes[1] = { ...holes[1], strokes: 3, putts: 1, fairwayHit: null, greenInRegulation: true }
+      holes[2] = { ...holes[2], strokes: 6, putts: 3, fairwayHit: false, greenInRegulation: false }
+
+      expect(summarizeScorecard(holes)).toEqual({
+        holesCompleted: 3,
+        totalStrokes: 13,
+        totalPutts: 6,
+        fairwaysHit: 1,
+        fairwaysAttempted: 2,
+        greensInRegulation: 2,
+      })
+    })
+  })
+
+  describe('scorecardRawScore', () => {
+    it('should be the stroke total of a complete card', () => {
+      expect(scorecardRawScore(filledScorecard())).toBe(90)
+    })
+
+    it('should be null until every hole has strokes', () => {
+      const holes = filledScorecard()
+      holes[17].strokes = null
+      expect(scorecardRawScore(holes)).toBeNull()
+    })
+
+    it('should total a 9-hole card without scaling it up to 18 holes', () => {
+      const holes = filledScorecard(9)
+      holes[0].strokes = 3
+
+      expect(holes).toHaveLength(9)
+      expect(scorecardRawScore(holes)).toBe(43)
+    })
+  })
+})
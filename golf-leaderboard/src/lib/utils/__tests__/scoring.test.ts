@@ -0,0 +1,159 @@
+import { calculateFullScore, calculatePoints, updateBonusPoints } from '../scoring'
+import {
+  GROSS_BRACKETS_2026,
+  ScoringRules,
+  describeBrackets,
+  parseScoringRules,
+} from '../scoringRules'
+
+const scoreData = (rawScore: number, coursePar = 72) => ({
+  rawScore,
+  coursePar,
+  playerId: 'player-1',
+  gameId: 'game-1',
+})
+
+// Even par or better: 10 points, one point less every three strokes over
+const PAR_RELATIVE: ScoringRules = {
+  key: 'par_relative',
+  version: 1,
+  name: 'Par relative',
+  basis: 'to_par',
+  brackets: [
+    { min: 28, points: 0 },
+    { min: 25, points: 1 },
+    { min: 22, points: 2 },
+    { min: 19, points: 3 },
+    { min: 16, points: 4 },
+    { min: 13, points: 5 },
+    { min: 10, points: 6 },
+    { min: 7, points: 7 },
+    { min: 4, points: 8 },
+    { min: 1, points: 9 },
+    { min: null, points: 10 },
+  ],
+  bonus: { lowRound: 1, shareTies: true },
+}
+
+describe('scoring rules', () => {
+  describe('calculatePoints', () => {
+    it('should use the 2026 gross brackets by default', () => {
+      expect(calculatePoints(100, 72)).toBe(0)
+      expect(calculatePoints(97, 72)).toBe(1)
+      expect(calculatePoints(90, 72)).toBe(2)
+      expect(calculatePoints(89, 72)).toBe(3)
+      expect(calculatePoints(80, 72)).toBe(4)
+      expect(calculatePoints(75, 72)).toBe(5)
+      expect(calculatePoints(74, 72)).toBe(6)
+    })
+
+    it('should match par-relative brackets against the score to par', () => {
+      expect(calculatePoints(72, 72, PAR_RELATIVE)).toBe(10)
+      expect(calculatePoints(70, 72, PAR_RELATIVE)).toBe(10)
+      expect(calculatePoints(78, 72, PAR_RELATIVE)).toBe(8)
+      expect(calculatePoints(85, 72, PAR_RELATIVE)).toBe(5)
+      expect(calculatePoints(87, 70, PAR_RELATIVE)).toBe(4)
+      expect(calculatePoints(110, 72, PAR_RELATIVE)).toBe(0)
+    })
+
+    it('should score the same round differently per season', () => {
+      expect(calculatePoints(78, 72, PAR_RELATIVE)).toBe(8)
+      expect(calculatePoints(78, 72, GROSS_BRACKETS_2026)).toBe(5)
+    })
+  })
+
+  describe('calculateFullScore', () => {
+    it('should preview the bonus for the lowest round', () => {
+      const result = calculateFullScore(scoreData(74), [80, 85], GROSS_BRACKETS_2026)
+
+      expect(result.points).toBe(6)
+      expect(result.bonusPoints).toBe(1)
+      expect(result.totalPoints).toBe(7)
+    })
+
+    it('should withhold the bonus on a tie when the rules do not share it', () => {
+      const rules: ScoringRules = {
+        ...GROSS_BRACKETS_2026,
+        bonus: { lowRound: 2, shareTies: false },
+      }
+
+      expect(calculateFullScore(scoreData(80), [80, 85], rules).bonusPoints).toBe(0)
+      expect(calculateFullScore(scoreData(79), [80, 85], rules).bonusPoints).toBe(2)
+    })
+  })
+
+  describe('updateBonusPoints', () => {
+    const round = [
+      { playerId: 'a', rawScore: 78, bonusPoints: 0 },
+      { playerId: 'b', rawScore: 78, bonusPoints: 0 },
+      { playerId: 'c', rawScore: 85, bonusPoints: 1 },
+    ]
+
+    it('should give every tied low round the bonus by default', () => {
+      expect(updateBonusPoints(round)).toEqual([
+        { playerId: 'a', shouldHaveBonus: true, bonusPoints: 1 },
+        { playerId: 'b', shouldHaveBonus: true, bonusPoints: 1 },
+        { playerId: 'c', shouldHaveBonus: false, bonusPoints: 0 },
+      ])
+    })
+
+    it('should give nobody the bonus on a tie when the rules do not share it', () => {
+      const rules: ScoringRules = {
+        ...GROSS_BRACKETS_2026,
+        bonus: { lowRound: 1, shareTies: false },
+      }
+
+      expect(updateBonusPoints(round, rules).every(update => !update.shouldHaveBonus)).toBe(true)
+    })
+
+    it('should award the rule set bonus amount', () => {
+      const rules: ScoringRules = {
+        ...GROSS_BRACKETS_2026,
+        bonus: { lowRound: 3, shareTies: true },
+      }
+
+      expect(updateBonusPoints(round, rules)[0].bonusPoints).toBe(3)
+    })
+
+    it('should award the bonus within each flight', () => {
+      const flighted = [
+        { playerId: 'a', rawScore: 74, bonusPoints: 0, flightId: 'low' },
+        { playerId: 'b', rawScore: 79, bonusPoints: 0, flightId: 'low' },
+        { playerId: 'c', rawScore: 88, bonusPoints: 0, flightId: 'high' },
+        { playerId: 'd', rawScore: 92, bonusPoints: 0, flightId: 'high' },
+      ]
+
+      expect(updateBonusPoints(flighted).map(update => update.shouldHaveBonus)).toEqual([true, false, true, false])
+    })
+  })
+
+  describe('parseScoringRules', () => {
+    it('should fall back to the default rules when a season has none', () => {
+      expect(parseScoringRules(null)).toBe(GROSS_BRACKETS_2026)
+    })
+
+    it('should reject rule sets without a catch-all bracket', () => {
+      expect(() =>
+        parseScoringRules({
+          key: 'broken',
+          basis: 'gross',
+          brackets: [{ min: 100, points: 0 }],
+        })
+      ).toThrow(/catch-all/)
+    })
+  })
+
+  describe('describeBrackets', () => {
+    it('should list bracket ranges in table order', () => {
+      expect(describeBrackets(GROSS_BRACKETS_2026)).toEqual([
+        '100+: 0',
+        '95 to 99: 1',
+        '90 to 94: 2',
+        '85 to 89: 3',
+        '80 to 84: 4',
+        '75 to 79: 5',
+        'Below 75: 6',
+      ])
+    })
+  })
+})
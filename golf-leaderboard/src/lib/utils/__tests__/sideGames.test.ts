@@ -0,0 +1,210 @@
+import {
+  formatMoney,
+  settleSideGame,
+  settleUp,
+  SideGame,
+  sideGameBalances,
+  skinsFromScorecards,
+  splitPot,
+  toCents,
+  validateSideGame,
+} from '../sideGames'
+import { createFixture } from '@/__tests__/utils/fixtures'
+
+const sideGame = createFixture<SideGame>({
+  id: 'sg-1',
+  gameId: 'game-1',
+  kind: 'closest_to_pin',
+  entryFee: 5,
+  holeNumber: 7,
+  entrants: ['a', 'b', 'c', 'd'],
+  winners: [],
+})
+
+const card = (playerId: string, strokes: number[]) => ({
+  playerId,
+  username: playerId,
+  courseHandicap: null,
+  holes: strokes.map((s, i) => ({ holeNumber: i + 1, strokes: s })),
+})
+
+describe('Side games', () => {
+  describe('money', () => {
+    it('should convert dollars to cents and back', () => {
+      expect(toCents(12.5)).toBe(1250)
+      expect(toCents(0.1 + 0.2)).toBe(30)
+      expect(formatMoney(1250)).toBe('$12.50')
+      expect(formatMoney(-300)).toBe('-$3.00')
+    })
+  })
+
+  describe('splitPot', () => {
+    it('should split by shares', () => {
+      expect(splitPot(2000, [{ playerId: 'a', shares: 3 }, { playerId: 'b', shares: 1 }])).toEqual({ a: 1500, b: 500 })
+    })
+
+    it('should hand out leftover cents so the payouts add up to the pot', () => {
+      const payouts = splitPot(1000, [
+        { playerId: 'a', shares: 1 },
+        { playerId: 'b', shares: 1 },
+        { playerId: 'c', shares: 1 },
+      ])
+
+      expect(Object.values(payouts).reduce((sum, p) => sum + p, 0)).toBe(1000)
+      expect(payouts).toEqual({ a: 334, b: 333, c: 333 })
+    })
+
+    it('should pay nothing from an empty pot', () => {
+      expect(splitPot(0, [{ playerId: 'a', shares: 1 }])).toEqual({})
+    })
+  })
+
+  describe('skinsFromScorecards', () => {
+    it('should count skins won, including carry-overs', () => {
+      const winners = skinsFromScorecards(['a', 'b'], [
+        card('a', [4, 4, 3]),
+        card('b', [4, 4, 5]),
+        card('x', [3, 3, 3]),
+      ], [])
+
+      // Holes 1 and 2 halve, so a wins three skins on hole 3; x didn't enter
+      expect(winners).toEqual([{ playerId: 'a', shares: 3 }])
+    })
+
+    it('should return no winners when every hole halves', () => {
+      expect(skinsFromScorecards(['a', 'b'], [card('a', [4, 4]), card('b', [4, 4])], [])).toEqual([])
+    })
+
+    it('should wait until every entrant has a scorecard', () => {
+      expect(skinsFromScorecards(['a', 'b', 'c'], [card('a', [4, 4]), card('b', [5, 5])], [])).toBeNull()
+      expect(skinsFromScorecards(['a', 'b'], [card('a', [4, 4]), card('b', [])], [])).toBeNull()
+    })
+  })
+
+  describe('settleSideGame', () => {
+    it('should pay a closest-to-pin winner the whole pot', () => {
+      const result = settleSideGame(sideGame({ winners: [{ playerId: 'b', shares: 1 }] }))
+
+      expect(result.status).toBe('settled')
+      expect(result.pot).toBe(2000)
+      expect(result.net).toEqual({ a: -500, b: 1500, c: -500, d: -500 })
+    })
+
+    it('should split the pot between tied winners', () => {
+      const result = settleSideGame(sideGame({
+        kind: 'long_drive',
+        winners: [{ playerId: 'a', shares: 1 }, { playerId: 'c', shares: 1 }],
+      }))
+
+      expect(result.payouts).toEqual({ a: 1000, c: 1000 })
+      expect(result.net).toEqual({ a: 500, b: -500, c: 500, d: -500 })
+    })
+
+    it('should leave a contest without a winner pending, costing nobody anything', () => {
+      const result = settleSideGame(sideGame())
+
+      expect(result.status).toBe('pending')
+      expect(result.net).toEqual({})
+    })
+
+    it('should settle skins from scorecards', () => {
+      const result = settleSideGame(
+        sideGame({ kind: 'skins', holeNumber: null }),
+        [{ playerId: 'a', shares: 3 }, { playerId: 'b', shares: 1 }]
+      )
+
+      expect(result.payouts).toEqual({ a: 1500, b: 500 })
+      expect(result.net).toEqual({ a: 1000, b: 0, c: -500, d: -500 })
+    })
+
+    it('should prefer winners entered by an admin over scorecards', () => {
+      const result = settleSideGame(
+        sideGame({ kind: 'skins', holeNumber: null, winners: [{ playerId: 'd', shares: 2 }] }),
+        [{ playerId: 'a', shares: 3 }]
+      )
+
+      expect(result.payouts).toEqual({ d: 2000 })
+    })
+
+    it('should refund a skins game where every hole halved', () => {
+      const result = settleSideGame(sideGame({ kind: 'skins', holeNumber: null }), [])
+
+      expect(result.status).toBe('refunded')
+      expect(result.net).toEqual({ a: 0, b: 0, c: 0, d: 0 })
+    })
+
+    it('should keep skins pending while an entrant has no scorecard', () => {
+      const skins = sideGame({ kind: 'skins', holeNumber: null, entrants: ['a', 'b'] })
+      const result = settleSideGame(skins, skinsFromScorecards(skins.entrants, [card('a', [4, 4, 4])], []))
+
+      expect(result.status).toBe('pending')
+      expect(result.net).toEqual({})
+    })
+
+    it('should settle skins with no scorecards once an admin enters the winners', () => {
+      const result = settleSideGame(
+        sideGame({ kind: 'skins', holeNumber: null, winners: [{ playerId: 'c', shares: 1 }] }),
+        null
+      )
+
+      expect(result.status).toBe('settled')
+      expect(result.payouts).toEqual({ c: 2000 })
+    })
+
+    it('should ignore winners who did not enter', () => {
+      const result = settleSideGame(sideGame({ winners: [{ playerId: 'z', shares: 1 }] }))
+
+      expect(result.status).toBe('pending')
+    })
+  })
+
+  describe('ledger', () => {
+    it('should total each player across side games', () => {
+      const balances = sideGameBalances([
+        settleSideGame(sideGame({ winners: [{ playerId: 'b', shares: 1 }] })),
+        settleSideGame(sideGame({ id: 'sg-2', kind: 'long_drive', winners: [{ playerId: 'a', shares: 1 }] })),
+        settleSideGame(sideGame({ id: 'sg-3' })),
+      ])
+
+      expect(Object.fromEntries(balances)).toEqual({ a: 1000, b: 1000, c: -1000, d: -1000 })
+    })
+
+    it('should settle up with payments that clear every balance', () => {
+      const balances = new Map([['a', 1500], ['b', 500], ['c', -1200], ['d', -800]])
+      const transfers = settleUp(balances)
+
+      expect(transfers).toEqual([
+        { from: 'c', to: 'a', amount: 1200 },
+        { from: 'd', to: 'a', amount: 300 },
+        { from: 'd', to: 'b', amount: 500 },
+      ])
+    })
+
+    it('should need no payments when everyone is square', () => {
+      expect(settleUp(new Map([['a', 0], ['b', 0]]))).toEqual([])
+    })
+  })
+
+  describe('validateSideGame', () => {
+    it('should accept a valid side game', () => {
+      expect(validateSideGame(sideGame(), [])).toBeNull()
+    })
+
+    it('should need a hole for closest-to-pin and long drive', () => {
+      expect(validateSideGame(sideGame({ holeNumber: null }), [])).toBe('Pick the hole for this contest')
+    })
+
+    it('should need two players and a fee of zero or more', () => {
+      expect(validateSideGame(sideGame({ entrants: ['a'] }), [])).toBe('A side game needs at least two players')
+      expect(validateSideGame(sideGame({ entryFee: -1 }), [])).toBe('The entry fee must be zero or more')
+    })
+
+    it('should reject a second skins game or a second contest on the same hole', () => {
+      expect(validateSideGame(sideGame({ kind: 'skins', holeNumber: null }), [{ kind: 'skins', holeNumber: null }]))
+        .toBe('This round already has a skins game')
+      expect(validateSideGame(sideGame(), [{ kind: 'closest_to_pin', holeNumber: 7 }]))
+        .toBe('This round already has closest to the pin on hole 7')
+      expect(validateSideGame(sideGame(), [{ kind: 'closest_to_pin', holeNumber: 16 }])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import {
+  DEFAULT_TIE_BREAKERS,
+  describeTieBreakers,
+  formatRank,
+  parseTieBreakers,
+  rankStandings,
+  StandingEntry,
+  StandingRound,
+} from '../standings'
+
+const entry = (playerId: string, points: number, avgScore: number | null = 80, qualified = true): StandingEntry => ({
+  playerId,
+  points,
+  qualified,
+  avgScore,
+})
+
+const round = (gameId: string, gameDate: string, playerId: string, score: number, points: number): StandingRound => ({
+  gameId,
+  gameDate,
+  playerId,
+  score,
+  points,
+})
+
+const ranks = (standings: { playerId: string; rank: number; tied: boolean }[]) =>
+  standings.map(s => `${s.playerId}:${formatRank(s.rank, s.tied)}`)
+
+describe('standings', () => {
+  describe('rankStandings', () => {
+    it('should rank by points with qualified players first', () => {
+      const standings = rankStandings([
+        entry('a', 20),
+        entry('b', 40, 80, false),
+        entry('c', 30),
+      ])
+      expect(ranks(standings)).toEqual(['c:1', 'a:2', 'b:3'])
+    })
+
+    it('should break ties on the lower average by default', () => {
+      const standings = rankStandings([entry('a', 30, 84.5), entry('b', 30, 79)])
+      expect(ranks(standings)).toEqual(['b:1', 'a:2'])
+    })
+
+    it('should share a rank when no tie-breaker separates the players and skip the next rank', () => {
+      const standings = rankStandings(
+        [entry('a', 50), entry('b', 40), entry('c', 40), entry('d', 10)],
+        { order: [], countbackRounds: 3 }
+      )
+      expect(ranks(standings)).toEqual(['a:1', 'b:T2', 'c:T2', 'd:4'])
+    })
+
+    it('should put players without a round last on average', () => {
+      const standings = rankStandings([entry('a', 0, null), entry('b', 0, 90)])
+      expect(ranks(standings)).toEqual(['b:1', 'a:2'])
+    })
+
+    it('should keep players with no rounds level with each other on average', () => {
+      const standings = rankStandings([entry('a', 0, null), entry('b', 0, null), entry('c', 0, 88)])
+      expect(ranks(standings)).toEqual(['c:1', 'a:T2', 'b:T2'])
+    })
+
+    it('should count shared low rounds as wins', () => {
+      const rounds = [
+        round('g1', '2024-05-01', 'a', 72, 10),
+        round('g1', '2024-05-01', 'b', 72, 10),
+        round('g2', '2024-05-08', 'a', 70, 12),
+        round('g2', '2024-05-08', 'c', 75, 8),
+      ]
+      const standings = rankStandings(
+        [entry('a', 20), entry('b', 20)],
+        { order: ['wins'], countbackRounds: 3 },
+        rounds
+      )
+      expect(ranks(standings)).toEqual(['a:1', 'b:2'])
+    })
+
+    it('should compare only the tied players head-to-head', () => {
+      const rounds = [
+        round('g1', '2024-05-01', 'a', 78, 6),
+        round('g1', '2024-05-01', 'b', 80, 4),
+        round('g1', '2024-05-01', 'x', 70, 14),
+        round('g2', '2024-05-08', 'a', 81, 3),
+        round('g2', '2024-05-08', 'b', 77, 7),
+        round('g3', '2024-05-15', 'b', 79, 5),
+        round('g3', '2024-05-15', 'a', 76, 8),
+      ]
+      const standings = rankStandings(
+        [entry('a', 17), entry('b', 17), entry('x', 40)],
+        { order: ['head_to_head'], countbackRounds: 3 },
+        rounds
+      )
+      expect(ranks(standings)).toEqual(['x:1', 'a:2', 'b:3'])
+    })
+
+    it('should count back over the season\'s most recent rounds', () => {
+      const rounds = [
+        round('g1', '2024-05-01', 'a', 70, 14),
+        round('g2', '2024-05-08', 'b', 74, 10),
+        round('g3', '2024-05-15', 'a', 80, 2),
+        round('g3', '2024-05-15', 'b', 78, 6),
+      ]
+      const standings = rankStandings(
+        [entry('a', 16), entry('b', 16)],
+        { order: ['countback'], countbackRounds: 2 },
+        rounds
+      )
+      expect(ranks(standings)).toEqual(['b:1', 'a:2'])
+    })
+
+    it('should move to the next tie-breaker only for players still level', () => {
+      const rounds = [
+        round('g1', '2024-05-01', 'a', 72, 10),
+        round('g1', '2024-05-01', 'b', 74, 8),
+        round('g1', '2024-05-01', 'c', 74, 8),
+      ]
+      const standings = rankStandings(
+        [entry('a', 30, 75), entry('b', 30, 74), entry('c', 30, 74)],
+        { order: ['avg_score', 'wins'], countbackRounds: 3 },
+        rounds
+      )
+      expect(ranks(standings)).toEqual(['b:T1', 'c:T1', 'a:3'])
+    })
+  })
+
+  describe('parseTieBreakers', () => {
+    it('should read the season columns and drop unknown or repeated tie-breakers', () => {
+      expect(parseTieBreakers({ tie_breakers: ['wins', 'bogus', 'wins', 'countback'], countback_rounds: 5 })).toEqual({
+        order: ['wins', 'countback'],
+        countbackRounds: 5,
+      })
+    })
+
+    it('should fall back to the default', () => {
+      expect(parseTieBreakers({})).toEqual(DEFAULT_TIE_BREAKERS)
+    })
+  })
+
+  describe('describeTieBreakers', () => {
+    it('should list the tie-breakers in order', () => {
+      expect(describeTieBreakers({ order: ['wins', 'countback'], countbackRounds: 3 }))
+        .toBe('More wins, then Countback over the last 3 rounds')
+      expect(describeTieBreakers({ order: [], countbackRounds: 3 })).toBe('Ties share a rank')
+    })
+  })
+})
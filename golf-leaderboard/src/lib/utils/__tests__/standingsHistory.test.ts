@@ -0,0 +1,74 @@
+import {
+  formatMovement,
+  latestMovements,
+  rankHistorySeries,
+  rankMovement,
+  StandingsSnapshot,
+} from '../standingsHistory'
+
+const snapshot = (gameId: string, ranks: Record<string, number>): StandingsSnapshot => ({
+  gameId,
+  gameName: `Week ${gameId}`,
+  gameDate: `2024-05-0${gameId}`,
+  standings: Object.entries(ranks).map(([playerId, rank]) => ({
+    playerId,
+    username: playerId,
+    rank,
+    tied: false,
+    points: 100 - rank,
+  })),
+})
+
+describe('standings history', () => {
+  describe('rankMovement', () => {
+    it('should count places gained as positive and places lost as negative', () => {
+      expect(rankMovement(5, 3)).toBe(2)
+      expect(rankMovement(1, 2)).toBe(-1)
+      expect(rankMovement(4, 4)).toBe(0)
+    })
+
+    it('should have no movement for players without a previous rank', () => {
+      expect(rankMovement(null, 3)).toBeNull()
+      expect(rankMovement(undefined, 3)).toBeNull()
+    })
+  })
+
+  describe('latestMovements', () => {
+    it('should compare the last two snapshots', () => {
+      const movements = latestMovements([
+        snapshot('1', { a: 1, b: 2 }),
+        snapshot('2', { a: 2, b: 3, c: 1 }),
+        snapshot('3', { a: 1, b: 3, c: 2 }),
+      ])
+      expect(movements.get('a')).toBe(1)
+      expect(movements.get('b')).toBe(0)
+      expect(movements.get('c')).toBe(-1)
+    })
+
+    it('should show no movement after the first round', () => {
+      expect(latestMovements([snapshot('1', { a: 1 })]).get('a')).toBeNull()
+      expect(latestMovements([]).size).toBe(0)
+    })
+  })
+
+  describe('formatMovement', () => {
+    it('should use arrows for movement and a dash for none', () => {
+      expect(formatMovement(2)).toBe('▲2')
+      expect(formatMovement(-1)).toBe('▼1')
+      expect(formatMovement(0)).toBe('–')
+      expect(formatMovement(null)).toBe('')
+    })
+  })
+
+  describe('rankHistorySeries', () => {
+    it('should build one row per round for the chosen players', () => {
+      expect(rankHistorySeries(
+        [snapshot('1', { a: 1, b: 2 }), snapshot('2', { a: 2, b: 1, c: 3 })],
+        ['a', 'c']
+      )).toEqual([
+        { label: 'R1', a: 1 },
+        { label: 'R2', a: 2, c: 3 },
+      ])
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import {
+  arePlayingPartners,
+  buildPairingHistory,
+  generateTeeGroups,
+  groupAverageHandicap,
+  groupRepeats,
+  pairingsFromGroups,
+  pairKey,
+  teeGroupSizes,
+  teeTimesFrom,
+  validateTeeGroups,
+} from '../teeGroups'
+
+// Deterministic stand-in for Math.random
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647
+  return (seed - 1) / 2147483646
+}
+
+const players = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ playerId: `p${i + 1}`, handicap: i * 2 }))
+
+describe('Tee-time groups', () => {
+  describe('teeGroupSizes', () => {
+    it('should make foursomes when the field divides evenly', () => {
+      expect(teeGroupSizes(8)).toEqual([4, 4])
+    })
+
+    it('should spread an uneven field instead of leaving a short group', () => {
+      expect(teeGroupSizes(9)).toEqual([3, 3, 3])
+      expect(teeGroupSizes(10)).toEqual([4, 3, 3])
+      expect(teeGroupSizes(5)).toEqual([3, 2])
+    })
+
+    it('should handle an empty field and other group sizes', () => {
+      expect(teeGroupSizes(0)).toEqual([])
+      expect(teeGroupSizes(6, 3)).toEqual([3, 3])
+    })
+  })
+
+  describe('buildPairingHistory', () => {
+    it('should count every pair in every group, in either order', () => {
+      const history = buildPairingHistory([['a', 'b', 'c'], ['b', 'a']])
+
+      expect(history.get(pairKey('a', 'b'))).toBe(2)
+      expect(history.get(pairKey('c', 'a'))).toBe(1)
+      expect(history.get(pairKey('b', 'c'))).toBe(1)
+    })
+
+    it('should score repeats within a group', () => {
+      const history = buildPairingHistory([['a', 'b'], ['a', 'b'], ['c', 'd']])
+
+      expect(groupRepeats(['a', 'b', 'c'], history)).toBe(2)
+      expect(groupRepeats(['a', 'c'], history)).toBe(0)
+    })
+  })
+
+  describe('generateTeeGroups', () => {
+    it('should put every player in exactly one group', () => {
+      const groups = generateTeeGroups(players(10), new Map(), 4, seeded(1))
+
+      expect(groups.map(group => group.length)).toEqual([4, 3, 3])
+      expect(groups.flat().sort()).toEqual(players(10).map(p => p.playerId).sort())
+    })
+
+    it('should give each group one player from each handicap band', () => {
+      const field = players(8)
+      const groups = generateTeeGroups(field, new Map(), 4, seeded(2))
+      const handicaps = new Map(field.map(p => [p.playerId, p.handicap]))
+
+      // Bands of two: 0-2, 4-6, 8-10, 12-14
+      groups.forEach(group => {
+        const bands = group.map(id => Math.floor(handicaps.get(id)! / 4)).sort()
+        expect(bands).toEqual([0, 1, 2, 3])
+      })
+    })
+
+    it('should avoid partners who have already played together', () => {
+      const field = players(16)
+      const lastWeek = generateTeeGroups(field, new Map(), 4, seeded(3))
+      const history = buildPairingHistory(lastWeek)
+      const groups = generateTeeGroups(field, history, 4, seeded(3))
+
+      expect(groups.reduce((sum, group) => sum + groupRepeats(group, history), 0)).toBe(0)
+    })
+
+    it('should rotate partners over several weeks', () => {
+      const field = players(8)
+      const earlier: string[][] = []
+      for (let week = 0; week < 3; week++) {
+        earlier.push(...generateTeeGroups(field, buildPairingHistory(earlier), 4, seeded(week + 10)))
+      }
+
+      // 3 weeks of foursomes is 36 pairings; 28 pairs exist, so no pair should meet three times
+      const counts = Array.from(buildPairingHistory(earlier).values())
+      expect(Math.max(...counts)).toBeLessThanOrEqual(2)
+    })
+
+    it('should deal players without a handicap last', () => {
+      const field = [...players(3), { playerId: 'new', handicap: null }]
+      const groups = generateTeeGroups(field, new Map(), 2, seeded(4))
+
+      // Bands: [p1, p2], [p3, new]
+      expect(groups.every(group => group.includes('p1') !== group.includes('p2'))).toBe(true)
+      expect(groups.every(group => group.includes('p3') !== group.includes('new'))).toBe(true)
+    })
+
+    it('should return no groups for an empty field', () => {
+      expect(generateTeeGroups([], new Map())).toEqual([])
+    })
+  })
+
+  describe('groupAverageHandicap', () => {
+    it('should average the players with a handicap', () => {
+      const handicaps = new Map<string, number | null>([['a', 10], ['b', 20], ['c', null]])
+
+      expect(groupAverageHandicap(['a', 'b', 'c'], handicaps)).toBe(15)
+      expect(groupAverageHandicap(['c'], handicaps)).toBeNull()
+    })
+  })
+
+  describe('teeTimesFrom', () => {
+    it('should space tee times by the interval', () => {
+      expect(teeTimesFrom('08:00', 3, 10)).toEqual(['08:00', '08:10', '08:20'])
+      expect(teeTimesFrom('09:52', 2, 9)).toEqual(['09:52', '10:01'])
+    })
+  })
+
+  describe('validateTeeGroups', () => {
+    it('should accept valid groups', () => {
+      expect(validateTeeGroups([
+        { teeTime: '08:00', playerIds: ['a', 'b'] },
+        { teeTime: null, playerIds: ['c'] },
+      ])).toBeNull()
+    })
+
+    it('should reject a player in two groups', () => {
+      expect(validateTeeGroups([
+        { teeTime: null, playerIds: ['a', 'b'] },
+        { teeTime: null, playerIds: ['b'] },
+      ])).toBe('Each player can only be in one group')
+    })
+
+    it('should reject a malformed tee time', () => {
+      expect(validateTeeGroups([{ teeTime: '8am', playerIds: ['a'] }])).toBe('Tee times must be in HH:MM form')
+    })
+  })
+
+  describe('arePlayingPartners', () => {
+    const groups = [
+      { teeTime: null, playerIds: ['a', 'b'] },
+      { teeTime: null, playerIds: ['c', 'd'] },
+    ]
+
+    it('should only pair players in the same group', () => {
+      expect(arePlayingPartners(groups, 'a', 'b')).toBe(true)
+      expect(arePlayingPartners(groups, 'a', 'c')).toBe(false)
+    })
+
+    it('should allow anyone when a player has no group', () => {
+      expect(arePlayingPartners(groups, 'a', 'z')).toBe(true)
+      expect(arePlayingPartners([], 'a', 'c')).toBe(true)
+    })
+  })
+
+  describe('pairingsFromGroups', () => {
+    it('should pair players within each group and leave the odd one out', () => {
+      expect(pairingsFromGroups([
+        { teeTime: null, playerIds: ['a', 'b', 'c', 'd'] },
+        { teeTime: null, playerIds: ['e', 'f', 'g'] },
+      ])).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f']])
+    })
+  })
+})
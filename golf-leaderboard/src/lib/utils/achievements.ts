@@ -1,266 +1,161 @@
 // src/lib/utils/achievements.ts
-import { awardAchievement, getUserRecentScores, getUserSeasonScores, getUserSeasonRank, getSeasonLeaderboard } from '@/lib/supabase/client';
+import { checkMyAchievements } from '@/lib/supabase/client';
 import { toast } from 'sonner';
 
-interface Score {
-  id: string;
-  raw_score: number;
-  points: number;
-  bonus_points: number;
-  submitted_at: string;
-  games: {
-    id: string;
-    name: string;
-    game_date: string;
-    season_id?: string;
-    courses: {
-      name: string;
-      par: number;
-    };
-  };
-}
-
 /**
- * Check and award achievements for a user after they submit a score
+ * Achievement rules
+ *
+ * Each achievement's criteria live on its row in the achievements table
+ * (migration 016): a metric, how it is compared with a threshold, whether it
+ * is measured all-time or per season, and an optional window of recent
+ * rounds. evaluate_achievements in Postgres is the only place the rules are
+ * checked and the only writer of awards; this module just asks it to run for
+ * the signed-in player and turns its answer into toasts and progress bars.
+ * Admins can re-run the rules for a season or player (migration 017), which
+ * also revokes badges whose rule is no longer met.
  */
-export async function checkAndAwardAchievements(
-  userId: string,
-  seasonId?: string
-): Promise<void> {
-  try {
-    // Get all user scores (for all-time achievements)
-    const allScores = await getUserRecentScores(userId);
-
-    // Get season-specific scores if seasonId provided
-    const seasonScores = seasonId
-      ? await getUserSeasonScores(userId, seasonId)
-      : [];
 
-    // Check milestone achievements
-    await checkMilestoneAchievements(userId, allScores, seasonScores, seasonId);
-
-    // Check performance achievements
-    await checkPerformanceAchievements(userId, allScores, seasonScores, seasonId);
-
-    // Check consistency achievements
-    await checkConsistencyAchievements(userId, allScores, seasonScores, seasonId);
+export type AchievementMetric =
+  | 'rounds_played'
+  | 'wins'
+  | 'points'
+  | 'win_streak'
+  | 'under_par_rounds'
+  | 'early_submissions'
+  | 'score_range'
+  | 'attendance'
+  | 'season_rank'
+  | 'rank_climb';
+
+export type AchievementComparison = 'at_least' | 'at_most' | 'exactly';
+
+export type AchievementScope = 'all_time' | 'season';
+
+/** Progress labels; season-scoped rules get a "Season" prefix where it reads naturally */
+export const ACHIEVEMENT_METRICS: Record<AchievementMetric, { label: string; seasonLabel?: string }> = {
+  rounds_played: { label: 'Games played', seasonLabel: 'Season games played' },
+  wins: { label: 'Wins', seasonLabel: 'Season wins' },
+  points: { label: 'Points', seasonLabel: 'Season points' },
+  win_streak: { label: 'Best streak' },
+  under_par_rounds: { label: 'Rounds under par' },
+  early_submissions: { label: 'Scores submitted within 24 hours' },
+  score_range: { label: 'Stroke range' },
+  attendance: { label: 'Rounds attended (%)' },
+  season_rank: { label: 'Current rank' },
+  rank_climb: { label: 'Places climbed' },
+};
+
+/** One row from check_my_achievements */
+export interface AchievementEvaluation {
+  achievement_key: string;
+  achievement_name: string;
+  metric: string;
+  comparison: string;
+  threshold: number;
+  scope: string;
+  show_progress: boolean;
+  current_value: number | null;
+  earned: boolean;
+  newly_earned: boolean;
+}
 
-    // Check season-end achievements (if season provided)
-    if (seasonId) {
-      await checkSeasonAchievements(userId, seasonId);
-    }
-  } catch (error) {
-    console.error('Error checking achievements:', error);
-  }
+export interface AchievementProgress {
+  current: number;
+  target: number;
+  label: string;
+  comparison: AchievementComparison;
 }
 
 /**
- * Check milestone achievements (games played, points earned)
+ * Label for a rule's progress, e.g. "Season points"
  */
-async function checkMilestoneAchievements(
-  userId: string,
-  allScores: Score[],
-  seasonScores: Score[],
-  seasonId?: string
-) {
-  const totalGames = allScores.length;
-
-  // First score ever
-  if (totalGames === 1) {
-    await tryAwardAchievement(userId, 'first_score', 'First Steps! 🎯', seasonId);
-  }
-
-  // Games played milestones
-  const gameMilestones = [
-    { count: 5, key: 'games_5', name: 'Getting Started! 🏌️' },
-    { count: 10, key: 'games_10', name: 'Regular Player! 🏌️' },
-    { count: 25, key: 'games_25', name: 'Dedicated Golfer! 🏌️' },
-    { count: 50, key: 'games_50', name: 'Golf Veteran! 🏌️' }
-  ];
-
-  for (const milestone of gameMilestones) {
-    if (totalGames === milestone.count) {
-      await tryAwardAchievement(userId, milestone.key, milestone.name);
-    }
-  }
-
-  // First win (bonus point)
-  const hasWon = allScores.some(score => score.bonus_points > 0);
-  if (hasWon && allScores.filter(s => s.bonus_points > 0).length === 1) {
-    await tryAwardAchievement(userId, 'first_win', 'First Victory! 🏆', seasonId);
-  }
-
-  // Season points milestones
-  if (seasonId && seasonScores.length > 0) {
-    const seasonTotalPoints = seasonScores.reduce(
-      (sum, score) => sum + score.points + score.bonus_points,
-      0
-    );
-
-    const pointsMilestones = [
-      { points: 50, key: 'points_50', name: 'Half Century! 🎖️' },
-      { points: 100, key: 'points_100', name: 'Century Club! 🎖️' },
-      { points: 200, key: 'points_200', name: 'Double Century! 🎖️' }
-    ];
-
-    for (const milestone of pointsMilestones) {
-      if (seasonTotalPoints >= milestone.points) {
-        await tryAwardAchievement(userId, milestone.key, milestone.name, seasonId);
-      }
-    }
-  }
+export function progressLabel(metric: string, scope: string): string {
+  const definition = ACHIEVEMENT_METRICS[metric as AchievementMetric];
+  if (!definition) return metric;
+  return scope === 'season' && definition.seasonLabel ? definition.seasonLabel : definition.label;
 }
 
 /**
- * Check performance achievements (streaks, special scores)
+ * Progress toward each locked achievement, keyed by achievement key
+ * Rules that hide their progress, or that cannot be measured yet, are left out
  */
-async function checkPerformanceAchievements(
-  userId: string,
-  allScores: Score[],
-  seasonScores: Score[],
-  seasonId?: string
-) {
-  // Check for hot streaks (consecutive bonus points)
-  const streak = checkWinStreak(allScores);
-
-  if (streak >= 3) {
-    await tryAwardAchievement(userId, 'hot_streak_3', 'Hot Streak! 🔥', seasonId);
-  }
-  if (streak >= 5) {
-    await tryAwardAchievement(userId, 'hot_streak_5', 'On Fire! 🔥🔥', seasonId);
-  }
+export function achievementProgress(evaluations: AchievementEvaluation[]): Map<string, AchievementProgress> {
+  const progress = new Map<string, AchievementProgress>();
 
-  // Check for perfect score (under par)
-  const hasUnderPar = allScores.some(
-    score => score.raw_score < score.games.courses.par
-  );
-  if (hasUnderPar) {
-    await tryAwardAchievement(userId, 'perfect_score', 'Eagle Eye! 👁️', seasonId);
-  }
+  evaluations.forEach(evaluation => {
+    if (evaluation.earned || !evaluation.show_progress || evaluation.current_value === null) return;
 
-  // Check for domination (5+ bonus points in a season)
-  if (seasonId && seasonScores.length > 0) {
-    const bonusPointCount = seasonScores.filter(s => s.bonus_points > 0).length;
-    if (bonusPointCount >= 5) {
-      await tryAwardAchievement(userId, 'domination', 'Dominator! 👑', seasonId);
-    }
-  }
+    progress.set(evaluation.achievement_key, {
+      current: evaluation.current_value,
+      target: evaluation.threshold,
+      label: progressLabel(evaluation.metric, evaluation.scope),
+      comparison: evaluation.comparison as AchievementComparison,
+    });
+  });
 
-  // Check for early bird (submit within 24 hours)
-  const latestScore = allScores[0];
-  if (latestScore) {
-    const submittedAt = new Date(latestScore.submitted_at);
-    const gameDate = new Date(latestScore.games.game_date);
-    const hoursDiff = (submittedAt.getTime() - gameDate.getTime()) / (1000 * 60 * 60);
-
-    if (hoursDiff <= 24 && hoursDiff >= 0) {
-      await tryAwardAchievement(userId, 'early_bird', 'Early Bird! 🕐', seasonId);
-    }
-  }
+  return progress;
 }
 
 /**
- * Check consistency achievements
+ * Fraction of the way to an at-least target, for a progress bar (0 to 1)
+ * At-most and exact rules (ranks, stroke range) have no bar
  */
-async function checkConsistencyAchievements(
-  userId: string,
-  allScores: Score[],
-  seasonScores: Score[],
-  seasonId?: string
-) {
-  // Check for consistent scorer (low variance)
-  if (allScores.length >= 5) {
-    const recentFive = allScores.slice(0, 5);
-    const scores = recentFive.map(s => s.raw_score);
-    const maxScore = Math.max(...scores);
-    const minScore = Math.min(...scores);
-    const variance = maxScore - minScore;
-
-    if (variance < 5) {
-      await tryAwardAchievement(userId, 'consistent_scorer', 'Mr. Reliable! 📊', seasonId);
-    }
-  }
-
-  // Note: Perfect attendance is checked at season end
+export function progressFraction(progress: AchievementProgress): number | null {
+  if (progress.comparison !== 'at_least') return null;
+  if (progress.target <= 0) return 1;
+  return Math.min(1, Math.max(0, progress.current / progress.target));
 }
 
-/**
- * Check season-specific achievements (rank-based)
- * Call this when viewing profile or at season end
- */
-export async function checkSeasonAchievements(
-  userId: string,
-  seasonId: string
-) {
-  try {
-    const { rank } = await getUserSeasonRank(userId, seasonId);
-
-    if (rank === 1) {
-      await tryAwardAchievement(userId, 'season_champion', 'Season Champion! 🏆', seasonId);
-    } else if (rank === 2) {
-      await tryAwardAchievement(userId, 'runner_up', 'Runner Up! 🥈', seasonId);
-    } else if (rank === 3) {
-      await tryAwardAchievement(userId, 'top_three', 'Podium Finish! 🥉', seasonId);
-    }
-
-    // Check perfect attendance
-    const leaderboard = await getSeasonLeaderboard(seasonId);
-    if (leaderboard.length > 0) {
-      const userStats = leaderboard.find(p => p.player_id === userId);
-      const maxGames = Math.max(...leaderboard.map(p => p.games_played || 0));
-
-      if (userStats && userStats.games_played === maxGames && maxGames > 0) {
-        await tryAwardAchievement(userId, 'perfect_attendance', 'Perfect Attendance! ✓', seasonId);
-      }
-    }
-  } catch (error) {
-    console.error('Error checking season achievements:', error);
-  }
+/** One row from reevaluate_achievements: a badge the job grants or revokes */
+export interface AchievementChange {
+  player_id: string;
+  username: string;
+  achievement_key: string;
+  achievement_name: string;
+  season_id: string | null;
+  season_name: string | null;
+  action: string;
+  current_value: number | null;
 }
 
 /**
- * Helper to check for win streaks
+ * Counts for a re-evaluation diff, e.g. to label the apply button
  */
-function checkWinStreak(scores: Score[]): number {
-  let streak = 0;
-  let currentStreak = 0;
-
-  // Sort by date ascending to check chronologically
-  const sortedScores = [...scores].sort(
-    (a, b) => new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime()
-  );
-
-  for (const score of sortedScores) {
-    if (score.bonus_points > 0) {
-      currentStreak++;
-      streak = Math.max(streak, currentStreak);
-    } else {
-      currentStreak = 0;
-    }
-  }
-
-  return streak;
+export function summarizeAchievementChanges(changes: AchievementChange[]): {
+  grants: number;
+  revokes: number;
+  players: number;
+} {
+  return {
+    grants: changes.filter(change => change.action === 'grant').length,
+    revokes: changes.filter(change => change.action === 'revoke').length,
+    players: new Set(changes.map(change => change.player_id)).size,
+  };
 }
 
 /**
- * Try to award an achievement and show toast if successful
+ * Evaluate the signed-in player's achievements on the server, toast any newly
+ * awarded, and return progress toward the rest
+ * @param seasonId Also evaluate the season-scoped rules for this season
  */
-async function tryAwardAchievement(
-  userId: string,
-  achievementKey: string,
-  toastMessage?: string,
+export async function checkAndAwardAchievements(
   seasonId?: string
-) {
+): Promise<Map<string, AchievementProgress>> {
   try {
-    const result = await awardAchievement(userId, achievementKey, seasonId);
-
-    if (!result.alreadyEarned && toastMessage) {
-      toast.success('Achievement Unlocked!', {
-        description: toastMessage,
-        duration: 5000,
+    const evaluations = await checkMyAchievements(seasonId);
+
+    evaluations
+      .filter(evaluation => evaluation.newly_earned)
+      .forEach(evaluation => {
+        toast.success('Achievement Unlocked!', {
+          description: evaluation.achievement_name,
+          duration: 5000,
+        });
       });
-    }
+
+    return achievementProgress(evaluations);
   } catch (error) {
-    console.error(`Error awarding achievement ${achievementKey}:`, error);
+    console.error('Error checking achievements:', error);
+    return new Map();
   }
 }
@@ -0,0 +1,154 @@
+// src/lib/utils/auditLog.ts
+
+/**
+ * Audit log
+ *
+ * The database writes an entry to audit_log (migration 018) for every score
+ * submission, edit and deletion, round status change, season toggle and
+ * bonus recalculation, keeping the values before and after. Entries can't
+ * be changed afterwards. These helpers turn an entry into the field-by-field
+ * changes shown in the admin history and in a score's timeline.
+ */
+
+export type AuditAction =
+  | 'score_submitted'
+  | 'score_edited'
+  | 'score_deleted'
+  | 'game_status_changed'
+  | 'season_toggled'
+  | 'bonus_recalculated';
+
+export const AUDIT_ACTIONS: Record<AuditAction, string> = {
+  score_submitted: 'Score submitted',
+  score_edited: 'Score edited',
+  score_deleted: 'Score deleted',
+  game_status_changed: 'Round status changed',
+  season_toggled: 'Season toggled',
+  bonus_recalculated: 'Bonus recalculated',
+};
+
+export interface AuditEntry {
+  id: string;
+  occurredAt: string;
+  action: AuditAction;
+  entityType: 'score' | 'game' | 'season';
+  entityId: string;
+  actorId: string | null;
+  actorName: string | null;
+  gameId: string | null;
+  gameName: string | null;
+  playerId: string | null;
+  playerName: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditLogFilters {
+  gameId?: string;
+  playerId?: string;
+  actorId?: string;
+  action?: AuditAction;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Bookkeeping columns: they change with every edit or identify the row, so they aren't shown as changes
+const IGNORED_FIELDS = new Set(['id', 'game_id', 'player_id', 'submitted_at', 'edited_by', 'edited_at']);
+
+const FIELD_LABELS: Record<string, string> = {
+  raw_score: 'Score',
+  points: 'Points',
+  bonus_points: 'Bonus',
+  notes: 'Notes',
+  holes_played: 'Holes',
+  course_handicap: 'Course handicap',
+  net_score: 'Net score',
+  net_points: 'Net points',
+  net_bonus_points: 'Net bonus',
+  status: 'Status',
+  is_active: 'Active',
+};
+
+/**
+ * Display name for a column, e.g. "bonus_points" -> "Bonus"
+ */
+export function fieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * A before or after value as text: "—" for empty, "Yes"/"No" for flags
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * The fields an entry changed, in column order
+ * Submissions and deletions list every meaningful field against an empty side
+ */
+export function auditChanges(entry: Pick<AuditEntry, 'action' | 'before' | 'after'>): AuditFieldChange[] {
+  if (entry.action === 'bonus_recalculated') return [];
+
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({
+      field,
+      label: fieldLabel(field),
+      from: before[field] ?? null,
+      to: after[field] ?? null,
+    }));
+}
+
+/**
+ * Scores whose bonus a recalculation moved; before and after map score ID to bonus
+ */
+export function bonusChanges(entry: Pick<AuditEntry, 'before' | 'after'>): Array<{ scoreId: string; from: number; to: number }> {
+  const before = (entry.before ?? {}) as Record<string, number>;
+  const after = (entry.after ?? {}) as Record<string, number>;
+
+  return Object.keys(after)
+    .filter(scoreId => before[scoreId] !== undefined && before[scoreId] !== after[scoreId])
+    .map(scoreId => ({ scoreId, from: before[scoreId], to: after[scoreId] }));
+}
+
+/**
+ * One-line summary, e.g. "Score 84 → 82, Bonus 1 → 0"
+ */
+export function describeAuditEntry(entry: Pick<AuditEntry, 'action' | 'before' | 'after'>): string {
+  switch (entry.action) {
+    case 'score_submitted':
+      return `Submitted ${formatAuditValue(entry.after?.raw_score)}`;
+    case 'score_deleted':
+      return `Deleted a score of ${formatAuditValue(entry.before?.raw_score)}`;
+    case 'season_toggled':
+      return entry.after?.is_active ? 'Season activated' : 'Season deactivated';
+    case 'bonus_recalculated': {
+      const moved = bonusChanges(entry).length;
+      if (moved === 0) return 'No bonus changes';
+      return `${moved} ${moved === 1 ? 'score' : 'scores'} changed bonus`;
+    }
+    default: {
+      const changes = auditChanges(entry);
+      if (changes.length === 0) return 'No visible change';
+      return changes
+        .map(change => `${change.label} ${formatAuditValue(change.from)} → ${formatAuditValue(change.to)}`)
+        .join(', ');
+    }
+  }
+}
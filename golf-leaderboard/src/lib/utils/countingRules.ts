@@ -0,0 +1,95 @@
+// src/lib/utils/countingRules.ts
+
+/**
+ * Season counting rules
+ *
+ * By default every regular-season round counts toward the standings, which
+ * rewards attendance. A season can instead count only a player's best N
+ * rounds, or drop their worst N, and can require a minimum number of rounds
+ * before a player is ranked. The standings themselves are computed by the
+ * season_score_counting and season_leaderboard views (migration 012);
+ * countingRoundsFor mirrors the view's rule.
+ */
+
+export type CountingRule = 'all' | 'best_n' | 'drop_worst';
+
+export interface SeasonCountingRule {
+  rule: CountingRule;
+  /** N in "best N" or "drop worst N"; null when every round counts */
+  rounds: number | null;
+  /** Rounds needed to qualify for a ranked place */
+  minRounds: number;
+}
+
+export const COUNTING_RULES: Record<CountingRule, { name: string }> = {
+  all: { name: 'Every round counts' },
+  best_n: { name: 'Best rounds count' },
+  drop_worst: { name: 'Drop worst rounds' },
+};
+
+export const DEFAULT_COUNTING_RULE: SeasonCountingRule = {
+  rule: 'all',
+  rounds: null,
+  minRounds: 0,
+};
+
+/**
+ * Read the counting rule from a season row, falling back to every round counting
+ */
+export function parseCountingRule(season: {
+  counting_rule?: string | null;
+  counting_rounds?: number | null;
+  min_rounds?: number | null;
+}): SeasonCountingRule {
+  const rule = season.counting_rule && season.counting_rule in COUNTING_RULES
+    ? season.counting_rule as CountingRule
+    : 'all';
+
+  return {
+    rule,
+    rounds: rule === 'all' ? null : season.counting_rounds ?? null,
+    minRounds: season.min_rounds ?? 0,
+  };
+}
+
+/**
+ * Check a counting rule before saving it
+ * @returns Error message, or null if the rule is valid
+ */
+export function validateCountingRule(counting: SeasonCountingRule): string | null {
+  if (counting.rule !== 'all' && (!counting.rounds || counting.rounds < 1 || !Number.isInteger(counting.rounds))) {
+    return 'Enter how many rounds count (or are dropped) as a whole number of at least 1';
+  }
+  if (counting.minRounds < 0 || !Number.isInteger(counting.minRounds)) {
+    return 'The minimum rounds to qualify must be a whole number';
+  }
+  return null;
+}
+
+/**
+ * Number of a player's rounds that count toward the standings
+ */
+export function countingRoundsFor(counting: SeasonCountingRule, roundsPlayed: number): number {
+  if (counting.rule === 'best_n') return Math.min(counting.rounds ?? roundsPlayed, roundsPlayed);
+  if (counting.rule === 'drop_worst') return Math.max(roundsPlayed - (counting.rounds ?? 0), 0);
+  return roundsPlayed;
+}
+
+/**
+ * e.g. "Best 10 rounds count • 5 rounds to qualify"
+ */
+export function describeCountingRule(counting: SeasonCountingRule): string {
+  const plural = (n: number) => `${n} ${n === 1 ? 'round' : 'rounds'}`;
+  const parts = [
+    counting.rule === 'best_n' && counting.rounds
+      ? `Best ${plural(counting.rounds)} count`
+      : counting.rule === 'drop_worst' && counting.rounds
+        ? `Worst ${plural(counting.rounds)} dropped`
+        : COUNTING_RULES.all.name,
+  ];
+
+  if (counting.minRounds > 0) {
+    parts.push(`${plural(counting.minRounds)} to qualify`);
+  }
+  return parts.join(' • ');
+}
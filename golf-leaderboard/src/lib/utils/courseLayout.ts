@@ -0,0 +1,79 @@
+// src/lib/utils/courseLayout.ts
+
+/**
+ * Course hole layouts
+ *
+ * A layout is the par and stroke index of each of a course's 18 holes, plus
+ * the yardage of the hole from each tee set. Par and stroke index are shared
+ * by all tees; yardage is per tee.
+ */
+
+export const LAYOUT_HOLE_COUNT = 18;
+
+export interface HoleLayout {
+  holeNumber: number;
+  par: number;
+  strokeIndex: number;
+  /** Yardage by tee id */
+  yardages: Record<string, number | null>;
+}
+
+/**
+ * Blank layout of par 4s with stroke index in hole order
+ */
+export function createDefaultLayout(teeIds: string[]): HoleLayout[] {
+  return Array.from({ length: LAYOUT_HOLE_COUNT }, (_, i) => ({
+    holeNumber: i + 1,
+    par: 4,
+    strokeIndex: i + 1,
+    yardages: Object.fromEntries(teeIds.map(id => [id, null])),
+  }));
+}
+
+/**
+ * Total par of a layout
+ */
+export function getLayoutPar(holes: HoleLayout[]): number {
+  return holes.reduce((sum, hole) => sum + hole.par, 0);
+}
+
+/**
+ * Total yardage of a layout from one tee
+ * @returns Total, or null if any hole is missing a yardage
+ */
+export function getTeeYardage(holes: HoleLayout[], teeId: string): number | null {
+  let total = 0;
+  for (const hole of holes) {
+    const yardage = hole.yardages[teeId];
+    if (!yardage) return null;
+    total += yardage;
+  }
+  return total;
+}
+
+/**
+ * Validate a layout before saving
+ * @returns Error message, or null if the layout is valid
+ */
+export function validateHoleLayout(holes: HoleLayout[], coursePar: number): string | null {
+  for (const hole of holes) {
+    if (!Number.isInteger(hole.par) || hole.par < 3 || hole.par > 6) {
+      return `Hole ${hole.holeNumber}: par must be between 3 and 6`;
+    }
+    if (!Number.isInteger(hole.strokeIndex) || hole.strokeIndex < 1 || hole.strokeIndex > holes.length) {
+      return `Hole ${hole.holeNumber}: stroke index must be between 1 and ${holes.length}`;
+    }
+  }
+
+  const strokeIndexes = new Set(holes.map(hole => hole.strokeIndex));
+  if (strokeIndexes.size !== holes.length) {
+    return 'Each stroke index can only be used once';
+  }
+
+  const layoutPar = getLayoutPar(holes);
+  if (layoutPar !== coursePar) {
+    return `Hole pars add up to ${layoutPar}, but the course par is ${coursePar}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,109 @@
+// src/lib/utils/disputes.ts
+
+/**
+ * Score disputes
+ *
+ * Players can't edit a score after submitting it, so they ask for a change
+ * instead (score_disputes, migration 019): a correction on their own score or
+ * a dispute on another score from a round they played. Admins approve or
+ * reject each request; an approval applies the proposed score through the
+ * normal update_score path.
+ */
+
+export type DisputeKind = 'correction' | 'dispute';
+
+export type DisputeStatus = 'open' | 'approved' | 'rejected' | 'withdrawn';
+
+export const DISPUTE_KINDS: Record<DisputeKind, string> = {
+  correction: 'Correction request',
+  dispute: 'Dispute',
+};
+
+export const DISPUTE_STATUSES: Record<DisputeStatus, string> = {
+  open: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+// Same range the score entry form accepts
+export const MIN_DISPUTED_SCORE = 50;
+export const MAX_DISPUTED_SCORE = 150;
+
+export interface ScoreDispute {
+  id: string;
+  scoreId: string;
+  gameId: string;
+  gameName: string | null;
+  playerId: string;
+  playerName: string | null;
+  raisedBy: string;
+  raisedByName: string | null;
+  kind: DisputeKind;
+  reason: string;
+  currentScore: number;
+  proposedScore: number;
+  status: DisputeStatus;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  resolutionNote: string | null;
+  createdAt: string;
+}
+
+/**
+ * Check a request before sending it
+ * @returns Error message, or null if the request can be opened
+ */
+export function validateDisputeRequest(request: {
+  currentScore: number;
+  proposedScore: number | null;
+  reason: string;
+}): string | null {
+  const { currentScore, proposedScore, reason } = request;
+
+  if (proposedScore === null || !Number.isInteger(proposedScore)) {
+    return 'Enter the score you think is correct';
+  }
+  if (proposedScore < MIN_DISPUTED_SCORE || proposedScore > MAX_DISPUTED_SCORE) {
+    return `Scores must be between ${MIN_DISPUTED_SCORE} and ${MAX_DISPUTED_SCORE}`;
+  }
+  if (proposedScore === currentScore) {
+    return 'The proposed score is the same as the current score';
+  }
+  if (!reason.trim()) {
+    return 'Explain why the score should change';
+  }
+
+  return null;
+}
+
+/**
+ * The kind of request a player would open on a score
+ */
+export function disputeKindFor(scorePlayerId: string, userId: string): DisputeKind {
+  return scorePlayerId === userId ? 'correction' : 'dispute';
+}
+
+/**
+ * A player's latest request on each score, keyed by score ID
+ * Used to show a request's status next to the score it's about
+ */
+export function latestDisputeByScore(disputes: ScoreDispute[]): Map<string, ScoreDispute> {
+  const latest = new Map<string, ScoreDispute>();
+  for (const dispute of disputes) {
+    const current = latest.get(dispute.scoreId);
+    if (!current || dispute.createdAt > current.createdAt) {
+      latest.set(dispute.scoreId, dispute);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Short description of the change asked for, e.g. "84 → 82 (−2)"
+ */
+export function describeProposedChange(dispute: Pick<ScoreDispute, 'currentScore' | 'proposedScore'>): string {
+  const difference = dispute.proposedScore - dispute.currentScore;
+  const sign = difference > 0 ? '+' : '−';
+  return `${dispute.currentScore} → ${dispute.proposedScore} (${sign}${Math.abs(difference)})`;
+}
@@ -0,0 +1,95 @@
+// src/lib/utils/flights.ts
+
+/**
+ * Season flights (divisions)
+ *
+ * A season can split its players into flights, either by handicap band or by
+ * hand. Each player's flight is stored on season_participants, so a player
+ * whose handicap moves during the season stays in the flight they started in
+ * until an admin reassigns them. The low-round bonus is won within each
+ * flight, and the leaderboard can be filtered to one flight's standings.
+ * Players without a flight compete with each other.
+ */
+
+export interface Flight {
+  id: string;
+  name: string;
+  /** Lowest handicap index in the band; null for no lower limit */
+  minHandicap: number | null;
+  /** Highest handicap index in the band; null for no upper limit */
+  maxHandicap: number | null;
+}
+
+export interface FlightAssignment {
+  playerId: string;
+  flightId: string | null;
+}
+
+/**
+ * The flight whose handicap band contains a handicap index
+ * Flights are checked in order, so the first matching band wins
+ * @returns Flight ID, or null for players without an index or outside every band
+ */
+export function flightForHandicap(flights: Flight[], handicap: number | null): string | null {
+  if (handicap === null) return null;
+
+  const flight = flights.find(f =>
+    (f.minHandicap === null || handicap >= f.minHandicap) &&
+    (f.maxHandicap === null || handicap <= f.maxHandicap)
+  );
+  return flight?.id ?? null;
+}
+
+/**
+ * Assign every player to a flight by their current handicap index
+ */
+export function assignFlightsByHandicap(
+  players: { playerId: string; handicap: number | null }[],
+  flights: Flight[]
+): FlightAssignment[] {
+  return players.map(player => ({
+    playerId: player.playerId,
+    flightId: flightForHandicap(flights, player.handicap),
+  }));
+}
+
+/**
+ * Check a new flight against the season's existing ones
+ * @returns Error message, or null if the flight can be added
+ */
+export function validateFlight(flight: Omit<Flight, 'id'>, existing: Flight[]): string | null {
+  if (!flight.name.trim()) {
+    return 'Give the flight a name';
+  }
+  if (existing.some(f => f.name.trim().toLowerCase() === flight.name.trim().toLowerCase())) {
+    return `There is already a flight called "${flight.name.trim()}"`;
+  }
+  if (flight.minHandicap !== null && flight.maxHandicap !== null && flight.minHandicap > flight.maxHandicap) {
+    return 'The lowest handicap must not be above the highest';
+  }
+
+  const lower = flight.minHandicap ?? -Infinity;
+  const upper = flight.maxHandicap ?? Infinity;
+  const overlapping = existing.find(f => {
+    // Flights without a band are assigned by hand and never overlap
+    if (f.minHandicap === null && f.maxHandicap === null) return false;
+    if (flight.minHandicap === null && flight.maxHandicap === null) return false;
+    return lower <= (f.maxHandicap ?? Infinity) && (f.minHandicap ?? -Infinity) <= upper;
+  });
+  if (overlapping) {
+    return `The handicap band overlaps the ${overlapping.name} flight`;
+  }
+
+  return null;
+}
+
+/**
+ * e.g. "0.0 – 12.9", "13.0+", "Up to 12.9", or "Assigned manually"
+ */
+export function describeFlightBand(flight: Pick<Flight, 'minHandicap' | 'maxHandicap'>): string {
+  const { minHandicap: min, maxHandicap: max } = flight;
+  if (min === null && max === null) return 'Assigned manually';
+  if (min === null) return `Up to ${max!.toFixed(1)}`;
+  if (max === null) return `${min.toFixed(1)}+`;
+  return `${min.toFixed(1)} – ${max.toFixed(1)}`;
+}
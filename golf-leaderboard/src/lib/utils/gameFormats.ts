@@ -0,0 +1,424 @@
+// src/lib/utils/gameFormats.ts
+import { getHandicapStrokesForHole } from './handicap';
+
+/**
+ * Game formats
+ *
+ * Every round still earns season points from its gross score (see scoring.ts).
+ * The format decides how the round itself is won:
+ * - stroke: lowest score (the default)
+ * - stableford: points per hole against par (needs the course hole layout)
+ * - skins: lowest score on a hole wins it outright; ties carry over
+ * - match_play: head-to-head pairings, hole by hole
+ * - best_ball: two-person teams, the better score on each hole counts
+ *
+ * All formats except stroke play need hole-by-hole scorecards. When the game
+ * uses handicaps, strokes are given out by stroke index from each player's
+ * course handicap (match play gives the difference between the two players).
+ */
+
+export type GameFormat = 'stroke' | 'stableford' | 'skins' | 'match_play' | 'best_ball';
+
+export interface GameFormatConfig {
+  useHandicaps: boolean;
+  /** Match play opponents, or best ball partners; player ids */
+  pairings: string[][];
+}
+
+export const GAME_FORMATS: Record<GameFormat, {
+  name: string;
+  description: string;
+  needsScorecards: boolean;
+  needsPairings: boolean;
+}> = {
+  stroke: {
+    name: 'Stroke Play',
+    description: 'Lowest total score wins',
+    needsScorecards: false,
+    needsPairings: false,
+  },
+  stableford: {
+    name: 'Stableford',
+    description: 'Points per hole: 0 for double bogey or worse, 1 bogey, 2 par, 3 birdie, 4 eagle',
+    needsScorecards: true,
+    needsPairings: false,
+  },
+  skins: {
+    name: 'Skins',
+    description: 'Win a hole outright to win its skin; tied holes carry over',
+    needsScorecards: true,
+    needsPairings: false,
+  },
+  match_play: {
+    name: 'Match Play',
+    description: 'Head-to-head pairings, won hole by hole',
+    needsScorecards: true,
+    needsPairings: true,
+  },
+  best_ball: {
+    name: 'Best Ball',
+    description: 'Two-person teams; the better score on each hole counts',
+    needsScorecards: true,
+    needsPairings: true,
+  },
+};
+
+export const DEFAULT_FORMAT_CONFIG: GameFormatConfig = {
+  useHandicaps: false,
+  pairings: [],
+};
+
+export interface FormatPlayerRound {
+  playerId: string;
+  username: string;
+  courseHandicap: number | null;
+  /** Empty when the player did not enter a scorecard */
+  holes: { holeNumber: number; strokes: number }[];
+}
+
+export interface FormatHole {
+  holeNumber: number;
+  par: number;
+  strokeIndex: number;
+}
+
+export interface MatchResult {
+  playerIds: [string, string];
+  /** null when all square */
+  winnerId: string | null;
+  /** e.g. "3 & 2", "1 up", "All square"; "2 up thru 12" while in progress */
+  result: string;
+  holesPlayed: number;
+  complete: boolean;
+}
+
+export type FormatResult =
+  | { format: 'stroke' }
+  | {
+      format: 'stableford';
+      standings: { playerId: string; points: number; holesPlayed: number }[];
+    }
+  | {
+      format: 'skins';
+      holes: { holeNumber: number; winnerId: string | null; value: number }[];
+      standings: { playerId: string; skins: number }[];
+      /** Skins still carried over after the last hole */
+      carryover: number;
+    }
+  | { format: 'match_play'; matches: MatchResult[] }
+  | {
+      format: 'best_ball';
+      standings: { playerIds: string[]; score: number; holesPlayed: number }[];
+    };
+
+export interface FormatResultsInput {
+  format: GameFormat;
+  config: GameFormatConfig;
+  holes: FormatHole[];
+  players: FormatPlayerRound[];
+}
+
+export interface FormatResults {
+  result: FormatResult | null;
+  /** Why the result could not be computed */
+  error: string | null;
+  /** Players without a scorecard, left out of the result */
+  missingScorecards: string[];
+}
+
+/**
+ * Read a game's format config from its JSON column
+ */
+export function parseFormatConfig(value: unknown): GameFormatConfig {
+  if (!value || typeof value !== 'object') return DEFAULT_FORMAT_CONFIG;
+
+  const config = value as Partial<GameFormatConfig>;
+  return {
+    useHandicaps: config.useHandicaps === true,
+    pairings: Array.isArray(config.pairings)
+      ? config.pairings.filter(pair => Array.isArray(pair) && pair.length === 2)
+      : [],
+  };
+}
+
+/**
+ * Check a format config before creating a game
+ * @returns Error message, or null if the config is valid
+ */
+export function validateFormatConfig(format: GameFormat, config: GameFormatConfig): string | null {
+  if (!GAME_FORMATS[format].needsPairings) return null;
+
+  if (config.pairings.length === 0) {
+    return format === 'match_play' ? 'Add at least one match' : 'Add at least one team';
+  }
+
+  const seen = new Set<string>();
+  for (const pair of config.pairings) {
+    if (pair.length !== 2 || pair.some(id => !id)) {
+      return 'Every pairing needs two players';
+    }
+    if (pair[0] === pair[1]) {
+      return 'A player cannot be paired with themselves';
+    }
+    for (const id of pair) {
+      if (seen.has(id)) return 'Each player can only be in one pairing';
+      seen.add(id);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Stableford points for a hole: 2 for net par, one more per stroke under, none at net double bogey or worse
+ */
+export function stablefordPoints(netStrokes: number, par: number): number {
+  return Math.max(0, 2 + par - netStrokes);
+}
+
+/**
+ * Describe a finished or in-progress match from the leader's margin
+ */
+export function describeMatch(holesUp: number, holesPlayed: number, totalHoles: number): string {
+  const margin = Math.abs(holesUp);
+  const remaining = totalHoles - holesPlayed;
+
+  if (margin > remaining) {
+    return remaining === 0 ? `${margin} up` : `${margin} & ${remaining}`;
+  }
+  if (remaining === 0) {
+    return margin === 0 ? 'All square' : `${margin} up`;
+  }
+  return margin === 0 ? `All square thru ${holesPlayed}` : `${margin} up thru ${holesPlayed}`;
+}
+
+function strokesOn(player: FormatPlayerRound, holeNumber: number): number | null {
+  return player.holes.find(hole => hole.holeNumber === holeNumber)?.strokes ?? null;
+}
+
+/**
+ * Strokes after handicap on a hole
+ * @param allowance - Course handicap to allocate (0 when handicaps are off)
+ */
+function netStrokesOn(
+  player: FormatPlayerRound,
+  hole: FormatHole | undefined,
+  holeNumber: number,
+  allowance: number
+): number | null {
+  const strokes = strokesOn(player, holeNumber);
+  if (strokes === null) return null;
+  if (!hole || allowance === 0) return strokes;
+  return strokes - getHandicapStrokesForHole(allowance, hole.strokeIndex);
+}
+
+function holeNumbersPlayed(players: FormatPlayerRound[]): number[] {
+  const numbers = new Set<number>();
+  players.forEach(player => player.holes.forEach(hole => numbers.add(hole.holeNumber)));
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+function calculateStableford(input: FormatResultsInput, players: FormatPlayerRound[]): FormatResult {
+  const standings = players.map(player => {
+    const allowance = input.config.useHandicaps ? player.courseHandicap ?? 0 : 0;
+    let points = 0;
+
+    player.holes.forEach(({ holeNumber }) => {
+      const hole = input.holes.find(h => h.holeNumber === holeNumber);
+      const net = netStrokesOn(player, hole, holeNumber, allowance);
+      if (hole && net !== null) points += stablefordPoints(net, hole.par);
+    });
+
+    return { playerId: player.playerId, points, holesPlayed: player.holes.length };
+  });
+
+  return {
+    format: 'stableford',
+    standings: standings.sort((a, b) => b.points - a.points),
+  };
+}
+
+function calculateSkins(input: FormatResultsInput, players: FormatPlayerRound[]): FormatResult {
+  const won = new Map(players.map(player => [player.playerId, 0]));
+  const holes: { holeNumber: number; winnerId: string | null; value: number }[] = [];
+  let carryover = 0;
+
+  holeNumbersPlayed(players).forEach(holeNumber => {
+    const hole = input.holes.find(h => h.holeNumber === holeNumber);
+    const scores = players
+      .map(player => ({
+        playerId: player.playerId,
+        net: netStrokesOn(player, hole, holeNumber, input.config.useHandicaps ? player.courseHandicap ?? 0 : 0),
+      }))
+      .filter((score): score is { playerId: string; net: number } => score.net !== null);
+
+    const value = carryover + 1;
+    const low = Math.min(...scores.map(score => score.net));
+    const leaders = scores.filter(score => score.net === low);
+
+    if (scores.length > 1 && leaders.length === 1) {
+      const winnerId = leaders[0].playerId;
+      won.set(winnerId, (won.get(winnerId) ?? 0) + value);
+      holes.push({ holeNumber, winnerId, value });
+      carryover = 0;
+    } else {
+      holes.push({ holeNumber, winnerId: null, value });
+      carryover = value;
+    }
+  });
+
+  return {
+    format: 'skins',
+    holes,
+    standings: Array.from(won.entries())
+      .map(([playerId, skins]) => ({ playerId, skins }))
+      .sort((a, b) => b.skins - a.skins),
+    carryover,
+  };
+}
+
+function calculateMatch(
+  input: FormatResultsInput,
+  playerA: FormatPlayerRound,
+  playerB: FormatPlayerRound
+): MatchResult {
+  // The better player plays off scratch and gives the difference in strokes
+  const handicapA = input.config.useHandicaps ? playerA.courseHandicap ?? 0 : 0;
+  const handicapB = input.config.useHandicaps ? playerB.courseHandicap ?? 0 : 0;
+  const base = Math.min(handicapA, handicapB);
+
+  const totalHoles = Math.min(playerA.holes.length, playerB.holes.length) === 9 ? 9 : 18;
+  let holesUp = 0;
+  let holesPlayed = 0;
+  let decided = false;
+
+  for (const holeNumber of holeNumbersPlayed([playerA, playerB])) {
+    const hole = input.holes.find(h => h.holeNumber === holeNumber);
+    const netA = netStrokesOn(playerA, hole, holeNumber, handicapA - base);
+    const netB = netStrokesOn(playerB, hole, holeNumber, handicapB - base);
+    if (netA === null || netB === null) continue;
+
+    holesPlayed++;
+    if (netA < netB) holesUp++;
+    if (netB < netA) holesUp--;
+
+    // Match is over once the lead is bigger than the holes left
+    if (Math.abs(holesUp) > totalHoles - holesPlayed) {
+      decided = true;
+      break;
+    }
+  }
+
+  return {
+    playerIds: [playerA.playerId, playerB.playerId],
+    winnerId: holesUp > 0 ? playerA.playerId : holesUp < 0 ? playerB.playerId : null,
+    result: describeMatch(holesUp, holesPlayed, totalHoles),
+    holesPlayed,
+    complete: decided || holesPlayed === totalHoles,
+  };
+}
+
+function calculateBestBall(input: FormatResultsInput, players: FormatPlayerRound[]): FormatResult {
+  const standings = input.config.pairings
+    .map(pair => players.filter(player => pair.includes(player.playerId)))
+    .filter(team => team.length > 0)
+    .map(team => {
+      let score = 0;
+      let holesPlayed = 0;
+
+      holeNumbersPlayed(team).forEach(holeNumber => {
+        const hole = input.holes.find(h => h.holeNumber === holeNumber);
+        const nets = team
+          .map(player => netStrokesOn(player, hole, holeNumber, input.config.useHandicaps ? player.courseHandicap ?? 0 : 0))
+          .filter((net): net is number => net !== null);
+
+        if (nets.length > 0) {
+          score += Math.min(...nets);
+          holesPlayed++;
+        }
+      });
+
+      return { playerIds: team.map(player => player.playerId), score, holesPlayed };
+    });
+
+  return {
+    format: 'best_ball',
+    standings: standings.sort((a, b) => b.holesPlayed - a.holesPlayed || a.score - b.score),
+  };
+}
+
+/**
+ * Compute the result of a round under its game format
+ */
+export function calculateFormatResults(input: FormatResultsInput): FormatResults {
+  const players = input.players.filter(player => player.holes.length > 0);
+  const missingScorecards = GAME_FORMATS[input.format].needsScorecards
+    ? input.players.filter(player => player.holes.length === 0).map(player => player.playerId)
+    : [];
+
+  switch (input.format) {
+    case 'stroke':
+      return { result: { format: 'stroke' }, error: null, missingScorecards };
+
+    case 'stableford':
+      if (input.holes.length === 0) {
+        return {
+          result: null,
+          error: 'Stableford needs the course hole layout (par for each hole)',
+          missingScorecards,
+        };
+      }
+      return { result: calculateStableford(input, players), error: null, missingScorecards };
+
+    case 'skins':
+      return { result: calculateSkins(input, players), error: null, missingScorecards };
+
+    case 'match_play': {
+      const matches = input.config.pairings
+        .map(([a, b]) => [players.find(p => p.playerId === a), players.find(p => p.playerId === b)])
+        .filter((pair): pair is [FormatPlayerRound, FormatPlayerRound] => !!pair[0] && !!pair[1])
+        .map(([a, b]) => calculateMatch(input, a, b));
+      return { result: { format: 'match_play', matches }, error: null, missingScorecards };
+    }
+
+    case 'best_ball':
+      return { result: calculateBestBall(input, players), error: null, missingScorecards };
+  }
+}
+
+/**
+ * One-line summary of a player's result, e.g. "34 pts", "2 skins", "Won 3 & 2"
+ * @returns Summary, or null for stroke play or a player not in the result
+ */
+export function describePlayerFormatResult(result: FormatResult | null, playerId: string): string | null {
+  if (!result) return null;
+
+  switch (result.format) {
+    case 'stroke':
+      return null;
+
+    case 'stableford': {
+      const standing = result.standings.find(s => s.playerId === playerId);
+      return standing ? `${standing.points} pts` : null;
+    }
+
+    case 'skins': {
+      const standing = result.standings.find(s => s.playerId === playerId);
+      if (!standing) return null;
+      return `${standing.skins} ${standing.skins === 1 ? 'skin' : 'skins'}`;
+    }
+
+    case 'match_play': {
+      const match = result.matches.find(m => m.playerIds.includes(playerId));
+      if (!match) return null;
+      if (match.winnerId === null || !match.complete) return match.result;
+      return `${match.winnerId === playerId ? 'Won' : 'Lost'} ${match.result}`;
+    }
+
+    case 'best_ball': {
+      const index = result.standings.findIndex(s => s.playerIds.includes(playerId));
+      if (index === -1) return null;
+      return `Team ${result.standings[index].score} (#${index + 1})`;
+    }
+  }
+}
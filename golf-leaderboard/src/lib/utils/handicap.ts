@@ -1,74 +1,300 @@
 // src/lib/utils/handicap.ts
 
 /**
- * Calculate golf handicap using the USGA Handicap System
+ * Calculate golf handicap using the World Handicap System (WHS)
  *
- * USGA System:
- * - Uses best scores based on total rounds played
- * - Handicap Index = (Average of best score differentials) × 0.96
- * - Score Differential = (Adjusted Gross Score - Course Rating) × (113 / Slope Rating)
+ * WHS:
+ * - Score Differential = (113 / Slope Rating) × (Adjusted Gross Score - Course Rating - PCC)
+ * - Uses the most recent 20 differentials, averaging the best N per the WHS table
+ * - Low Handicap Index soft cap (+3.0, then 50% of the excess) and hard cap (+5.0)
+ * - Exceptional score reduction when a differential beats the index by 7.0 or more
  *
- * Simplified version (no course rating/slope available):
- * - Score Differential = (Raw Score - Par)
- * - Uses USGA table for number of best scores based on total rounds
+ * Courses without a rating or slope fall back to Course Rating = Par and Slope = 113,
+ * which reduces the differential to (Score - Par).
  */
 
 export interface ScoreForHandicap {
   raw_score: number;
   par: number;
+  /** Adjusted gross score (net double bogey) when hole-by-hole data is available */
+  adjusted_score?: number | null;
+  course_rating?: number | null;
+  slope_rating?: number | null;
+  /** Playing conditions calculation for the round, -1.0 to +3.0 */
+  pcc?: number | null;
+  /** Date the round was played, used for the 20-round window and the 365-day low index */
+  played_at?: string | null;
 }
 
+export interface HandicapCalculation {
+  handicapIndex: number | null;
+  /** Rounds in the scoring record (most recent 20) */
+  roundsInRecord: number;
+  /** Differentials averaged to produce the index */
+  differentialsUsed: number;
+  lowHandicapIndex: number | null;
+  cap: 'none' | 'soft' | 'hard';
+  /** Total exceptional score reduction applied to the current record */
+  exceptionalReduction: number;
+  /** Index after each round, oldest first */
+  history: {
+    playedAt: string | null;
+    handicapIndex: number | null;
+    roundsInRecord: number;
+    differentialsUsed: number;
+  }[];
+}
+
+export const STANDARD_SLOPE = 113;
+export const MAX_HANDICAP_INDEX = 54;
+const SCORING_RECORD_SIZE = 20;
+const SOFT_CAP_THRESHOLD = 3;
+const HARD_CAP_THRESHOLD = 5;
+const LOW_INDEX_WINDOW_DAYS = 365;
+
 /**
- * Get number of best scores to use based on USGA guidelines
- * @param totalRounds - Total number of rounds played
- * @returns Number of best scores to use for handicap calculation
+ * Number of differentials to use and the adjustment to apply, per the WHS table
+ * @param totalRounds - Rounds in the scoring record (max 20)
+ * @returns Differentials to average and adjustment, or null if fewer than 3 rounds
  */
-function getUSGABestScoresCount(totalRounds: number): number {
-  if (totalRounds < 5) return 0;         // Not enough rounds
-  if (totalRounds <= 6) return 1;        // 5-6 rounds: use best 1
-  if (totalRounds <= 8) return 2;        // 7-8 rounds: use best 2
-  if (totalRounds <= 11) return 3;       // 9-11 rounds: use best 3
-  if (totalRounds <= 14) return 4;       // 12-14 rounds: use best 4
-  if (totalRounds <= 16) return 5;       // 15-16 rounds: use best 5
-  if (totalRounds <= 18) return 6;       // 17-18 rounds: use best 6
-  if (totalRounds === 19) return 7;      // 19 rounds: use best 7
-  return 8;                              // 20+ rounds: use best 8
+function getWHSDifferentialsToUse(totalRounds: number): { count: number; adjustment: number } | null {
+  if (totalRounds < 3) return null;                               // Not enough rounds
+  if (totalRounds === 3) return { count: 1, adjustment: -2.0 };   // 3: lowest 1, -2.0
+  if (totalRounds === 4) return { count: 1, adjustment: -1.0 };   // 4: lowest 1, -1.0
+  if (totalRounds === 5) return { count: 1, adjustment: 0 };      // 5: lowest 1
+  if (totalRounds === 6) return { count: 2, adjustment: -1.0 };   // 6: average of lowest 2, -1.0
+  if (totalRounds <= 8) return { count: 2, adjustment: 0 };       // 7-8: average of lowest 2
+  if (totalRounds <= 11) return { count: 3, adjustment: 0 };      // 9-11: average of lowest 3
+  if (totalRounds <= 14) return { count: 4, adjustment: 0 };      // 12-14: average of lowest 4
+  if (totalRounds <= 16) return { count: 5, adjustment: 0 };      // 15-16: average of lowest 5
+  if (totalRounds <= 18) return { count: 6, adjustment: 0 };      // 17-18: average of lowest 6
+  if (totalRounds === 19) return { count: 7, adjustment: 0 };     // 19: average of lowest 7
+  return { count: 8, adjustment: 0 };                             // 20: average of lowest 8
+}
+
+function roundToTenth(value: number): number {
+  return Math.round(value * 10) / 10;
 }
 
 /**
- * Calculate handicap from player scores using USGA system
- * @param scores - Array of ALL scores with raw score and par
- * @returns Calculated handicap or null if insufficient data
+ * Calculate the score differential for a single round
+ * @param score - Round with rating/slope (falls back to par/113)
+ * @returns Differential rounded to one decimal
  */
-export function calculateHandicap(scores: ScoreForHandicap[]): number | null {
-  const totalRounds = scores.length;
+export function calculateScoreDifferential(score: ScoreForHandicap): number {
+  const adjustedScore = score.adjusted_score ?? score.raw_score;
+  const courseRating = score.course_rating ?? score.par;
+  const slopeRating = score.slope_rating || STANDARD_SLOPE;
+  const pcc = score.pcc ?? 0;
+
+  return roundToTenth((STANDARD_SLOPE / slopeRating) * (adjustedScore - courseRating - pcc));
+}
 
-  // Need at least 5 scores to calculate handicap per USGA
-  if (totalRounds < 5) {
-    return null;
+/**
+ * Exceptional score reduction for a differential against the index at the time
+ * @returns 0, 1.0 (7.0-9.9 better than index) or 2.0 (10.0+ better than index)
+ */
+export function getExceptionalScoreReduction(differential: number, handicapIndex: number | null): number {
+  if (handicapIndex === null) return 0;
+
+  const margin = roundToTenth(handicapIndex - differential);
+  if (margin >= 10) return 2;
+  if (margin >= 7) return 1;
+  return 0;
+}
+
+/**
+ * Apply the soft and hard caps against the Low Handicap Index
+ * @returns Capped index and which cap (if any) was applied
+ */
+export function applyHandicapCaps(
+  handicapIndex: number,
+  lowHandicapIndex: number | null
+): { handicapIndex: number; cap: HandicapCalculation['cap'] } {
+  if (lowHandicapIndex === null) {
+    return { handicapIndex, cap: 'none' };
   }
 
-  // Calculate score differentials for each round
-  // Differential = (Score - Par)
-  const differentials = scores.map(score => score.raw_score - score.par);
+  const increase = handicapIndex - lowHandicapIndex;
+  if (increase <= SOFT_CAP_THRESHOLD) {
+    return { handicapIndex, cap: 'none' };
+  }
+
+  // Soft cap: half of the increase above 3.0 is suppressed
+  const softCapped = lowHandicapIndex + SOFT_CAP_THRESHOLD + (increase - SOFT_CAP_THRESHOLD) / 2;
+
+  // Hard cap: never more than 5.0 above the low index
+  if (softCapped - lowHandicapIndex > HARD_CAP_THRESHOLD) {
+    return { handicapIndex: roundToTenth(lowHandicapIndex + HARD_CAP_THRESHOLD), cap: 'hard' };
+  }
+
+  return { handicapIndex: roundToTenth(softCapped), cap: 'soft' };
+}
+
+/**
+ * Index from a scoring record of differentials, before caps
+ */
+function indexFromDifferentials(differentials: number[]): { index: number; used: number } | null {
+  const rule = getWHSDifferentialsToUse(differentials.length);
+  if (!rule) return null;
 
-  // Sort differentials to find the best ones (lowest/best)
-  const sortedDifferentials = [...differentials].sort((a, b) => a - b);
+  const best = [...differentials].sort((a, b) => a - b).slice(0, rule.count);
+  const average = best.reduce((sum, diff) => sum + diff, 0) / best.length;
 
-  // Get number of best scores to use based on USGA guidelines
-  const numBestScores = getUSGABestScoresCount(totalRounds);
+  return {
+    index: Math.min(roundToTenth(average + rule.adjustment), MAX_HANDICAP_INDEX),
+    used: best.length,
+  };
+}
 
-  // Take the best differentials
-  const bestDifferentials = sortedDifferentials.slice(0, numBestScores);
+/**
+ * Lowest index in the 365 days before the given round
+ */
+function getLowHandicapIndex(
+  history: HandicapCalculation['history'],
+  playedAt: string | null
+): number | null {
+  const cutoff = playedAt
+    ? new Date(playedAt).getTime() - LOW_INDEX_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    : null;
+
+  const indexes = history
+    .filter(entry =>
+      entry.handicapIndex !== null &&
+      (cutoff === null || entry.playedAt === null || new Date(entry.playedAt).getTime() >= cutoff)
+    )
+    .map(entry => entry.handicapIndex as number);
 
-  // Calculate average of best differentials
-  const averageDifferential = bestDifferentials.reduce((sum, diff) => sum + diff, 0) / bestDifferentials.length;
+  return indexes.length > 0 ? Math.min(...indexes) : null;
+}
 
-  // Apply the USGA 0.96 multiplier (96% of average for "bonus for excellence")
-  const handicapIndex = averageDifferential * 0.96;
+/**
+ * Calculate a handicap index with full WHS details by replaying every round
+ * in date order, so caps and exceptional score reductions see the index as it
+ * stood when each round was played. Undated rounds count as the oldest, in
+ * the order given.
+ * @param scores - Array of ALL scores for the player
+ * @returns Current index plus the details behind it
+ */
+export function calculateHandicapDetails(scores: ScoreForHandicap[]): HandicapCalculation {
+  const rounds = [...scores].sort((a, b) => {
+    if (!a.played_at || !b.played_at) return (a.played_at ? 1 : 0) - (b.played_at ? 1 : 0);
+    return new Date(a.played_at).getTime() - new Date(b.played_at).getTime();
+  });
+
+  const differentials: number[] = [];
+  const reductions: number[] = [];
+  const history: HandicapCalculation['history'] = [];
+
+  let currentIndex: number | null = null;
+  let differentialsUsed = 0;
+  let lowHandicapIndex: number | null = null;
+  let cap: HandicapCalculation['cap'] = 'none';
+
+  rounds.forEach((round, i) => {
+    const differential = calculateScoreDifferential(round);
+    differentials.push(differential);
+    reductions.push(0);
+
+    // Exceptional score: reduce every differential in the current record
+    const reduction = getExceptionalScoreReduction(differential, currentIndex);
+    if (reduction > 0) {
+      for (let j = Math.max(0, i - SCORING_RECORD_SIZE + 1); j <= i; j++) {
+        reductions[j] += reduction;
+      }
+    }
+
+    const start = Math.max(0, i - SCORING_RECORD_SIZE + 1);
+    const record = differentials
+      .slice(start, i + 1)
+      .map((diff, offset) => diff - reductions[start + offset]);
+
+    const result = indexFromDifferentials(record);
+    cap = 'none';
+
+    if (result) {
+      // Caps only apply once a low index exists from a full 20-round record
+      lowHandicapIndex = i + 1 > SCORING_RECORD_SIZE
+        ? getLowHandicapIndex(history.slice(SCORING_RECORD_SIZE - 1), round.played_at ?? null)
+        : null;
+
+      const capped = applyHandicapCaps(result.index, lowHandicapIndex);
+      currentIndex = capped.handicapIndex;
+      differentialsUsed = result.used;
+      cap = capped.cap;
+    } else {
+      currentIndex = null;
+      differentialsUsed = 0;
+    }
+
+    history.push({
+      playedAt: round.played_at ?? null,
+      handicapIndex: currentIndex,
+      roundsInRecord: i + 1 - start,
+      differentialsUsed,
+    });
+  });
+
+  const recordStart = Math.max(0, rounds.length - SCORING_RECORD_SIZE);
+
+  return {
+    handicapIndex: currentIndex,
+    roundsInRecord: rounds.length - recordStart,
+    differentialsUsed,
+    lowHandicapIndex,
+    cap,
+    exceptionalReduction: rounds.length > 0 ? reductions[rounds.length - 1] : 0,
+    history,
+  };
+}
+
+/**
+ * Calculate handicap index from player scores using WHS
+ * @param scores - Array of ALL scores with raw score, par and (optionally) rating/slope
+ * @returns Handicap index or null if fewer than 3 rounds
+ */
+export function calculateHandicap(scores: ScoreForHandicap[]): number | null {
+  return calculateHandicapDetails(scores).handicapIndex;
+}
+
+/**
+ * Course handicap for a tee set: Index × (Slope / 113) + (Course Rating - Par)
+ * @param handicapIndex - Player's handicap index
+ * @param tee - Par plus the rating/slope of the tees played (falls back to par/113)
+ * @returns Course handicap rounded to the nearest whole stroke
+ */
+export function calculateCourseHandicap(
+  handicapIndex: number,
+  tee: { par: number; course_rating?: number | null; slope_rating?: number | null }
+): number {
+  const courseRating = tee.course_rating ?? tee.par;
+  const slopeRating = tee.slope_rating || STANDARD_SLOPE;
+
+  return Math.round(handicapIndex * (slopeRating / STANDARD_SLOPE) + (courseRating - tee.par));
+}
+
+/**
+ * Handicap strokes received on a hole, allocated by stroke index
+ * Plus handicaps give strokes back, starting from the highest stroke index
+ * @param courseHandicap - Course handicap (negative for plus handicaps)
+ * @param strokeIndex - Hole's stroke index (1 = hardest)
+ * @param holeCount - Holes in the layout
+ * @returns Strokes received (negative when giving strokes back)
+ */
+export function getHandicapStrokesForHole(
+  courseHandicap: number,
+  strokeIndex: number,
+  holeCount: number = 18
+): number {
+  if (courseHandicap < 0) {
+    const plus = -courseHandicap;
+    const extra = strokeIndex > holeCount - (plus % holeCount) ? 1 : 0;
+    const given = Math.floor(plus / holeCount) + extra;
+    return given === 0 ? 0 : -given;
+  }
 
-  // Round to 1 decimal place per USGA standards
-  return Math.round(handicapIndex * 10) / 10;
+  const extra = strokeIndex <= courseHandicap % holeCount ? 1 : 0;
+  return Math.floor(courseHandicap / holeCount) + extra;
 }
 
 /**
@@ -0,0 +1,442 @@
+// src/lib/utils/historyImport.ts
+import { calculatePoints, updateBonusPoints } from './scoring';
+import { DEFAULT_SCORING_RULES, ScoringRules } from './scoringRules';
+
+/**
+ * History import
+ *
+ * Brings past seasons in from spreadsheets: CSV files of courses, games and
+ * scores, each with its columns mapped to our fields. Rows are matched to what
+ * the league already has by name (courses, seasons, usernames) and by season
+ * and date (games), so a file can add to existing rounds as well as create new
+ * ones. Players nobody in the league matches become placeholder profiles, and
+ * each new season is scored under the rule set the admin picks for it.
+ *
+ * buildImportPlan only works things out; import_league_history (migration 026)
+ * writes the plan in one transaction, along with each round's low-round bonus
+ * and the seasons' achievements. Entities the plan creates are referred to by key ("new:…"),
+ * existing ones by id.
+ */
+
+export type ImportFile = 'courses' | 'games' | 'scores';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  /** Header names recognised for this field, normalised (see normalizeName) */
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportFile, ImportField[]> = {
+  courses: [
+    { key: 'name', label: 'Course', required: true, aliases: ['course', 'name', 'course name'] },
+    { key: 'location', label: 'Location', required: false, aliases: ['location', 'city', 'address'] },
+    { key: 'par', label: 'Par', required: true, aliases: ['par'] },
+    { key: 'courseRating', label: 'Course rating', required: false, aliases: ['course rating', 'rating', 'cr'] },
+    { key: 'slopeRating', label: 'Slope rating', required: false, aliases: ['slope rating', 'slope'] },
+  ],
+  games: [
+    { key: 'season', label: 'Season', required: true, aliases: ['season', 'season name', 'year'] },
+    { key: 'date', label: 'Date', required: true, aliases: ['date', 'game date', 'round date', 'played'] },
+    { key: 'course', label: 'Course', required: true, aliases: ['course', 'course name'] },
+    { key: 'name', label: 'Round name', required: false, aliases: ['name', 'round', 'game', 'round name', 'game name'] },
+  ],
+  scores: [
+    { key: 'season', label: 'Season', required: true, aliases: ['season', 'season name', 'year'] },
+    { key: 'date', label: 'Date', required: true, aliases: ['date', 'game date', 'round date', 'played'] },
+    { key: 'player', label: 'Player', required: true, aliases: ['player', 'username', 'name', 'golfer'] },
+    { key: 'score', label: 'Score', required: true, aliases: ['score', 'gross', 'gross score', 'raw score', 'strokes', 'total'] },
+    { key: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comments'] },
+  ],
+};
+
+// Same limits as adding a course or entering a score by hand
+const PAR_RANGE = { min: 54, max: 90 };
+const COURSE_RATING_RANGE = { min: 50, max: 90 };
+const SLOPE_RANGE = { min: 55, max: 155 };
+const SCORE_RANGE = { min: 50, max: 150 };
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Field key → column index, or null when the file has no such column */
+export type ColumnMapping = Record<string, number | null>;
+
+export interface ImportRow {
+  /** Line in the spreadsheet, counting the header as line 1 */
+  row: number;
+  values: Record<string, string>;
+}
+
+export interface ImportIssue {
+  file: ImportFile;
+  row: number;
+  message: string;
+}
+
+export interface ImportContext {
+  courses: Array<{ id: string; name: string; par: number }>;
+  /** The league's seasons */
+  seasons: Array<{ id: string; name: string; rules: ScoringRules }>;
+  games: Array<{
+    id: string;
+    seasonId: string;
+    gameDate: string;
+    coursePar: number;
+    scores: Array<{ playerId: string; rawScore: number }>;
+  }>;
+  /** The league's members */
+  players: Array<{ id: string; username: string }>;
+  /** Rule sets a new season can be scored under */
+  ruleSets: Array<{ id: string; rules: ScoringRules }>;
+  /** Courses are shared between leagues, so only the site administrator can add them */
+  canAddCourses: boolean;
+}
+
+export interface ImportPlan {
+  courses: Array<{
+    key: string;
+    name: string;
+    location: string | null;
+    par: number;
+    courseRating: number | null;
+    slopeRating: number | null;
+  }>;
+  seasons: Array<{ key: string; name: string; startDate: string; endDate: string; scoringRuleSetId: string }>;
+  games: Array<{ key: string; seasonRef: string; courseRef: string; name: string; gameDate: string }>;
+  /** Placeholder profiles for players with no account */
+  players: Array<{ key: string; username: string }>;
+  scores: Array<{
+    row: number;
+    gameRef: string;
+    playerRef: string;
+    rawScore: number;
+    notes: string | null;
+    /** Preview under the season's rules; the database works them out again on import */
+    points: number;
+    bonusPoints: number;
+  }>;
+  /** Rows that stop the import */
+  errors: ImportIssue[];
+  /** Rows that match something already there, for the admin to check */
+  warnings: ImportIssue[];
+}
+
+/**
+ * Lower-case, trimmed, with runs of whitespace collapsed, for matching names
+ */
+export function normalizeName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse CSV text: quoted fields (with "" for a quote), commas and line breaks
+ * inside quotes, CRLF line endings and a leading byte-order mark. Blank lines
+ * are skipped; the first line is the header
+ */
+export function parseCsv(text: string): CsvTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some(value => value.trim() !== '')) records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord();
+
+  const [headers = [], ...rows] = records;
+  return { headers: headers.map(header => header.trim()), rows };
+}
+
+/**
+ * Map each field to the first column whose header is one of its aliases
+ */
+export function guessColumnMapping(file: ImportFile, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeName);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  IMPORT_FIELDS[file].forEach(field => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && field.aliases.includes(header));
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+}
+
+/**
+ * Required fields with no column mapped to them
+ * @returns Field labels
+ */
+export function missingColumns(file: ImportFile, mapping: ColumnMapping): string[] {
+  return IMPORT_FIELDS[file]
+    .filter(field => field.required && (mapping[field.key] ?? null) === null)
+    .map(field => field.label);
+}
+
+/**
+ * Pull the mapped fields out of each row, trimmed
+ */
+export function mapRows(table: CsvTable, mapping: ColumnMapping): ImportRow[] {
+  return table.rows.map((cells, i) => ({
+    row: i + 2,
+    values: Object.fromEntries(
+      Object.entries(mapping).map(([key, index]) => [key, index === null ? '' : (cells[index] ?? '').trim()])
+    ),
+  }));
+}
+
+/**
+ * Read a date as YYYY-MM-DD from ISO (2024-05-18) or US spreadsheet
+ * (5/18/2024, 5/18/24) form
+ * @returns The date, or null if it isn't one
+ */
+export function parseImportDate(value: string): string | null {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// A number in a range, or null for a blank optional value; undefined if invalid
+function parseNumber(value: string, range: { min: number; max: number }, wholeNumber: boolean): number | null | undefined {
+  if (value === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < range.min || number > range.max) return undefined;
+  if (wholeNumber && !Number.isInteger(number)) return undefined;
+  return number;
+}
+
+const gameKey = (seasonName: string, gameDate: string) => `${normalizeName(seasonName)}|${gameDate}`;
+
+/**
+ * Work out what an import would create, validate every row, and preview the
+ * points each score earns
+ * @param seasonRuleSets Rule set id picked for each new season, by season name;
+ * seasons with none picked use the current default rules
+ */
+export function buildImportPlan(
+  rows: Record<ImportFile, ImportRow[]>,
+  context: ImportContext,
+  seasonRuleSets: Record<string, string> = {}
+): ImportPlan {
+  const plan: ImportPlan = { courses: [], seasons: [], games: [], players: [], scores: [], errors: [], warnings: [] };
+  const error = (file: ImportFile, row: number, message: string) => plan.errors.push({ file, row, message });
+  const warning = (file: ImportFile, row: number, message: string) => plan.warnings.push({ file, row, message });
+
+  // Courses, by name: ref and par
+  const courses = new Map(context.courses.map(course => [normalizeName(course.name), { ref: course.id, par: course.par }]));
+
+  rows.courses.forEach(({ row, values }) => {
+    const name = values.name;
+    if (!name) return error('courses', row, 'Course name is missing');
+    if (courses.has(normalizeName(name))) {
+      if (context.courses.some(course => normalizeName(course.name) === normalizeName(name))) {
+        warning('courses', row, `${name} already exists; rounds there will use it`);
+      } else {
+        error('courses', row, `${name} is listed more than once`);
+      }
+      return;
+    }
+
+    const par = parseNumber(values.par, PAR_RANGE, true);
+    const courseRating = parseNumber(values.courseRating ?? '', COURSE_RATING_RANGE, false);
+    const slopeRating = parseNumber(values.slopeRating ?? '', SLOPE_RANGE, true);
+    if (par === null || par === undefined) return error('courses', row, `Par must be between ${PAR_RANGE.min} and ${PAR_RANGE.max}`);
+    if (courseRating === undefined) {
+      return error('courses', row, `Course rating must be between ${COURSE_RATING_RANGE.min} and ${COURSE_RATING_RANGE.max}`);
+    }
+    if (slopeRating === undefined) {
+      return error('courses', row, `Slope rating must be between ${SLOPE_RANGE.min} and ${SLOPE_RANGE.max}`);
+    }
+    if (!context.canAddCourses) return error('courses', row, `Only the site administrator can add courses (${name})`);
+
+    const key = `new:course:${plan.courses.length + 1}`;
+    plan.courses.push({ key, name, location: values.location || null, par, courseRating, slopeRating });
+    courses.set(normalizeName(name), { ref: key, par });
+  });
+
+  // Seasons, by name: ref and scoring rules
+  const seasons = new Map(context.seasons.map(season => [normalizeName(season.name), { ref: season.id, rules: season.rules }]));
+  const newSeasons = new Map<string, ImportPlan['seasons'][number]>();
+  const defaultRuleSet = context.ruleSets.find(ruleSet => ruleSet.rules.key === DEFAULT_SCORING_RULES.key)
+    ?? context.ruleSets[0];
+
+  // Rounds, by season and date: ref, par, rules and the scores already entered
+  const games = new Map<string, { ref: string; par: number; rules: ScoringRules; existing: Array<{ playerId: string; rawScore: number }> }>();
+  const ambiguous = new Set<string>();
+  context.games.forEach(game => {
+    const season = context.seasons.find(s => s.id === game.seasonId);
+    if (!season) return;
+    const key = gameKey(season.name, game.gameDate);
+    if (games.has(key)) ambiguous.add(key);
+    games.set(key, { ref: game.id, par: game.coursePar, rules: season.rules, existing: game.scores });
+  });
+
+  rows.games.forEach(({ row, values }) => {
+    const gameDate = parseImportDate(values.date);
+    if (!values.season) return error('games', row, 'Season is missing');
+    if (!gameDate) return error('games', row, `"${values.date}" is not a date`);
+    const course = courses.get(normalizeName(values.course));
+    if (!course) return error('games', row, `Unknown course "${values.course}"; add it to the courses file`);
+
+    const key = gameKey(values.season, gameDate);
+    if (ambiguous.has(key)) {
+      return error('games', row, `${values.season} already has more than one round on ${gameDate}`);
+    }
+    const existingGame = games.get(key);
+    if (existingGame && !existingGame.ref.startsWith('new:')) {
+      warning('games', row, `${values.season} already has a round on ${gameDate}; its scores will be added to it`);
+      return;
+    }
+    if (existingGame) return error('games', row, `${values.season} on ${gameDate} is listed more than once`);
+
+    let season = seasons.get(normalizeName(values.season));
+    if (!season) {
+      const picked = context.ruleSets.find(ruleSet => ruleSet.id === seasonRuleSets[values.season]);
+      const ruleSet = picked ?? defaultRuleSet;
+      if (!ruleSet) return error('games', row, `No scoring rules to score ${values.season} with`);
+
+      const seasonKey = `new:season:${newSeasons.size + 1}`;
+      season = { ref: seasonKey, rules: ruleSet.rules };
+      seasons.set(normalizeName(values.season), season);
+      newSeasons.set(seasonKey, {
+        key: seasonKey,
+        name: values.season,
+        startDate: gameDate,
+        endDate: gameDate,
+        scoringRuleSetId: ruleSet.id,
+      });
+    }
+    const newSeason = newSeasons.get(season.ref);
+    if (newSeason) {
+      if (gameDate < newSeason.startDate) newSeason.startDate = gameDate;
+      if (gameDate > newSeason.endDate) newSeason.endDate = gameDate;
+    }
+
+    const ref = `new:game:${plan.games.length + 1}`;
+    plan.games.push({
+      key: ref,
+      seasonRef: season.ref,
+      courseRef: course.ref,
+      name: values.name || values.course,
+      gameDate,
+    });
+    games.set(key, { ref, par: course.par, rules: season.rules, existing: [] });
+  });
+  plan.seasons = Array.from(newSeasons.values());
+
+  // League members, by username; anyone unmatched gets a placeholder
+  const players = new Map(context.players.map(player => [normalizeName(player.username), player.id]));
+  const entered = new Set<string>();
+
+  rows.scores.forEach(({ row, values }) => {
+    const gameDate = parseImportDate(values.date);
+    if (!values.season) return error('scores', row, 'Season is missing');
+    if (!gameDate) return error('scores', row, `"${values.date}" is not a date`);
+    if (!values.player) return error('scores', row, 'Player is missing');
+
+    const key = gameKey(values.season, gameDate);
+    if (ambiguous.has(key)) return error('scores', row, `${values.season} has more than one round on ${gameDate}`);
+    const game = games.get(key);
+    if (!game) return error('scores', row, `No round on ${gameDate} in ${values.season}; add it to the games file`);
+
+    const rawScore = parseNumber(values.score, SCORE_RANGE, true);
+    if (rawScore === null || rawScore === undefined) {
+      return error('scores', row, `Score must be a whole number between ${SCORE_RANGE.min} and ${SCORE_RANGE.max}`);
+    }
+
+    let playerRef = players.get(normalizeName(values.player));
+    if (playerRef && game.existing.some(score => score.playerId === playerRef)) {
+      return error('scores', row, `${values.player} already has a score on ${gameDate}`);
+    }
+    if (!playerRef) {
+      playerRef = `new:player:${plan.players.length + 1}`;
+      plan.players.push({ key: playerRef, username: values.player });
+      players.set(normalizeName(values.player), playerRef);
+    }
+    if (entered.has(`${game.ref}|${playerRef}`)) {
+      return error('scores', row, `${values.player} is listed more than once on ${gameDate}`);
+    }
+    entered.add(`${game.ref}|${playerRef}`);
+
+    plan.scores.push({
+      row,
+      gameRef: game.ref,
+      playerRef,
+      rawScore,
+      notes: values.notes || null,
+      points: calculatePoints(rawScore, game.par, game.rules),
+      bonusPoints: 0,
+    });
+  });
+
+  // Low-round bonus for each round, counting the scores already in it
+  const scoresByGame = new Map<string, ImportPlan['scores']>();
+  plan.scores.forEach(score => {
+    scoresByGame.set(score.gameRef, [...(scoresByGame.get(score.gameRef) ?? []), score]);
+  });
+  games.forEach(game => {
+    const imported = scoresByGame.get(game.ref);
+    if (!imported) return;
+    const bonuses = updateBonusPoints(
+      [...game.existing, ...imported.map(score => ({ playerId: score.playerRef, rawScore: score.rawScore }))]
+        .map(score => ({ ...score, bonusPoints: 0 })),
+      game.rules
+    );
+    imported.forEach(score => {
+      score.bonusPoints = bonuses.find(bonus => bonus.playerId === score.playerRef)?.bonusPoints ?? 0;
+    });
+  });
+
+  return plan;
+}
@@ -0,0 +1,158 @@
+// src/lib/utils/icalendar.ts
+
+/**
+ * iCalendar feeds
+ *
+ * Builds the .ics file calendar apps subscribe to for the round schedule
+ * (calendar_feeds, migration 023; served by app/api/calendar/[token]).
+ * Rounds have a date but no tee time, so each is an all-day event carrying
+ * its round code, with a morning-of reminder that repeats the code.
+ */
+
+export interface CalendarRound {
+  gameId: string;
+  name: string;
+  date: string; // YYYY-MM-DD
+  status: string;
+  roundCode: string;
+  seasonName: string;
+  courseName: string;
+  courseLocation: string | null;
+  rsvpStatus: string | null;
+}
+
+// Reminder time on the day of the round, from midnight
+export const ROUND_REMINDER_TRIGGER = 'PT7H';
+
+const PRODUCT_ID = '-//Golf Leaderboard//Round Schedule//EN';
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 3.3.11)
+ */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// UTF-8 length of one character, without needing TextEncoder
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 3.1),
+ * continuing with a space, and never splitting a character
+ */
+export function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    // Continuation lines start with a space, which counts toward their 75
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + length > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += length;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+// YYYY-MM-DD as an iCalendar DATE
+function toICalDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+// The day after a YYYY-MM-DD date, as an iCalendar DATE (all-day events end exclusively)
+function nextICalDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+// A moment as an iCalendar UTC DATE-TIME
+function toICalDateTime(moment: Date): string {
+  return moment.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Event title for a round, noting an RSVP other than "in"
+ */
+export function describeRound(round: CalendarRound): string {
+  const rsvp = round.rsvpStatus === 'maybe' ? ' (maybe)' : round.rsvpStatus === 'out' ? ' (not playing)' : '';
+  return `${round.name} · ${round.courseName}${rsvp}`;
+}
+
+/**
+ * The .ics file for a feed
+ * @param name - Calendar name shown in the subscribing app
+ * @param rounds - Rounds in the feed
+ * @param now - Generation time, for DTSTAMP
+ */
+export function buildRoundCalendar(name: string, rounds: CalendarRound[], now: Date): string {
+  const stamp = toICalDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+    // Ask subscribing apps to check back a few times a day
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+  ];
+
+  for (const round of rounds) {
+    const location = [round.courseName, round.courseLocation].filter(Boolean).join(', ');
+    const description = [
+      `${round.seasonName}`,
+      `Round code: ${round.roundCode}`,
+      'Use the round code to enter your score after the round.',
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${round.gameId}@golf-leaderboard`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICalDate(round.date)}`,
+      `DTEND;VALUE=DATE:${nextICalDate(round.date)}`,
+      `SUMMARY:${escapeICalText(describeRound(round))}`,
+      `LOCATION:${escapeICalText(location)}`,
+      `DESCRIPTION:${escapeICalText(description)}`,
+      `STATUS:${round.rsvpStatus === 'maybe' ? 'TENTATIVE' : 'CONFIRMED'}`,
+      'TRANSP:TRANSPARENT',
+    );
+
+    // Completed rounds don't need a reminder
+    if (round.status === 'active') {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER;RELATED=START:${ROUND_REMINDER_TRIGGER}`,
+        `DESCRIPTION:${escapeICalText(`${round.name} today. Round code: ${round.roundCode}`)}`,
+        'END:VALARM',
+      );
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
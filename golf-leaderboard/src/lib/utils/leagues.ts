@@ -0,0 +1,74 @@
+// src/lib/utils/leagues.ts
+
+/**
+ * Leagues
+ *
+ * One deployment can host several leagues (leagues, migration 021). Every
+ * season belongs to a league and players see only the leagues they belong
+ * to. Each membership has a role: owners and admins run the league's seasons,
+ * rounds and scores, and only owners change roles. The site administrator
+ * (profiles.is_admin) can manage every league.
+ */
+
+export type LeagueRole = 'owner' | 'admin' | 'member';
+
+export const LEAGUE_ROLES: Record<LeagueRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export interface League {
+  id: string;
+  name: string;
+  code: string;
+  role: LeagueRole;
+}
+
+export interface LeagueMember {
+  userId: string;
+  username: string;
+  role: LeagueRole;
+  joinedAt: string;
+}
+
+// Where the league switcher remembers the league a player last picked
+export const CURRENT_LEAGUE_STORAGE_KEY = 'golf-leaderboard.current-league';
+
+/**
+ * Whether a role can run the league's seasons, rounds and scores
+ */
+export function canManageLeague(role: LeagueRole | null | undefined): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * The league to show: the one picked last time if the player still belongs
+ * to it, otherwise the first league they joined
+ * @param leagues - The player's leagues, oldest membership first
+ * @param storedId - League ID saved by the switcher, if any
+ */
+export function pickCurrentLeague(leagues: League[], storedId: string | null): League | null {
+  return leagues.find(league => league.id === storedId) ?? leagues[0] ?? null;
+}
+
+/**
+ * Check a role change before sending it
+ * @returns Error message, or null if the change can be made
+ */
+export function validateRoleChange(
+  members: LeagueMember[],
+  userId: string,
+  role: LeagueRole
+): string | null {
+  const member = members.find(m => m.userId === userId);
+  if (!member) return 'Player is not a member of this league';
+  if (member.role === role) return null;
+
+  const owners = members.filter(m => m.role === 'owner');
+  if (member.role === 'owner' && owners.length === 1) {
+    return 'A league needs at least one owner. Make someone else an owner first.';
+  }
+
+  return null;
+}
@@ -0,0 +1,93 @@
+// src/lib/utils/offlineScores.ts
+import { ScoringRules } from './scoringRules';
+import { HoleScore } from './scorecard';
+
+/**
+ * Offline score entry
+ *
+ * While there is signal, the rounds a player could score are cached in
+ * IndexedDB (see src/lib/offlineQueue.ts). With no signal, EnterScoreForm
+ * checks the round code against that cache and queues the submission. The
+ * queue is synced through submitScore when the connection comes back; the
+ * server has the final say, and anything it rejects (round completed in the
+ * meantime, score already submitted from another device) is kept as a
+ * conflict for the player to see and dismiss.
+ */
+
+export interface CachedRound {
+  /** `${playerId}:${roundCode}` */
+  key: string;
+  playerId: string;
+  roundCode: string;
+  game: {
+    id: string;
+    name: string;
+    season_id: string;
+    format: string;
+    status: string;
+    courses: { id: string; name: string; par: number };
+  };
+  rules: ScoringRules;
+  /** Raw scores already in the round when it was cached, for the bonus preview */
+  rawScores: number[];
+  /** Whether the player had already submitted a score for the round */
+  submitted: boolean;
+  cachedAt: string;
+}
+
+export interface QueuedScore {
+  id: string;
+  playerId: string;
+  roundCode: string;
+  gameId: string;
+  seasonId: string;
+  gameName: string;
+  courseName: string;
+  rawScore: number;
+  notes?: string;
+  holesPlayed?: number;
+  holes?: HoleScore[];
+  queuedAt: string;
+  status: 'pending' | 'conflict';
+  /** Why the server rejected the score */
+  conflict: string | null;
+}
+
+export function cachedRoundKey(playerId: string, roundCode: string): string {
+  return `${playerId}:${roundCode.trim().toUpperCase()}`;
+}
+
+/**
+ * Check an offline submission against the cached round and the local queue
+ * @returns Error message, or null if the score can be queued
+ */
+export function validateOfflineSubmission(
+  round: CachedRound | undefined,
+  queue: QueuedScore[]
+): string | null {
+  if (!round) {
+    return "This round isn't available offline. Open it once while you have signal, then try again.";
+  }
+  if (round.game.status === 'completed') {
+    return 'This round is completed. No new scores can be submitted.';
+  }
+  if (round.submitted) {
+    return 'You have already submitted a score for this round';
+  }
+  if (queue.some(score => score.gameId === round.game.id && score.playerId === round.playerId)) {
+    return 'You already have a score for this round waiting to sync';
+  }
+  return null;
+}
+
+/**
+ * Decide what to do with a queued score the server did not accept
+ * @returns 'retry' when the request never reached the server, otherwise 'conflict'
+ */
+export function classifySyncError(error: unknown): 'retry' | 'conflict' {
+  const message = error instanceof Error
+    ? error.message
+    : (error as { message?: string } | null)?.message ?? '';
+
+  return /failed to fetch|network|load failed|offline/i.test(message) ? 'retry' : 'conflict';
+}
@@ -0,0 +1,270 @@
+// src/lib/utils/playoffs.ts
+
+/**
+ * Season playoffs
+ *
+ * When the regular season ends an admin seeds the top N of season_leaderboard
+ * into one of two formats:
+ * - bracket: single elimination. Each bracket round is played as a playoff
+ *   game; in a match the lower gross score advances and a tie goes to the
+ *   higher seed. The bracket is filled out to a power of two with byes for
+ *   the top seeds.
+ * - points_reset: a FedEx-style final series. Regular-season points are
+ *   replaced by starting points by seed, and points earned in the playoff
+ *   games are added on top. The leader after the last round is champion.
+ *
+ * Playoff games are ordinary games tagged with games.playoff_round, and they
+ * don't count toward the regular-season leaderboard.
+ */
+
+export type PlayoffFormat = 'none' | 'bracket' | 'points_reset';
+export type PlayoffStatus = 'not_started' | 'in_progress' | 'completed';
+
+export const PLAYOFF_FORMATS: Record<Exclude<PlayoffFormat, 'none'>, { name: string; description: string }> = {
+  bracket: {
+    name: 'Bracket',
+    description: 'Single elimination. Lower gross score advances; ties go to the higher seed.',
+  },
+  points_reset: {
+    name: 'Points Reset',
+    description: 'Points reset by seed, then playoff points decide the champion.',
+  },
+};
+
+export const MIN_PLAYOFF_SIZE = 2;
+export const MAX_PLAYOFF_SIZE = 16;
+
+export interface PlayoffStanding {
+  playerId: string;
+  username: string;
+  totalPoints: number;
+}
+
+export interface PlayoffSeed {
+  playerId: string;
+  username: string;
+  seed: number;
+  regularSeasonPoints: number;
+  startingPoints: number;
+}
+
+/** A player's score in a playoff game */
+export interface PlayoffScore {
+  round: number;
+  playerId: string;
+  rawScore: number;
+  /** Points plus bonus points earned in the game */
+  points: number;
+}
+
+export interface BracketMatch {
+  /** null is a bye in the first round, or a winner still to be decided later on */
+  top: PlayoffSeed | null;
+  bottom: PlayoffSeed | null;
+  topScore: number | null;
+  bottomScore: number | null;
+  winner: PlayoffSeed | null;
+}
+
+export interface BracketRound {
+  round: number;
+  name: string;
+  matches: BracketMatch[];
+}
+
+export interface PointsResetStanding extends PlayoffSeed {
+  playoffPoints: number;
+  roundsPlayed: number;
+  totalPoints: number;
+}
+
+/**
+ * Starting points for a points-reset series: the last seed starts on 2 and
+ * each seed above adds 2, so one good round can still overturn a seed's lead
+ */
+export function resetStartingPoints(seed: number, size: number): number {
+  return (size - seed + 1) * 2;
+}
+
+/**
+ * Seed the top players of the regular season
+ * Standings are expected in leaderboard order; equal points keep that order
+ */
+export function seedPlayoffs(standings: PlayoffStanding[], size: number): PlayoffSeed[] {
+  return standings
+    .map((standing, index) => ({ standing, index }))
+    .sort((a, b) => b.standing.totalPoints - a.standing.totalPoints || a.index - b.index)
+    .slice(0, size)
+    .map(({ standing }, index) => ({
+      playerId: standing.playerId,
+      username: standing.username,
+      seed: index + 1,
+      regularSeasonPoints: standing.totalPoints,
+      startingPoints: resetStartingPoints(index + 1, size),
+    }));
+}
+
+export function bracketRoundCount(size: number): number {
+  return size < 2 ? 0 : Math.ceil(Math.log2(size));
+}
+
+/**
+ * Number of playoff rounds to schedule
+ * @param rounds Rounds in a points-reset series
+ */
+export function playoffRoundCount(format: PlayoffFormat, size: number | null, rounds: number | null): number {
+  if (format === 'bracket') return bracketRoundCount(size ?? 0);
+  if (format === 'points_reset') return rounds ?? 1;
+  return 0;
+}
+
+export function playoffRoundName(format: PlayoffFormat, round: number, totalRounds: number): string {
+  if (format === 'bracket') {
+    const fromFinal = totalRounds - round;
+    if (fromFinal === 0) return 'Final';
+    if (fromFinal === 1) return 'Semifinals';
+    if (fromFinal === 2) return 'Quarterfinals';
+  }
+  return `Playoff Round ${round}`;
+}
+
+/**
+ * Seeds in bracket order, so that 1 and 2 can only meet in the final
+ * e.g. 8 → [1, 8, 4, 5, 2, 7, 3, 6]
+ */
+export function bracketSlots(bracketSize: number): number[] {
+  let slots = [1];
+  while (slots.length < bracketSize) {
+    const sum = slots.length * 2 + 1;
+    slots = slots.flatMap(seed => [seed, sum - seed]);
+  }
+  return slots;
+}
+
+/** Each player's best score per round; a player can play more than one game in a round */
+function bestScoresByRound(scores: PlayoffScore[]): Map<number, Map<string, number>> {
+  const byRound = new Map<number, Map<string, number>>();
+  for (const score of scores) {
+    const round = byRound.get(score.round) ?? new Map<string, number>();
+    const best = round.get(score.playerId);
+    if (best === undefined || score.rawScore < best) {
+      round.set(score.playerId, score.rawScore);
+    }
+    byRound.set(score.round, round);
+  }
+  return byRound;
+}
+
+function decideMatch(
+  top: PlayoffSeed | null,
+  bottom: PlayoffSeed | null,
+  topScore: number | null,
+  bottomScore: number | null,
+  isFirstRound: boolean,
+  roundComplete: boolean
+): PlayoffSeed | null {
+  if (!top || !bottom) {
+    return isFirstRound ? top ?? bottom : null;
+  }
+
+  const higherSeed = top.seed < bottom.seed ? top : bottom;
+  if (topScore !== null && bottomScore !== null) {
+    if (topScore === bottomScore) return higherSeed;
+    return topScore < bottomScore ? top : bottom;
+  }
+
+  // Once the round is over, a missing score forfeits the match
+  if (!roundComplete) return null;
+  if (topScore !== null) return top;
+  if (bottomScore !== null) return bottom;
+  return higherSeed;
+}
+
+/**
+ * Build the bracket from the seeds and the playoff games played so far
+ * @param completedRounds Rounds whose playoff games are all completed
+ */
+export function buildBracket(
+  seeds: PlayoffSeed[],
+  scores: PlayoffScore[],
+  completedRounds: number[]
+): BracketRound[] {
+  const totalRounds = bracketRoundCount(seeds.length);
+  if (totalRounds === 0) return [];
+
+  const bySeed = new Map(seeds.map(seed => [seed.seed, seed]));
+  const scoresByRound = bestScoresByRound(scores);
+  let entrants: (PlayoffSeed | null)[] = bracketSlots(2 ** totalRounds).map(seed => bySeed.get(seed) ?? null);
+  const rounds: BracketRound[] = [];
+
+  for (let round = 1; round <= totalRounds; round++) {
+    const roundScores = scoresByRound.get(round) ?? new Map<string, number>();
+    const matches: BracketMatch[] = [];
+
+    for (let i = 0; i < entrants.length; i += 2) {
+      const top = entrants[i];
+      const bottom = entrants[i + 1];
+      const topScore = top ? roundScores.get(top.playerId) ?? null : null;
+      const bottomScore = bottom ? roundScores.get(bottom.playerId) ?? null : null;
+
+      matches.push({
+        top,
+        bottom,
+        topScore,
+        bottomScore,
+        winner: decideMatch(top, bottom, topScore, bottomScore, round === 1, completedRounds.includes(round)),
+      });
+    }
+
+    rounds.push({ round, name: playoffRoundName('bracket', round, totalRounds), matches });
+    entrants = matches.map(match => match.winner);
+  }
+
+  return rounds;
+}
+
+/**
+ * Points-reset standings: starting points plus points from playoff games
+ * Ties are broken by seed; scores from unseeded players are ignored
+ */
+export function pointsResetStandings(seeds: PlayoffSeed[], scores: PlayoffScore[]): PointsResetStanding[] {
+  return seeds
+    .map(seed => {
+      const playerScores = scores.filter(score => score.playerId === seed.playerId);
+      const playoffPoints = playerScores.reduce((sum, score) => sum + score.points, 0);
+      return {
+        ...seed,
+        playoffPoints,
+        roundsPlayed: playerScores.length,
+        totalPoints: seed.startingPoints + playoffPoints,
+      };
+    })
+    .sort((a, b) => b.totalPoints - a.totalPoints || a.seed - b.seed);
+}
+
+/**
+ * The playoff champion, once one is decided
+ * @returns null while the final (bracket) or any series round (points reset) is still to finish
+ */
+export function determinePlayoffChampion(
+  format: PlayoffFormat,
+  seeds: PlayoffSeed[],
+  scores: PlayoffScore[],
+  completedRounds: number[],
+  rounds: number | null
+): PlayoffSeed | null {
+  if (format === 'bracket') {
+    const bracket = buildBracket(seeds, scores, completedRounds);
+    return bracket[bracket.length - 1]?.matches[0]?.winner ?? null;
+  }
+
+  if (format === 'points_reset') {
+    const totalRounds = playoffRoundCount(format, seeds.length, rounds);
+    for (let round = 1; round <= totalRounds; round++) {
+      if (!completedRounds.includes(round)) return null;
+    }
+    return pointsResetStandings(seeds, scores)[0] ?? null;
+  }
+
+  return null;
+}
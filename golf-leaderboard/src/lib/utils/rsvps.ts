@@ -0,0 +1,78 @@
+// src/lib/utils/rsvps.ts
+
+/**
+ * Round RSVPs
+ *
+ * Players answer in, out or maybe for each scheduled round (game_rsvps,
+ * migration 022). The schedule shows each player's answer and the counts,
+ * admins see a roster of the whole season per round, and only players who
+ * said they're in are chased for a score afterwards.
+ */
+
+export type RsvpStatus = 'in' | 'out' | 'maybe';
+
+export const RSVP_STATUSES: Record<RsvpStatus, string> = {
+  in: "I'm in",
+  maybe: 'Maybe',
+  out: "Can't make it",
+};
+
+export interface RsvpCounts {
+  in: number;
+  maybe: number;
+  out: number;
+}
+
+export interface RosterEntry {
+  playerId: string;
+  username: string;
+  status: RsvpStatus | null;
+  submitted: boolean;
+}
+
+/**
+ * How many players gave each answer
+ */
+export function countRsvps(rsvps: Array<{ status: RsvpStatus }>): RsvpCounts {
+  const counts: RsvpCounts = { in: 0, maybe: 0, out: 0 };
+  for (const rsvp of rsvps) counts[rsvp.status] += 1;
+  return counts;
+}
+
+// Roster order: coming, maybe, no reply, not coming
+const ROSTER_ORDER: Record<RsvpStatus | 'none', number> = { in: 0, maybe: 1, none: 2, out: 3 };
+
+/**
+ * Every player in the season with their answer for a round, and whether
+ * they've submitted a score for it
+ * @param participants - The season's players
+ * @param rsvps - Answers for the round
+ * @param submittedIds - Players with a score for the round
+ */
+export function buildRoster(
+  participants: Array<{ playerId: string; username: string }>,
+  rsvps: Array<{ playerId: string; status: RsvpStatus }>,
+  submittedIds: Set<string>
+): RosterEntry[] {
+  const statusByPlayer = new Map(rsvps.map(rsvp => [rsvp.playerId, rsvp.status]));
+
+  return participants
+    .map(participant => ({
+      playerId: participant.playerId,
+      username: participant.username,
+      status: statusByPlayer.get(participant.playerId) ?? null,
+      submitted: submittedIds.has(participant.playerId),
+    }))
+    .sort((a, b) =>
+      ROSTER_ORDER[a.status ?? 'none'] - ROSTER_ORDER[b.status ?? 'none'] ||
+      a.username.localeCompare(b.username)
+    );
+}
+
+/**
+ * Whether a round still takes RSVPs: active and not yet in the past
+ * @param today - Today's date as YYYY-MM-DD
+ */
+export function isRsvpOpen(game: { status: string; game_date: string }, today: string): boolean {
+  return game.status === 'active' && game.game_date >= today;
+}
@@ -0,0 +1,109 @@
+// src/lib/utils/scorecard.ts
+
+/**
+ * Hole-by-hole scorecards
+ *
+ * A scorecard is optional; when a player enters one, the score's raw_score is
+ * derived from the hole totals instead of being typed in.
+ *
+ * A scorecard covers 18 holes, or 9 for a 9-hole round. Its raw_score is the
+ * total for the holes played (a 9-hole card is not scaled up to 18), and the
+ * score's holes_played records which it was.
+ */
+
+export type HoleCount = 9 | 18;
+
+export const SCORECARD_HOLE_COUNTS: HoleCount[] = [18, 9];
+
+export interface HoleScore {
+  holeNumber: number;
+  strokes: number | null;
+  putts: number | null;
+  /** null when not applicable (e.g. par 3s) or not recorded */
+  fairwayHit: boolean | null;
+  greenInRegulation: boolean | null;
+}
+
+export interface ScorecardSummary {
+  holesCompleted: number;
+  totalStrokes: number;
+  totalPutts: number;
+  fairwaysHit: number;
+  fairwaysAttempted: number;
+  greensInRegulation: number;
+}
+
+const isHoleCount = (count: number): count is HoleCount =>
+  (SCORECARD_HOLE_COUNTS as number[]).includes(count);
+
+/**
+ * Create a blank scorecard for the given number of holes
+ */
+export function createEmptyScorecard(holeCount: HoleCount = 18): HoleScore[] {
+  return Array.from({ length: holeCount }, (_, i) => ({
+    holeNumber: i + 1,
+    strokes: null,
+    putts: null,
+    fairwayHit: null,
+    greenInRegulation: null,
+  }));
+}
+
+/**
+ * Totals and stats for a (possibly partial) scorecard
+ */
+export function summarizeScorecard(holes: HoleScore[]): ScorecardSummary {
+  return holes.reduce<ScorecardSummary>(
+    (summary, hole) => ({
+      holesCompleted: summary.holesCompleted + (hole.strokes ? 1 : 0),
+      totalStrokes: summary.totalStrokes + (hole.strokes ?? 0),
+      totalPutts: summary.totalPutts + (hole.putts ?? 0),
+      fairwaysHit: summary.fairwaysHit + (hole.fairwayHit === true ? 1 : 0),
+      fairwaysAttempted: summary.fairwaysAttempted + (hole.fairwayHit !== null ? 1 : 0),
+      greensInRegulation: summary.greensInRegulation + (hole.greenInRegulation ? 1 : 0),
+    }),
+    {
+      holesCompleted: 0,
+      totalStrokes: 0,
+      totalPutts: 0,
+      fairwaysHit: 0,
+      fairwaysAttempted: 0,
+      greensInRegulation: 0,
+    }
+  );
+}
+
+/**
+ * Derive the raw_score for a scorecard
+ * @returns Raw score, or null until every hole of a 9- or 18-hole card has strokes
+ */
+export function scorecardRawScore(holes: HoleScore[]): number | null {
+  const summary = summarizeScorecard(holes);
+  if (!isHoleCount(holes.length) || summary.holesCompleted !== holes.length) return null;
+
+  return summary.totalStrokes;
+}
+
+/**
+ * Validate a scorecard before submission
+ * @returns Error message, or null if the scorecard is valid
+ */
+export function validateScorecard(holes: HoleScore[]): string | null {
+  if (!isHoleCount(holes.length)) {
+    return 'Scorecards must have 9 or 18 holes';
+  }
+
+  for (const hole of holes) {
+    if (!hole.strokes) {
+      return `Enter strokes for hole ${hole.holeNumber}`;
+    }
+    if (hole.strokes < 1 || hole.strokes > 20) {
+      return `Hole ${hole.holeNumber}: strokes must be between 1 and 20`;
+    }
+    if (hole.putts !== null && (hole.putts < 0 || hole.putts > hole.strokes)) {
+      return `Hole ${hole.holeNumber}: putts cannot exceed strokes`;
+    }
+  }
+
+  return null;
+}
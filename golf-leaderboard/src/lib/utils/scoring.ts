@@ -1,4 +1,5 @@
 // src/lib/utils/scoring.ts
+import { DEFAULT_SCORING_RULES, ScoringRules, pointsForRound } from './scoringRules';
 
 export interface ScoreData {
     rawScore: number;
@@ -17,26 +18,18 @@ export interface ScoreData {
   }
   
   /**
-   * Calculate points based on absolute raw score
+   * Calculate points for a round under a season's rule set
    *
-   * Scoring system (2026 season onwards):
-   * - 100+: 0 points
-   * - 95-99: 1 point
-   * - 90-94: 2 points
-   * - 85-89: 3 points
-   * - 80-84: 4 points
-   * - 75-79: 5 points
-   * - Below 75: 6 points
+   * Defaults to the 2026 gross bracket table (see scoringRules.ts).
+   * Pass the season's rules from getSeasonScoringRules so older seasons
+   * keep the table they were played under.
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  export function calculatePoints(rawScore: number, coursePar: number): number {
-    if (rawScore >= 100) return 0;
-    if (rawScore >= 95) return 1;
-    if (rawScore >= 90) return 2;
-    if (rawScore >= 85) return 3;
-    if (rawScore >= 80) return 4;
-    if (rawScore >= 75) return 5;
-    return 6; // Below 75
+  export function calculatePoints(
+    rawScore: number,
+    coursePar: number,
+    rules: ScoringRules = DEFAULT_SCORING_RULES
+  ): number {
+    return pointsForRound(rules, rawScore, coursePar);
   }
   
   /**
@@ -57,11 +50,12 @@ export interface ScoreData {
  */
 export function calculateFullScore(
     scoreData: ScoreData,
-    allScoresInRound: number[]
+    allScoresInRound: number[],
+    rules: ScoringRules = DEFAULT_SCORING_RULES
   ): CalculatedScore {
     const { rawScore, coursePar } = scoreData;
     const overPar = rawScore - coursePar;
-    const points = calculatePoints(rawScore, coursePar);
+    const points = calculatePoints(rawScore, coursePar, rules);
     
     // Find the current lowest score among existing scores
     const currentLowestScore = allScoresInRound.length > 0 
@@ -69,10 +63,14 @@ export function calculateFullScore(
       : Infinity;
     
     // Preview what would happen if this score is submitted
-    // If this score is lower than the current lowest, it will get a bonus point
-    // and everyone else will lose their bonus points
-    // If this score ties the current lowest, it will also get a bonus point
-    const bonusPoints = (rawScore <= currentLowestScore) ? 1 : 0;
+    // If this score is lower than the current lowest, it will get the bonus
+    // and everyone else will lose theirs
+    // If this score ties the current lowest, it only gets the bonus when
+    // the rule set shares it between tied players
+    const earnsBonus = rules.bonus.shareTies
+      ? rawScore <= currentLowestScore
+      : rawScore < currentLowestScore;
+    const bonusPoints = earnsBonus ? rules.bonus.lowRound : 0;
     
     return {
       rawScore,
@@ -87,33 +85,52 @@ export function calculateFullScore(
  * Update bonus points for all scores in a round
  * This should be called after adding or updating a score
  * 
+ * In a season with flights the bonus is won within each flight; scores
+ * without a flightId compete with each other.
+ *
  * @param allScoresInRound Array of all score objects for the round
- * @returns Array of player IDs that need bonus point updates
+ * @param rules The season's scoring rules
+ * @returns Whether each player should hold the bonus and how many bonus points that is
  */
 export function updateBonusPoints(allScoresInRound: { 
     playerId: string; 
     rawScore: number;
     bonusPoints: number;
-  }[]): { 
+    flightId?: string | null;
+  }[], rules: ScoringRules = DEFAULT_SCORING_RULES): { 
     playerId: string; 
     shouldHaveBonus: boolean;
+    bonusPoints: number;
   }[] {
     // If no scores, return empty array
     if (allScoresInRound.length === 0) return [];
     
-    // Find the lowest score in the round
-    const lowestScore = Math.min(...allScoresInRound.map(score => score.rawScore));
+    // Find the lowest score in each flight (the whole round when there are no flights)
+    const flightOf = (score: { flightId?: string | null }) => score.flightId ?? null;
+    const lowestByFlight = new Map<string | null, { lowestScore: number; lowestCount: number }>();
+    for (const score of allScoresInRound) {
+      const current = lowestByFlight.get(flightOf(score));
+      if (!current || score.rawScore < current.lowestScore) {
+        lowestByFlight.set(flightOf(score), { lowestScore: score.rawScore, lowestCount: 1 });
+      } else if (score.rawScore === current.lowestScore) {
+        current.lowestCount++;
+      }
+    }
     
     // Determine which players should have bonus points
     const updates = allScoresInRound.map(score => {
-      const shouldHaveBonus = score.rawScore === lowestScore; // STRICT EQUALITY
+      const { lowestScore, lowestCount } = lowestByFlight.get(flightOf(score))!;
+      const bonusAwarded = rules.bonus.lowRound > 0 && (rules.bonus.shareTies || lowestCount === 1);
+      const shouldHaveBonus = bonusAwarded && score.rawScore === lowestScore; // STRICT EQUALITY
       return {
         playerId: score.playerId,
-        shouldHaveBonus
+        shouldHaveBonus,
+        bonusPoints: shouldHaveBonus ? rules.bonus.lowRound : 0
       };
     });
     return updates;
   }
+
   /**
    * Get the most recent 10 rounds for display
    */
@@ -0,0 +1,152 @@
+// src/lib/utils/scoringRules.ts
+
+/**
+ * Scoring rule sets
+ *
+ * Each season points at a versioned rule set stored in the
+ * `scoring_rule_sets` table. A rule set describes how a round is turned
+ * into points:
+ * - basis: brackets are matched against the gross score or the score to par
+ * - brackets: ordered from worst to best, first bracket whose `min` the
+ *   score reaches wins; the last bracket has `min: null` and catches the rest
+ * - bonus: points for the lowest gross score of the round
+ *
+ * Rule sets are never edited in place. Changing the rules means adding a
+ * new version and pointing the new season at it, so completed seasons keep
+ * the points they were played under.
+ */
+
+export type ScoringBasis = 'gross' | 'to_par';
+
+export interface PointsBracket {
+  /** Inclusive lower bound of the bracket, or null for the catch-all bracket */
+  min: number | null;
+  points: number;
+}
+
+export interface BonusRules {
+  /** Points for the lowest score of the round (0 disables the bonus) */
+  lowRound: number;
+  /** Whether players tied for the lowest score all receive the bonus */
+  shareTies: boolean;
+}
+
+export interface ScoringRules {
+  key: string;
+  version: number;
+  name: string;
+  basis: ScoringBasis;
+  brackets: PointsBracket[];
+  bonus: BonusRules;
+}
+
+/**
+ * 2026 season onwards:
+ * - 100+: 0 points
+ * - 95-99: 1 point
+ * - 90-94: 2 points
+ * - 85-89: 3 points
+ * - 80-84: 4 points
+ * - 75-79: 5 points
+ * - Below 75: 6 points
+ */
+export const GROSS_BRACKETS_2026: ScoringRules = {
+  key: 'gross_brackets',
+  version: 1,
+  name: 'Gross brackets (2026)',
+  basis: 'gross',
+  brackets: [
+    { min: 100, points: 0 },
+    { min: 95, points: 1 },
+    { min: 90, points: 2 },
+    { min: 85, points: 3 },
+    { min: 80, points: 4 },
+    { min: 75, points: 5 },
+    { min: null, points: 6 },
+  ],
+  bonus: { lowRound: 1, shareTies: true },
+};
+
+/**
+ * Rule set used when a season has not been assigned one
+ */
+export const DEFAULT_SCORING_RULES = GROSS_BRACKETS_2026;
+
+/**
+ * Validate a rule set definition loaded from the database
+ * Falls back to the default rules when the definition is missing
+ *
+ * @throws Error if the definition is present but malformed
+ */
+export function parseScoringRules(definition: unknown): ScoringRules {
+  if (definition === null || definition === undefined) {
+    return DEFAULT_SCORING_RULES;
+  }
+
+  const rules = definition as Partial<ScoringRules>;
+
+  if (rules.basis !== 'gross' && rules.basis !== 'to_par') {
+    throw new Error(`Scoring rules "${rules.key}" have an unknown basis: ${rules.basis}`);
+  }
+
+  if (!Array.isArray(rules.brackets) || rules.brackets.length === 0) {
+    throw new Error(`Scoring rules "${rules.key}" have no brackets`);
+  }
+
+  if (rules.brackets[rules.brackets.length - 1].min !== null) {
+    throw new Error(`Scoring rules "${rules.key}" must end with a catch-all bracket`);
+  }
+
+  return {
+    key: rules.key ?? 'custom',
+    version: rules.version ?? 1,
+    name: rules.name ?? rules.key ?? 'Custom rules',
+    basis: rules.basis,
+    brackets: rules.brackets,
+    bonus: {
+      lowRound: rules.bonus?.lowRound ?? 0,
+      shareTies: rules.bonus?.shareTies ?? true,
+    },
+  };
+}
+
+/**
+ * Look up the bracket points for a round under a rule set
+ */
+export function pointsForRound(rules: ScoringRules, rawScore: number, coursePar: number): number {
+  const value = rules.basis === 'to_par' ? rawScore - coursePar : rawScore;
+
+  for (const bracket of rules.brackets) {
+    if (bracket.min === null || value >= bracket.min) {
+      return bracket.points;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Describe a rule set's brackets for display, in table order
+ * e.g. ["100+: 0", "95-99: 1", ..., "Below 75: 6"]
+ */
+export function describeBrackets(rules: ScoringRules): string[] {
+  const suffix = rules.basis === 'to_par' ? ' to par' : '';
+  const format = (value: number) =>
+    rules.basis === 'to_par' && value > 0 ? `+${value}` : `${value}`;
+
+  return rules.brackets.map((bracket, index) => {
+    const previous = rules.brackets[index - 1];
+
+    if (bracket.min === null) {
+      return previous && previous.min !== null
+        ? `Below ${format(previous.min)}${suffix}: ${bracket.points}`
+        : `Any score: ${bracket.points}`;
+    }
+
+    if (!previous || previous.min === null) {
+      return `${format(bracket.min)}+${suffix}: ${bracket.points}`;
+    }
+
+    return `${format(bracket.min)} to ${format(previous.min - 1)}${suffix}: ${bracket.points}`;
+  });
+}
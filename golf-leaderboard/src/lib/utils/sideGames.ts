@@ -0,0 +1,252 @@
+// src/lib/utils/sideGames.ts
+import { calculateFormatResults, FormatHole, FormatPlayerRound } from './gameFormats';
+
+/**
+ * Side games
+ *
+ * Money contests played alongside a round (side_games, migration 025). Each
+ * has an entry fee and its own entrants, and the pot (fee × entrants) goes
+ * to the winners:
+ * - skins: gross skins among the entrants, from their hole-by-hole
+ *   scorecards; the pot is split by skins won, so carried-over skins left at
+ *   the end are shared by everyone who won one
+ * - closest_to_pin / long_drive: one hole, winner entered by an admin; ties
+ *   split the pot
+ *
+ * Admin-entered winners always win over scorecards, so skins can be settled
+ * for rounds played without hole scores. A contest with no winner yet is
+ * pending and costs nobody anything; a skins game where every hole halved is
+ * refunded. Amounts are whole cents.
+ */
+
+export type SideGameKind = 'skins' | 'closest_to_pin' | 'long_drive';
+
+export const SIDE_GAME_KINDS: Record<SideGameKind, { name: string; description: string; needsHole: boolean }> = {
+  skins: {
+    name: 'Skins',
+    description: 'Win a hole outright to win its skin; the pot is split by skins won',
+    needsHole: false,
+  },
+  closest_to_pin: {
+    name: 'Closest to the Pin',
+    description: 'Closest tee shot on a par 3',
+    needsHole: true,
+  },
+  long_drive: {
+    name: 'Long Drive',
+    description: 'Longest drive in the fairway on one hole',
+    needsHole: true,
+  },
+};
+
+export interface SideGameWinner {
+  playerId: string;
+  /** Share of the pot: 1 for a closest-to-pin or long drive, skins won for skins */
+  shares: number;
+}
+
+export interface SideGame {
+  id: string;
+  gameId: string;
+  kind: SideGameKind;
+  /** Per player, in dollars */
+  entryFee: number;
+  holeNumber: number | null;
+  entrants: string[];
+  /** Entered by an admin */
+  winners: SideGameWinner[];
+}
+
+export type SideGameStatus = 'settled' | 'pending' | 'refunded';
+
+export interface SideGameResult {
+  sideGameId: string;
+  status: SideGameStatus;
+  /** Cents */
+  pot: number;
+  winners: SideGameWinner[];
+  /** Winnings per player, in cents */
+  payouts: Record<string, number>;
+  /** Winnings less the entry fee per entrant, in cents; empty until settled */
+  net: Record<string, number>;
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  /** Cents */
+  amount: number;
+}
+
+export function toCents(dollars: number): number {
+  return Math.round(dollars * 100);
+}
+
+/**
+ * e.g. "$12.50", "-$3.00"
+ */
+export function formatMoney(cents: number): string {
+  const sign = cents < 0 ? '-' : '';
+  return `${sign}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+/**
+ * Split a pot by shares in whole cents. Leftover cents go one each to the
+ * biggest shares first, so the payouts always add up to the pot
+ */
+export function splitPot(pot: number, winners: SideGameWinner[]): Record<string, number> {
+  const totalShares = winners.reduce((sum, winner) => sum + winner.shares, 0);
+  if (pot <= 0 || totalShares <= 0) return {};
+
+  const payouts: Record<string, number> = {};
+  let paid = 0;
+  winners.forEach(winner => {
+    payouts[winner.playerId] = Math.floor((pot * winner.shares) / totalShares);
+    paid += payouts[winner.playerId];
+  });
+
+  const order = [...winners].sort((a, b) => b.shares - a.shares);
+  for (let i = 0; paid < pot; i = (i + 1) % order.length) {
+    payouts[order[i].playerId]++;
+    paid++;
+  }
+
+  return payouts;
+}
+
+/**
+ * Skins won by each entrant, from their scorecards
+ * @param entrants - The side game's entrants
+ * @param cards - Scorecards for the round; players who didn't enter are ignored
+ * @returns Winners by skins won (empty if every hole halved), or null until every
+ * entrant has a scorecard, so nobody loses their fee for a card that isn't in yet
+ */
+export function skinsFromScorecards(
+  entrants: string[],
+  cards: FormatPlayerRound[],
+  holes: FormatHole[]
+): SideGameWinner[] | null {
+  const players = entrants.map(playerId => cards.find(card => card.playerId === playerId));
+  if (players.length === 0 || players.some(player => !player || player.holes.length === 0)) return null;
+
+  const { result } = calculateFormatResults({
+    format: 'skins',
+    config: { useHandicaps: false, pairings: [] },
+    holes,
+    players: players as FormatPlayerRound[],
+  });
+  if (result?.format !== 'skins') return null;
+
+  return result.standings
+    .filter(standing => standing.skins > 0)
+    .map(standing => ({ playerId: standing.playerId, shares: standing.skins }));
+}
+
+/**
+ * Work out a side game's pot and who won what
+ * @param scorecardWinners - Skins from scorecards (see skinsFromScorecards); ignored for other contests
+ */
+export function settleSideGame(sideGame: SideGame, scorecardWinners: SideGameWinner[] | null = null): SideGameResult {
+  const pot = toCents(sideGame.entryFee) * sideGame.entrants.length;
+  const entrants = new Set(sideGame.entrants);
+
+  let winners = sideGame.winners.filter(winner => entrants.has(winner.playerId));
+  if (winners.length === 0 && sideGame.kind === 'skins' && scorecardWinners) {
+    winners = scorecardWinners.filter(winner => entrants.has(winner.playerId));
+
+    // Every hole halved: everyone gets their money back
+    if (winners.length === 0) {
+      return {
+        sideGameId: sideGame.id,
+        status: 'refunded',
+        pot,
+        winners: [],
+        payouts: {},
+        net: Object.fromEntries(sideGame.entrants.map(id => [id, 0])),
+      };
+    }
+  }
+
+  if (winners.length === 0) {
+    return { sideGameId: sideGame.id, status: 'pending', pot, winners: [], payouts: {}, net: {} };
+  }
+
+  const payouts = splitPot(pot, winners);
+  const fee = toCents(sideGame.entryFee);
+  return {
+    sideGameId: sideGame.id,
+    status: 'settled',
+    pot,
+    winners,
+    payouts,
+    net: Object.fromEntries(sideGame.entrants.map(id => [id, (payouts[id] ?? 0) - fee])),
+  };
+}
+
+/**
+ * Each player's net winnings across settled side games, in cents
+ */
+export function sideGameBalances(results: SideGameResult[]): Map<string, number> {
+  const balances = new Map<string, number>();
+  results.forEach(result => {
+    Object.entries(result.net).forEach(([playerId, net]) => {
+      balances.set(playerId, (balances.get(playerId) ?? 0) + net);
+    });
+  });
+  return balances;
+}
+
+/**
+ * Who pays whom to square up the balances, in as few payments as the greedy
+ * match of biggest debtor to biggest creditor gives
+ */
+export function settleUp(balances: Map<string, number>): Transfer[] {
+  const debtors = Array.from(balances.entries())
+    .filter(([, balance]) => balance < 0)
+    .map(([playerId, balance]) => ({ playerId, amount: -balance }))
+    .sort((a, b) => b.amount - a.amount || a.playerId.localeCompare(b.playerId));
+  const creditors = Array.from(balances.entries())
+    .filter(([, balance]) => balance > 0)
+    .map(([playerId, amount]) => ({ playerId, amount }))
+    .sort((a, b) => b.amount - a.amount || a.playerId.localeCompare(b.playerId));
+
+  const transfers: Transfer[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amount = Math.min(debtors[d].amount, creditors[c].amount);
+    transfers.push({ from: debtors[d].playerId, to: creditors[c].playerId, amount });
+    debtors[d].amount -= amount;
+    creditors[c].amount -= amount;
+    if (debtors[d].amount === 0) d++;
+    if (creditors[c].amount === 0) c++;
+  }
+
+  return transfers;
+}
+
+/**
+ * Check a new side game before adding it to a round
+ * @returns Error message, or null if the side game can be added
+ */
+export function validateSideGame(
+  sideGame: Pick<SideGame, 'kind' | 'entryFee' | 'holeNumber' | 'entrants'>,
+  existing: Pick<SideGame, 'kind' | 'holeNumber'>[]
+): string | null {
+  if (!Number.isFinite(sideGame.entryFee) || sideGame.entryFee < 0) {
+    return 'The entry fee must be zero or more';
+  }
+  if (SIDE_GAME_KINDS[sideGame.kind].needsHole && sideGame.holeNumber === null) {
+    return 'Pick the hole for this contest';
+  }
+  if (sideGame.entrants.length < 2) {
+    return 'A side game needs at least two players';
+  }
+  const holeNumber = SIDE_GAME_KINDS[sideGame.kind].needsHole ? sideGame.holeNumber : null;
+  if (existing.some(other => other.kind === sideGame.kind && (other.holeNumber ?? null) === holeNumber)) {
+    return holeNumber === null
+      ? `This round already has a ${SIDE_GAME_KINDS[sideGame.kind].name.toLowerCase()} game`
+      : `This round already has ${SIDE_GAME_KINDS[sideGame.kind].name.toLowerCase()} on hole ${holeNumber}`;
+  }
+  return null;
+}
@@ -0,0 +1,238 @@
+// src/lib/utils/standings.ts
+
+/**
+ * Season standings and tie-breaking
+ *
+ * Players are ranked by season points, with qualified players ahead of
+ * those short of the season's minimum rounds. Players level on points are
+ * separated by the season's tie-breakers, applied in order. Players still
+ * level after every tie-breaker share a rank, shown as "T3", and the next
+ * rank is skipped (1, T2, T2, 4). Every screen that shows a rank uses
+ * rankStandings so ranks agree everywhere.
+ */
+
+export type TieBreaker = 'avg_score' | 'wins' | 'head_to_head' | 'countback';
+
+/** Standings on gross or net points */
+export type StandingsView = 'gross' | 'net';
+
+export interface SeasonTieBreakers {
+  /** Tie-breakers in the order they are applied */
+  order: TieBreaker[];
+  /** Rounds looked back over by the countback tie-breaker */
+  countbackRounds: number;
+}
+
+export const TIE_BREAKERS: Record<TieBreaker, { name: string; description: string }> = {
+  avg_score: {
+    name: 'Lower average score',
+    description: 'The player with the lower scoring average ranks higher',
+  },
+  wins: {
+    name: 'More wins',
+    description: 'Most rounds with the low score of the day (shared low scores count)',
+  },
+  head_to_head: {
+    name: 'Head-to-head',
+    description: 'Most rounds beating the other tied players when they played together',
+  },
+  countback: {
+    name: 'Countback',
+    description: 'Most points over the season\'s last rounds',
+  },
+};
+
+export const DEFAULT_TIE_BREAKERS: SeasonTieBreakers = {
+  order: ['avg_score'],
+  countbackRounds: 3,
+};
+
+export interface StandingEntry {
+  playerId: string;
+  points: number;
+  qualified: boolean;
+  /** Scoring average; null for players without a round */
+  avgScore: number | null;
+}
+
+export interface StandingRound {
+  gameId: string;
+  gameDate: string;
+  playerId: string;
+  /** Gross or net score, whichever the standings are for */
+  score: number;
+  points: number;
+}
+
+export type RankedStanding<T extends StandingEntry> = T & {
+  rank: number;
+  /** Shares the rank with at least one other player */
+  tied: boolean;
+};
+
+/**
+ * Read the tie-breakers from a season row, falling back to the default
+ */
+export function parseTieBreakers(season: {
+  tie_breakers?: string[] | null;
+  countback_rounds?: number | null;
+}): SeasonTieBreakers {
+  const order = (season.tie_breakers ?? DEFAULT_TIE_BREAKERS.order)
+    .filter((breaker): breaker is TieBreaker => breaker in TIE_BREAKERS)
+    .filter((breaker, index, all) => all.indexOf(breaker) === index);
+
+  return {
+    order,
+    countbackRounds: season.countback_rounds && season.countback_rounds > 0
+      ? season.countback_rounds
+      : DEFAULT_TIE_BREAKERS.countbackRounds,
+  };
+}
+
+/**
+ * Whether the tie-breakers need each player's rounds, not just their season totals
+ */
+export function tieBreakersNeedRounds(tieBreakers: SeasonTieBreakers): boolean {
+  return tieBreakers.order.some(breaker => breaker !== 'avg_score');
+}
+
+/**
+ * Rank players by points, separating ties with the season's tie-breakers
+ * @param rounds Every regular-season round; only needed for wins, head-to-head and countback
+ * @returns Players in rank order with their rank and whether it is shared
+ */
+export function rankStandings<T extends StandingEntry>(
+  entries: T[],
+  tieBreakers: SeasonTieBreakers = DEFAULT_TIE_BREAKERS,
+  rounds: StandingRound[] = []
+): RankedStanding<T>[] {
+  const ordered = [...entries].sort((a, b) =>
+    Number(b.qualified) - Number(a.qualified) || b.points - a.points
+  );
+
+  // Groups of players level on qualification and points, best first
+  const levelGroups: T[][] = [];
+  ordered.forEach((entry, index) => {
+    const previous = ordered[index - 1];
+    if (previous && previous.qualified === entry.qualified && previous.points === entry.points) {
+      levelGroups[levelGroups.length - 1].push(entry);
+    } else {
+      levelGroups.push([entry]);
+    }
+  });
+
+  const context = buildContext(rounds, tieBreakers.countbackRounds);
+  const tiedGroups = levelGroups.flatMap(group => breakTies(group, tieBreakers.order, context));
+
+  const ranked: RankedStanding<T>[] = [];
+  tiedGroups.forEach(group => {
+    const rank = ranked.length + 1;
+    group.forEach(entry => ranked.push({ ...entry, rank, tied: group.length > 1 }));
+  });
+  return ranked;
+}
+
+/**
+ * e.g. "3", or "T3" for a shared rank
+ */
+export function formatRank(rank: number, tied: boolean): string {
+  return tied ? `T${rank}` : `${rank}`;
+}
+
+/**
+ * e.g. "Lower average score, then More wins", or "Ties share a rank"
+ */
+export function describeTieBreakers(tieBreakers: SeasonTieBreakers): string {
+  if (tieBreakers.order.length === 0) return 'Ties share a rank';
+  return tieBreakers.order
+    .map(breaker => breaker === 'countback'
+      ? `Countback over the last ${tieBreakers.countbackRounds} ${tieBreakers.countbackRounds === 1 ? 'round' : 'rounds'}`
+      : TIE_BREAKERS[breaker].name)
+    .join(', then ');
+}
+
+interface TieBreakContext {
+  roundsByGame: Map<string, StandingRound[]>;
+  countbackGames: Set<string>;
+}
+
+function buildContext(rounds: StandingRound[], countbackRounds: number): TieBreakContext {
+  const roundsByGame = new Map<string, StandingRound[]>();
+  const gameDates = new Map<string, string>();
+  rounds.forEach(round => {
+    roundsByGame.set(round.gameId, [...(roundsByGame.get(round.gameId) ?? []), round]);
+    gameDates.set(round.gameId, round.gameDate);
+  });
+
+  // The season's most recent games, whether or not the tied players were in them
+  const recentGames = Array.from(gameDates.entries())
+    .sort((a, b) => b[1].localeCompare(a[1]) || b[0].localeCompare(a[0]))
+    .slice(0, countbackRounds)
+    .map(([gameId]) => gameId);
+
+  return { roundsByGame, countbackGames: new Set(recentGames) };
+}
+
+// Split a group of level players with the first tie-breaker that separates any of them,
+// then carry on down the list within each smaller group
+function breakTies<T extends StandingEntry>(group: T[], order: TieBreaker[], context: TieBreakContext): T[][] {
+  if (group.length < 2 || order.length === 0) return [group];
+
+  const [breaker, ...rest] = order;
+  const values = tieBreakValues(breaker, group, context);
+
+  const sorted = [...group].sort((a, b) => values.get(b.playerId)! - values.get(a.playerId)!);
+  const subgroups: T[][] = [];
+  sorted.forEach((entry, index) => {
+    const previous = sorted[index - 1];
+    if (previous && values.get(previous.playerId) === values.get(entry.playerId)) {
+      subgroups[subgroups.length - 1].push(entry);
+    } else {
+      subgroups.push([entry]);
+    }
+  });
+
+  return subgroups.flatMap(subgroup => breakTies(subgroup, rest, context));
+}
+
+// Average for a player with no rounds: below every real one, and equal to each
+// other so the subtraction in breakTies stays a number
+const NO_ROUNDS_AVERAGE = Number.MIN_SAFE_INTEGER;
+
+// Each player's value for a tie-breaker, where higher is better
+function tieBreakValues(breaker: TieBreaker, group: StandingEntry[], context: TieBreakContext): Map<string, number> {
+  const values = new Map(group.map(entry => [entry.playerId, 0]));
+  const add = (playerId: string, amount: number) => {
+    if (values.has(playerId)) values.set(playerId, values.get(playerId)! + amount);
+  };
+
+  switch (breaker) {
+    case 'avg_score':
+      group.forEach(entry => values.set(entry.playerId, entry.avgScore === null ? NO_ROUNDS_AVERAGE : -entry.avgScore));
+      break;
+
+    case 'wins':
+      context.roundsByGame.forEach(gameRounds => {
+        const low = Math.min(...gameRounds.map(round => round.score));
+        gameRounds.filter(round => round.score === low).forEach(round => add(round.playerId, 1));
+      });
+      break;
+
+    case 'head_to_head':
+      context.roundsByGame.forEach(gameRounds => {
+        const tied = gameRounds.filter(round => values.has(round.playerId));
+        tied.forEach(round => {
+          add(round.playerId, tied.filter(other => other.score > round.score).length);
+        });
+      });
+      break;
+
+    case 'countback':
+      context.countbackGames.forEach(gameId => {
+        (context.roundsByGame.get(gameId) ?? []).forEach(round => add(round.playerId, round.points));
+      });
+      break;
+  }
+
+  return values;
+}
@@ -0,0 +1,80 @@
+// src/lib/utils/standingsHistory.ts
+
+/**
+ * Standings history
+ *
+ * A snapshot of the season standings is stored each time a regular-season
+ * game is marked completed (migration 015). Each snapshot keeps every
+ * player's rank as rankStandings gave it at that moment, so later changes
+ * to scores or tie-breakers do not rewrite history. Movement compares the
+ * two most recent snapshots: the places gained or lost in the last round.
+ */
+
+export interface SnapshotStanding {
+  playerId: string;
+  username: string;
+  rank: number;
+  tied: boolean;
+  points: number;
+}
+
+export interface StandingsSnapshot {
+  gameId: string;
+  gameName: string;
+  gameDate: string;
+  standings: SnapshotStanding[];
+}
+
+/**
+ * Places gained (positive) or lost (negative) since the previous snapshot
+ * @returns null for players who were not in the previous snapshot
+ */
+export function rankMovement(previousRank: number | null | undefined, rank: number): number | null {
+  if (previousRank === null || previousRank === undefined) return null;
+  return previousRank - rank;
+}
+
+/**
+ * Each player's movement over the last completed round
+ * @param snapshots Snapshots in the order the games were played
+ */
+export function latestMovements(snapshots: StandingsSnapshot[]): Map<string, number | null> {
+  const movements = new Map<string, number | null>();
+  if (snapshots.length === 0) return movements;
+
+  const latest = snapshots[snapshots.length - 1];
+  const previous = snapshots.length > 1 ? snapshots[snapshots.length - 2] : null;
+  const previousRanks = new Map(previous?.standings.map(s => [s.playerId, s.rank]) ?? []);
+
+  latest.standings.forEach(standing => {
+    movements.set(standing.playerId, previous ? rankMovement(previousRanks.get(standing.playerId), standing.rank) : null);
+  });
+  return movements;
+}
+
+/**
+ * e.g. "▲2", "▼1", "–" for no change, or "" when there is nothing to compare
+ */
+export function formatMovement(movement: number | null | undefined): string {
+  if (movement === null || movement === undefined) return '';
+  if (movement > 0) return `▲${movement}`;
+  if (movement < 0) return `▼${Math.abs(movement)}`;
+  return '–';
+}
+
+/**
+ * One chart row per snapshot with each chosen player's rank, keyed by player ID
+ * Players missing from a snapshot are left out of that row so the line has a gap
+ */
+export function rankHistorySeries(
+  snapshots: StandingsSnapshot[],
+  playerIds: string[]
+): Array<{ label: string } & Record<string, number | string>> {
+  return snapshots.map((snapshot, index) => {
+    const row: { label: string } & Record<string, number | string> = { label: `R${index + 1}` };
+    snapshot.standings.forEach(standing => {
+      if (playerIds.includes(standing.playerId)) row[standing.playerId] = standing.rank;
+    });
+    return row;
+  });
+}
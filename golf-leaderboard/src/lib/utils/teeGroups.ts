@@ -0,0 +1,247 @@
+// src/lib/utils/teeGroups.ts
+
+/**
+ * Tee-time groups and pairings
+ *
+ * A round's players can be split into tee-time groups (tee_groups, migration
+ * 024). The generator keeps groups to foursomes where it can, balances them
+ * by handicap index, and rotates partners across the season by avoiding
+ * players who have already shared a group. Once a round has groups, scores
+ * are attested within a group, and match play and best ball pairings can be
+ * taken from them.
+ */
+
+export const DEFAULT_GROUP_SIZE = 4;
+
+export interface TeeGroup {
+  /** Tee time as HH:MM, or null when not set */
+  teeTime: string | null;
+  playerIds: string[];
+}
+
+export interface GroupPlayer {
+  playerId: string;
+  handicap: number | null;
+}
+
+/** Times each pair of players has shared a group, keyed by pairKey */
+export type PairingHistory = Map<string, number>;
+
+/**
+ * Key for a pair of players, the same in either order
+ */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Count how often each pair of players has shared a group
+ * @param groups - Player ids of every earlier group in the season
+ */
+export function buildPairingHistory(groups: string[][]): PairingHistory {
+  const history: PairingHistory = new Map();
+  groups.forEach(group => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const key = pairKey(group[i], group[j]);
+        history.set(key, (history.get(key) ?? 0) + 1);
+      }
+    }
+  });
+  return history;
+}
+
+/**
+ * Group sizes for a field, as even as possible and no bigger than maxSize
+ * e.g. 9 players in foursomes: [3, 3, 3]; 10: [4, 3, 3]
+ */
+export function teeGroupSizes(playerCount: number, maxSize = DEFAULT_GROUP_SIZE): number[] {
+  if (playerCount <= 0) return [];
+
+  const groupCount = Math.ceil(playerCount / maxSize);
+  const base = Math.floor(playerCount / groupCount);
+  const larger = playerCount % groupCount;
+  return Array.from({ length: groupCount }, (_, i) => (i < larger ? base + 1 : base));
+}
+
+/**
+ * How many times the players in a group have already played together
+ */
+export function groupRepeats(playerIds: string[], history: PairingHistory): number {
+  let repeats = 0;
+  for (let i = 0; i < playerIds.length; i++) {
+    for (let j = i + 1; j < playerIds.length; j++) {
+      repeats += history.get(pairKey(playerIds[i], playerIds[j])) ?? 0;
+    }
+  }
+  return repeats;
+}
+
+/**
+ * Average handicap index of a group's players with one, or null if none have one
+ */
+export function groupAverageHandicap(playerIds: string[], handicaps: Map<string, number | null>): number | null {
+  const known = playerIds
+    .map(id => handicaps.get(id))
+    .filter((handicap): handicap is number => handicap !== null && handicap !== undefined);
+  if (known.length === 0) return null;
+  return known.reduce((sum, handicap) => sum + handicap, 0) / known.length;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Split a round's players into balanced groups that avoid repeat pairings
+ *
+ * Players are ranked by handicap index and dealt out a band at a time, so
+ * every group gets one player from each band. Within a band, each player
+ * goes to the group they have played with least, breaking ties towards the
+ * group with the highest handicap so far. Swaps between players in the same
+ * band then remove repeats the deal left behind.
+ * Players without an index are dealt last. Ties are broken with random, so
+ * the same field gives a different draw from week to week.
+ */
+export function generateTeeGroups(
+  players: GroupPlayer[],
+  history: PairingHistory,
+  maxSize = DEFAULT_GROUP_SIZE,
+  random: () => number = Math.random
+): string[][] {
+  const sizes = teeGroupSizes(players.length, maxSize);
+  if (sizes.length === 0) return [];
+
+  const known = players.filter(p => p.handicap !== null).map(p => p.handicap as number);
+  const fallback = known.length > 0 ? known.reduce((sum, h) => sum + h, 0) / known.length : 0;
+  const handicapOf = (player: GroupPlayer) => player.handicap ?? fallback;
+
+  const ranked = shuffle(players, random).sort((a, b) => {
+    if (a.handicap === null || b.handicap === null) {
+      return (a.handicap === null ? 1 : 0) - (b.handicap === null ? 1 : 0);
+    }
+    return a.handicap - b.handicap;
+  });
+
+  const bands: GroupPlayer[][] = [];
+  for (let i = 0; i < ranked.length; i += sizes.length) {
+    bands.push(ranked.slice(i, i + sizes.length));
+  }
+
+  const groups: GroupPlayer[][] = sizes.map(() => []);
+  const bandOf = new Map<string, number>();
+  const repeatsWith = (player: GroupPlayer, group: GroupPlayer[]) =>
+    groupRepeats([player.playerId, ...group.map(p => p.playerId)], history) -
+    groupRepeats(group.map(p => p.playerId), history);
+  const totalHandicap = (group: GroupPlayer[]) => group.reduce((sum, p) => sum + handicapOf(p), 0);
+
+  bands.forEach((band, bandIndex) => {
+    const open = new Set(groups.map((_, i) => i).filter(i => groups[i].length < sizes[i]));
+    band.forEach(player => {
+      let best = -1;
+      open.forEach(i => {
+        if (best === -1) {
+          best = i;
+          return;
+        }
+        const repeats = repeatsWith(player, groups[i]) - repeatsWith(player, groups[best]);
+        if (repeats < 0 || (repeats === 0 && totalHandicap(groups[i]) > totalHandicap(groups[best]))) {
+          best = i;
+        }
+      });
+      groups[best].push(player);
+      bandOf.set(player.playerId, bandIndex);
+      open.delete(best);
+    });
+  });
+
+  // Swap players of the same band between groups while it removes repeats
+  const repeatsIn = (group: GroupPlayer[]) => groupRepeats(group.map(p => p.playerId), history);
+  let improved = true;
+  for (let pass = 0; improved && pass < 20; pass++) {
+    improved = false;
+    for (let g = 0; g < groups.length; g++) {
+      for (let h = g + 1; h < groups.length; h++) {
+        for (let i = 0; i < groups[g].length; i++) {
+          for (let j = 0; j < groups[h].length; j++) {
+            const a = groups[g][i];
+            const b = groups[h][j];
+            if (bandOf.get(a.playerId) !== bandOf.get(b.playerId)) continue;
+
+            const before = repeatsIn(groups[g]) + repeatsIn(groups[h]);
+            groups[g][i] = b;
+            groups[h][j] = a;
+            if (repeatsIn(groups[g]) + repeatsIn(groups[h]) < before) {
+              improved = true;
+            } else {
+              groups[g][i] = a;
+              groups[h][j] = b;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return groups.map(group => group.map(p => p.playerId));
+}
+
+/**
+ * Tee times for groups, starting at a time and a fixed number of minutes apart
+ * @param start - First tee time as HH:MM
+ */
+export function teeTimesFrom(start: string, groupCount: number, intervalMinutes: number): string[] {
+  const [hours, minutes] = start.split(':').map(Number);
+  const first = hours * 60 + minutes;
+  return Array.from({ length: groupCount }, (_, i) => {
+    const time = (first + i * intervalMinutes) % (24 * 60);
+    return `${String(Math.floor(time / 60)).padStart(2, '0')}:${String(time % 60).padStart(2, '0')}`;
+  });
+}
+
+/**
+ * Check groups before saving them
+ * @returns Error message, or null if the groups can be saved
+ */
+export function validateTeeGroups(groups: TeeGroup[]): string | null {
+  const seen = new Set<string>();
+  for (const group of groups) {
+    for (const id of group.playerIds) {
+      if (seen.has(id)) return 'Each player can only be in one group';
+      seen.add(id);
+    }
+    if (group.teeTime !== null && !/^([01]\d|2[0-3]):[0-5]\d$/.test(group.teeTime)) {
+      return 'Tee times must be in HH:MM form';
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether two players are partners for attestation: in the same group, or
+ * either isn't in a group (mirrors are_playing_partners in migration 024)
+ */
+export function arePlayingPartners(groups: TeeGroup[], playerA: string, playerB: string): boolean {
+  const groupA = groups.find(group => group.playerIds.includes(playerA));
+  const groupB = groups.find(group => group.playerIds.includes(playerB));
+  return !groupA || !groupB || groupA === groupB;
+}
+
+/**
+ * Two-player pairings for match play or best ball, taken from each group in
+ * order (1 & 2, 3 & 4). The odd player out of a threesome is left unpaired
+ */
+export function pairingsFromGroups(groups: TeeGroup[]): string[][] {
+  return groups.flatMap(group => {
+    const pairs: string[][] = [];
+    for (let i = 0; i + 1 < group.playerIds.length; i += 2) {
+      pairs.push([group.playerIds[i], group.playerIds[i + 1]]);
+    }
+    return pairs;
+  });
+}